@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createBackup, restoreBackup } from '@/lib/database/service';
+import { withBackgroundWorkPaused } from '@/lib/services/backgroundWork';
+import { isSaaSMode } from '@/lib/config';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Downloads a backup: the SQLite database file (self-hosted) or a JSON dump
+ * of the current user's data (SaaS)
+ */
+export async function GET() {
+  try {
+    const backup = await createBackup();
+    return new NextResponse(new Uint8Array(backup.data), {
+      headers: {
+        'Content-Type': backup.contentType,
+        'Content-Disposition': `attachment; filename="${backup.fileName}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    logger.error(`Error creating backup: ${error}`, 'backup-api', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return NextResponse.json(
+      { error: 'Failed to create backup' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Restores a backup uploaded as the "file" form field, replacing all current data.
+ * A self-hosted restore swaps the database file, so the job worker and scheduler are
+ * paused until it is done.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File) || file.size === 0) {
+      return NextResponse.json(
+        { error: 'No backup file provided' },
+        { status: 400 }
+      );
+    }
+
+    const data = Buffer.from(await file.arrayBuffer());
+    await (isSaaSMode() ? restoreBackup(data) : withBackgroundWorkPaused(() => restoreBackup(data)));
+    logger.info(`Restored backup ${file.name}`, 'backup-api');
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error(`Error restoring backup: ${error}`, 'backup-api', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    // Validation errors explain what is wrong with the file
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to restore backup' },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { queryDevices } from '@/lib/database/service';
+import { parseDeviceQueryParams } from '@/lib/utils/deviceQuery';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * One page of the device inventory, filtered and sorted on the server.
+ * Query parameters: search, status, client, manufacturer, source, expiresWithin,
+ * lookupStatus, sort, order, cursor, limit
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const parsed = parseDeviceQueryParams(searchParams);
+  if ('error' in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const result = await queryDevices(parsed.query);
+    return NextResponse.json(result);
+  } catch (error) {
+    logger.error(`Error querying devices: ${error}`, 'devices-api', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return NextResponse.json(
+      { error: 'Failed to load devices' },
+      { status: 500 }
+    );
+  }
+}
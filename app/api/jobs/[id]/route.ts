@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { cancelJob, getJobById } from '@/lib/database/service';
+import { toPublicJob } from '@/lib/services/jobs';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+interface JobRouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: JobRouteParams) {
+  const { id } = await params;
+
+  try {
+    const job = await getJobById(id);
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+    return NextResponse.json(toPublicJob(job));
+  } catch (error) {
+    logger.error(`Error fetching job ${id}: ${error}`, 'jobs-api', {
+      jobId: id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return NextResponse.json(
+      { error: 'Failed to fetch job' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: Request, { params }: JobRouteParams) {
+  const { id } = await params;
+
+  try {
+    const canceled = await cancelJob(id);
+    if (!canceled) {
+      return NextResponse.json({ error: 'Job not found or already finished' }, { status: 404 });
+    }
+    logger.info(`Canceled job ${id}`, 'jobs-api', { jobId: id });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error(`Error canceling job ${id}: ${error}`, 'jobs-api', {
+      jobId: id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return NextResponse.json(
+      { error: 'Failed to cancel job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { getRecentJobs } from '@/lib/database/service';
+import { enqueueWarrantyLookupJob, toPublicJob } from '@/lib/services/jobs';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const activeOnly = searchParams.get('active') === 'true';
+
+    const jobs = await getRecentJobs();
+    const filteredJobs = activeOnly
+      ? jobs.filter(job => job.status === 'queued' || job.status === 'running')
+      : jobs;
+
+    return NextResponse.json(filteredJobs.map(toPublicJob));
+  } catch (error) {
+    logger.error(`Error listing jobs: ${error}`, 'jobs-api', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return NextResponse.json(
+      { error: 'Failed to list jobs' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { serialNumbers, clientName, skipExisting, credentials } = await request.json();
+
+    if (serialNumbers !== undefined && !Array.isArray(serialNumbers)) {
+      return NextResponse.json(
+        { error: 'serialNumbers must be an array' },
+        { status: 400 }
+      );
+    }
+
+    const job = await enqueueWarrantyLookupJob({
+      serialNumbers,
+      clientName,
+      skipExisting: !!skipExisting,
+      credentials
+    });
+
+    return NextResponse.json(job, { status: 201 });
+  } catch (error) {
+    logger.error(`Error enqueuing warranty lookup job: ${error}`, 'jobs-api', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return NextResponse.json(
+      { error: 'Failed to start warranty lookup' },
+      { status: 500 }
+    );
+  }
+}
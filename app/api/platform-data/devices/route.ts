@@ -1,8 +1,6 @@
 import { NextResponse } from 'next/server';
 import { Platform } from '../../../../types/platform';
-import { fetchDattoDevices } from '../../../../lib/platforms/datto';
-import { fetchNCentralDevices } from '../../../../lib/platforms/ncentral';
-import { fetchHaloPSADevices } from '../../../../lib/platforms/halopsa';
+import { fetchPlatformDevices, isSyncPlatform } from '../../../../lib/services/platformSync';
 import { storeDevicesInPool } from '../../../../lib/services/warrantySync';
 import { logger } from '@/lib/logger';
 import { checkPlanLimits } from '@/lib/subscription/service';
@@ -18,34 +16,22 @@ export async function POST(request: Request) {
     // Ensure we have at least an empty credentials object
     const safeCredentials = credentials || {};
     
-    let devices;
-    
-    switch (platform) {
-      case Platform.DATTO_RMM:
-        devices = await fetchDattoDevices(safeCredentials);
-        break;
-        
-      case Platform.NCENTRAL:
-        devices = await fetchNCentralDevices(safeCredentials);
-        break;
-        
-      case Platform.HALOPSA:
-        devices = await fetchHaloPSADevices(safeCredentials);
-        break;
-        
-      case Platform.CSV:
-        // CSV upload would be handled differently through a form upload
-        return NextResponse.json(
-          { error: 'CSV upload should be handled via file upload' },
-          { status: 400 }
-        );
-        
-      default:
-        return NextResponse.json(
-          { error: 'Unsupported platform' },
-          { status: 400 }
-        );
+    if (platform === Platform.CSV) {
+      // CSV upload would be handled differently through a form upload
+      return NextResponse.json(
+        { error: 'CSV upload should be handled via file upload' },
+        { status: 400 }
+      );
+    }
+
+    if (!isSyncPlatform(platform)) {
+      return NextResponse.json(
+        { error: 'Unsupported platform' },
+        { status: 400 }
+      );
     }
+
+    const devices = await fetchPlatformDevices(platform, safeCredentials);
     
     // Store devices in database for caching and tracking
     if (devices && devices.length > 0) {
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { isSyncPlatform, testPlatformConnection } from '../../../../lib/services/platformSync';
+import { logger } from '@/lib/logger';
+
+/**
+ * Checks whether a platform accepts the given credentials, without saving them
+ */
+export async function POST(request: Request) {
+  try {
+    const { platform, credentials } = await request.json();
+
+    if (!isSyncPlatform(platform)) {
+      return NextResponse.json(
+        { error: 'Unsupported platform' },
+        { status: 400 }
+      );
+    }
+
+    const isValid = await testPlatformConnection(platform, credentials || {});
+    logger.info(`Tested ${platform} connection: ${isValid ? 'valid' : 'invalid'}`, 'platform-api', {
+      platform,
+      isValid
+    });
+    return NextResponse.json({ valid: isValid });
+  } catch (error) {
+    logger.error(`Error testing platform connection: ${error}`, 'platform-api', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return NextResponse.json(
+      { error: 'Failed to test connection' },
+      { status: 500 }
+    );
+  }
+}
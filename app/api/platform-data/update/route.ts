@@ -1,25 +1,9 @@
 import { NextResponse } from 'next/server';
-import { Platform } from '../../../../types/platform';
 import { WarrantyInfo } from '../../../../types/warranty';
-import { updateDattoWarranty } from '../../../../lib/platforms/datto';
-import { updateNCentralWarranty } from '../../../../lib/platforms/ncentral';
 import { markWarrantyAsWrittenBack } from '../../../../lib/services/warrantySync';
-import { HaloPSACredentials, updateHaloPSAWarranty } from '@/lib/platforms/halopsa';
+import { isSyncPlatform, updatePlatformWarranty } from '../../../../lib/services/platformSync';
 import { logger } from '@/lib/logger';
 
-// Define typed credentials for each platform
-type DattoCredentials = {
-  url?: string;
-  apiKey?: string;
-  secretKey?: string;
-};
-
-type NCentralCredentials = {
-  serverUrl?: string;
-  username?: string;
-  password?: string;
-};
-
 export async function POST(request: Request) {
   try {
     const { platform, deviceId, warrantyInfo, credentials } = await request.json();
@@ -33,63 +17,26 @@ export async function POST(request: Request) {
     }
     
     const warranty = warrantyInfo as WarrantyInfo;
-    let updateSuccess = false;
-    
-    switch (platform) {
-      case Platform.DATTO_RMM: {
-        logger.info(`Updating device ${deviceId} in Datto RMM with warranty info`, 'update-api', {
-          deviceId,
-          platform,
-          warrantyEndDate: warranty.endDate,
-          serialNumber: warranty.serialNumber
-        });
-        const dattoCreds = credentials as DattoCredentials;
-        updateSuccess = await updateDattoWarranty(
-          deviceId,
-          warranty.endDate,
-          dattoCreds
-        );
-        break;
-      }
-      
-      case Platform.NCENTRAL: {
-        logger.info(`Updating device ${deviceId} in N-central with warranty info`, 'update-api', {
-          deviceId,
-          platform,
-          warrantyEndDate: warranty.endDate,
-          serialNumber: warranty.serialNumber
-        });
-        const ncentralCreds = credentials as NCentralCredentials;
-        updateSuccess = await updateNCentralWarranty(
-          deviceId,
-          warranty.endDate,
-          ncentralCreds
-        );
-        break;
-      }
 
-      case Platform.HALOPSA: {
-        logger.info(`Updating device ${deviceId} in HaloPSA with warranty info`, 'update-api', {
-          deviceId,
-          platform,
-          warrantyEndDate: warranty.endDate,
-          serialNumber: warranty.serialNumber
-        });
-        const haloPSACreds = credentials as HaloPSACredentials;
-        updateSuccess = await updateHaloPSAWarranty(
-          deviceId,
-          warranty.endDate,
-          haloPSACreds
-        );
-        break;
-      }
-      default: {
-        return NextResponse.json(
-          { error: `Platform ${platform} is not supported for updates` },
-          { status: 400 }
-        );
-      }
+    if (!isSyncPlatform(platform)) {
+      return NextResponse.json(
+        { error: `Platform ${platform} is not supported for updates` },
+        { status: 400 }
+      );
     }
+
+    logger.info(`Updating device ${deviceId} in ${platform} with warranty info`, 'update-api', {
+      deviceId,
+      platform,
+      warrantyEndDate: warranty.endDate,
+      serialNumber: warranty.serialNumber
+    });
+    const updateSuccess = await updatePlatformWarranty(
+      platform,
+      deviceId,
+      { startDate: warranty.startDate || undefined, endDate: warranty.endDate },
+      credentials
+    );
     
     if (!updateSuccess) {
       return NextResponse.json(
@@ -99,7 +46,7 @@ export async function POST(request: Request) {
     }
     
     // Mark warranty as written back in database
-    await markWarrantyAsWrittenBack(warranty.serialNumber);
+    await markWarrantyAsWrittenBack(warranty.serialNumber, { platform, sourceDeviceId: String(deviceId) });
     logger.info(`Successfully updated warranty for device ${deviceId} in ${platform}`, 'update-api', {
       deviceId,
       platform,
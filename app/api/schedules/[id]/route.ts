@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { deleteSchedule } from '@/lib/database/service';
+import { saveSchedule, validateScheduleInput } from '@/lib/services/schedules';
+import { checkPlanLimits } from '@/lib/subscription/service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+interface ScheduleRouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function PUT(request: Request, { params }: ScheduleRouteParams) {
+  const { id } = await params;
+
+  if (!await checkPlanLimits()) {
+    return NextResponse.json({ error: 'Plan limit reached. Please upgrade to import more devices.' }, { status: 403 });
+  }
+
+  try {
+    const body = await request.json();
+
+    const validationError = validateScheduleInput(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const schedule = await saveSchedule(body, id);
+    if (!schedule) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+    }
+    return NextResponse.json(schedule);
+  } catch (error) {
+    logger.error(`Error updating sync schedule ${id}: ${error}`, 'schedules-api', {
+      scheduleId: id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return NextResponse.json(
+      { error: 'Failed to update schedule' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: Request, { params }: ScheduleRouteParams) {
+  const { id } = await params;
+
+  try {
+    const deleted = await deleteSchedule(id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+    }
+    logger.info(`Deleted sync schedule ${id}`, 'schedules-api', { scheduleId: id });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error(`Error deleting sync schedule ${id}: ${error}`, 'schedules-api', {
+      scheduleId: id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return NextResponse.json(
+      { error: 'Failed to delete schedule' },
+      { status: 500 }
+    );
+  }
+}
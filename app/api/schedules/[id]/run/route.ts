@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { runScheduleNow } from '@/lib/services/schedules';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+interface ScheduleRunRouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(_request: Request, { params }: ScheduleRunRouteParams) {
+  const { id } = await params;
+
+  try {
+    const schedule = await runScheduleNow(id);
+    if (!schedule) {
+      return NextResponse.json({ error: 'Schedule not found or disabled' }, { status: 404 });
+    }
+    return NextResponse.json(schedule, { status: 202 });
+  } catch (error) {
+    logger.error(`Error starting sync schedule ${id}: ${error}`, 'schedules-api', {
+      scheduleId: id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return NextResponse.json(
+      { error: 'Failed to start schedule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { getSchedules } from '@/lib/database/service';
+import { saveSchedule, toPublicSchedule, validateScheduleInput } from '@/lib/services/schedules';
+import { checkPlanLimits } from '@/lib/subscription/service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const schedules = await getSchedules();
+    return NextResponse.json(schedules.map(toPublicSchedule));
+  } catch (error) {
+    logger.error(`Error listing sync schedules: ${error}`, 'schedules-api', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return NextResponse.json(
+      { error: 'Failed to list schedules' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  // Scheduled runs have no user session to check limits against, so check them here
+  if (!await checkPlanLimits()) {
+    return NextResponse.json({ error: 'Plan limit reached. Please upgrade to import more devices.' }, { status: 403 });
+  }
+
+  try {
+    const body = await request.json();
+
+    const validationError = validateScheduleInput(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const schedule = await saveSchedule(body);
+    return NextResponse.json(schedule, { status: 201 });
+  } catch (error) {
+    logger.error(`Error creating sync schedule: ${error}`, 'schedules-api', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return NextResponse.json(
+      { error: 'Failed to create schedule' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,12 @@
 import ConfigForm from '../../components/ConfigForm';
+import DatabaseBackup from '../../components/DatabaseBackup';
 
 export default function ConfigPage() {
   return (
     <div className="container mx-auto py-12 px-4">
       <h1 className="text-3xl font-bold mb-8">Configuration</h1>
       <ConfigForm />
+      <DatabaseBackup />
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,251 @@
+import { notFound } from 'next/navigation';
+import Link from 'next/link';
+import { ReactNode } from 'react';
+import { getDeviceById, getDeviceEntitlements, getWarrantyHistory } from '@/lib/database/service';
+import { formatRelativeTime, formatWarrantyDate } from '@/lib/utils/dateUtils';
+import { inferWarrantyStatus } from '@/lib/utils/warrantyUtils';
+import { formatMemory } from '@/lib/utils/deviceUtils';
+import { getWarrantyRefreshReason } from '@/lib/utils/warrantyRefresh';
+import { appConfig } from '@/lib/config';
+import WarrantyHistoryTimeline from '@/components/WarrantyHistoryTimeline';
+import DeviceActions from '@/components/DeviceActions';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Device } from '@/types/device';
+import { WarrantyEntitlement, WarrantyHistoryEntry } from '@/types/warranty';
+import { logger } from '@/lib/logger';
+
+// Force this page to be dynamic (not statically generated)
+export const dynamic = 'force-dynamic';
+
+interface DevicePageProps {
+  params: Promise<{ id: string }>;
+}
+
+function formatEpoch(epochSeconds?: number): string {
+  return epochSeconds
+    ? `${new Date(epochSeconds * 1000).toLocaleString()} (${formatRelativeTime(new Date(epochSeconds * 1000).toISOString())})`
+    : 'Never';
+}
+
+function DetailList({ items }: { items: [string, ReactNode][] }) {
+  return (
+    <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3">
+      {items.map(([label, value]) => (
+        <div key={label}>
+          <dt className="text-xs text-muted-foreground">{label}</dt>
+          <dd className="text-sm">{value || <span className="text-muted-foreground">-</span>}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+export default async function DevicePage({ params }: DevicePageProps) {
+  const { id } = await params;
+
+  let device: Device | null = null;
+  let entitlements: WarrantyEntitlement[] = [];
+  let history: WarrantyHistoryEntry[] = [];
+
+  try {
+    device = await getDeviceById(id);
+    if (device) {
+      [entitlements, history] = await Promise.all([
+        getDeviceEntitlements(device.serialNumber),
+        getWarrantyHistory(device.serialNumber)
+      ]);
+    }
+  } catch (error) {
+    logger.error(`Error loading device ${id}: ${error}`, 'device-page', {
+      deviceId: id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  if (!device) {
+    notFound();
+  }
+
+  const warrantyStatus = inferWarrantyStatus(device.warrantyEndDate);
+  const refreshReason = getWarrantyRefreshReason(device, appConfig.warrantyRefresh);
+
+  return (
+    <div className="container mx-auto py-12 px-4">
+      <div className="space-y-6">
+        <div>
+          <Link href="/" className="text-sm text-muted-foreground hover:underline">
+            &larr; Back to devices
+          </Link>
+          <div className="flex flex-wrap items-center gap-3">
+            <h1 className="text-3xl font-bold tracking-tight">{device.hostname || 'Unknown Device'}</h1>
+            <Badge variant={warrantyStatus === 'expired' ? 'destructive' : warrantyStatus === 'active' ? 'default' : 'secondary'}>
+              {warrantyStatus}
+            </Badge>
+          </div>
+          <p className="text-muted-foreground">
+            {device.manufacturer} {device.model} &middot; {device.serialNumber}
+            {device.clientName && <> &middot; {device.clientName}</>}
+          </p>
+        </div>
+
+        <DeviceActions device={device} />
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card className="w-full">
+            <CardHeader>
+              <CardTitle className="text-xl font-bold">Device</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <DetailList
+                items={[
+                  ['Hostname', device.hostname],
+                  ['Serial Number', device.serialNumber],
+                  ['Manufacturer', device.manufacturer],
+                  ['Model', device.model],
+                  ['Client', device.clientName],
+                  ['Client ID', device.clientId],
+                  ['Device Class', device.deviceClass],
+                  ['Memory', formatMemory(device.totalMemory)],
+                  ['CPU Cores', device.totalCpuCores],
+                  ['Last Imported From', device.sourcePlatform],
+                  ['Source Device ID', device.sourceDeviceId],
+                  ['Database ID', device.id]
+                ]}
+              />
+            </CardContent>
+          </Card>
+
+          <Card className="w-full">
+            <CardHeader>
+              <CardTitle className="text-xl font-bold">Warranty</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <DetailList
+                items={[
+                  ['Start Date', formatWarrantyDate(device.warrantyStartDate)],
+                  ['End Date', formatWarrantyDate(device.warrantyEndDate)],
+                  ['Last Fetched', formatEpoch(device.warrantyFetchedAt)],
+                  ['Written Back', formatEpoch(device.warrantyWrittenBackAt)],
+                  ['Last Lookup', formatEpoch(device.warrantyLookupAttemptedAt)],
+                  ['Lookup Status', device.warrantyLookupStatus],
+                  ['Lookup Attempts', device.warrantyLookupAttempts],
+                  ['Lookup Error', device.warrantyLookupError],
+                  ['Refresh Due', refreshReason ? `Yes (${refreshReason})` : 'No']
+                ]}
+              />
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="w-full">
+          <CardHeader>
+            <CardTitle className="text-xl font-bold">Sources</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {device.sources && device.sources.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Platform</TableHead>
+                    <TableHead>Source Device ID</TableHead>
+                    <TableHead>Client (as reported)</TableHead>
+                    <TableHead>Last Seen</TableHead>
+                    <TableHead>Written Back</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {device.sources.map(source => (
+                    <TableRow key={`${source.platform}-${source.sourceDeviceId}`}>
+                      <TableCell>{source.platform}</TableCell>
+                      <TableCell className="font-mono text-xs">{source.sourceDeviceId}</TableCell>
+                      <TableCell>{source.clientName || '-'}</TableCell>
+                      <TableCell>{formatEpoch(source.lastSeenAt)}</TableCell>
+                      <TableCell>{formatEpoch(source.warrantyWrittenBackAt)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground">Not linked to any platform records (e.g. imported from CSV only).</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="w-full">
+          <CardHeader>
+            <CardTitle className="text-xl font-bold">Coverage</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {entitlements.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Code</TableHead>
+                    <TableHead>Start Date</TableHead>
+                    <TableHead>End Date</TableHead>
+                    <TableHead>Provider</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entitlements.map((entitlement, index) => (
+                    <TableRow key={index}>
+                      <TableCell>{entitlement.description}</TableCell>
+                      <TableCell>{entitlement.serviceLevelCode || '-'}</TableCell>
+                      <TableCell>{formatWarrantyDate(entitlement.startDate)}</TableCell>
+                      <TableCell>{formatWarrantyDate(entitlement.endDate)}</TableCell>
+                      <TableCell>{entitlement.provider}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground">No coverage line items recorded.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="w-full">
+          <CardHeader>
+            <CardTitle className="text-xl font-bold">Network Interfaces</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {device.networkInterfaces && device.networkInterfaces.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>MAC Address</TableHead>
+                    <TableHead>IPv4</TableHead>
+                    <TableHead>IPv6</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {device.networkInterfaces.map((networkInterface, index) => (
+                    <TableRow key={index}>
+                      <TableCell className="font-mono text-xs">{networkInterface.macAddress}</TableCell>
+                      <TableCell>{networkInterface.ipv4 || '-'}</TableCell>
+                      <TableCell>{networkInterface.ipv6 || '-'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground">No network interfaces recorded.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="w-full">
+          <CardHeader>
+            <CardTitle className="text-xl font-bold">Warranty History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <WarrantyHistoryTimeline history={history} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -35,6 +35,11 @@ export default function RootLayout({
                       <Button variant="ghost">Configuration</Button>
                     </Link>
                   </li>
+                  <li>
+                    <Link href="/schedules">
+                      <Button variant="ghost">Schedules</Button>
+                    </Link>
+                  </li>
                   <li>
                     <Link href="/reports/lifecycle">
                       <Button variant="ghost">Reports</Button>
@@ -1,8 +1,7 @@
 import ImportDevices from '@/components/ImportDevices';
 import SyncWarranties from '@/components/SyncWarranties';
 import UserProfile from '@/components/UserProfile';
-import { getAllDevices } from '@/lib/database/service';
-import { Device } from '@/types/device';
+import { getDeviceCountByClient, queryDevices } from '@/lib/database/service';
 import { logger } from '@/lib/logger';
 import { isSaaSMode } from '@/lib/config';
 
@@ -10,22 +9,27 @@ import { isSaaSMode } from '@/lib/config';
 export const dynamic = 'force-dynamic';
 
 export default async function HomePage() {
-  // Load initial database data on the server
-  let initialDevices: Device[] = [];
+  // Only counts are loaded here; the results table fetches its pages from /api/devices
+  let deviceCount = 0;
+  let clientCounts: { clientName: string; count: number }[] = [];
 
   try {
-    // Get all devices from database (user context handled automatically)
-    const dbDevices = await getAllDevices();
-    initialDevices = dbDevices;
+    // User context handled automatically
+    const [{ totalCount }, countsByClient] = await Promise.all([
+      queryDevices({ limit: 1 }),
+      getDeviceCountByClient()
+    ]);
+    deviceCount = totalCount;
+    clientCounts = countsByClient;
     
     if (isSaaSMode()) {
-      logger.debug('Loaded devices for authenticated user', 'homepage', { count: initialDevices.length });
+      logger.debug('Loaded device counts for authenticated user', 'homepage', { count: deviceCount });
     }
   } catch (error) {
     logger.error(`Error loading initial database data: ${error}`, 'homepage', {
       error: error instanceof Error ? error.message : String(error)
     });
-    // Continue with empty arrays - component will handle gracefully
+    // Continue with zero counts - component will handle gracefully
   }
 
   return (
@@ -33,7 +37,7 @@ export default async function HomePage() {
       <div className="space-y-6">
         <UserProfile />
         <ImportDevices />
-        <SyncWarranties devices={initialDevices} />
+        <SyncWarranties deviceCount={deviceCount} clientCounts={clientCounts} />
       </div>
     </div>
   );
@@ -1,4 +1,4 @@
-import { getAllDevices, getUniqueClientNames, getDeviceCountByClient, getDevicesByClientName } from '@/lib/database/service';
+import { getAllDevices, getUniqueClientNames, getDeviceCountByClient, getDevicesByClientName, getAllDeviceEntitlements } from '@/lib/database/service';
 import { deviceToWarrantyInfo } from '@/lib/utils/deviceUtils';
 import LifecycleReport from '@/components/LifecycleReport';
 import ClientSelector from '@/components/ClientSelector';
@@ -60,10 +60,14 @@ export default async function LifecycleReportPage({ searchParams }: ReportParams
       selectedClientName = undefined;
     }
     
-    // Convert devices to warranty info format
+    // Convert devices to warranty info format, including their coverage line items
+    const entitlementsBySerial = await getAllDeviceEntitlements();
     warrantyData = devices
       .filter(device => device.serialNumber) // Only include devices with serial numbers
-      .map(device => deviceToWarrantyInfo(device));
+      .map(device => deviceToWarrantyInfo({
+        ...device,
+        entitlements: entitlementsBySerial[device.serialNumber]
+      }));
     
   } catch (error) {
     logger.error(`Error loading devices for lifecycle report: ${error}`, 'lifecycle-report', {
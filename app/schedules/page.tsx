@@ -0,0 +1,40 @@
+import SyncSchedules from '@/components/SyncSchedules';
+import { getRecentScheduleRuns, getSchedules } from '@/lib/database/service';
+import { toPublicSchedule } from '@/lib/services/schedules';
+import { ScheduleRun, SyncSchedule } from '@/types/schedule';
+import { logger } from '@/lib/logger';
+
+// Force this page to be dynamic (not statically generated)
+export const dynamic = 'force-dynamic';
+
+export default async function SchedulesPage() {
+  let schedules: SyncSchedule[] = [];
+  let runs: ScheduleRun[] = [];
+
+  try {
+    const [dbSchedules, dbRuns] = await Promise.all([
+      getSchedules(),
+      getRecentScheduleRuns()
+    ]);
+    schedules = dbSchedules.map(toPublicSchedule);
+    runs = dbRuns;
+  } catch (error) {
+    logger.error(`Error loading sync schedules: ${error}`, 'schedules-page', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  return (
+    <div className="container mx-auto py-12 px-4">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Scheduled Sync</h1>
+          <p className="text-muted-foreground">
+            Import devices, look up missing warranties and write them back to your platforms automatically.
+          </p>
+        </div>
+        <SyncSchedules schedules={schedules} runs={runs} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import DeviceTrash from '@/components/DeviceTrash';
+import { getDeletedDevices } from '@/lib/database/service';
+import { appConfig } from '@/lib/config';
+import { Device } from '@/types/device';
+import { logger } from '@/lib/logger';
+
+// Force this page to be dynamic (not statically generated)
+export const dynamic = 'force-dynamic';
+
+export default async function TrashPage() {
+  let devices: Device[] = [];
+  const trashDays = appConfig.retention.trashDays;
+
+  try {
+    devices = await getDeletedDevices();
+  } catch (error) {
+    logger.error(`Error loading deleted devices: ${error}`, 'trash-page', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  return (
+    <div className="container mx-auto py-12 px-4">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Trash</h1>
+          <p className="text-muted-foreground">
+            {trashDays > 0
+              ? `Deleted devices are kept for ${trashDays} days and can be restored until then. Importing a deleted device again also restores it.`
+              : 'Deleted devices are kept until restored. Importing a deleted device again also restores it.'}
+          </p>
+        </div>
+        <DeviceTrash devices={devices} trashDays={trashDays} />
+      </div>
+    </div>
+  );
+}
@@ -1,197 +1,210 @@
 'use client';
 
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
 import * as z from 'zod';
-import { Manufacturer } from '../types/manufacturer';
-import { Platform } from '../types/platform';
+import { PlatformCredentials } from '../types/platform';
 import { getManufacturerCredentials, getPlatformCredentials, saveManufacturerCredentials, savePlatformCredentials } from '../lib/storage';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { logger } from '@/lib/logger';
 import { isSaaSMode } from '@/lib/config';
+import { getWarrantyProviderDefinitions } from '@/lib/manufacturers/definitions';
+import { getPlatformDefinitions, getWriteBackCapabilities } from '@/lib/platforms/definitions';
+import { PlatformWriteBackCapabilities } from '@/lib/platforms/types';
+import { testManufacturerCredentials } from '@/lib/services/warrantySync';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from './ui/form';
 import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
 import { Button } from './ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { AlertCircle } from 'lucide-react';
 
-// Manufacturer credentials schema
-const manufacturerSchema = z.object({
-  [Manufacturer.DELL]: z.object({
-    clientId: z.string(),
-    clientSecret: z.string(),
-  }).refine(
-    data => {
-      // If any field is filled, both fields are required
-      const hasClientId = data.clientId.trim() !== '';
-      const hasClientSecret = data.clientSecret.trim() !== '';
-      // Allow both empty or both filled
-      return (!hasClientId && !hasClientSecret) || (hasClientId && hasClientSecret);
-    },
-    {
-      message: "Both Client ID and Client Secret are required if either is provided",
-      path: ['clientId'] // Attach error to clientId field to aid display
-    }
-  ),
-  [Manufacturer.HP]: z.object({
-    apiKey: z.string(),
-  }),
-  [Manufacturer.LENOVO]: z.object({
-    apiKey: z.string(),
-  }),
-});
+type ManufacturerFormValues = Record<string, Record<string, string>>;
 
-// Platform credentials schema
-const platformSchema = z.object({
-  [Platform.DATTO_RMM]: z.object({
-    url: z.string(),
-    apiKey: z.string(),
-    secretKey: z.string(),
-  })
-  .refine(
-    data => {
-      // If any field is filled, all fields are required
-      const hasAnyValue = data.url || data.apiKey || data.secretKey;
-      if (!hasAnyValue) return true; // All fields are empty, that's valid
-      return Boolean(data.url && data.apiKey && data.secretKey);
-    },
-    {
-      message: "All Datto RMM fields are required if any of them are filled",
-      path: ['url'] // Attach error to url field to aid display
-    }
-  ),
-  [Platform.NCENTRAL]: z.object({
-    serverUrl: z.string(),
-    apiToken: z.string(),
-  })
-  .refine(
-    data => {
-      // If any field is filled, all fields are required
-      const hasAnyValue = data.serverUrl || data.apiToken;
-      if (!hasAnyValue) return true; // All fields are empty, that's valid
-      logger.debug('N-Central credential validation result', 'config-form', {
-        hasServerUrl: Boolean(data.serverUrl),
-        hasApiToken: Boolean(data.apiToken),
-        result: Boolean(data.serverUrl && data.apiToken)
-      });
-      return Boolean(data.serverUrl && data.apiToken);
-    },
-    {
-      message: "All N-central fields are required if any of them are filled",
-      path: ['serverUrl'] // Attach error to serverUrl field to aid display
-    }
-  ),
-  [Platform.HALOPSA]: z.object({
-    url: z.string(),
-    clientId: z.string(),
-    clientSecret: z.string(),
-  })
-  .refine(
-    data => {
-      // If any field is filled, all fields are required
-      const hasAnyValue = data.url || data.clientId || data.clientSecret;
-      if (!hasAnyValue) return true; // All fields are empty, that's valid
-      return Boolean(data.url && data.clientId && data.clientSecret);
-    },
-    {
-      message: "All HaloPSA fields are required if any of them are filled",
-      path: ['url'] // Attach error to url field to aid display
-    }
-  ),
-});
+// Manufacturer credentials schema, built from each provider's credential fields
+const manufacturerSchema = z.object(Object.fromEntries(
+  getWarrantyProviderDefinitions().map(provider => [
+    provider.id,
+    z.object(Object.fromEntries(
+      provider.credentialFields.map(field => [field.key, z.string()])
+    )).refine(
+      data => {
+        // If any required field is filled, all required fields are required
+        const requiredValues = provider.credentialFields
+          .filter(field => !field.optional)
+          .map(field => (data[field.key] || '').trim());
+        const hasAnyValue = requiredValues.some(Boolean);
+        if (!hasAnyValue) return true; // All fields are empty, that's valid
+        return requiredValues.every(Boolean);
+      },
+      {
+        message: `All ${provider.name} fields are required if any of them are filled`,
+        path: [provider.credentialFields[0].key] // Attach error to the first field to aid display
+      }
+    )
+  ])
+));
+
+function getEmptyManufacturerValues(): ManufacturerFormValues {
+  return Object.fromEntries(
+    getWarrantyProviderDefinitions().map(provider => [
+      provider.id,
+      Object.fromEntries(provider.credentialFields.map(field => [field.key, '']))
+    ])
+  );
+}
+
+type PlatformFormValues = Record<string, Record<string, string>>;
+
+// Platform credentials schema, built from each connector's credential fields
+const platformSchema = z.object(Object.fromEntries(
+  getPlatformDefinitions().map(definition => [
+    definition.id,
+    z.object(Object.fromEntries(
+      definition.credentialFields.map(field => [field.key, z.string()])
+    )).refine(
+      data => {
+        // If any required field is filled, all required fields are required
+        const requiredValues = definition.credentialFields
+          .filter(field => !field.optional)
+          .map(field => (data[field.key] || '').trim());
+        const hasAnyValue = requiredValues.some(Boolean);
+        if (!hasAnyValue) return true; // All fields are empty, that's valid
+        return requiredValues.every(Boolean);
+      },
+      {
+        message: `All ${definition.name} fields are required if any of them are filled`,
+        path: [definition.credentialFields[0].key] // Attach error to the first field to aid display
+      }
+    )
+  ])
+));
+
+function getEmptyPlatformValues(): PlatformFormValues {
+  return Object.fromEntries(
+    getPlatformDefinitions().map(definition => [
+      definition.id,
+      Object.fromEntries(definition.credentialFields.map(field => [field.key, '']))
+    ])
+  );
+}
+
+// e.g. "warranty start date, warranty end date"
+function describeWriteBack(writeBack: PlatformWriteBackCapabilities): string {
+  const fields = [
+    writeBack.startDate && 'warranty start date',
+    writeBack.endDate && 'warranty end date',
+    writeBack.notes && 'warranty notes'
+  ].filter(Boolean);
+  return fields.length > 0 ? fields.join(', ') : 'nothing';
+}
 
 export default function ConfigForm() {
   // Manufacturer form
-  const manufacturerForm = useForm<z.infer<typeof manufacturerSchema>>({
+  const manufacturerForm = useForm<ManufacturerFormValues>({
     resolver: zodResolver(manufacturerSchema),
-    defaultValues: {
-      [Manufacturer.DELL]: { clientId: '', clientSecret: '' },
-      [Manufacturer.HP]: { apiKey: '' },
-      [Manufacturer.LENOVO]: { apiKey: '' },
-    },
+    defaultValues: getEmptyManufacturerValues(),
   });
+  const [testingProviderId, setTestingProviderId] = useState<string | null>(null);
   
   // Platform form
-  const platformForm = useForm<z.infer<typeof platformSchema>>({
+  const platformForm = useForm<PlatformFormValues>({
     resolver: zodResolver(platformSchema),
-    defaultValues: {
-      [Platform.DATTO_RMM]: { url: '', apiKey: '', secretKey: '' },
-      [Platform.NCENTRAL]: { serverUrl: '', apiToken: '' },
-      [Platform.HALOPSA]: { url: '', clientId: '', clientSecret: '' },
-    },
+    defaultValues: getEmptyPlatformValues(),
   });
+  const [testingPlatform, setTestingPlatform] = useState<string | null>(null);
   
   // Load saved credentials on mount
   useEffect(() => {
-    const manufacturerCreds = getManufacturerCredentials();
+    const manufacturerCreds = getManufacturerCredentials() as Partial<ManufacturerFormValues>;
     if (Object.keys(manufacturerCreds).length > 0) {
-      // Ensure all manufacturer fields are defined with the new structure
-      const mergedManufacturerCreds = {
-        ...manufacturerForm.getValues(),
-        ...manufacturerCreds,
-        [Manufacturer.DELL]: {
-          clientId: manufacturerCreds[Manufacturer.DELL]?.clientId || '',
-          clientSecret: manufacturerCreds[Manufacturer.DELL]?.clientSecret || '',
-        },
-        [Manufacturer.HP]: {
-          apiKey: manufacturerCreds[Manufacturer.HP]?.apiKey || '',
-        },
-        [Manufacturer.LENOVO]: {
-          apiKey: manufacturerCreds[Manufacturer.LENOVO]?.apiKey || manufacturerCreds[Manufacturer.HP]?.apiKey || '',
-        }
-      };
+      // Ensure every provider field is defined, even if it was not saved before
+      const emptyValues = getEmptyManufacturerValues();
+      const mergedManufacturerCreds = Object.fromEntries(
+        Object.entries(emptyValues).map(([providerId, fields]) => [
+          providerId,
+          { ...fields, ...manufacturerCreds[providerId] }
+        ])
+      );
       manufacturerForm.reset(mergedManufacturerCreds);
     }
     
-    const platformCreds = getPlatformCredentials();
+    const platformCreds = getPlatformCredentials() as Partial<PlatformFormValues>;
     if (Object.keys(platformCreds).length > 0) {
-      // Ensure all platform fields are defined
-      const mergedPlatformCreds = {
-        ...platformForm.getValues(),
-        ...platformCreds,
-        [Platform.DATTO_RMM]: {
-          url: '',
-          apiKey: '',
-          secretKey: '',
-          ...platformCreds[Platform.DATTO_RMM]
-        },
-        [Platform.NCENTRAL]: {
-          serverUrl: '',
-          apiToken: '',
-          ...platformCreds[Platform.NCENTRAL]
-        },
-        [Platform.HALOPSA]: {
-          url: '',
-          clientId: '',
-          clientSecret: '',
-          ...platformCreds[Platform.HALOPSA]
-        }
-      };
+      // Ensure every connector field is defined, even if it was not saved before
+      const emptyValues = getEmptyPlatformValues();
+      const mergedPlatformCreds = Object.fromEntries(
+        Object.entries(emptyValues).map(([platform, fields]) => [
+          platform,
+          { ...fields, ...platformCreds[platform] }
+        ])
+      );
       platformForm.reset(mergedPlatformCreds);
     }
   }, [manufacturerForm, platformForm]);
   
   // Handler for manufacturer form submission
-  function onManufacturerSubmit(values: z.infer<typeof manufacturerSchema>) {
-    // Ensure HP and Lenovo have the same API key
-    const apiKey = values[Manufacturer.HP].apiKey || values[Manufacturer.LENOVO].apiKey || '';
-    values[Manufacturer.HP].apiKey = apiKey;
-    values[Manufacturer.LENOVO].apiKey = apiKey;
-    
+  function onManufacturerSubmit(values: ManufacturerFormValues) {
     logger.info('Saving manufacturer credentials', 'config-form', {
       credentialsCount: Object.keys(values).length
     });
     saveManufacturerCredentials(values);
     alert('Manufacturer credentials saved successfully!');
   }
+
+  // Verify a provider's credentials against its API without saving them
+  async function handleTestCredentials(providerId: string, providerName: string) {
+    setTestingProviderId(providerId);
+    try {
+      const isValid = await testManufacturerCredentials(providerId, manufacturerForm.getValues(providerId));
+      alert(isValid
+        ? `${providerName} credentials are valid.`
+        : `${providerName} credentials were rejected. Please check them and try again.`);
+    } catch (error) {
+      logger.error(`Error testing ${providerName} credentials: ${error}`, 'config-form', {
+        providerId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      alert(`Failed to test ${providerName} credentials: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setTestingProviderId(null);
+    }
+  }
   
+  // Verify a platform's credentials against its API without saving them
+  async function handleTestConnection(platform: string, platformName: string) {
+    setTestingPlatform(platform);
+    try {
+      const response = await fetch('/api/platform-data/test', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ platform, credentials: platformForm.getValues(platform) })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to test connection');
+      }
+      alert(data.valid
+        ? `Connected to ${platformName}.`
+        : `${platformName} rejected the connection. Please check the credentials and try again.`);
+    } catch (error) {
+      logger.error(`Error testing ${platformName} connection: ${error}`, 'config-form', {
+        platform,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      alert(`Failed to test ${platformName} connection: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setTestingPlatform(null);
+    }
+  }
+
   // Handler for platform form submission
-  function onPlatformSubmit(values: z.infer<typeof platformSchema>) {
+  function onPlatformSubmit(values: PlatformFormValues) {
     logger.info('Saving platform credentials', 'config-form', {
       credentialsCount: Object.keys(values).length
     });
-    savePlatformCredentials(values);
+    savePlatformCredentials(values as Partial<PlatformCredentials>);
     alert('Platform credentials saved successfully!');
   }
   
@@ -225,82 +238,49 @@ export default function ConfigForm() {
               <Form {...manufacturerForm}>
                 <form onSubmit={manufacturerForm.handleSubmit(onManufacturerSubmit)} className="space-y-8">
                   <div className="space-y-6">
-                    <div className="space-y-4">
-                      <h3 className="text-lg font-medium">Dell</h3>
-                      <div className="space-y-4">
-                        <FormField
-                          control={manufacturerForm.control}
-                          name={`${Manufacturer.DELL}.clientId`}
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>Client ID (Optional)</FormLabel>
-                              <FormControl>
-                                <Input placeholder="Enter Dell client ID" {...field} />
-                              </FormControl>
-                              <FormDescription>
-                                Your Dell client ID (optional)
-                              </FormDescription>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
-                        
-                        <FormField
-                          control={manufacturerForm.control}
-                          name={`${Manufacturer.DELL}.clientSecret`}
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>Client Secret (Optional)</FormLabel>
-                              <FormControl>
-                                <Input 
-                                  type="password" 
-                                  placeholder="Enter Dell client secret" 
-                                  {...field} 
-                                />
-                              </FormControl>
-                              <FormDescription>
-                                Your Dell client secret (optional)
-                              </FormDescription>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
-                      </div>
-                    </div>
-
-                    <div className="space-y-4">
-                      <h3 className="text-lg font-medium">HP & Lenovo</h3>
-                      <div className="space-y-4">
-                        <FormField
-                          control={manufacturerForm.control}
-                          name={`${Manufacturer.HP}.apiKey`}
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>API Key</FormLabel>
-                              <FormControl>
-                                <Input 
-                                  type="password" 
-                                  placeholder="Enter HP/Lenovo API Key" 
-                                  {...field} 
-                                  onChange={(e) => {
-                                    field.onChange(e);
-                                    // Sync with Lenovo field
-                                    const newValue = e.target.value;
-                                    const lenovoField = manufacturerForm.getValues();
-                                    lenovoField[Manufacturer.LENOVO].apiKey = newValue;
-                                    manufacturerForm.reset(lenovoField);
-                                  }}
-                                />
-                              </FormControl>
-                              <FormDescription>
-                                Your API Key for api.warrantywatcher.com (used for both HP and Lenovo)
-                              </FormDescription>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
+                    {getWarrantyProviderDefinitions().map(provider => (
+                      <div key={provider.id} className="space-y-4">
+                        <div className="flex items-center justify-between">
+                          <h3 className="text-lg font-medium">{provider.name}</h3>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            disabled={testingProviderId !== null}
+                            onClick={() => handleTestCredentials(provider.id, provider.name)}
+                          >
+                            {testingProviderId === provider.id ? 'Testing...' : 'Test Credentials'}
+                          </Button>
+                        </div>
+                        <div className="space-y-4">
+                          {provider.credentialFields.map(credentialField => (
+                            <FormField
+                              key={credentialField.key}
+                              control={manufacturerForm.control}
+                              name={`${provider.id}.${credentialField.key}`}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>{credentialField.label}</FormLabel>
+                                  <FormControl>
+                                    <Input
+                                      type={credentialField.secret ? 'password' : 'text'}
+                                      placeholder={credentialField.placeholder}
+                                      {...field}
+                                    />
+                                  </FormControl>
+                                  {credentialField.description && (
+                                    <FormDescription>
+                                      {credentialField.description}
+                                    </FormDescription>
+                                  )}
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          ))}
+                        </div>
                       </div>
-                    </div>
+                    ))}
                   </div>
                   
                   <Button type="submit">Save Manufacturer Settings</Button>
@@ -314,168 +294,62 @@ export default function ConfigForm() {
             <Form {...platformForm}>
               <form onSubmit={platformForm.handleSubmit(onPlatformSubmit)} className="space-y-8">
                 <div className="space-y-6">
-                  <div className="space-y-4">
-                    <h3 className="text-lg font-medium">Datto RMM</h3>
-                    <div className="space-y-4">
-                      <FormField
-                        control={platformForm.control}
-                        name={`${Platform.DATTO_RMM}.url`}
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>URL</FormLabel>
-                            <FormControl>
-                              <Input placeholder="Enter Datto RMM URL" {...field} />
-                            </FormControl>
-                            <FormDescription>
-                              Your Datto RMM instance URL
-                            </FormDescription>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      
-                      <FormField
-                        control={platformForm.control}
-                        name={`${Platform.DATTO_RMM}.apiKey`}
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>API Key</FormLabel>
-                            <FormControl>
-                              <Input placeholder="Enter Datto RMM API Key" {...field} />
-                            </FormControl>
-                            <FormDescription>
-                              Your Datto RMM API Key
-                            </FormDescription>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      
-                      <FormField
-                        control={platformForm.control}
-                        name={`${Platform.DATTO_RMM}.secretKey`}
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Secret Key</FormLabel>
-                            <FormControl>
-                              <Input 
-                                type="password" 
-                                placeholder="Enter Datto RMM Secret Key" 
-                                {...field} 
-                              />
-                            </FormControl>
-                            <FormDescription>
-                              Your Datto RMM Secret Key
-                            </FormDescription>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
-                  </div>
-                  
-                  <div className="space-y-4">
-                    <h3 className="text-lg font-medium">N-able N-central</h3>
-                    <div className="space-y-4">
-                      <FormField
-                        control={platformForm.control}
-                        name={`${Platform.NCENTRAL}.serverUrl`}
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Server URL</FormLabel>
-                            <FormControl>
-                              <Input placeholder="Enter N-central Server URL" {...field} />
-                            </FormControl>
-                            <FormDescription>
-                              Your N-central instance URL (e.g., https://yourserver.n-able.com)
-                            </FormDescription>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      
-                      <FormField
-                        control={platformForm.control}
-                        name={`${Platform.NCENTRAL}.apiToken`}
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>API Token (JWT)</FormLabel>
-                            <FormControl>
-                              <Input 
-                                type="password"
-                                placeholder="Enter N-central API Token" 
-                                {...field} 
-                              />
-                            </FormControl>
-                            <FormDescription>
-                              Your N-central User-API Token (JWT) generated from the N-central UI. Click <a href="https://developer.n-able.com/n-central/docs/create-an-api-only-user" target="_blank" rel="noopener noreferrer">here</a> for more information.
-                            </FormDescription>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
-                  </div>
-                  
-                  <div className="space-y-4">
-                    <h3 className="text-lg font-medium">HaloPSA</h3>
-                    <div className="space-y-4">
-                      <FormField
-                        control={platformForm.control}
-                        name={`${Platform.HALOPSA}.url`}
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>URL</FormLabel>
-                            <FormControl>
-                              <Input placeholder="Enter HaloPSA URL (e.g., acme-tech.halopsa.com)" {...field} />
-                            </FormControl>
-                            <FormDescription>
-                              Your HaloPSA instance URL (without https://)
-                            </FormDescription>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      
-                      <FormField
-                        control={platformForm.control}
-                        name={`${Platform.HALOPSA}.clientId`}
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Client ID</FormLabel>
-                            <FormControl>
-                              <Input placeholder="Enter HaloPSA Client ID" {...field} />
-                            </FormControl>
-                            <FormDescription>
-                              Your HaloPSA OAuth2 Client ID
-                            </FormDescription>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      
-                      <FormField
-                        control={platformForm.control}
-                        name={`${Platform.HALOPSA}.clientSecret`}
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Client Secret</FormLabel>
-                            <FormControl>
-                              <Input 
-                                type="password"
-                                placeholder="Enter HaloPSA Client Secret" 
-                                {...field} 
-                              />
-                            </FormControl>
-                            <FormDescription>
-                              Your HaloPSA OAuth2 Client Secret
-                            </FormDescription>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
+                  {getPlatformDefinitions().map(definition => (
+                    <div key={definition.id} className="space-y-4">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <h3 className="text-lg font-medium">{definition.name}</h3>
+                          <p className="text-sm text-muted-foreground">
+                            Writes back {describeWriteBack(getWriteBackCapabilities(definition, platformForm.watch(definition.id)))}
+                          </p>
+                        </div>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          disabled={testingPlatform !== null}
+                          onClick={() => handleTestConnection(definition.id, definition.name)}
+                        >
+                          {testingPlatform === definition.id ? 'Testing...' : 'Test Connection'}
+                        </Button>
+                      </div>
+                      <div className="space-y-4">
+                        {definition.credentialFields.map(credentialField => (
+                          <FormField
+                            key={credentialField.key}
+                            control={platformForm.control}
+                            name={`${definition.id}.${credentialField.key}`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>{credentialField.label}</FormLabel>
+                                <FormControl>
+                                  {credentialField.multiline ? (
+                                    <Textarea
+                                      placeholder={credentialField.placeholder}
+                                      className="font-mono"
+                                      {...field}
+                                    />
+                                  ) : (
+                                    <Input
+                                      type={credentialField.secret ? 'password' : 'text'}
+                                      placeholder={credentialField.placeholder}
+                                      {...field}
+                                    />
+                                  )}
+                                </FormControl>
+                                {credentialField.description && (
+                                  <FormDescription>
+                                    {credentialField.description}
+                                  </FormDescription>
+                                )}
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        ))}
+                      </div>
                     </div>
-                  </div>
+                  ))}
                 </div>
                 
                 <Button type="submit">Save Platform Settings</Button>
@@ -0,0 +1,83 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { isSaaSMode } from '@/lib/config';
+import { logger } from '@/lib/logger';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Label } from './ui/label';
+
+export default function DatabaseBackup() {
+  const [isRestoring, setIsRestoring] = useState(false);
+  const router = useRouter();
+
+  async function handleRestore(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (!confirm(`Restore "${file.name}"? This replaces all current devices, warranty data and schedules with the backup's.`)) {
+      return;
+    }
+
+    setIsRestoring(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch('/api/backup', { method: 'POST', body: formData });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to restore backup');
+      }
+
+      alert('Backup restored.');
+      router.refresh();
+    } catch (error) {
+      logger.error(`Restore failed: ${error}`, 'database-backup', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      alert('Failed to restore backup: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setIsRestoring(false);
+    }
+  }
+
+  return (
+    <Card className="w-full mt-8">
+      <CardHeader>
+        <CardTitle className="text-xl font-bold">Backup & Restore</CardTitle>
+        <CardDescription>
+          {isSaaSMode()
+            ? 'Download all of your devices, warranty data and schedules as a JSON file, or restore a previous download.'
+            : 'Download a snapshot of the database file, or restore a previous backup. Set BACKUP_KEEP_NIGHTLY to also keep nightly backups in the data directory.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col space-y-4 items-start">
+        <Button asChild>
+          <a href="/api/backup" download>Download Backup</a>
+        </Button>
+
+        <div className="w-full">
+          <Label htmlFor="backup-restore" className="block mb-2 text-sm font-medium">
+            Restore from Backup
+          </Label>
+          <input
+            id="backup-restore"
+            type="file"
+            accept={isSaaSMode() ? '.json' : '.db'}
+            onChange={handleRestore}
+            className="block w-full text-sm text-gray-900 border border-gray-300 rounded-lg cursor-pointer bg-gray-50"
+            disabled={isRestoring}
+          />
+          <p className="mt-1 text-sm text-gray-500">
+            {isRestoring
+              ? 'Restoring...'
+              : 'Backups from older versions are upgraded automatically; backups from newer versions are refused.'}
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,211 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Device, DeviceDetailsUpdate } from '@/types/device';
+import { Platform } from '@/types/platform';
+import { ManufacturerCredentials } from '@/types/credentials';
+import { getManufacturerCredentials, getPlatformCredentials } from '@/lib/storage';
+import { deleteDeviceById, updateDeviceDetails } from '@/lib/database/service';
+import { fetchAndStoreDeviceWarranty } from '@/lib/services/warrantySync';
+import { getSourceDeviceUrl, getWriteBackSources } from '@/lib/utils/deviceUtils';
+import { logger } from '@/lib/logger';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { ExternalLink } from 'lucide-react';
+
+type DeviceAction = 'lookup' | 'writeback' | 'save' | 'delete';
+
+interface DeviceActionsProps {
+  device: Device;
+}
+
+const EDITABLE_FIELDS: { key: keyof DeviceDetailsUpdate; label: string; type?: string }[] = [
+  { key: 'hostname', label: 'Hostname' },
+  { key: 'model', label: 'Model' },
+  { key: 'clientName', label: 'Client Name' },
+  { key: 'deviceClass', label: 'Device Class' },
+  { key: 'warrantyStartDate', label: 'Warranty Start', type: 'date' },
+  { key: 'warrantyEndDate', label: 'Warranty End', type: 'date' }
+];
+
+function getDeviceDetails(device: Device): DeviceDetailsUpdate {
+  return {
+    hostname: device.hostname || '',
+    model: device.model || '',
+    clientName: device.clientName || '',
+    deviceClass: device.deviceClass || '',
+    warrantyStartDate: device.warrantyStartDate || '',
+    warrantyEndDate: device.warrantyEndDate || ''
+  };
+}
+
+/**
+ * Per-device actions on the device detail page: re-run the warranty lookup,
+ * write the warranty back to the source platform, edit fields and delete
+ */
+export default function DeviceActions({ device }: DeviceActionsProps) {
+  const [currentAction, setCurrentAction] = useState<DeviceAction | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [form, setForm] = useState<DeviceDetailsUpdate>(getDeviceDetails(device));
+  const [sourceUrl, setSourceUrl] = useState<string | undefined>();
+  const router = useRouter();
+
+  // Platform URLs live in browser storage, so the link can only be built after mount
+  useEffect(() => {
+    setSourceUrl(getSourceDeviceUrl(device, getPlatformCredentials()));
+  }, [device]);
+
+  const writeBackSources = getWriteBackSources(device);
+  const canWriteBack = writeBackSources.length > 0 && !!device.warrantyEndDate;
+
+  async function runAction(action: DeviceAction, run: () => Promise<void>) {
+    setCurrentAction(action);
+    try {
+      await run();
+    } catch (error) {
+      logger.error(`Device action ${action} failed for ${device.serialNumber}: ${error}`, 'device-actions', {
+        serialNumber: device.serialNumber,
+        action,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      alert(`Action failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setCurrentAction(null);
+    }
+  }
+
+  function lookupWarranty() {
+    return runAction('lookup', async () => {
+      const warrantyInfo = await fetchAndStoreDeviceWarranty(
+        device,
+        getManufacturerCredentials() as ManufacturerCredentials
+      );
+      router.refresh();
+      if (warrantyInfo.error) {
+        alert('Warranty lookup failed: ' + (warrantyInfo.errorMessage || 'Unknown error'));
+      }
+    });
+  }
+
+  // Writes to every linked platform record; one failing doesn't stop the others
+  function writeBackWarranty() {
+    return runAction('writeback', async () => {
+      const failures: string[] = [];
+      for (const source of writeBackSources) {
+        const response = await fetch('/api/platform-data/update', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            platform: source.platform,
+            deviceId: source.sourceDeviceId,
+            warrantyInfo: {
+              serialNumber: device.serialNumber,
+              manufacturer: device.manufacturer,
+              startDate: device.warrantyStartDate,
+              endDate: device.warrantyEndDate,
+              productDescription: device.model
+            },
+            credentials: getPlatformCredentials()[source.platform as Platform]
+          })
+        });
+        if (!response.ok) {
+          const errorData = await response.json();
+          failures.push(`${source.platform}: ${errorData.error || 'Write-back failed'}`);
+        }
+      }
+      router.refresh();
+      if (failures.length > 0) {
+        throw new Error(failures.join('; '));
+      }
+    });
+  }
+
+  function saveDetails() {
+    return runAction('save', async () => {
+      const updated = await updateDeviceDetails(device.id!, form);
+      if (!updated) {
+        throw new Error('Device no longer exists');
+      }
+      setIsEditing(false);
+      router.refresh();
+    });
+  }
+
+  function deleteDevice() {
+    if (!confirm(`Move ${device.hostname || device.serialNumber} to the trash? It can be restored from the trash for a limited time.`)) {
+      return;
+    }
+    return runAction('delete', async () => {
+      await deleteDeviceById(device.id!);
+      router.push('/');
+      router.refresh();
+    });
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Button onClick={lookupWarranty} disabled={currentAction !== null}>
+          {currentAction === 'lookup' ? 'Looking Up...' : 'Re-run Lookup'}
+        </Button>
+        <Button
+          variant="outline"
+          onClick={writeBackWarranty}
+          disabled={currentAction !== null || !canWriteBack}
+          title={canWriteBack
+            ? `Writes to ${writeBackSources.map(source => source.platform).join(', ')}`
+            : 'Needs a warranty end date and a source platform other than CSV'}
+        >
+          {currentAction === 'writeback' ? 'Writing Back...' : 'Write Back'}
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => {
+            setForm(getDeviceDetails(device));
+            setIsEditing(!isEditing);
+          }}
+          disabled={currentAction !== null}
+        >
+          {isEditing ? 'Cancel Edit' : 'Edit'}
+        </Button>
+        <Button variant="destructive" onClick={deleteDevice} disabled={currentAction !== null}>
+          {currentAction === 'delete' ? 'Deleting...' : 'Delete'}
+        </Button>
+        {sourceUrl && (
+          <Button variant="link" asChild>
+            <a href={sourceUrl} target="_blank" rel="noopener noreferrer">
+              Open in {device.sourcePlatform}
+              <ExternalLink className="h-4 w-4 ml-1" />
+            </a>
+          </Button>
+        )}
+      </div>
+
+      {isEditing && (
+        <div className="border rounded-lg p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {EDITABLE_FIELDS.map(field => (
+              <div key={field.key} className="space-y-1">
+                <Label htmlFor={`device-${field.key}`}>{field.label}</Label>
+                <Input
+                  id={`device-${field.key}`}
+                  type={field.type || 'text'}
+                  value={form[field.key] || ''}
+                  onChange={(e) => setForm(current => ({ ...current, [field.key]: e.target.value }))}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Changed warranty dates are recorded in the warranty history as a manual edit.
+          </p>
+          <Button onClick={saveDetails} disabled={currentAction !== null}>
+            {currentAction === 'save' ? 'Saving...' : 'Save Changes'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Device } from '@/types/device';
+import { restoreDevices } from '@/lib/database/service';
+import { logger } from '@/lib/logger';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Checkbox } from './ui/checkbox';
+import { Table, TableBody, TableCaption, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+
+interface DeviceTrashProps {
+  devices: Device[];
+  trashDays: number; // Days before trashed devices are permanently deleted (0 = never)
+}
+
+function formatEpoch(epochSeconds?: number): string {
+  return epochSeconds ? new Date(epochSeconds * 1000).toLocaleString() : '-';
+}
+
+export default function DeviceTrash({ devices, trashDays }: DeviceTrashProps) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isRestoring, setIsRestoring] = useState(false);
+  const router = useRouter();
+
+  const allSelected = devices.length > 0 && selectedIds.size === devices.length;
+
+  function toggleDevice(deviceId: string, checked: boolean) {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (checked) {
+        next.add(deviceId);
+      } else {
+        next.delete(deviceId);
+      }
+      return next;
+    });
+  }
+
+  function toggleAll(checked: boolean) {
+    setSelectedIds(checked ? new Set(devices.map(device => device.id!)) : new Set());
+  }
+
+  async function restore(deviceIds: string[]) {
+    setIsRestoring(true);
+    try {
+      const restoredCount = await restoreDevices(deviceIds);
+      setSelectedIds(new Set());
+      alert(`Restored ${restoredCount} device(s).`);
+      router.refresh();
+    } catch (error) {
+      logger.error(`Error restoring devices: ${error}`, 'device-trash', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      alert('Failed to restore devices: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setIsRestoring(false);
+    }
+  }
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-xl font-bold">Deleted Devices</CardTitle>
+        <Button
+          onClick={() => restore(Array.from(selectedIds))}
+          disabled={isRestoring || selectedIds.size === 0}
+        >
+          {isRestoring ? 'Restoring...' : `Restore Selected (${selectedIds.size})`}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableCaption>
+            {devices.length === 0 ? 'The trash is empty.' : `${devices.length} deleted device(s)`}
+          </TableCaption>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-8">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) => toggleAll(checked === true)}
+                  disabled={devices.length === 0}
+                  aria-label="Select all"
+                />
+              </TableHead>
+              <TableHead>Hostname</TableHead>
+              <TableHead>Serial Number</TableHead>
+              <TableHead>Client</TableHead>
+              <TableHead>Source</TableHead>
+              <TableHead>Deleted</TableHead>
+              {trashDays > 0 && <TableHead>Permanently Deleted</TableHead>}
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {devices.map(device => (
+              <TableRow key={device.id}>
+                <TableCell>
+                  <Checkbox
+                    checked={selectedIds.has(device.id!)}
+                    onCheckedChange={(checked) => toggleDevice(device.id!, checked === true)}
+                    aria-label={`Select ${device.hostname || device.serialNumber}`}
+                  />
+                </TableCell>
+                <TableCell className="font-medium">{device.hostname || '-'}</TableCell>
+                <TableCell className="font-mono">{device.serialNumber}</TableCell>
+                <TableCell>{device.clientName || '-'}</TableCell>
+                <TableCell>{device.sourcePlatform || '-'}</TableCell>
+                <TableCell>{formatEpoch(device.deletedAt)}</TableCell>
+                {trashDays > 0 && (
+                  <TableCell>{formatEpoch(device.deletedAt && device.deletedAt + trashDays * 24 * 3600)}</TableCell>
+                )}
+                <TableCell>
+                  <Button size="sm" variant="outline" onClick={() => restore([device.id!])} disabled={isRestoring}>
+                    Restore
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
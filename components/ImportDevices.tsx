@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import { Platform } from '@/types/platform';
 import { getPlatformCredentials } from '@/lib/storage';
 import { parseCSVData } from '@/lib/platforms/csv';
+import { getPlatformDefinitions } from '@/lib/platforms/definitions';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
@@ -16,7 +17,6 @@ import PlatformCredentialStatus from './PlatformCredentialStatus';
 export default function ImportDevices() {
   const [isLoading, setIsLoading] = useState(false);
   const [progress, setProgress] = useState(0);
-  const configuredPlatforms = [Platform.DATTO_RMM, Platform.NCENTRAL, Platform.HALOPSA, Platform.CSV];
   const [selectedPlatform, setSelectedPlatform] = useState<Platform>(Platform.DATTO_RMM);
   const [currentAction, setCurrentAction] = useState<string | null>(null);
   const router = useRouter();
@@ -132,15 +132,9 @@ export default function ImportDevices() {
                     <SelectValue placeholder="Select a platform" />
                   </SelectTrigger>
                   <SelectContent>
-                    {configuredPlatforms.includes(Platform.DATTO_RMM) && (
-                      <SelectItem value={Platform.DATTO_RMM}>Datto RMM</SelectItem>
-                    )}
-                    {configuredPlatforms.includes(Platform.NCENTRAL) && (
-                      <SelectItem value={Platform.NCENTRAL}>N-able N-central</SelectItem>
-                    )}
-                    {configuredPlatforms.includes(Platform.HALOPSA) && (
-                      <SelectItem value={Platform.HALOPSA}>HaloPSA</SelectItem>
-                    )}
+                    {getPlatformDefinitions().map(definition => (
+                      <SelectItem key={definition.id} value={definition.id}>{definition.name}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
                 
@@ -1,8 +1,9 @@
 'use client';
 
 import { WarrantyInfo } from '@/types/warranty';
-import { inferWarrantyStatus } from '@/lib/utils/warrantyUtils';
+import { inferWarrantyStatus, formatEntitlement } from '@/lib/utils/warrantyUtils';
 import { formatWarrantyDate } from '@/lib/utils/dateUtils';
+import { formatHardwareSummary } from '@/lib/utils/deviceUtils';
 import { CheckCircle, XCircle, AlertTriangle, Calendar, Shield, Building } from 'lucide-react';
 import { Button } from './ui/button';
 
@@ -396,12 +397,14 @@ export default function LifecycleReport({ data, clientName, reportDate, reportTi
           }
           
           /* Updated column widths without source column */
-          .col-serial { width: 18% !important; }
-          .col-manufacturer { width: 15% !important; }
-          .col-product { width: 25% !important; }
-          .col-status { width: 14% !important; }
-          .col-start { width: 14% !important; }
-          .col-end { width: 14% !important; }
+          .col-serial { width: 14% !important; }
+          .col-manufacturer { width: 11% !important; }
+          .col-product { width: 15% !important; }
+          .col-hardware { width: 8% !important; }
+          .col-coverage { width: 20% !important; }
+          .col-status { width: 10% !important; }
+          .col-start { width: 11% !important; }
+          .col-end { width: 11% !important; }
           
           @page {
             margin: 0.5in;
@@ -580,6 +583,12 @@ export default function LifecycleReport({ data, clientName, reportDate, reportTi
                     <th className="px-3 py-2 print:px-1 print:py-1 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b col-product">
                       Product
                     </th>
+                    <th className="px-3 py-2 print:px-1 print:py-1 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b col-hardware">
+                      Hardware
+                    </th>
+                    <th className="px-3 py-2 print:px-1 print:py-1 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b col-coverage">
+                      Coverage
+                    </th>
                     <th className="px-3 py-2 print:px-1 print:py-1 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b col-status">
                       Status
                     </th>
@@ -603,6 +612,16 @@ export default function LifecycleReport({ data, clientName, reportDate, reportTi
                       <td className="px-3 py-2 print:px-1 print:py-1 text-xs text-gray-700 border-b break-words">
                         {item.productDescription || 'Unknown'}
                       </td>
+                      <td className="px-3 py-2 print:px-1 print:py-1 text-xs text-gray-700 border-b break-words">
+                        {formatHardwareSummary(item) || '-'}
+                      </td>
+                      <td className="px-3 py-2 print:px-1 print:py-1 text-xs text-gray-700 border-b break-words">
+                        {item.entitlements && item.entitlements.length > 0
+                          ? item.entitlements.map((entitlement, entitlementIndex) => (
+                            <div key={entitlementIndex}>{formatEntitlement(entitlement)}</div>
+                          ))
+                          : '-'}
+                      </td>
                       <td className="px-3 py-2 print:px-1 print:py-1 text-xs border-b">
                         {getStatusBadge(item.endDate)}
                       </td>
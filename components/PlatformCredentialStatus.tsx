@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { Platform } from '@/types/platform';
 import { getPlatformCredentials } from '@/lib/storage';
+import { getPlatformDefinition } from '@/lib/platforms/definitions';
 
 interface PlatformCredentialStatusProps {
   platform: Platform;
@@ -13,31 +14,12 @@ export default function PlatformCredentialStatus({ platform }: PlatformCredentia
   const [hasPlatformCredentials, setHasPlatformCredentials] = useState(true);
   
   useEffect(() => {
-    const platformCreds = getPlatformCredentials();
-    let hasCredentials = true;
-    
-    if (platform === Platform.DATTO_RMM) {
-      hasCredentials = Boolean(
-        platformCreds[Platform.DATTO_RMM]?.url && 
-        platformCreds[Platform.DATTO_RMM]?.apiKey && 
-        platformCreds[Platform.DATTO_RMM]?.secretKey
-      );
-    } else if (platform === Platform.NCENTRAL) {
-      hasCredentials = Boolean(
-        platformCreds[Platform.NCENTRAL]?.serverUrl && 
-        platformCreds[Platform.NCENTRAL]?.apiToken
-      );
-    } else if (platform === Platform.HALOPSA) {
-      hasCredentials = Boolean(
-        platformCreds[Platform.HALOPSA]?.url && 
-        platformCreds[Platform.HALOPSA]?.clientId && 
-        platformCreds[Platform.HALOPSA]?.clientSecret
-      );
-    }
     // CSV does not require credentials in this context.
-    else if (platform === Platform.CSV) {
-        hasCredentials = true; 
-    }
+    const definition = platform === Platform.CSV ? undefined : getPlatformDefinition(platform);
+    const platformCreds = (getPlatformCredentials() as Record<string, Record<string, string> | undefined>)[platform];
+    const hasCredentials = !definition || definition.credentialFields
+      .filter(field => !field.optional)
+      .every(field => Boolean(platformCreds?.[field.key]));
     
     setHasPlatformCredentials(hasCredentials);
   }, [platform]);
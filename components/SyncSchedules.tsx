@@ -0,0 +1,382 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Platform, SyncPlatform } from '@/types/platform';
+import { ScheduleRun, ScheduleRunStatus, SyncSchedule, SyncScheduleInput } from '@/types/schedule';
+import { getManufacturerCredentials, getPlatformCredentials } from '@/lib/storage';
+import { formatRelativeTime } from '@/lib/utils/dateUtils';
+import { logger } from '@/lib/logger';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Checkbox } from './ui/checkbox';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCaption, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import PlatformCredentialStatus from './PlatformCredentialStatus';
+import { getPlatformDefinitions } from '@/lib/platforms/definitions';
+
+interface SyncSchedulesProps {
+  schedules: SyncSchedule[];
+  runs: ScheduleRun[];
+}
+
+const PLATFORM_LABELS = Object.fromEntries(
+  getPlatformDefinitions().map(definition => [definition.id, definition.name])
+) as Record<SyncPlatform, string>;
+
+const CRON_PRESETS = [
+  { label: 'Nightly at 02:00', value: '0 2 * * *' },
+  { label: 'Every 6 hours', value: '0 */6 * * *' },
+  { label: 'Weekdays at 07:00', value: '0 7 * * 1-5' },
+  { label: 'Sundays at 03:00', value: '0 3 * * 0' },
+];
+
+const EMPTY_FORM: SyncScheduleInput = {
+  name: '',
+  platform: Platform.DATTO_RMM,
+  cronExpression: '0 2 * * *',
+  enabled: true,
+  lookupWarranties: true,
+  writeBack: true,
+};
+
+function formatEpoch(epochSeconds?: number): string {
+  return epochSeconds ? new Date(epochSeconds * 1000).toLocaleString() : '-';
+}
+
+function formatEpochRelative(epochSeconds?: number): string {
+  return formatRelativeTime(epochSeconds ? new Date(epochSeconds * 1000).toISOString() : undefined);
+}
+
+function RunStatusBadge({ status }: { status?: ScheduleRunStatus }) {
+  if (!status) {
+    return <span className="text-muted-foreground">Never run</span>;
+  }
+  const variant = status === 'failed' ? 'destructive' : status === 'running' ? 'secondary' : 'default';
+  return <Badge variant={variant}>{status}</Badge>;
+}
+
+export default function SyncSchedules({ schedules, runs }: SyncSchedulesProps) {
+  const [form, setForm] = useState<SyncScheduleInput>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const router = useRouter();
+
+  function updateForm(changes: Partial<SyncScheduleInput>) {
+    setForm(current => ({ ...current, ...changes }));
+  }
+
+  function startEditing(schedule: SyncSchedule) {
+    setEditingId(schedule.id);
+    setForm({
+      name: schedule.name,
+      platform: schedule.platform,
+      cronExpression: schedule.cronExpression,
+      enabled: schedule.enabled,
+      lookupWarranties: schedule.lookupWarranties,
+      writeBack: schedule.writeBack,
+    });
+  }
+
+  function resetForm() {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  }
+
+  async function sendScheduleRequest(url: string, method: string, body?: object): Promise<boolean> {
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Request failed');
+      }
+      router.refresh();
+      return true;
+    } catch (error) {
+      logger.error(`Schedule request failed: ${error}`, 'sync-schedules', {
+        url,
+        method,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      alert('Schedule update failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+      return false;
+    }
+  }
+
+  async function saveSchedule() {
+    setIsSaving(true);
+    // Scheduled runs happen without the browser, so send the credentials currently configured here
+    const body = {
+      ...form,
+      credentials: {
+        platform: getPlatformCredentials()[form.platform] || {},
+        manufacturer: getManufacturerCredentials()
+      }
+    };
+    const saved = editingId
+      ? await sendScheduleRequest(`/api/schedules/${editingId}`, 'PUT', body)
+      : await sendScheduleRequest('/api/schedules', 'POST', body);
+    if (saved) {
+      resetForm();
+    }
+    setIsSaving(false);
+  }
+
+  async function toggleSchedule(schedule: SyncSchedule) {
+    // Without credentials in the body, the server keeps the ones stored with the schedule
+    await sendScheduleRequest(`/api/schedules/${schedule.id}`, 'PUT', {
+      name: schedule.name,
+      platform: schedule.platform,
+      cronExpression: schedule.cronExpression,
+      enabled: !schedule.enabled,
+      lookupWarranties: schedule.lookupWarranties,
+      writeBack: schedule.writeBack,
+    });
+  }
+
+  async function runNow(schedule: SyncSchedule) {
+    if (await sendScheduleRequest(`/api/schedules/${schedule.id}/run`, 'POST')) {
+      alert(`"${schedule.name}" will start within a minute. Refresh this page to see the run history.`);
+    }
+  }
+
+  async function removeSchedule(schedule: SyncSchedule) {
+    if (!confirm(`Delete the schedule "${schedule.name}" and its run history?`)) {
+      return;
+    }
+    if (await sendScheduleRequest(`/api/schedules/${schedule.id}`, 'DELETE') && editingId === schedule.id) {
+      resetForm();
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="w-full">
+        <CardHeader>
+          <CardTitle className="text-xl font-bold">{editingId ? 'Edit Schedule' : 'New Schedule'}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <Label htmlFor="schedule-name" className="mb-2 block">Name</Label>
+              <Input
+                id="schedule-name"
+                value={form.name}
+                placeholder="Nightly Datto RMM sync"
+                onChange={(e) => updateForm({ name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="schedule-platform" className="mb-2 block">Platform</Label>
+              <Select
+                value={form.platform}
+                onValueChange={(value) => updateForm({ platform: value as SyncPlatform })}
+              >
+                <SelectTrigger id="schedule-platform" className="w-full">
+                  <SelectValue placeholder="Select a platform" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PLATFORM_LABELS).map(([platform, label]) => (
+                    <SelectItem key={platform} value={platform}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <PlatformCredentialStatus platform={form.platform} />
+            </div>
+            <div>
+              <Label htmlFor="schedule-cron" className="mb-2 block">Cron Expression</Label>
+              <Input
+                id="schedule-cron"
+                value={form.cronExpression}
+                placeholder="0 2 * * *"
+                className="font-mono"
+                onChange={(e) => updateForm({ cronExpression: e.target.value })}
+              />
+              <div className="mt-2 flex flex-wrap gap-2">
+                {CRON_PRESETS.map(preset => (
+                  <Button
+                    key={preset.value}
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => updateForm({ cronExpression: preset.value })}
+                  >
+                    {preset.label}
+                  </Button>
+                ))}
+              </div>
+              <p className="mt-1 text-sm text-muted-foreground">
+                minute hour day-of-month month day-of-week, in the server&apos;s time zone.
+              </p>
+            </div>
+            <div className="space-y-3">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="schedule-lookup"
+                  checked={form.lookupWarranties}
+                  onCheckedChange={(checked) => updateForm({ lookupWarranties: checked === true })}
+                />
+                <Label htmlFor="schedule-lookup">Look up warranties for devices that are due (missing, stale, expiring soon or failed)</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="schedule-writeback"
+                  checked={form.writeBack}
+                  onCheckedChange={(checked) => updateForm({ writeBack: checked === true })}
+                />
+                <Label htmlFor="schedule-writeback">Write new warranty info back to the platform</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="schedule-enabled"
+                  checked={form.enabled}
+                  onCheckedChange={(checked) => updateForm({ enabled: checked === true })}
+                />
+                <Label htmlFor="schedule-enabled">Enabled</Label>
+              </div>
+            </div>
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            The schedule stores the {PLATFORM_LABELS[form.platform]} credentials currently saved on the Configuration page.
+            Save the schedule again after changing them.
+          </p>
+
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={saveSchedule} disabled={isSaving || !form.name.trim()}>
+              {isSaving ? 'Saving...' : editingId ? 'Update Schedule' : 'Create Schedule'}
+            </Button>
+            {editingId && (
+              <Button variant="outline" onClick={resetForm} disabled={isSaving}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="w-full">
+        <CardHeader>
+          <CardTitle className="text-xl font-bold">Schedules</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableCaption>
+              {schedules.length === 0 ? 'No schedules yet.' : `${schedules.length} schedule(s)`}
+            </TableCaption>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Platform</TableHead>
+                <TableHead>Schedule</TableHead>
+                <TableHead>Steps</TableHead>
+                <TableHead>Next Run</TableHead>
+                <TableHead>Last Run</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {schedules.map(schedule => (
+                <TableRow key={schedule.id}>
+                  <TableCell className="font-medium">{schedule.name}</TableCell>
+                  <TableCell>{PLATFORM_LABELS[schedule.platform] || schedule.platform}</TableCell>
+                  <TableCell className="font-mono">{schedule.cronExpression}</TableCell>
+                  <TableCell>
+                    {['Import', schedule.lookupWarranties && 'Lookup', schedule.writeBack && 'Write back']
+                      .filter(Boolean)
+                      .join(' → ')}
+                  </TableCell>
+                  <TableCell>{schedule.enabled ? formatEpoch(schedule.nextRunAt) : 'Disabled'}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-col gap-1">
+                      <RunStatusBadge status={schedule.lastRunStatus} />
+                      {schedule.lastRunAt && (
+                        <span className="text-xs text-muted-foreground">{formatEpochRelative(schedule.lastRunAt)}</span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-2">
+                      <Button size="sm" variant="outline" onClick={() => startEditing(schedule)}>
+                        Edit
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => runNow(schedule)} disabled={!schedule.enabled}>
+                        Run Now
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => toggleSchedule(schedule)}>
+                        {schedule.enabled ? 'Disable' : 'Enable'}
+                      </Button>
+                      <Button size="sm" variant="destructive" onClick={() => removeSchedule(schedule)}>
+                        Delete
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card className="w-full">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="text-xl font-bold">Run History</CardTitle>
+          <Button size="sm" variant="outline" onClick={() => router.refresh()}>
+            Refresh
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableCaption>
+              {runs.length === 0 ? 'No runs yet.' : `Last ${runs.length} run(s)`}
+            </TableCaption>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Schedule</TableHead>
+                <TableHead>Started</TableHead>
+                <TableHead>Finished</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Imported</TableHead>
+                <TableHead>Looked Up</TableHead>
+                <TableHead>Written Back</TableHead>
+                <TableHead>Error</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {runs.map(run => (
+                <TableRow key={run.id}>
+                  <TableCell className="font-medium">
+                    <div>{run.scheduleName}</div>
+                    <div className="text-xs text-muted-foreground">{PLATFORM_LABELS[run.platform] || run.platform}</div>
+                  </TableCell>
+                  <TableCell>{formatEpoch(run.startedAt)}</TableCell>
+                  <TableCell>{formatEpoch(run.finishedAt)}</TableCell>
+                  <TableCell><RunStatusBadge status={run.status} /></TableCell>
+                  <TableCell>{run.devicesImported}</TableCell>
+                  <TableCell>
+                    {run.devicesLookedUp}
+                    {run.lookupsFailed > 0 && <span className="text-red-600"> ({run.lookupsFailed} failed)</span>}
+                  </TableCell>
+                  <TableCell>
+                    {run.devicesWrittenBack}
+                    {run.writeBacksFailed > 0 && <span className="text-red-600"> ({run.writeBacksFailed} failed)</span>}
+                  </TableCell>
+                  <TableCell className="max-w-xs truncate text-red-600" title={run.error}>
+                    {run.error}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,14 +1,13 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { Platform } from '@/types/platform';
 import { Device } from '@/types/device';
-import { WarrantyInfo } from '@/types/warranty';
-import { getPlatformCredentials } from '@/lib/storage';
-import { deviceToWarrantyInfo } from '@/lib/utils/deviceUtils';
-import { lookupWarrantiesForDevices } from '@/lib/services/warrantyLookup';
+import { Job } from '@/types/job';
+import { getManufacturerCredentials, getPlatformCredentials } from '@/lib/storage';
+import { deviceToWarrantyInfo, getWriteBackSources } from '@/lib/utils/deviceUtils';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Checkbox } from './ui/checkbox';
@@ -17,72 +16,55 @@ import { Label } from './ui/label';
 import WarrantyResults from './WarrantyResults';
 import ClientSelector from './ClientSelector';
 import { inferWarrantyStatus } from '@/lib/utils/warrantyUtils';
-import { deleteDeviceById } from '@/lib/database/service';
+import { deleteDevices, getAllDevices, getDevicesByClientName } from '@/lib/database/service';
+
+// How often to poll the server for warranty lookup job progress
+const JOB_POLL_INTERVAL_MS = 2000;
 
 interface SyncWarrantiesProps {
-  devices: Device[];
+  deviceCount: number;
+  clientCounts: { clientName: string; count: number }[];
 }
 
-export default function SyncWarranties({ devices }: SyncWarrantiesProps) {
+export default function SyncWarranties({ deviceCount, clientCounts }: SyncWarrantiesProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [progress, setProgress] = useState(0);
-  const [results, setResults] = useState<WarrantyInfo[]>(
-    devices.map(deviceToWarrantyInfo)
-  );
   const [skipExistingForLookup, setSkipExistingForLookup] = useState<boolean>(true);
   const [currentAction, setCurrentAction] = useState<string | null>(null);
   const [selectedClient, setSelectedClient] = useState<string>('');
+  const [activeJob, setActiveJob] = useState<Job | null>(null);
+  // Bumped to make the results table reload its current page
+  const [resultsVersion, setResultsVersion] = useState(0);
   const router = useRouter();
 
-  // Calculate client data from devices
-  const clientData = useMemo(() => {
-    const clientNames = Array.from(new Set(
-      devices
-        .map(device => device.clientName)
-        .filter((name): name is string => Boolean(name))
-    )).sort();
-
-    const clientCounts = clientNames.map(clientName => ({
-      clientName,
-      count: devices.filter(device => device.clientName === clientName).length
-    }));
-
-    return { clientNames, clientCounts };
-  }, [devices]);
-
-  // Filter devices and results based on selected client
-  const filteredDevices = useMemo(() => {
-    if (!selectedClient || selectedClient === 'all') {
-      return devices;
-    }
-    return devices.filter(device => device.clientName === selectedClient);
-  }, [devices, selectedClient]);
+  const clientData = useMemo(() => ({
+    clientNames: clientCounts.map(client => client.clientName).sort(),
+    clientCounts
+  }), [clientCounts]);
 
-  const filteredResults = useMemo(() => {
-    if (!selectedClient || selectedClient === 'all') {
-      return results;
-    }
-    return results.filter(result => result.clientName === selectedClient);
-  }, [results, selectedClient]);
+  const devicesInPoolCount = selectedClient
+    ? clientCounts.find(client => client.clientName === selectedClient)?.count || 0
+    : deviceCount;
 
   // Handle client selection change
   function handleClientChange(clientName: string) {
     setSelectedClient(clientName === 'all' ? '' : clientName);
   }
 
-  async function handleCleanPool() {
-    const devicesToProcess = selectedClient && selectedClient !== 'all'
-      ? filteredDevices
-      : devices;
+  // Full device list for the selected client (or all clients), loaded only when an action needs it
+  async function getDevicesInScope(): Promise<Device[]> {
+    return selectedClient ? getDevicesByClientName(selectedClient) : getAllDevices();
+  }
 
-    if (devicesToProcess.length === 0) {
+  async function handleCleanPool() {
+    if (devicesInPoolCount === 0) {
       alert('No devices in the current pool to clean.');
       return;
     }
 
-    const confirmMessage = selectedClient && selectedClient !== 'all'
-      ? `Delete ${devicesToProcess.length} ${selectedClient} client devices one by one from the database? This action cannot be undone.`
-      : `Delete all ${devicesToProcess.length} devices one by one from the database? This action cannot be undone.`;
+    const confirmMessage = selectedClient
+      ? `Move ${devicesInPoolCount} ${selectedClient} client devices to the trash? They can be restored from the trash for a limited time.`
+      : `Move all ${devicesInPoolCount} devices to the trash? They can be restored from the trash for a limited time.`;
 
     if (!confirm(confirmMessage)) return;
 
@@ -90,75 +72,96 @@ export default function SyncWarranties({ devices }: SyncWarrantiesProps) {
     setCurrentAction('cleaning');
     setProgress(0);
 
-    let SucceededCount = 0;
-    let failedCount = 0;
-    const updatedResultsLocal = [...results]; // Work on a copy to update progressively
+    try {
+      const deletedCount = await deleteDevices(selectedClient ? { clientName: selectedClient } : {});
+      setProgress(100);
+      alert(`Moved ${deletedCount} device(s) to the trash.`);
+      router.refresh();
+    } catch (error) {
+      logger.error(`Error deleting devices: ${error}`, 'sync-warranties', {
+        clientName: selectedClient || undefined,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      alert('Failed to delete devices: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setIsLoading(false);
+      setCurrentAction(null);
+      setResultsVersion(version => version + 1);
+    }
+  }
 
-    for (let i = 0; i < devicesToProcess.length; i++) {
-      const device = devicesToProcess[i];
-      const progressPercentage = Math.round(((i + 1) / devicesToProcess.length) * 100);
-      setProgress(progressPercentage);
+  // Lookup outcomes are stored per device, so reloading the table shows the job's results
+  const refreshResultsFromJob = useCallback(() => {
+    setResultsVersion(version => version + 1);
+  }, []);
 
-      if (!device.id) {
-        logger.warn(`Skipping device without ID: ${device.serialNumber}`, 'sync-warranties', {
-          serialNumber: device.serialNumber
-        });
-        // Mark as error in UI if needed, or just skip
-        const resultIndex = updatedResultsLocal.findIndex(r => r.serialNumber === device.serialNumber);
-        if (resultIndex !== -1) {
-          updatedResultsLocal[resultIndex] = {
-            ...updatedResultsLocal[resultIndex],
-            error: true,
-            errorMessage: 'Skipped - Missing ID',
-          };
-        }
-        failedCount++;
-        continue;
-      }
+  // Follow a warranty lookup job that is running on the server
+  const followJob = useCallback(async (job: Job) => {
+    setIsLoading(true);
+    setCurrentAction('lookup');
+    setActiveJob(job);
 
-      try {
-        await deleteDeviceById(device.id);
+    let lastProcessedItems = job.processedItems;
+    let currentJob = job;
 
-        SucceededCount++;
-        // Remove from local results if successfully deleted
-        const resultIndex = updatedResultsLocal.findIndex(r => r.serialNumber === device.serialNumber);
-        if (resultIndex !== -1) {
-          updatedResultsLocal.splice(resultIndex, 1);
+    try {
+      while (currentJob.status === 'queued' || currentJob.status === 'running') {
+        setProgress(currentJob.totalItems > 0 ? Math.round((currentJob.processedItems / currentJob.totalItems) * 100) : 0);
+        await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+
+        const response = await fetch(`/api/jobs/${job.id}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch warranty lookup progress');
         }
-      } catch (error) {
-        failedCount++;
-        logger.error(`Error during deletion of device ${device.serialNumber}: ${error}`, 'sync-warranties', {
-          serialNumber: device.serialNumber,
-          error: error instanceof Error ? error.message : String(error)
-        });
-        const resultIndex = updatedResultsLocal.findIndex(r => r.serialNumber === device.serialNumber);
-        if (resultIndex !== -1) {
-          updatedResultsLocal[resultIndex] = {
-            ...updatedResultsLocal[resultIndex],
-            error: true,
-            errorMessage: error instanceof Error ? error.message : 'Exception during deletion',
-          };
+        currentJob = data;
+        setActiveJob(currentJob);
+
+        // Show results as batches complete
+        if (currentJob.processedItems !== lastProcessedItems) {
+          lastProcessedItems = currentJob.processedItems;
+          refreshResultsFromJob();
         }
       }
-      setResults([...updatedResultsLocal]); // Update UI progressively after each attempt
-    }
 
-    setProgress(100);
-    setIsLoading(false);
-    setCurrentAction(null);
+      refreshResultsFromJob();
+      router.refresh(); // Update device counts
+      setProgress(100);
 
-    let summaryMessage = 'Device cleaning process completed.\n';
-    summaryMessage += `Successfully deleted: ${SucceededCount} device(s).\n`;
-    summaryMessage += `Failed to delete: ${failedCount} device(s).`;
-    alert(summaryMessage);
+      if (currentJob.status === 'failed') {
+        alert('Warranty lookup failed: ' + (currentJob.error || 'Unknown error'));
+      }
+    } catch (error) {
+      logger.error(`Warranty lookup failed: ${error}`, 'sync-warranties', {
+        jobId: job.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      alert('Warranty lookup failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setActiveJob(null);
+      setIsLoading(false);
+    }
+  }, [refreshResultsFromJob, router]);
 
-    if (SucceededCount > 0) {
-      router.refresh(); // Refresh data from server if any device was successfully deleted
+  // Resume following a lookup that is still running, e.g. after the tab was closed
+  useEffect(() => {
+    async function resumeActiveJob() {
+      try {
+        const response = await fetch('/api/jobs?active=true');
+        if (!response.ok) return;
+        const jobs: Job[] = await response.json();
+        if (jobs.length > 0) {
+          followJob(jobs[0]);
+        }
+      } catch (error) {
+        logger.warn(`Could not check for running warranty lookups: ${error}`, 'sync-warranties');
+      }
     }
-  }
+    resumeActiveJob();
+  }, [followJob]);
 
   async function lookupWarranties() {
-    if (!filteredDevices.length) {
+    if (!devicesInPoolCount) {
       alert('No devices in the selected scope to process for warranty lookup.');
       return;
     }
@@ -166,160 +169,146 @@ export default function SyncWarranties({ devices }: SyncWarrantiesProps) {
     setIsLoading(true);
     setCurrentAction('lookup');
     setProgress(0);
-    // Initialize results with all devices being processed
-    const initialResults = devices.map(d => deviceToWarrantyInfo(d));
-    setResults(initialResults);
 
     try {
-      const result = await lookupWarrantiesForDevices(filteredDevices, {
-        skipExistingForLookup,
-        onProgress: setProgress,
-        onDeviceResult: (deviceResult, deviceIndex) => {
-          // Update results in real-time as each device is processed
-          setResults(currentResults => {
-            const updatedResults = [...currentResults];
-            // Find the device in the original devices array and update its result
-            const deviceToUpdate = filteredDevices[deviceIndex];
-            const resultIndex = updatedResults.findIndex(r => r.serialNumber === deviceToUpdate.serialNumber);
-            
-            if (resultIndex !== -1) {
-              updatedResults[resultIndex] = deviceResult;
-            }
-            
-            return updatedResults;
-          });
-        }
+      // The lookup runs as a background job on the server, so it survives closing the tab
+      const response = await fetch('/api/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          clientName: selectedClient || undefined,
+          skipExisting: skipExistingForLookup,
+          credentials: getManufacturerCredentials()
+        })
       });
-
-      if (!result.success) {
-        throw new Error(result.error || 'Warranty lookup failed');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start warranty lookup');
       }
 
-      // Final update to ensure all results are properly set
-      const finalResults = devices.map(device => {
-        const newResult = result.results.find(r => r.serialNumber === device.serialNumber);
-        return newResult || deviceToWarrantyInfo(device);
-      });
-
-      setResults(finalResults);
-      // Note: Removed router.refresh() to preserve API results
+      await followJob(data);
     } catch (error) {
       logger.error(`Warranty lookup failed: ${error}`, 'sync-warranties', {
         error: error instanceof Error ? error.message : String(error)
       });
       alert('Warranty lookup failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
-      const errorResults = devices.map(d => ({
-        ...deviceToWarrantyInfo(d),
-        error: true,
-        errorMessage: (error instanceof Error ? error.message : 'Overall lookup processing failed'),
-      }));
-      setResults(errorResults);
-    } finally {
       setIsLoading(false);
     }
   }
 
+  async function cancelLookup() {
+    if (!activeJob) return;
+
+    try {
+      await fetch(`/api/jobs/${activeJob.id}`, { method: 'DELETE' });
+    } catch (error) {
+      logger.error(`Error canceling warranty lookup: ${error}`, 'sync-warranties', {
+        jobId: activeJob.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
   async function handleWriteBackWarranties() {
-    const itemsToWriteBack = results.filter(
-      r => !r.error && !r.skipped && r.serialNumber && r.endDate // Ensure warranty was fetched and has an end date
-    );
+    setIsLoading(true);
+    setCurrentAction('writeback');
+    setProgress(0);
+
+    let devicesInScope: Device[];
+    try {
+      devicesInScope = await getDevicesInScope();
+    } catch (error) {
+      logger.error(`Error loading devices for write-back: ${error}`, 'sync-warranties', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      alert('Write-back failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+      setIsLoading(false);
+      return;
+    }
+
+    // Ensure warranty was fetched and has an end date
+    const itemsToWriteBack = devicesInScope.filter(device => device.serialNumber && device.warrantyEndDate);
 
     if (itemsToWriteBack.length === 0) {
       alert('No new warranty information to write back to source platforms.');
+      setIsLoading(false);
       return;
     }
 
-    setIsLoading(true);
-    setCurrentAction('writeback');
-    setProgress(0);
     const platformCreds = getPlatformCredentials();
-    const updatedResults = [...results]; // Create a mutable copy
+    let failedCount = 0;
 
     for (let i = 0; i < itemsToWriteBack.length; i++) {
-      const resultInfo = itemsToWriteBack[i];
-      // Find the original device from the `devices` prop to get its source deviceID and accurate sourcePlatform
-      const originalDevice = devices.find(d => d.serialNumber === resultInfo.serialNumber);
-
-      if (originalDevice && originalDevice.sourceDeviceId && originalDevice.sourcePlatform && originalDevice.sourcePlatform !== Platform.CSV) {
-        logger.info(`Attempting to write back warranty for ${resultInfo.serialNumber} to ${originalDevice.sourcePlatform}`, 'sync-warranties', {
-          serialNumber: resultInfo.serialNumber,
-          platform: originalDevice.sourcePlatform
+      const device = itemsToWriteBack[i];
+      const sources = getWriteBackSources(device);
+
+      if (sources.length === 0) {
+        logger.debug(`Skipping write-back for ${device.serialNumber}, no platform records (e.g. CSV only).`, 'sync-warranties', {
+          serialNumber: device.serialNumber,
+          source: device.sourcePlatform
+        });
+      }
+
+      // Every platform record of the device gets the warranty, e.g. both Datto RMM and HaloPSA
+      for (const source of sources) {
+        logger.info(`Attempting to write back warranty for ${device.serialNumber} to ${source.platform}`, 'sync-warranties', {
+          serialNumber: device.serialNumber,
+          platform: source.platform
         });
         try {
           const response = await fetch('/api/platform-data/update', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
-              platform: originalDevice.sourcePlatform,
-              deviceId: originalDevice.sourceDeviceId || originalDevice.id, // Use device ID from DB as fallback: we used to use the id field as the sourceDeviceId
+              platform: source.platform,
+              deviceId: source.sourceDeviceId,
               warrantyInfo: {
-                serialNumber: resultInfo.serialNumber,
-                manufacturer: resultInfo.manufacturer,
-                startDate: resultInfo.startDate,
-                endDate: resultInfo.endDate,
-                productDescription: resultInfo.productDescription,
+                serialNumber: device.serialNumber,
+                manufacturer: device.manufacturer,
+                startDate: device.warrantyStartDate,
+                endDate: device.warrantyEndDate,
+                productDescription: device.model,
               },
-              credentials: platformCreds[originalDevice.sourcePlatform as Platform],
+              credentials: platformCreds[source.platform as Platform],
             }),
           });
 
-          const resultIndexInMainArray = updatedResults.findIndex(r => r.serialNumber === resultInfo.serialNumber);
-
           if (response.ok) {
-            logger.info(`Successfully wrote back warranty for ${resultInfo.serialNumber} to ${originalDevice.sourcePlatform}`, 'sync-warranties', {
-              serialNumber: resultInfo.serialNumber,
-              platform: originalDevice.sourcePlatform
+            logger.info(`Successfully wrote back warranty for ${device.serialNumber} to ${source.platform}`, 'sync-warranties', {
+              serialNumber: device.serialNumber,
+              platform: source.platform
             });
-            if (resultIndexInMainArray !== -1) {
-              updatedResults[resultIndexInMainArray] = { ...updatedResults[resultIndexInMainArray], writtenBack: true, error: false, errorMessage: undefined };
-            }
           } else {
             const errorData = await response.json();
-            const errorMessage = `Write-back failed for ${resultInfo.serialNumber} to ${originalDevice.sourcePlatform}: ${errorData.error || 'Unknown API error'}`;
-            logger.error(errorMessage, 'sync-warranties', {
-              serialNumber: resultInfo.serialNumber,
-              platform: originalDevice.sourcePlatform
+            failedCount++;
+            logger.error(`Write-back failed for ${device.serialNumber} to ${source.platform}: ${errorData.error || 'Unknown API error'}`, 'sync-warranties', {
+              serialNumber: device.serialNumber,
+              platform: source.platform
             });
-            alert(errorMessage); // Consider a less intrusive notification for multiple failures
-            if (resultIndexInMainArray !== -1) {
-              updatedResults[resultIndexInMainArray] = { ...updatedResults[resultIndexInMainArray], writtenBack: false, error: true, errorMessage: `Write-back failed: ${errorData.error || 'API error'}` };
-            }
           }
         } catch (updateError) {
-          const errorMessage = `Exception during write-back for ${resultInfo.serialNumber}: ${(updateError as Error).message}`;
-          logger.error(errorMessage, 'sync-warranties', {
-            serialNumber: resultInfo.serialNumber,
+          failedCount++;
+          logger.error(`Exception during write-back for ${device.serialNumber}: ${(updateError as Error).message}`, 'sync-warranties', {
+            serialNumber: device.serialNumber,
+            platform: source.platform,
             error: (updateError as Error).message
           });
-          const resultIndexInMainArray = updatedResults.findIndex(r => r.serialNumber === resultInfo.serialNumber);
-          if (resultIndexInMainArray !== -1) {
-            updatedResults[resultIndexInMainArray] = { ...updatedResults[resultIndexInMainArray], writtenBack: false, error: true, errorMessage: `Write-back exception: ${(updateError as Error).message}` };
-          }
         }
-      } else if (originalDevice && originalDevice.sourcePlatform === Platform.CSV) {
-        logger.debug(`Skipping write-back for ${resultInfo.serialNumber}, source is CSV.`, 'sync-warranties', {
-          serialNumber: resultInfo.serialNumber,
-          source: 'CSV'
-        });
-      } else if (!originalDevice) {
-        logger.warn(`Could not find original device for serial ${resultInfo.serialNumber} during write-back.`, 'sync-warranties', {
-          serialNumber: resultInfo.serialNumber
-        });
       }
 
       setProgress(Math.round(((i + 1) / itemsToWriteBack.length) * 100));
-      setResults([...updatedResults]); // Update results progressively
     }
 
-    setResults([...updatedResults]); // Final update
     setIsLoading(false);
     setProgress(100);
-    alert(`Write-back process completed for ${itemsToWriteBack.length} eligible devices. Check results for details.`);
+    setResultsVersion(version => version + 1);
+    alert(`Write-back process completed for ${itemsToWriteBack.length} eligible devices${failedCount > 0 ? ` (${failedCount} failed, see logs)` : ''}. Check results for details.`);
     router.refresh(); // Refresh data from server to get latest db state
   }
 
-  function exportToCSV() {
-    if (!filteredResults.length) {
+  async function exportToCSV() {
+    const devicesInScope = await getDevicesInScope();
+    if (!devicesInScope.length) {
       alert('No results to export');
       return;
     }
@@ -327,22 +316,17 @@ export default function SyncWarranties({ devices }: SyncWarrantiesProps) {
     const csvContent =
       "data:text/csv;charset=utf-8," +
       "Device Name,Serial Number,Client Name,Manufacturer,Status,Start Date,End Date,Product,Source,Last Updated,Error Status,Write Back\n" +
-      filteredResults.map(item => {
-        // Format error status
-        let errorStatus = 'Success';
-        if (item.error) {
-          errorStatus = item.errorMessage ? `Error: ${item.errorMessage}` : 'Error';
-        } else if (!item.error && !item.errorMessage) {
-          errorStatus = 'None';
+      devicesInScope.map(deviceToWarrantyInfo).map(item => {
+        // Format error status from the last lookup
+        let errorStatus = 'None';
+        if (item.lookupStatus === 'success') {
+          errorStatus = 'Success';
+        } else if (item.lookupStatus) {
+          errorStatus = item.lookupMessage ? `Error: ${item.lookupMessage}` : 'Error';
         }
 
         // Format write back status
-        let writeBackStatus = 'Not Written';
-        if (item.skipped) {
-          writeBackStatus = 'Skipped';
-        } else if (item.writtenBack) {
-          writeBackStatus = 'Success';
-        }
+        const writeBackStatus = item.writtenBack ? 'Success' : 'Not Written';
 
         return [
           item.hostname || 'Unknown Device',
@@ -362,7 +346,7 @@ export default function SyncWarranties({ devices }: SyncWarrantiesProps) {
 
     const encodedUri = encodeURI(csvContent);
     const link = document.createElement("a");
-    const filename = selectedClient && selectedClient !== 'all'
+    const filename = selectedClient
       ? `warranty_report_${selectedClient}_${new Date().toISOString().split('T')[0]}.csv`
       : `warranty_report_${new Date().toISOString().split('T')[0]}.csv`;
     link.setAttribute("href", encodedUri);
@@ -372,10 +356,6 @@ export default function SyncWarranties({ devices }: SyncWarrantiesProps) {
     document.body.removeChild(link);
   }
 
-  const devicesInPoolCount = filteredDevices.length;
-  const resultsCount = filteredResults.length;
-  const canWriteBack = filteredResults.some(r => !r.error && r.serialNumber && r.endDate);
-
   // TODO: add a warning if getManufacturerCredentials is not complete
   return (
     <Card className="w-full">
@@ -412,7 +392,7 @@ export default function SyncWarranties({ devices }: SyncWarrantiesProps) {
                   disabled={isLoading}
                 />
                 <Label htmlFor="skipExistingForLookup">
-                  Skip lookup for devices that already have warranty info
+                  Only look up devices that are due (no warranty info, stale, expiring soon or last lookup failed)
                 </Label>
               </div>
 
@@ -423,11 +403,21 @@ export default function SyncWarranties({ devices }: SyncWarrantiesProps) {
                   size="lg"
                   className="w-full sm:w-auto"
                 >
-                  {isLoading && currentAction === 'lookup' ? 'Looking up Warranties...' : `Lookup ${selectedClient && selectedClient !== 'all' ? `${selectedClient} ` : ''}Warranties (${devicesInPoolCount} in scope)`}
+                  {isLoading && currentAction === 'lookup' ? 'Looking up Warranties...' : `Lookup ${selectedClient ? `${selectedClient} ` : ''}Warranties (${devicesInPoolCount} in scope)`}
                 </Button>
+                {activeJob && (
+                  <Button
+                    onClick={cancelLookup}
+                    size="lg"
+                    variant="outline"
+                    className="w-full sm:w-auto"
+                  >
+                    Cancel Lookup
+                  </Button>
+                )}
                 <Button
                   onClick={handleWriteBackWarranties}
-                  disabled={isLoading || !canWriteBack}
+                  disabled={isLoading || devicesInPoolCount === 0}
                   size="lg"
                   variant="outline"
                   className="w-full sm:w-auto"
@@ -447,6 +437,7 @@ export default function SyncWarranties({ devices }: SyncWarrantiesProps) {
 
               <p className="text-sm text-muted-foreground">
                 Writes newly fetched warranty data back to the original RMM platform (excluding CSV imports).
+                Deleted devices can be restored from the <Link href="/trash" className="underline">trash</Link>.
               </p>
             </div>
           </div>
@@ -460,32 +451,34 @@ export default function SyncWarranties({ devices }: SyncWarrantiesProps) {
                 ></div>
               </div>
               <p className="text-sm text-gray-500">
-                {currentAction === 'lookup' && `Looked up ${progress}% of devices for warranty`}
+                {currentAction === 'lookup' && (activeJob
+                  ? `Looked up ${activeJob.processedItems} of ${activeJob.totalItems} devices${activeJob.failedItems > 0 ? ` (${activeJob.failedItems} failed)` : ''}${activeJob.status === 'queued' ? ' - waiting to start' : ''}. You can close this tab; the lookup continues on the server.`
+                  : `Looked up ${progress}% of devices for warranty`)}
                 {currentAction === 'writeback' && `Written back ${progress}% of warranties`}
-                {currentAction === 'cleaning' && (progress < 100 ? `Deleting devices... ${progress}%` : 'Deletion complete!')}
+                {currentAction === 'cleaning' && (progress < 100 ? 'Moving devices to the trash...' : 'Deletion complete!')}
               </p>
             </div>
           )}
         </div>
 
-        {resultsCount > 0 && (
+        {deviceCount > 0 && (
           <div className="mt-8">
             <div className="flex justify-between items-center mb-4">
               <h3 className="text-lg font-semibold">
-                Warranty Results ({resultsCount} device{resultsCount !== 1 ? 's' : ''}{selectedClient && selectedClient !== 'all' ? ` for ${selectedClient}` : ''})
+                Warranty Results ({devicesInPoolCount} device{devicesInPoolCount !== 1 ? 's' : ''}{selectedClient ? ` for ${selectedClient}` : ''})
               </h3>
               <div className="flex items-center gap-2">
-                <Button asChild variant="outline" disabled={isLoading || resultsCount === 0}>
+                <Button asChild variant="outline" disabled={isLoading || devicesInPoolCount === 0}>
                   <Link href={`/reports/lifecycle?client=${selectedClient}`} target="_blank" rel="noopener noreferrer">
                     Generate Lifecycle Report
                   </Link>
                 </Button>
-                <Button onClick={exportToCSV} variant="outline" disabled={isLoading || resultsCount === 0}>
+                <Button onClick={exportToCSV} variant="outline" disabled={isLoading || devicesInPoolCount === 0}>
                   Export to CSV
                 </Button>
               </div>
             </div>
-            <WarrantyResults data={filteredResults} selectedClient={selectedClient} />
+            <WarrantyResults selectedClient={selectedClient} refreshKey={resultsVersion} />
           </div>
         )}
       </CardContent>
@@ -0,0 +1,58 @@
+import { WarrantyHistoryEntry, WarrantyHistorySource } from '@/types/warranty';
+import { formatWarrantyDate } from '@/lib/utils/dateUtils';
+import { Badge } from './ui/badge';
+
+const SOURCE_LABELS: Record<WarrantyHistorySource, string> = {
+  manufacturer_api: 'Manufacturer API',
+  platform_import: 'Platform import',
+  csv: 'CSV import',
+  manual: 'Manual edit'
+};
+
+interface WarrantyHistoryTimelineProps {
+  history: WarrantyHistoryEntry[]; // Newest first
+}
+
+/**
+ * Shows every warranty start/end pair a device has had, newest first,
+ * highlighting how the end date moved with each change
+ */
+export default function WarrantyHistoryTimeline({ history }: WarrantyHistoryTimelineProps) {
+  if (history.length === 0) {
+    return <p className="text-sm text-muted-foreground">No warranty changes recorded yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-2">
+      {history.map((entry, index) => {
+        const previous = history[index + 1];
+        const endDateChanged = previous && previous.endDate !== entry.endDate;
+
+        return (
+          <li key={`${entry.recordedAt}-${index}`} className="mb-6 ml-4 last:mb-0">
+            <span
+              className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background ${
+                index === 0 ? 'bg-primary' : 'bg-muted-foreground'
+              }`}
+            />
+            <div className="flex flex-wrap items-center gap-2">
+              <time className="text-sm text-muted-foreground">
+                {new Date(entry.recordedAt * 1000).toLocaleString()}
+              </time>
+              <Badge variant="outline">{SOURCE_LABELS[entry.source] || entry.source}</Badge>
+              {index === 0 && <Badge variant="secondary">Current</Badge>}
+            </div>
+            <p className="mt-1 text-sm">
+              {formatWarrantyDate(entry.startDate)} to {formatWarrantyDate(entry.endDate)}
+            </p>
+            {endDateChanged && (
+              <p className="text-xs text-muted-foreground">
+                End date changed from {formatWarrantyDate(previous.endDate)}
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
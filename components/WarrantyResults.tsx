@@ -1,20 +1,51 @@
 'use client';
 
-import { useMemo } from 'react';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
 import { useQueryState } from 'nuqs';
-import { inferWarrantyStatus } from '@/lib/utils/warrantyUtils';
+import { inferWarrantyStatus, formatEntitlement } from '@/lib/utils/warrantyUtils';
 import { formatRelativeTime } from '@/lib/utils/dateUtils';
-import { WarrantyInfo } from '../types/warranty';
+import { deviceToWarrantyInfo, formatHardwareSummary } from '@/lib/utils/deviceUtils';
+import { DEFAULT_DEVICE_PAGE_SIZE, DEFAULT_DEVICE_SORT, toDeviceQueryParams } from '@/lib/utils/deviceQuery';
+import { logger } from '@/lib/logger';
+import { DeviceFilter, DeviceQueryResult, DeviceSortField, DeviceWarrantyStatus } from '../types/device';
+import { Manufacturer } from '../types/manufacturer';
+import { Platform } from '../types/platform';
+import { WarrantyInfo, WarrantyLookupStatus } from '../types/warranty';
 import { Table, TableBody, TableCaption, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
-import { CheckCircle, XCircle, MinusCircle, FileText, Server, AlertTriangle, Building, Search, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight } from 'lucide-react';
+import { CheckCircle, XCircle, MinusCircle, FileText, Server, AlertTriangle, Building, Search, ChevronLeft, ChevronRight, ChevronsLeft, ArrowUp, ArrowDown, ArrowUpDown } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip';
 
+// Coverage line items shown inline; the rest go in a tooltip
+const MAX_VISIBLE_ENTITLEMENTS = 2;
+
+// Wait for typing to pause before searching on the server
+const SEARCH_DEBOUNCE_MS = 300;
+
+const LOOKUP_STATUS_LABELS: Record<WarrantyLookupStatus, string> = {
+  success: 'Success',
+  not_found: 'Not Found',
+  invalid_serial: 'Invalid Serial',
+  auth_error: 'Auth Error',
+  rate_limited: 'Rate Limited',
+  unsupported_manufacturer: 'Unsupported',
+  error: 'Error'
+};
+
+// Select value for "no filter"
+const FILTER_ALL = 'all';
+// Lookup status filter values besides the individual statuses
+const LOOKUP_FILTER_FAILED = 'failed';
+const LOOKUP_FILTER_NEVER = 'never';
+
+const EXPIRY_WINDOWS_DAYS = [30, 60, 90, 180, 365];
+
 interface WarrantyResultsProps {
-  data: WarrantyInfo[];
   selectedClient?: string;
+  refreshKey?: number; // Changing this reloads the current page, e.g. after a lookup or write-back
 }
 
 function getSourceIcon(source?: string) {
@@ -30,40 +61,114 @@ function getSourceIcon(source?: string) {
   return <Server className="h-4 w-4 text-purple-500 mr-1" />;
 }
 
-export default function WarrantyResults({ data, selectedClient }: WarrantyResultsProps) {
+export default function WarrantyResults({ selectedClient, refreshKey }: WarrantyResultsProps) {
   const [search, setSearch] = useQueryState('search', { defaultValue: '' });
-  const [page, setPage] = useQueryState('page', { defaultValue: 1, parse: Number });
-  const [pageSize, setPageSize] = useQueryState('pageSize', { defaultValue: 50, parse: Number });
+  const [pageSize, setPageSize] = useQueryState('pageSize', { defaultValue: DEFAULT_DEVICE_PAGE_SIZE, parse: Number });
+  const [statusFilter, setStatusFilter] = useQueryState('status', { defaultValue: FILTER_ALL });
+  const [manufacturerFilter, setManufacturerFilter] = useQueryState('manufacturer', { defaultValue: FILTER_ALL });
+  const [sourceFilter, setSourceFilter] = useQueryState('source', { defaultValue: FILTER_ALL });
+  const [expiryFilter, setExpiryFilter] = useQueryState('expiresWithin', { defaultValue: FILTER_ALL });
+  const [lookupFilter, setLookupFilter] = useQueryState('lookupStatus', { defaultValue: FILTER_ALL });
+  const [sortField, setSortField] = useQueryState('sort', { defaultValue: DEFAULT_DEVICE_SORT.field as string });
+  const [sortOrder, setSortOrder] = useQueryState('order', { defaultValue: DEFAULT_DEVICE_SORT.direction as string });
 
-  // Filter data based on search
-  const filteredData = useMemo(() => {
-    if (!search.trim()) return data;
-    
-    const searchLower = search.toLowerCase().trim();
-    return data.filter(item => 
-      item.hostname?.toLowerCase().includes(searchLower) ||
-      item.serialNumber?.toLowerCase().includes(searchLower) ||
-      item.clientName?.toLowerCase().includes(searchLower) ||
-      item.manufacturer?.toLowerCase().includes(searchLower) ||
-      item.productDescription?.toLowerCase().includes(searchLower)
-    );
-  }, [data, search]);
+  const [debouncedSearch, setDebouncedSearch] = useState(search);
+  // Cursor of each page visited so far; the last one is the current page (undefined = first page)
+  const [cursors, setCursors] = useState<(string | undefined)[]>([undefined]);
+  const [result, setResult] = useState<DeviceQueryResult | null>(null);
+  const [isFetching, setIsFetching] = useState(false);
+  const [fetchError, setFetchError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(search), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const filter: DeviceFilter = {
+    search: debouncedSearch || undefined,
+    clientName: selectedClient || undefined,
+    status: statusFilter !== FILTER_ALL ? statusFilter as DeviceWarrantyStatus : undefined,
+    manufacturer: manufacturerFilter !== FILTER_ALL ? manufacturerFilter as Manufacturer : undefined,
+    sourcePlatform: sourceFilter !== FILTER_ALL ? sourceFilter : undefined,
+    expiresWithinDays: expiryFilter !== FILTER_ALL ? Number(expiryFilter) : undefined,
+    lookupStatus: lookupFilter !== FILTER_ALL ? lookupFilter as DeviceFilter['lookupStatus'] : undefined
+  };
+  const filterParams = toDeviceQueryParams({
+    filter,
+    sort: { field: sortField as DeviceSortField, direction: sortOrder === 'desc' ? 'desc' : 'asc' },
+    limit: pageSize
+  }).toString();
+  const currentCursor = cursors[cursors.length - 1];
+
+  // Any change to the filter, sort or page size starts again from the first page
+  useEffect(() => {
+    setCursors([undefined]);
+  }, [filterParams]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const params = new URLSearchParams(filterParams);
+    if (currentCursor) {
+      params.set('cursor', currentCursor);
+    }
+
+    async function fetchPage() {
+      setIsFetching(true);
+      try {
+        const response = await fetch(`/api/devices?${params.toString()}`, { signal: controller.signal });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load devices');
+        }
+        setResult(data);
+        setFetchError(null);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        logger.error(`Error loading devices: ${error}`, 'warranty-results', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+        setFetchError(error instanceof Error ? error.message : 'Failed to load devices');
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsFetching(false);
+        }
+      }
+    }
 
-  // Calculate pagination
-  const totalItems = filteredData.length;
-  const totalPages = Math.ceil(totalItems / pageSize);
-  const startIndex = (page - 1) * pageSize;
-  const endIndex = startIndex + pageSize;
-  const paginatedData = filteredData.slice(startIndex, endIndex);
+    fetchPage();
+    return () => controller.abort();
+  }, [filterParams, currentCursor, refreshKey]);
 
-  // Reset to page 1 when search changes
-  useMemo(() => {
-    if (page > totalPages && totalPages > 0) {
-      setPage(1);
+  function handleSort(field: DeviceSortField) {
+    if (sortField === field) {
+      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortField(field);
+      setSortOrder('asc');
     }
-  }, [totalPages, page, setPage]);
+  }
 
-  if (!data || data.length === 0) {
+  function renderSortableHead(field: DeviceSortField, label: string) {
+    const SortIcon = sortField !== field ? ArrowUpDown : sortOrder === 'asc' ? ArrowUp : ArrowDown;
+    return (
+      <TableHead>
+        <button type="button" className="flex items-center gap-1 hover:text-foreground" onClick={() => handleSort(field)}>
+          {label}
+          <SortIcon className={`h-3 w-3 ${sortField === field ? '' : 'text-muted-foreground'}`} />
+        </button>
+      </TableHead>
+    );
+  }
+
+  const hasFilters = !!debouncedSearch || [statusFilter, manufacturerFilter, sourceFilter, expiryFilter, lookupFilter]
+    .some(value => value !== FILTER_ALL);
+  const pageData: WarrantyInfo[] = (result?.devices || []).map(deviceToWarrantyInfo);
+  const totalItems = result?.totalCount || 0;
+  const pageNumber = cursors.length;
+  const totalPages = Math.max(Math.ceil(totalItems / pageSize), 1);
+  const startIndex = (pageNumber - 1) * pageSize;
+
+  if (result && totalItems === 0 && !hasFilters) {
     return (
       <div className="text-center py-8">
         <div className="text-muted-foreground mb-4">
@@ -77,23 +182,9 @@ export default function WarrantyResults({ data, selectedClient }: WarrantyResult
     );
   }
   
-  // Get unique clients for summary
-  const uniqueClients = Array.from(new Set(data.map(item => item.clientName).filter(Boolean)));
-  
   return (
     <TooltipProvider>
       <div className="space-y-4">
-        {/* Summary Section */}
-        {!selectedClient && uniqueClients.length > 1 && (
-          <div className="bg-muted border border-border rounded-lg p-4">
-            <h3 className="font-semibold text-foreground mb-2">Multi-Client Data Summary</h3>
-            <p className="text-muted-foreground text-sm">
-              Showing data for {uniqueClients.length} clients: {uniqueClients.slice(0, 3).join(', ')}
-              {uniqueClients.length > 3 && ` and ${uniqueClients.length - 3} more`}
-            </p>
-          </div>
-        )}
-
         {/* Search and Controls */}
         <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
           <div className="relative flex-1 max-w-sm">
@@ -122,17 +213,85 @@ export default function WarrantyResults({ data, selectedClient }: WarrantyResult
           </div>
         </div>
 
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-muted-foreground">Status:</span>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={FILTER_ALL}>All</SelectItem>
+              <SelectItem value="active">Active</SelectItem>
+              <SelectItem value="expired">Expired</SelectItem>
+              <SelectItem value="unknown">Unknown</SelectItem>
+            </SelectContent>
+          </Select>
+          <span className="text-sm text-muted-foreground">Expiring:</span>
+          <Select value={expiryFilter} onValueChange={(value) => setExpiryFilter(value)}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={FILTER_ALL}>Any time</SelectItem>
+              {EXPIRY_WINDOWS_DAYS.map(days => (
+                <SelectItem key={days} value={days.toString()}>Within {days} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-sm text-muted-foreground">Manufacturer:</span>
+          <Select value={manufacturerFilter} onValueChange={(value) => setManufacturerFilter(value)}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={FILTER_ALL}>All</SelectItem>
+              {Object.values(Manufacturer).map(manufacturer => (
+                <SelectItem key={manufacturer} value={manufacturer}>{manufacturer}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-sm text-muted-foreground">Source:</span>
+          <Select value={sourceFilter} onValueChange={(value) => setSourceFilter(value)}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={FILTER_ALL}>All</SelectItem>
+              {Object.values(Platform).map(platform => (
+                <SelectItem key={platform} value={platform}>{platform}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-sm text-muted-foreground">Lookup:</span>
+          <Select value={lookupFilter} onValueChange={(value) => setLookupFilter(value)}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={FILTER_ALL}>All devices</SelectItem>
+              <SelectItem value={LOOKUP_FILTER_FAILED}>Any failure</SelectItem>
+              {Object.entries(LOOKUP_STATUS_LABELS).map(([status, label]) => (
+                <SelectItem key={status} value={status}>{label}</SelectItem>
+              ))}
+              <SelectItem value={LOOKUP_FILTER_NEVER}>Never looked up</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
         {/* Results Info */}
         <div className="text-sm text-muted-foreground">
-          {search && (
+          {fetchError ? (
+            <span className="text-red-600">{fetchError}</span>
+          ) : !result ? (
+            <span>Loading devices...</span>
+          ) : (
             <span>
-              Found {totalItems} of {data.length} devices • 
+              Showing {Math.min(startIndex + 1, totalItems)}-{startIndex + pageData.length} of {totalItems} {hasFilters ? 'matching ' : ''}devices
+              {selectedClient && ` from ${selectedClient}`}
+              {isFetching && ' • Loading...'}
             </span>
           )}
-          <span>
-            Showing {Math.min(startIndex + 1, totalItems)}-{Math.min(endIndex, totalItems)} of {totalItems} devices
-            {selectedClient && ` from ${selectedClient}`}
-          </span>
         </div>
 
         <Table>
@@ -141,25 +300,32 @@ export default function WarrantyResults({ data, selectedClient }: WarrantyResult
           </TableCaption>
           <TableHeader>
             <TableRow>
-              <TableHead>Name & Serial</TableHead>
-              <TableHead>Client Name</TableHead>
-              <TableHead>Manufacturer</TableHead>
+              {renderSortableHead('hostname', 'Name & Serial')}
+              {renderSortableHead('clientName', 'Client Name')}
+              {renderSortableHead('manufacturer', 'Manufacturer')}
               <TableHead>Status</TableHead>
-              <TableHead>Start Date</TableHead>
-              <TableHead>End Date</TableHead>
+              {renderSortableHead('warrantyStartDate', 'Start Date')}
+              {renderSortableHead('warrantyEndDate', 'End Date')}
               <TableHead>Product</TableHead>
-              <TableHead>Source</TableHead>
-              <TableHead>Last Updated</TableHead>
-              <TableHead>Error Status</TableHead>
+              <TableHead>Coverage</TableHead>
+              {renderSortableHead('sourcePlatform', 'Source')}
+              {renderSortableHead('warrantyFetchedAt', 'Last Updated')}
+              <TableHead>Lookup Status</TableHead>
               <TableHead>Write Back</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
-            {paginatedData.map((item, index) => (
-              <TableRow key={index}>
+            {pageData.map((item) => (
+              <TableRow key={item.deviceId || item.serialNumber}>
                 <TableCell className="font-medium">
                   <div className="flex flex-col">
-                    <span className="font-semibold">{item.hostname || 'Unknown Device'}</span>
+                    {item.deviceId ? (
+                      <Link href={`/devices/${item.deviceId}`} className="font-semibold hover:underline">
+                        {item.hostname || 'Unknown Device'}
+                      </Link>
+                    ) : (
+                      <span className="font-semibold">{item.hostname || 'Unknown Device'}</span>
+                    )}
                     <span className="text-xs text-muted-foreground">{item.serialNumber}</span>
                   </div>
                 </TableCell>
@@ -183,7 +349,41 @@ export default function WarrantyResults({ data, selectedClient }: WarrantyResult
                 </TableCell>
                 <TableCell>{item.startDate || 'Unknown'}</TableCell>
                 <TableCell>{item.endDate || 'Unknown'}</TableCell>
-                <TableCell>{item.productDescription || 'Unknown'}</TableCell>
+                <TableCell>
+                  <div className="flex flex-col">
+                    <span>{item.productDescription || 'Unknown'}</span>
+                    {formatHardwareSummary(item) && (
+                      <span className="text-xs text-muted-foreground">{formatHardwareSummary(item)}</span>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  {item.entitlements && item.entitlements.length > 0 ? (
+                    <div className="flex flex-col text-xs">
+                      {item.entitlements.slice(0, MAX_VISIBLE_ENTITLEMENTS).map((entitlement, entitlementIndex) => (
+                        <span key={entitlementIndex}>{formatEntitlement(entitlement)}</span>
+                      ))}
+                      {item.entitlements.length > MAX_VISIBLE_ENTITLEMENTS && (
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <span className="text-muted-foreground cursor-help">
+                              +{item.entitlements.length - MAX_VISIBLE_ENTITLEMENTS} more
+                            </span>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            <div className="max-w-xs space-y-1">
+                              {item.entitlements.slice(MAX_VISIBLE_ENTITLEMENTS).map((entitlement, entitlementIndex) => (
+                                <p key={entitlementIndex}>{formatEntitlement(entitlement)}</p>
+                              ))}
+                            </div>
+                          </TooltipContent>
+                        </Tooltip>
+                      )}
+                    </div>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">-</span>
+                  )}
+                </TableCell>
                 <TableCell>
                   <div className="flex items-center">
                     {getSourceIcon(item.deviceSource)}
@@ -201,7 +401,9 @@ export default function WarrantyResults({ data, selectedClient }: WarrantyResult
                           <TooltipTrigger asChild>
                             <div className="flex items-center cursor-help">
                               <AlertTriangle className="h-4 w-4 text-red-500 mr-1" />
-                              <span className="text-xs text-red-700">Error</span>
+                              <span className="text-xs text-red-700">
+                                {item.lookupStatus && item.lookupStatus !== 'success' ? LOOKUP_STATUS_LABELS[item.lookupStatus] : 'Error'}
+                              </span>
                             </div>
                           </TooltipTrigger>
                           <TooltipContent>
@@ -215,7 +417,22 @@ export default function WarrantyResults({ data, selectedClient }: WarrantyResult
                         </div>
                       )}
                     </div>
-                  ) : !item.error && !item.errorMessage ? (
+                  ) : item.lookupStatus && item.lookupStatus !== 'success' ? (
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <div className="flex items-center cursor-help">
+                          <AlertTriangle className="h-4 w-4 text-red-500 mr-1" />
+                          <span className="text-xs text-red-700">{LOOKUP_STATUS_LABELS[item.lookupStatus]}</span>
+                        </div>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <div className="max-w-xs space-y-1">
+                          {item.lookupMessage && <p>{item.lookupMessage}</p>}
+                          <p>{item.lookupAttempts || 1} lookup attempt(s)</p>
+                        </div>
+                      </TooltipContent>
+                    </Tooltip>
+                  ) : !item.error && !item.errorMessage && !item.lookupStatus ? (
                     <div className="flex items-center">
                       <MinusCircle className="h-4 w-4 text-muted-foreground" />
                     </div>
@@ -253,15 +470,15 @@ export default function WarrantyResults({ data, selectedClient }: WarrantyResult
         {totalPages > 1 && (
           <div className="flex flex-col sm:flex-row gap-4 items-center justify-between">
             <div className="text-sm text-muted-foreground">
-              Page {page} of {totalPages}
+              Page {pageNumber} of {totalPages}
             </div>
             
             <div className="flex items-center gap-2">
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => setPage(1)}
-                disabled={page === 1}
+                onClick={() => setCursors([undefined])}
+                disabled={pageNumber === 1 || isFetching}
               >
                 <ChevronsLeft className="h-4 w-4" />
                 First
@@ -270,60 +487,22 @@ export default function WarrantyResults({ data, selectedClient }: WarrantyResult
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => setPage(page - 1)}
-                disabled={page === 1}
+                onClick={() => setCursors(cursors.slice(0, -1))}
+                disabled={pageNumber === 1 || isFetching}
               >
                 <ChevronLeft className="h-4 w-4" />
                 Previous
               </Button>
               
-              <div className="flex items-center gap-1">
-                {/* Page numbers */}
-                {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
-                  let pageNum;
-                  if (totalPages <= 5) {
-                    pageNum = i + 1;
-                  } else if (page <= 3) {
-                    pageNum = i + 1;
-                  } else if (page >= totalPages - 2) {
-                    pageNum = totalPages - 4 + i;
-                  } else {
-                    pageNum = page - 2 + i;
-                  }
-                  
-                  return (
-                    <Button
-                      key={pageNum}
-                      variant={pageNum === page ? "default" : "outline"}
-                      size="sm"
-                      onClick={() => setPage(pageNum)}
-                      className="w-10"
-                    >
-                      {pageNum}
-                    </Button>
-                  );
-                })}
-              </div>
-              
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => setPage(page + 1)}
-                disabled={page === totalPages}
+                onClick={() => setCursors([...cursors, result?.nextCursor])}
+                disabled={!result?.nextCursor || isFetching}
               >
                 Next
                 <ChevronRight className="h-4 w-4" />
               </Button>
-              
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => setPage(totalPages)}
-                disabled={page === totalPages}
-              >
-                Last
-                <ChevronsRight className="h-4 w-4" />
-              </Button>
             </div>
           </div>
         )}
@@ -0,0 +1,28 @@
+/**
+ * Next.js instrumentation hook - runs once when the server process starts
+ */
+export async function register() {
+  // The job worker and scheduler need Node APIs (sqlite3, pg), so skip the edge runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { getDatabaseAdapter } = await import('./lib/database/factory');
+    const { startJobWorker } = await import('./lib/services/jobWorker');
+    const { startSyncScheduler } = await import('./lib/services/scheduler');
+    const { logger } = await import('./lib/logger');
+
+    // Bring the schema up to date before anything queries it. On failure the adapter
+    // retries on first use, so the error also surfaces on the affected requests.
+    try {
+      const applied = await getDatabaseAdapter().applyPendingMigrations();
+      if (applied.length > 0) {
+        logger.info(`Applied ${applied.length} schema migration(s)`, 'database');
+      }
+    } catch (error) {
+      logger.error(`Failed to apply schema migrations: ${error}`, 'database', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    startJobWorker();
+    startSyncScheduler();
+  }
+}
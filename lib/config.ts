@@ -17,6 +17,25 @@ export interface AppConfig {
     anonKey: string;
     serviceRoleKey?: string;
   };
+  jobs: {
+    workerEnabled: boolean; // Run the in-process background job worker
+    schedulerEnabled: boolean; // Run the in-process sync schedule runner
+  };
+  warrantyRefresh: {
+    maxAgeDays: number; // Re-check warranty data older than this (0 = never)
+    expiringWithinDays: number; // Re-check devices whose warranty ends within this many days (0 = never)
+    retryFailed: boolean; // Re-check devices whose last lookup failed
+  };
+  warrantyEndpoints: {
+    allowedHosts: string[]; // Hosts custom coverage endpoints (e.g. Apple, Microsoft) may point to
+  };
+  backups: {
+    keepNightly: number; // Nightly SQLite backups to keep in the data directory (0 = no nightly backups)
+  };
+  retention: {
+    staleDeviceDays: number; // Move devices no import has seen in this many days to the trash (0 = never, self-hosted only)
+    trashDays: number; // Permanently delete devices this many days after they were trashed (0 = never)
+  };
 }
 
 function getDeploymentMode(): DeploymentMode {
@@ -29,6 +48,19 @@ function getDeploymentMode(): DeploymentMode {
   return mode as DeploymentMode;
 }
 
+function getNumberEnv(name: string, defaultValue: number): number {
+  const rawValue = process.env[name];
+  if (rawValue === undefined || rawValue === '') {
+    return defaultValue;
+  }
+  const value = Number(rawValue);
+  if (!Number.isFinite(value) || value < 0) {
+    console.warn(`Invalid ${name}: ${rawValue}. Defaulting to ${defaultValue}`);
+    return defaultValue;
+  }
+  return value;
+}
+
 function getConfig(): AppConfig {
   const deploymentMode = getDeploymentMode();
   const isSaaS = deploymentMode === 'saas';
@@ -40,6 +72,28 @@ function getConfig(): AppConfig {
       sqlitePath: process.env.DB_PATH || './data/warranty.db',
       postgresUrl: process.env.DATABASE_URL,
     },
+    jobs: {
+      workerEnabled: process.env.JOB_WORKER_ENABLED !== 'false',
+      schedulerEnabled: process.env.SCHEDULER_ENABLED !== 'false',
+    },
+    warrantyRefresh: {
+      maxAgeDays: getNumberEnv('WARRANTY_REFRESH_MAX_AGE_DAYS', 90),
+      expiringWithinDays: getNumberEnv('WARRANTY_REFRESH_EXPIRING_DAYS', 30),
+      retryFailed: process.env.WARRANTY_REFRESH_RETRY_FAILED !== 'false',
+    },
+    warrantyEndpoints: {
+      allowedHosts: (process.env.WARRANTY_ENDPOINT_HOSTS || '')
+        .split(',')
+        .map(host => host.trim().toLowerCase())
+        .filter(Boolean),
+    },
+    backups: {
+      keepNightly: Math.floor(getNumberEnv('BACKUP_KEEP_NIGHTLY', 0)),
+    },
+    retention: {
+      staleDeviceDays: getNumberEnv('DEVICE_RETENTION_DAYS', 0),
+      trashDays: getNumberEnv('TRASH_RETENTION_DAYS', 30),
+    },
   };
 
   // Add Supabase configuration for SaaS mode
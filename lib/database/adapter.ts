@@ -1,5 +1,37 @@
-import { Device } from '@/types/device';
+import {
+  Device,
+  DeviceDeleteFilter,
+  DeviceDetailsUpdate,
+  DeviceQuery,
+  DeviceQueryResult,
+  DeviceSortField,
+  DeviceSource,
+  DeviceSourceRef,
+  DeviceUpsertResult,
+  NetworkInterface
+} from '@/types/device';
+import { Platform, SyncPlatform } from '@/types/platform';
 import { Manufacturer } from '@/types/manufacturer';
+import { appConfig, isSaaSMode } from '@/lib/config';
+import { needsWarrantyLookup } from '@/lib/utils/warrantyRefresh';
+import { encodeDeviceCursor } from '@/lib/utils/deviceQuery';
+import { EncryptedValue, decryptJson, encryptJson, isEncryptedValue, isEncryptionConfigured } from '@/lib/utils/encryptionUtils';
+import {
+  WarrantyEntitlement,
+  WarrantyHistoryEntry,
+  WarrantyHistorySource,
+  WarrantyLookupStatus
+} from '@/types/warranty';
+import { Job, JobProgress, JobStatus, JobType, WarrantyLookupJobParams } from '@/types/job';
+import {
+  ScheduleRun,
+  ScheduleRunStats,
+  ScheduleRunStatus,
+  SyncSchedule,
+  SyncScheduleCredentials,
+  SyncScheduleInput
+} from '@/types/schedule';
+import { SchemaMigration } from './migrations';
 
 /**
  * User context for database operations
@@ -31,10 +63,119 @@ export interface DeviceRow {
   warranty_end_date: string | Date | null; // SQLite uses strings, PostgreSQL uses Date
   warranty_fetched_at: number | null;
   warranty_written_back_at: number | null;
+  warranty_lookup_attempted_at: number | null;
+  warranty_lookup_status: string | null;
+  warranty_lookup_error: string | null;
+  warranty_lookup_attempts: number | null;
+  total_memory: number | string | null; // PostgreSQL returns BIGINT as a string
+  total_cpu_cores: number | null;
+  network_interfaces: string | NetworkInterface[] | null; // SQLite stores JSON text, PostgreSQL uses JSONB
+  deleted_at: number | null;
   created_at: number | Date; // SQLite uses number, PostgreSQL uses Date
   updated_at: number | Date; // SQLite uses number, PostgreSQL uses Date
 }
 
+/**
+ * Row in the device_entitlements table (joined with devices for the serial number)
+ */
+export interface EntitlementRow {
+  serial_number: string;
+  service_level_code: string | null;
+  description: string;
+  start_date: string | Date | null;
+  end_date: string | Date | null;
+  provider: string;
+}
+
+// Device row with the value it was sorted by, for building the next page cursor
+export interface DeviceQueryRow extends DeviceRow {
+  sort_value: string | number;
+}
+
+/**
+ * Row in the device_sources table
+ */
+export interface DeviceSourceRow {
+  device_id: string;
+  platform: string;
+  source_device_id: string;
+  client_name: string | null;
+  first_seen_at: number;
+  last_seen_at: number;
+  warranty_written_back_at: number | null;
+}
+
+/**
+ * Row in the warranty_history table
+ */
+export interface WarrantyHistoryRow {
+  start_date: string | Date | null;
+  end_date: string | Date | null;
+  source: string;
+  recorded_at: number;
+}
+
+/**
+ * Row in the jobs table
+ * JSON columns are TEXT in SQLite and JSONB (already parsed) in PostgreSQL
+ */
+export interface JobRow {
+  id: string;
+  user_id?: string; // Only present in PostgreSQL
+  type: string;
+  status: string;
+  params: string | WarrantyLookupJobParams;
+  total_items: number;
+  processed_items: number;
+  failed_items: number;
+  failures: string | JobProgress['failures'] | null;
+  error: string | null;
+  created_at: number | Date; // SQLite uses number, PostgreSQL uses Date
+  started_at: number | null;
+  finished_at: number | null;
+  updated_at: number | Date; // SQLite uses number, PostgreSQL uses Date
+}
+
+/**
+ * Row in the sync_schedules table
+ */
+export interface SyncScheduleRow {
+  id: string;
+  user_id?: string; // Only present in PostgreSQL
+  name: string;
+  platform: string;
+  cron_expression: string;
+  enabled: number | boolean; // SQLite uses 0/1, PostgreSQL uses boolean
+  lookup_warranties: number | boolean;
+  write_back: number | boolean;
+  credentials: string | SyncScheduleCredentials | EncryptedValue | null;
+  next_run_at: number | null;
+  last_run_at: number | null;
+  last_run_status: string | null;
+  created_at: number | Date; // SQLite uses number, PostgreSQL uses Date
+  updated_at: number | Date; // SQLite uses number, PostgreSQL uses Date
+}
+
+/**
+ * Row in the schedule_runs table, optionally joined with the schedule name
+ */
+export interface ScheduleRunRow {
+  id: string;
+  user_id?: string; // Only present in PostgreSQL
+  schedule_id: string;
+  schedule_name?: string | null;
+  platform: string;
+  status: string;
+  devices_imported: number;
+  devices_looked_up: number;
+  lookups_failed: number;
+  devices_written_back: number;
+  write_backs_failed: number;
+  error: string | null;
+  started_at: number;
+  finished_at: number | null;
+}
+
 /**
  * Helper function to convert Date objects to ISO date strings
  * PostgreSQL returns Date objects, but we need strings for the frontend
@@ -51,9 +192,10 @@ function dateToString(value: string | Date | null): string | undefined {
  * Shared utility function to map database rows to Device objects
  * Works with both SQLite and PostgreSQL row formats
  * Handles Date object conversion from PostgreSQL
+ * and computes needsWarrantyLookup from the warranty refresh policy
  */
 export function mapRowToDevice(row: DeviceRow): Device {
-  return {
+  const device: Device = {
     id: row.id,
     serialNumber: row.serial_number,
     manufacturer: row.manufacturer as Manufacturer,
@@ -68,20 +210,441 @@ export function mapRowToDevice(row: DeviceRow): Device {
     warrantyEndDate: dateToString(row.warranty_end_date),
     warrantyFetchedAt: row.warranty_fetched_at || undefined,
     warrantyWrittenBackAt: row.warranty_written_back_at || undefined,
+    warrantyLookupAttemptedAt: row.warranty_lookup_attempted_at || undefined,
+    warrantyLookupStatus: (row.warranty_lookup_status as WarrantyLookupStatus) || undefined,
+    warrantyLookupError: row.warranty_lookup_error || undefined,
+    warrantyLookupAttempts: row.warranty_lookup_attempts || undefined,
+    totalMemory: row.total_memory ? Number(row.total_memory) : undefined,
+    totalCpuCores: row.total_cpu_cores || undefined,
+    networkInterfaces: row.network_interfaces ? parseJsonColumn<NetworkInterface[]>(row.network_interfaces, []) : undefined,
+    deletedAt: row.deleted_at || undefined,
+  };
+  device.needsWarrantyLookup = needsWarrantyLookup(device, appConfig.warrantyRefresh);
+  return device;
+}
+
+/**
+ * Shared utility function to map entitlement rows to WarrantyEntitlement objects
+ */
+export function mapRowToEntitlement(row: EntitlementRow): WarrantyEntitlement {
+  return {
+    serviceLevelCode: row.service_level_code || undefined,
+    description: row.description,
+    startDate: dateToString(row.start_date),
+    endDate: dateToString(row.end_date),
+    provider: row.provider,
+  };
+}
+
+/**
+ * Groups entitlement rows by device serial number
+ */
+export function groupEntitlementsBySerial(rows: EntitlementRow[]): Record<string, WarrantyEntitlement[]> {
+  const entitlementsBySerial: Record<string, WarrantyEntitlement[]> = {};
+  for (const row of rows) {
+    (entitlementsBySerial[row.serial_number] ||= []).push(mapRowToEntitlement(row));
+  }
+  return entitlementsBySerial;
+}
+
+export function mapRowToDeviceSource(row: DeviceSourceRow): DeviceSource {
+  return {
+    platform: row.platform,
+    sourceDeviceId: row.source_device_id,
+    clientName: row.client_name || undefined,
+    firstSeenAt: row.first_seen_at,
+    lastSeenAt: row.last_seen_at,
+    warrantyWrittenBackAt: row.warranty_written_back_at || undefined
+  };
+}
+
+export function groupSourcesByDeviceId(rows: DeviceSourceRow[]): Record<string, DeviceSource[]> {
+  const sourcesByDeviceId: Record<string, DeviceSource[]> = {};
+  for (const row of rows) {
+    (sourcesByDeviceId[row.device_id] ||= []).push(mapRowToDeviceSource(row));
+  }
+  return sourcesByDeviceId;
+}
+
+/**
+ * Attaches each device's source records (devices without any get an empty list)
+ */
+export function withDeviceSources(devices: Device[], sourceRows: DeviceSourceRow[]): Device[] {
+  const sourcesByDeviceId = groupSourcesByDeviceId(sourceRows);
+  return devices.map(device => ({ ...device, sources: sourcesByDeviceId[device.id!] || [] }));
+}
+
+// Device column for each sort field (same in both databases)
+export const DEVICE_SORT_COLUMNS: Record<DeviceSortField, string> = {
+  hostname: 'hostname',
+  serialNumber: 'serial_number',
+  clientName: 'client_name',
+  manufacturer: 'manufacturer',
+  warrantyStartDate: 'warranty_start_date',
+  warrantyEndDate: 'warranty_end_date',
+  sourcePlatform: 'source_platform',
+  warrantyFetchedAt: 'warranty_fetched_at'
+};
+
+/**
+ * Escapes LIKE wildcards in user input, for use with ESCAPE '\'
+ */
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+/**
+ * Builds a device query page from rows fetched with one extra row beyond the
+ * page size; the extra row only signals that there is a next page
+ */
+export function toDeviceQueryResult(
+  rows: DeviceQueryRow[],
+  limit: number,
+  totalCount: number,
+  entitlementsBySerial: Record<string, WarrantyEntitlement[]>,
+  sourcesByDeviceId: Record<string, DeviceSource[]>
+): DeviceQueryResult {
+  const pageRows = rows.slice(0, limit);
+  const lastRow = pageRows[pageRows.length - 1];
+
+  return {
+    devices: pageRows.map(row => ({
+      ...mapRowToDevice(row),
+      entitlements: entitlementsBySerial[row.serial_number],
+      sources: sourcesByDeviceId[row.id] || []
+    })),
+    nextCursor: rows.length > limit && lastRow
+      ? encodeDeviceCursor({ value: lastRow.sort_value, id: lastRow.id })
+      : undefined,
+    totalCount
   };
 }
 
+export function mapRowToWarrantyHistoryEntry(row: WarrantyHistoryRow): WarrantyHistoryEntry {
+  return {
+    startDate: dateToString(row.start_date),
+    endDate: dateToString(row.end_date),
+    source: row.source as WarrantyHistorySource,
+    recordedAt: row.recorded_at
+  };
+}
+
+/**
+ * History source for warranty dates that arrive with an imported device
+ */
+export function getImportHistorySource(device: Device): WarrantyHistorySource {
+  return device.sourcePlatform === Platform.CSV ? 'csv' : 'platform_import';
+}
+
+/**
+ * Platform record an imported device should be linked to, if any. CSV imports
+ * have no record in a platform to link (or write back) to.
+ */
+export function getImportSourceRef(device: Device): DeviceSourceRef | null {
+  if (!device.sourcePlatform || !device.sourceDeviceId || device.sourcePlatform === Platform.CSV) {
+    return null;
+  }
+  return { platform: device.sourcePlatform, sourceDeviceId: device.sourceDeviceId };
+}
+
+/**
+ * Merges an imported device into its stored record: incoming values win, but
+ * fields the import doesn't provide keep their stored value
+ */
+export function mergeImportedDevice(existingDevice: Device, device: Device): Device {
+  return {
+    ...device, // Start with incoming device data
+    id: existingDevice.id, // Keep existing database ID
+    deletedAt: undefined, // Importing a device that is in the trash restores it
+    // Preserve existing warranty data if it exists and incoming doesn't have it
+    warrantyStartDate: device.warrantyStartDate || existingDevice.warrantyStartDate,
+    warrantyEndDate: device.warrantyEndDate || existingDevice.warrantyEndDate,
+    warrantyFetchedAt: device.warrantyFetchedAt || existingDevice.warrantyFetchedAt,
+    warrantyWrittenBackAt: device.warrantyWrittenBackAt || existingDevice.warrantyWrittenBackAt,
+    // Update other fields from incoming data, but fall back to existing if not provided
+    model: device.model || existingDevice.model,
+    hostname: device.hostname || existingDevice.hostname,
+    clientId: device.clientId || existingDevice.clientId,
+    clientName: device.clientName || existingDevice.clientName,
+    deviceClass: device.deviceClass || existingDevice.deviceClass,
+    // Always update source information if provided (device might be found in multiple platforms)
+    sourcePlatform: device.sourcePlatform || existingDevice.sourcePlatform,
+    sourceDeviceId: device.sourceDeviceId || existingDevice.sourceDeviceId,
+    // Keep the last known hardware specs when a source doesn't report them (e.g. CSV imports)
+    totalMemory: device.totalMemory || existingDevice.totalMemory,
+    totalCpuCores: device.totalCpuCores || existingDevice.totalCpuCores,
+    networkInterfaces: device.networkInterfaces?.length ? device.networkInterfaces : existingDevice.networkInterfaces,
+  };
+}
+
+/**
+ * Column values of a device as insertOrUpdateDevice and bulkUpsertDevices store them,
+ * in the order of IMPORTED_DEVICE_COLUMNS (network interfaces as JSON)
+ */
+export function toImportedDeviceValues(device: Device): (string | number | null)[] {
+  return [
+    device.manufacturer,
+    device.model || null,
+    device.hostname || null,
+    device.clientId || null,
+    device.clientName || null,
+    device.deviceClass || null,
+    device.sourcePlatform || null,
+    device.sourceDeviceId || null,
+    device.warrantyStartDate || null,
+    device.warrantyEndDate || null,
+    device.warrantyFetchedAt || null,
+    device.warrantyWrittenBackAt || null,
+    device.totalMemory || null,
+    device.totalCpuCores || null,
+    device.networkInterfaces?.length ? JSON.stringify(device.networkInterfaces) : null
+  ];
+}
+
+// Device columns an import writes, besides id and serial_number (same in both databases)
+export const IMPORTED_DEVICE_COLUMNS = [
+  'manufacturer',
+  'model',
+  'hostname',
+  'client_id',
+  'client_name',
+  'device_class',
+  'source_platform',
+  'source_device_id',
+  'warranty_start_date',
+  'warranty_end_date',
+  'warranty_fetched_at',
+  'warranty_written_back_at',
+  'total_memory',
+  'total_cpu_cores',
+  'network_interfaces'
+];
+
+function isSameImportedDevice(a: Device, b: Device): boolean {
+  const aValues = toImportedDeviceValues(a);
+  const bValues = toImportedDeviceValues(b);
+  return aValues.every((value, index) => value === bValues[index]);
+}
+
+export interface DeviceUpsertPlan {
+  results: DeviceUpsertResult[]; // One per incoming device, in input order
+  devices: Device[]; // Final state of each inserted or updated device, one per serial number
+  warrantyHistory: { deviceId: string; startDate?: string; endDate?: string; source: WarrantyHistorySource }[];
+  sourceLinks: { deviceId: string; source: DeviceSourceRef; clientName?: string }[];
+}
+
+/**
+ * Works out what a bulk import does, given the stored devices for its serial numbers.
+ * Devices are merged in input order with the same rules as insertOrUpdateDevice, so a
+ * serial number that appears twice in one batch ends up as if imported one at a time.
+ */
+export function planDeviceUpserts(devices: Device[], existingBySerial: Map<string, Device>): DeviceUpsertPlan {
+  const current = new Map(existingBySerial);
+  const changedSerials = new Set<string>();
+  const sourceLinks = new Map<string, DeviceUpsertPlan['sourceLinks'][number]>();
+  const plan: DeviceUpsertPlan = { results: [], devices: [], warrantyHistory: [], sourceLinks: [] };
+
+  for (const device of devices) {
+    if (!device.serialNumber?.trim() || !device.manufacturer?.trim()) {
+      plan.results.push({
+        serialNumber: device.serialNumber || '',
+        outcome: 'rejected',
+        error: `Device missing required fields: serialNumber='${device.serialNumber}', manufacturer='${device.manufacturer}'`
+      });
+      continue;
+    }
+
+    const existingDevice = current.get(device.serialNumber);
+    const nextDevice = existingDevice
+      ? mergeImportedDevice(existingDevice, device)
+      : { ...device, id: device.id || crypto.randomUUID() };
+    // A trashed device is restored (the merge clears deletedAt), so it counts as updated
+    const changed = !existingDevice || Boolean(existingDevice.deletedAt) || !isSameImportedDevice(existingDevice, nextDevice);
+
+    if (changed) {
+      current.set(device.serialNumber, nextDevice);
+      changedSerials.add(device.serialNumber);
+    }
+    // Only dates that differ from the stored ones are a new history entry
+    if ((device.warrantyStartDate || device.warrantyEndDate) && (
+      !existingDevice ||
+      existingDevice.warrantyStartDate !== nextDevice.warrantyStartDate ||
+      existingDevice.warrantyEndDate !== nextDevice.warrantyEndDate
+    )) {
+      plan.warrantyHistory.push({
+        deviceId: nextDevice.id!,
+        startDate: nextDevice.warrantyStartDate,
+        endDate: nextDevice.warrantyEndDate,
+        source: getImportHistorySource(device)
+      });
+    }
+    // Linked even when unchanged, so the link's last seen time moves forward
+    const source = getImportSourceRef(device);
+    if (source) {
+      sourceLinks.set(`${source.platform}\u0000${source.sourceDeviceId}`, {
+        deviceId: nextDevice.id!,
+        source,
+        clientName: device.clientName
+      });
+    }
+
+    plan.results.push({
+      serialNumber: device.serialNumber,
+      outcome: !existingDevice ? 'inserted' : changed ? 'updated' : 'unchanged',
+      deviceId: nextDevice.id
+    });
+  }
+
+  plan.devices = Array.from(changedSerials, serialNumber => current.get(serialNumber)!);
+  plan.sourceLinks = Array.from(sourceLinks.values());
+  return plan;
+}
+
+function toEpochSeconds(value: number | Date): number {
+  return value instanceof Date ? Math.floor(value.getTime() / 1000) : value;
+}
+
+function parseJsonColumn<T>(value: string | T | null, fallback: T): T {
+  if (value === null || value === undefined) return fallback;
+  return typeof value === 'string' ? JSON.parse(value) as T : value;
+}
+
+/**
+ * Shared utility function to map job rows to Job objects
+ */
+export function mapRowToJob(row: JobRow): Job {
+  return {
+    id: row.id,
+    userId: row.user_id || undefined,
+    type: row.type as JobType,
+    status: row.status as JobStatus,
+    params: parseJsonColumn(row.params, { serialNumbers: [] }),
+    totalItems: row.total_items,
+    processedItems: row.processed_items,
+    failedItems: row.failed_items,
+    failures: parseJsonColumn(row.failures, []),
+    error: row.error || undefined,
+    createdAt: toEpochSeconds(row.created_at),
+    startedAt: row.started_at || undefined,
+    finishedAt: row.finished_at || undefined,
+    updatedAt: toEpochSeconds(row.updated_at),
+  };
+}
+
+/**
+ * Serializes schedule credentials for the credentials column, encrypted when
+ * CREDENTIALS_ENCRYPTION_KEY is set. SaaS mode never stores them unencrypted.
+ */
+export function serializeScheduleCredentials(credentials?: SyncScheduleCredentials): string | null {
+  if (!credentials) {
+    return null;
+  }
+  if (isEncryptionConfigured()) {
+    return JSON.stringify(encryptJson(credentials));
+  }
+  if (isSaaSMode()) {
+    throw new Error('CREDENTIALS_ENCRYPTION_KEY must be set to store schedule credentials in SaaS mode');
+  }
+  return JSON.stringify(credentials);
+}
+
+function parseScheduleCredentials(value: string | SyncScheduleCredentials | EncryptedValue): SyncScheduleCredentials {
+  const credentials = parseJsonColumn<SyncScheduleCredentials | EncryptedValue>(value, { platform: {} });
+  // Rows saved before encryption was configured are still plain JSON
+  return isEncryptedValue(credentials) ? decryptJson<SyncScheduleCredentials>(credentials) : credentials;
+}
+
+/**
+ * Shared utility function to map schedule rows to SyncSchedule objects
+ */
+export function mapRowToSyncSchedule(row: SyncScheduleRow): SyncSchedule {
+  return {
+    id: row.id,
+    userId: row.user_id || undefined,
+    name: row.name,
+    platform: row.platform as SyncPlatform,
+    cronExpression: row.cron_expression,
+    enabled: Boolean(row.enabled),
+    lookupWarranties: Boolean(row.lookup_warranties),
+    writeBack: Boolean(row.write_back),
+    credentials: row.credentials ? parseScheduleCredentials(row.credentials) : undefined,
+    nextRunAt: row.next_run_at || undefined,
+    lastRunAt: row.last_run_at || undefined,
+    lastRunStatus: (row.last_run_status as ScheduleRunStatus) || undefined,
+    createdAt: toEpochSeconds(row.created_at),
+    updatedAt: toEpochSeconds(row.updated_at),
+  };
+}
+
+/**
+ * Shared utility function to map schedule run rows to ScheduleRun objects
+ */
+export function mapRowToScheduleRun(row: ScheduleRunRow): ScheduleRun {
+  return {
+    id: row.id,
+    scheduleId: row.schedule_id,
+    scheduleName: row.schedule_name || undefined,
+    userId: row.user_id || undefined,
+    platform: row.platform as SyncPlatform,
+    status: row.status as ScheduleRunStatus,
+    devicesImported: row.devices_imported,
+    devicesLookedUp: row.devices_looked_up,
+    lookupsFailed: row.lookups_failed,
+    devicesWrittenBack: row.devices_written_back,
+    writeBacksFailed: row.write_backs_failed,
+    error: row.error || undefined,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at || undefined,
+  };
+}
+
+/**
+ * A consistent snapshot of the database: the whole SQLite file in self-hosted mode,
+ * or a JSON dump of the user's rows in PostgreSQL (SaaS mode)
+ */
+export interface DatabaseBackup {
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+}
+
+// e.g. warranty-watcher-backup-2025-08-04T02-00-00.db
+export function getBackupFileName(extension: string): string {
+  const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
+  return `warranty-watcher-backup-${timestamp}.${extension}`;
+}
+
 /**
  * Database adapter interface
  * Provides a unified API for different database backends
  */
 export interface DatabaseAdapter {
-  // Basic CRUD operations
+  // Basic CRUD operations. Storing a device with a source platform and ID links that
+  // source record to it; the list methods and getDeviceById include every linked source.
   insertOrUpdateDevice(device: Device, userId?: string): Promise<void>;
+  // Imports a batch in one transaction with the same merge rules as insertOrUpdateDevice.
+  // Returns one result per device in input order; invalid devices are rejected, not thrown.
+  bulkUpsertDevices(devices: Device[], userId?: string): Promise<DeviceUpsertResult[]>;
+  // Links each device's sources to the stored device with its serial number, keeping the
+  // sources' recorded timestamps (for copying devices between databases)
+  importDeviceSources(devices: Device[], userId?: string): Promise<void>;
   getDeviceBySerial(serialNumber: string, userId?: string): Promise<Device | null>;
+  getDeviceById(deviceId: string, userId?: string): Promise<Device | null>;
   getAllDevices(userId?: string): Promise<Device[]>;
   getDevicesByPlatform(platform: string, userId?: string): Promise<Device[]>;
+  // Filtered, sorted, keyset-paginated device inventory (with entitlements)
+  queryDevices(query: DeviceQuery, userId?: string): Promise<DeviceQueryResult>;
+  // Moves a device to the trash
   deleteDeviceById(deviceId: string, userId?: string): Promise<void>;
+  // Manual edit; changed warranty dates are recorded in the warranty history as 'manual'
+  updateDeviceDetails(deviceId: string, details: DeviceDetailsUpdate, userId?: string): Promise<Device | null>;
+
+  // Trash operations. Deleted devices keep their data and are left out of every other
+  // read until they are restored, imported again or purged by the retention rules.
+  // deleteDevices moves the devices matching the filter to the trash and returns how many.
+  deleteDevices(filter: DeviceDeleteFilter, userId?: string): Promise<number>;
+  getDeletedDevices(userId?: string): Promise<Device[]>;
+  restoreDevices(deviceIds: string[], userId?: string): Promise<number>;
 
   // Warranty operations
   updateDeviceWarranty(
@@ -89,16 +652,83 @@ export interface DatabaseAdapter {
     warranty: { startDate: string; endDate: string },
     userId?: string
   ): Promise<void>;
-  markWarrantyWrittenBack(serialNumber: string, userId?: string): Promise<void>;
+  // With a source, also records the write-back on that source record
+  markWarrantyWrittenBack(serialNumber: string, source?: DeviceSourceRef, userId?: string): Promise<void>;
+  recordWarrantyLookupFailure(
+    serialNumber: string,
+    status: WarrantyLookupStatus,
+    error: string,
+    userId?: string
+  ): Promise<void>;
+
+  // Entitlement (coverage line item) operations
+  replaceDeviceEntitlements(
+    serialNumber: string,
+    entitlements: WarrantyEntitlement[],
+    userId?: string
+  ): Promise<void>;
+  getDeviceEntitlements(serialNumber: string, userId?: string): Promise<WarrantyEntitlement[]>;
+  getAllDeviceEntitlements(userId?: string): Promise<Record<string, WarrantyEntitlement[]>>;
+
+  // Warranty history operations (entries are recorded when a device's warranty dates change)
+  getWarrantyHistory(serialNumber: string, userId?: string): Promise<WarrantyHistoryEntry[]>;
+
+  // Background job operations
+  createJob(
+    job: { type: JobType; params: WarrantyLookupJobParams; totalItems: number },
+    userId?: string
+  ): Promise<Job>;
+  getJobById(jobId: string, userId?: string): Promise<Job | null>;
+  getRecentJobs(limit: number, userId?: string): Promise<Job[]>;
+  cancelJob(jobId: string, userId?: string): Promise<boolean>;
+
+  // Job worker operations - these run outside a user request and span all users
+  claimNextQueuedJob(): Promise<Job | null>;
+  updateJobProgress(jobId: string, progress: JobProgress): Promise<void>;
+  finishJob(jobId: string, status: 'completed' | 'failed', error?: string): Promise<void>;
+  requeueStaleJobs(staleBefore: number): Promise<number>;
+
+  // Sync schedule operations
+  createSchedule(schedule: SyncScheduleInput, nextRunAt: number | null, userId?: string): Promise<SyncSchedule>;
+  updateSchedule(
+    scheduleId: string,
+    schedule: SyncScheduleInput,
+    nextRunAt: number | null,
+    userId?: string
+  ): Promise<SyncSchedule | null>;
+  deleteSchedule(scheduleId: string, userId?: string): Promise<boolean>;
+  getScheduleById(scheduleId: string, userId?: string): Promise<SyncSchedule | null>;
+  getSchedules(userId?: string): Promise<SyncSchedule[]>;
+  getRecentScheduleRuns(limit: number, userId?: string): Promise<ScheduleRun[]>;
+
+  // Scheduler operations - these run outside a user request and span all users
+  getDueSchedules(now: number): Promise<SyncSchedule[]>;
+  claimScheduleRun(scheduleId: string, expectedNextRunAt: number, nextRunAt: number | null): Promise<boolean>;
+  createScheduleRun(schedule: SyncSchedule): Promise<ScheduleRun>;
+  finishScheduleRun(runId: string, status: 'completed' | 'failed', stats: ScheduleRunStats, error?: string): Promise<void>;
+  failInterruptedScheduleRuns(startedBefore: number): Promise<number>;
+
+  // Retention operations - these run outside a user request and span all users.
+  // cleanupOldDevices moves devices that no import has seen in daysOld days (devices without
+  // platform records: added over daysOld days ago) to the trash; purgeDeletedDevices
+  // permanently deletes devices trashed before a time.
+  cleanupOldDevices(daysOld: number): Promise<number>;
+  purgeDeletedDevices(deletedBefore: number): Promise<number>;
 
   // Client operations (MSP functionality)
   getUniqueClientNames(userId?: string): Promise<string[]>;
   getDevicesByClientName(clientName: string, userId?: string): Promise<Device[]>;
   getDeviceCountByClient(userId?: string): Promise<{ clientName: string; count: number }[]>;
 
-  // Utility operations
-  cleanupOldDevices(daysOld: number, userId?: string): Promise<number>;
-  
+  // Schema migrations - these are applied automatically before the first query
+  getSchemaMigrations(): Promise<SchemaMigration[]>;
+  applyPendingMigrations(): Promise<SchemaMigration[]>;
+
+  // Backup and restore. Restoring replaces all of the user's data with the backup's,
+  // after checking its schema version; older backups are migrated to the current schema.
+  createBackup(userId?: string): Promise<DatabaseBackup>;
+  restoreBackup(data: Buffer, userId?: string): Promise<void>;
+
   // Raw query execution (for advanced features like subscriptions)
   executeQuery(query: string, params?: unknown[]): Promise<{ rows: unknown[] }>;
   
@@ -0,0 +1,83 @@
+import { migrations as sqliteMigrations } from './sqlite';
+import { migrations as postgresMigrations } from './postgres';
+import { Migration, MigrationDialect, SchemaMigration, SchemaMigrationRow } from './types';
+
+export * from './types';
+
+/**
+ * Versioned schema migrations
+ * Each dialect has its own numbered migration files, but both share the same
+ * logical versions: version N brings either database to the same schema.
+ * Applied versions are recorded in the schema_migrations table.
+ */
+
+export const MIGRATIONS: Record<MigrationDialect, Migration[]> = {
+  sqlite: sqliteMigrations,
+  postgres: postgresMigrations
+};
+
+/**
+ * Both dialects must define the same versions in ascending order, with no gaps
+ */
+function validateMigrations(): void {
+  const sqliteVersions = MIGRATIONS.sqlite.map(migration => migration.version);
+  const postgresVersions = MIGRATIONS.postgres.map(migration => migration.version);
+
+  sqliteVersions.forEach((version, index) => {
+    if (version !== index + 1) {
+      throw new Error(`SQLite migrations must be numbered 1, 2, 3, ... (found version ${version} at position ${index + 1})`);
+    }
+  });
+  if (sqliteVersions.join(',') !== postgresVersions.join(',')) {
+    throw new Error(
+      `SQLite and PostgreSQL migrations are out of sync: [${sqliteVersions.join(', ')}] vs [${postgresVersions.join(', ')}]`
+    );
+  }
+}
+
+validateMigrations();
+
+/**
+ * Known migrations that aren't in the applied rows yet, oldest first
+ */
+export function getPendingMigrations(dialect: MigrationDialect, appliedRows: SchemaMigrationRow[]): Migration[] {
+  const appliedVersions = new Set(appliedRows.map(row => Number(row.version)));
+  return MIGRATIONS[dialect].filter(migration => !appliedVersions.has(migration.version));
+}
+
+/**
+ * Every known migration with its applied time, plus any applied versions this
+ * code doesn't know about (the database was migrated by a newer release)
+ */
+export function getSchemaMigrationStatus(dialect: MigrationDialect, appliedRows: SchemaMigrationRow[]): SchemaMigration[] {
+  const appliedByVersion = new Map(appliedRows.map(row => [Number(row.version), row]));
+  const knownVersions = new Set(MIGRATIONS[dialect].map(migration => migration.version));
+
+  const known: SchemaMigration[] = MIGRATIONS[dialect].map(migration => ({
+    version: migration.version,
+    name: migration.name,
+    appliedAt: appliedByVersion.get(migration.version)?.applied_at
+  }));
+  const unknown: SchemaMigration[] = appliedRows
+    .filter(row => !knownVersions.has(Number(row.version)))
+    .map(row => ({ version: Number(row.version), name: row.name, appliedAt: row.applied_at }));
+
+  return [...known, ...unknown].sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Throws unless this release can restore a backup taken at the given schema version.
+ * Backups from older releases are fine (they are migrated after the restore), but a
+ * newer release's backup may use a schema this code doesn't know.
+ */
+export function validateBackupSchemaVersion(dialect: MigrationDialect, version: number): void {
+  const latestVersion = MIGRATIONS[dialect][MIGRATIONS[dialect].length - 1].version;
+  if (!Number.isInteger(version) || version < 0) {
+    throw new Error('Backup has no valid schema version');
+  }
+  if (version > latestVersion) {
+    throw new Error(
+      `Backup is from a newer release (schema version ${version}, this release supports up to ${latestVersion}). Upgrade before restoring it.`
+    );
+  }
+}
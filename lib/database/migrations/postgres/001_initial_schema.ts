@@ -0,0 +1,295 @@
+import { Migration } from '../types';
+
+// Schema as of the first tracked version (previously lib/database/schema.sql,
+// applied by hand). Every statement is idempotent so databases set up from that
+// file are brought up to date and recorded as version 1.
+export const migration: Migration = {
+  version: 1,
+  name: 'initial_schema',
+  statements: [
+    // Create devices table with user_id for multi-tenancy
+    `CREATE TABLE IF NOT EXISTS devices (
+      id TEXT PRIMARY KEY,
+      user_id UUID NOT NULL, -- Multi-tenancy: isolates data by user
+      serial_number TEXT NOT NULL,
+      manufacturer TEXT NOT NULL,
+      model TEXT,
+      hostname TEXT,
+      client_id TEXT,
+      client_name TEXT,
+      device_class TEXT,
+      source_platform TEXT,
+      source_device_id TEXT,
+
+      warranty_start_date DATE,
+      warranty_end_date DATE,
+      warranty_fetched_at INTEGER,
+      warranty_written_back_at INTEGER,
+      warranty_lookup_attempted_at INTEGER,
+      warranty_lookup_status TEXT,
+      warranty_lookup_error TEXT,
+      warranty_lookup_attempts INTEGER DEFAULT 0,
+
+      total_memory BIGINT,
+      total_cpu_cores INTEGER,
+      network_interfaces JSONB,
+
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW(),
+
+      -- Ensure unique serial numbers per user (multi-tenant constraint)
+      UNIQUE(user_id, serial_number)
+    )`,
+
+    // Columns added after the initial release (no-ops on fresh databases)
+    'ALTER TABLE devices ADD COLUMN IF NOT EXISTS warranty_lookup_attempted_at INTEGER',
+    'ALTER TABLE devices ADD COLUMN IF NOT EXISTS warranty_lookup_error TEXT',
+    'ALTER TABLE devices ADD COLUMN IF NOT EXISTS warranty_lookup_status TEXT',
+    'ALTER TABLE devices ADD COLUMN IF NOT EXISTS warranty_lookup_attempts INTEGER DEFAULT 0',
+    'ALTER TABLE devices ADD COLUMN IF NOT EXISTS total_memory BIGINT',
+    'ALTER TABLE devices ADD COLUMN IF NOT EXISTS total_cpu_cores INTEGER',
+    'ALTER TABLE devices ADD COLUMN IF NOT EXISTS network_interfaces JSONB',
+
+    // Create device_entitlements table for per-device coverage line items
+    `CREATE TABLE IF NOT EXISTS device_entitlements (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL, -- Multi-tenancy: isolates data by user
+      device_id TEXT NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+      service_level_code TEXT,
+      description TEXT NOT NULL,
+      start_date DATE,
+      end_date DATE,
+      provider TEXT NOT NULL,
+      created_at TIMESTAMP DEFAULT NOW()
+    )`,
+
+    // Create warranty_history table: every distinct warranty start/end pair a device has had
+    `CREATE TABLE IF NOT EXISTS warranty_history (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL, -- Multi-tenancy: isolates data by user
+      device_id TEXT NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+      start_date DATE,
+      end_date DATE,
+      source TEXT NOT NULL CHECK (source IN ('manufacturer_api', 'platform_import', 'csv', 'manual')),
+      recorded_at INTEGER NOT NULL,
+      created_at TIMESTAMP DEFAULT clock_timestamp()
+    )`,
+
+    // Seed history with the current dates of devices that have none yet (e.g. from before the table existed)
+    `INSERT INTO warranty_history (user_id, device_id, start_date, end_date, source, recorded_at)
+     SELECT d.user_id, d.id, d.warranty_start_date, d.warranty_end_date,
+            CASE WHEN d.warranty_fetched_at IS NOT NULL THEN 'manufacturer_api'
+                 WHEN d.source_platform = 'CSV' THEN 'csv'
+                 ELSE 'platform_import' END,
+            COALESCE(d.warranty_fetched_at, EXTRACT(EPOCH FROM d.updated_at)::integer)
+     FROM devices d
+     WHERE (d.warranty_start_date IS NOT NULL OR d.warranty_end_date IS NOT NULL)
+       AND NOT EXISTS (SELECT 1 FROM warranty_history h WHERE h.device_id = d.id)`,
+
+    // Create jobs table for background work (e.g. warranty lookups)
+    `CREATE TABLE IF NOT EXISTS jobs (
+      id TEXT PRIMARY KEY,
+      user_id UUID NOT NULL, -- Multi-tenancy: isolates data by user
+      type TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed', 'canceled')),
+      params JSONB NOT NULL,
+      total_items INTEGER NOT NULL DEFAULT 0,
+      processed_items INTEGER NOT NULL DEFAULT 0,
+      failed_items INTEGER NOT NULL DEFAULT 0,
+      failures JSONB,
+      error TEXT,
+      created_at TIMESTAMP DEFAULT NOW(),
+      started_at INTEGER,
+      finished_at INTEGER,
+      updated_at TIMESTAMP DEFAULT NOW()
+    )`,
+
+    // Create sync_schedules table for scheduled import / lookup / write-back per platform
+    `CREATE TABLE IF NOT EXISTS sync_schedules (
+      id TEXT PRIMARY KEY,
+      user_id UUID NOT NULL, -- Multi-tenancy: isolates data by user
+      name TEXT NOT NULL,
+      platform TEXT NOT NULL,
+      cron_expression TEXT NOT NULL,
+      enabled BOOLEAN NOT NULL DEFAULT TRUE,
+      lookup_warranties BOOLEAN NOT NULL DEFAULT TRUE,
+      write_back BOOLEAN NOT NULL DEFAULT FALSE,
+      credentials JSONB,
+      next_run_at INTEGER,
+      last_run_at INTEGER,
+      last_run_status TEXT,
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW()
+    )`,
+
+    // Create schedule_runs table for the run history of each schedule
+    `CREATE TABLE IF NOT EXISTS schedule_runs (
+      id TEXT PRIMARY KEY,
+      user_id UUID NOT NULL, -- Multi-tenancy: isolates data by user
+      schedule_id TEXT NOT NULL REFERENCES sync_schedules(id) ON DELETE CASCADE,
+      platform TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+      devices_imported INTEGER NOT NULL DEFAULT 0,
+      devices_looked_up INTEGER NOT NULL DEFAULT 0,
+      lookups_failed INTEGER NOT NULL DEFAULT 0,
+      devices_written_back INTEGER NOT NULL DEFAULT 0,
+      write_backs_failed INTEGER NOT NULL DEFAULT 0,
+      error TEXT,
+      started_at INTEGER NOT NULL,
+      finished_at INTEGER
+    )`,
+
+    // Create subscriptions table for proper subscription management
+    `CREATE TABLE IF NOT EXISTS subscriptions (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL UNIQUE, -- One subscription per user
+      plan TEXT NOT NULL CHECK (plan IN ('pro')),
+      status TEXT NOT NULL CHECK (status IN ('active', 'canceled', 'past_due', 'incomplete', 'incomplete_expired', 'unpaid', 'paused')),
+      stripe_customer_id TEXT UNIQUE,
+      stripe_subscription_id TEXT UNIQUE,
+      current_period_start TIMESTAMP,
+      current_period_end TIMESTAMP,
+      cancel_at_period_end BOOLEAN DEFAULT FALSE,
+      canceled_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW()
+    )`,
+
+    // Create indexes for performance
+    'CREATE INDEX IF NOT EXISTS idx_devices_user_id ON devices(user_id)',
+    'CREATE INDEX IF NOT EXISTS idx_devices_serial ON devices(user_id, serial_number)',
+    'CREATE INDEX IF NOT EXISTS idx_devices_platform ON devices(user_id, source_platform)',
+    'CREATE INDEX IF NOT EXISTS idx_devices_warranty_fetched ON devices(user_id, warranty_fetched_at)',
+    'CREATE INDEX IF NOT EXISTS idx_devices_client_name ON devices(user_id, client_name)',
+    'CREATE INDEX IF NOT EXISTS idx_devices_warranty_end ON devices(user_id, warranty_end_date)',
+    'CREATE INDEX IF NOT EXISTS idx_device_entitlements_device ON device_entitlements(user_id, device_id)',
+    'CREATE INDEX IF NOT EXISTS idx_warranty_history_device ON warranty_history(user_id, device_id, recorded_at)',
+    'CREATE INDEX IF NOT EXISTS idx_jobs_user_id ON jobs(user_id, created_at)',
+    'CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status, created_at)',
+    'CREATE INDEX IF NOT EXISTS idx_sync_schedules_user_id ON sync_schedules(user_id, name)',
+    'CREATE INDEX IF NOT EXISTS idx_sync_schedules_next_run ON sync_schedules(enabled, next_run_at)',
+    'CREATE INDEX IF NOT EXISTS idx_schedule_runs_user_id ON schedule_runs(user_id, started_at)',
+
+    // Subscription indexes
+    'CREATE INDEX IF NOT EXISTS idx_subscriptions_user_id ON subscriptions(user_id)',
+    'CREATE INDEX IF NOT EXISTS idx_subscriptions_stripe_customer ON subscriptions(stripe_customer_id)',
+    'CREATE INDEX IF NOT EXISTS idx_subscriptions_stripe_subscription ON subscriptions(stripe_subscription_id)',
+    'CREATE INDEX IF NOT EXISTS idx_subscriptions_status ON subscriptions(status)',
+
+    // Enable Row Level Security for additional security
+    'ALTER TABLE devices ENABLE ROW LEVEL SECURITY',
+    'ALTER TABLE subscriptions ENABLE ROW LEVEL SECURITY',
+    'ALTER TABLE device_entitlements ENABLE ROW LEVEL SECURITY',
+    'ALTER TABLE warranty_history ENABLE ROW LEVEL SECURITY',
+    'ALTER TABLE jobs ENABLE ROW LEVEL SECURITY',
+    'ALTER TABLE sync_schedules ENABLE ROW LEVEL SECURITY',
+    'ALTER TABLE schedule_runs ENABLE ROW LEVEL SECURITY',
+
+    // RLS Policy: Users can only see devices they own
+    // Note: This policy assumes you're using Supabase auth or similar that sets the authenticated user ID in the database context
+    'DROP POLICY IF EXISTS devices_user_isolation ON devices',
+    `CREATE POLICY devices_user_isolation ON devices
+      FOR ALL
+      TO authenticated
+      USING (user_id = auth.uid())`,
+
+    // RLS Policy: Users can only see entitlements of devices they own
+    'DROP POLICY IF EXISTS device_entitlements_user_isolation ON device_entitlements',
+    `CREATE POLICY device_entitlements_user_isolation ON device_entitlements
+      FOR ALL
+      TO authenticated
+      USING (user_id = auth.uid())`,
+
+    // RLS Policy: Users can only see warranty history of devices they own
+    'DROP POLICY IF EXISTS warranty_history_user_isolation ON warranty_history',
+    `CREATE POLICY warranty_history_user_isolation ON warranty_history
+      FOR ALL
+      TO authenticated
+      USING (user_id = auth.uid())`,
+
+    // RLS Policy: Users can only see their own jobs
+    'DROP POLICY IF EXISTS jobs_user_isolation ON jobs',
+    `CREATE POLICY jobs_user_isolation ON jobs
+      FOR ALL
+      TO authenticated
+      USING (user_id = auth.uid())`,
+
+    // RLS Policy: Users can only see their own sync schedules and their runs
+    'DROP POLICY IF EXISTS sync_schedules_user_isolation ON sync_schedules',
+    `CREATE POLICY sync_schedules_user_isolation ON sync_schedules
+      FOR ALL
+      TO authenticated
+      USING (user_id = auth.uid())`,
+    'DROP POLICY IF EXISTS schedule_runs_user_isolation ON schedule_runs',
+    `CREATE POLICY schedule_runs_user_isolation ON schedule_runs
+      FOR ALL
+      TO authenticated
+      USING (user_id = auth.uid())`,
+
+    // RLS Policy: Users can only see their own subscription
+    'DROP POLICY IF EXISTS subscriptions_user_isolation ON subscriptions',
+    `CREATE POLICY subscriptions_user_isolation ON subscriptions
+      FOR ALL
+      TO authenticated
+      USING (user_id = auth.uid())`,
+
+    // Create function to automatically update updated_at timestamp
+    `CREATE OR REPLACE FUNCTION update_updated_at_column()
+    RETURNS TRIGGER AS $$
+    BEGIN
+        NEW.updated_at = NOW();
+        RETURN NEW;
+    END;
+    $$ language 'plpgsql'`,
+
+    // Create trigger to automatically update updated_at
+    'DROP TRIGGER IF EXISTS update_devices_updated_at ON devices',
+    `CREATE TRIGGER update_devices_updated_at
+      BEFORE UPDATE ON devices
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column()`,
+    'DROP TRIGGER IF EXISTS update_subscriptions_updated_at ON subscriptions',
+    `CREATE TRIGGER update_subscriptions_updated_at
+      BEFORE UPDATE ON subscriptions
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column()`,
+
+    // Optional: Create indexes for common query patterns
+    `CREATE INDEX IF NOT EXISTS idx_devices_warranty_status ON devices(user_id, warranty_fetched_at)
+      WHERE warranty_fetched_at IS NULL`,
+    'CREATE INDEX IF NOT EXISTS idx_devices_by_client ON devices(user_id, client_name, updated_at)',
+
+    // Comments for documentation
+    `COMMENT ON TABLE devices IS 'Device inventory with warranty information (multi-tenant)'`,
+    `COMMENT ON COLUMN devices.user_id IS 'User/MSP who owns this device data (for multi-tenancy)'`,
+    `COMMENT ON COLUMN devices.serial_number IS 'Device serial number (unique per user)'`,
+    `COMMENT ON COLUMN devices.client_id IS 'Client identifier in source platform'`,
+    `COMMENT ON COLUMN devices.client_name IS 'Human-readable client name'`,
+    `COMMENT ON COLUMN devices.warranty_fetched_at IS 'Unix timestamp when warranty was last fetched'`,
+    `COMMENT ON COLUMN devices.warranty_written_back_at IS 'Unix timestamp when warranty was written back to source platform'`,
+    `COMMENT ON COLUMN devices.warranty_lookup_attempted_at IS 'Unix timestamp of the last warranty lookup, successful or not'`,
+    `COMMENT ON COLUMN devices.warranty_lookup_status IS 'Outcome of the last warranty lookup: success, not_found, invalid_serial, auth_error, rate_limited, unsupported_manufacturer or error'`,
+    `COMMENT ON COLUMN devices.warranty_lookup_error IS 'Error from the last warranty lookup, NULL if it succeeded'`,
+    `COMMENT ON COLUMN devices.warranty_lookup_attempts IS 'Number of warranty lookups attempted for this device'`,
+    `COMMENT ON COLUMN devices.total_memory IS 'Installed memory in bytes, as reported by the source platform'`,
+    `COMMENT ON COLUMN devices.total_cpu_cores IS 'Number of CPU cores, as reported by the source platform'`,
+    `COMMENT ON COLUMN devices.network_interfaces IS 'Network interfaces as a JSON array of {macAddress, ipv4, ipv6}'`,
+    `COMMENT ON TABLE device_entitlements IS 'Warranty coverage line items per device (e.g. NBD Onsite, Accidental Damage)'`,
+    `COMMENT ON COLUMN device_entitlements.service_level_code IS 'Provider-specific service level code, if any'`,
+    `COMMENT ON COLUMN device_entitlements.provider IS 'Warranty provider that returned this line item'`,
+    `COMMENT ON TABLE warranty_history IS 'Every distinct warranty start/end pair per device, so extensions keep the original dates'`,
+    `COMMENT ON COLUMN warranty_history.source IS 'Where the dates came from: manufacturer_api, platform_import, csv or manual'`,
+    `COMMENT ON COLUMN warranty_history.recorded_at IS 'Unix timestamp when these dates were first seen'`,
+    `COMMENT ON TABLE jobs IS 'Background jobs processed by the in-process worker'`,
+    `COMMENT ON COLUMN jobs.params IS 'Job input, e.g. serial numbers to look up (credentials are removed when the job finishes)'`,
+    `COMMENT ON COLUMN jobs.processed_items IS 'Number of items processed so far; jobs resume from here after a restart'`,
+    `COMMENT ON TABLE sync_schedules IS 'Scheduled platform import, warranty lookup and write-back (run by the in-process scheduler)'`,
+    `COMMENT ON COLUMN sync_schedules.cron_expression IS '5-field cron expression, evaluated in the server time zone'`,
+    `COMMENT ON COLUMN sync_schedules.credentials IS 'Platform credentials used by scheduled runs (and manufacturer credentials in self-hosted mode)'`,
+    `COMMENT ON COLUMN sync_schedules.next_run_at IS 'Unix timestamp of the next scheduled run, NULL when disabled'`,
+    `COMMENT ON TABLE schedule_runs IS 'Run history of sync schedules'`,
+    `COMMENT ON TABLE subscriptions IS 'User subscriptions and billing information'`,
+    `COMMENT ON COLUMN subscriptions.user_id IS 'User who owns this subscription'`,
+    `COMMENT ON COLUMN subscriptions.stripe_customer_id IS 'Stripe customer ID for billing'`,
+    `COMMENT ON COLUMN subscriptions.stripe_subscription_id IS 'Stripe subscription ID'`,
+    `COMMENT ON COLUMN subscriptions.cancel_at_period_end IS 'Whether subscription will cancel at period end'`
+  ]
+};
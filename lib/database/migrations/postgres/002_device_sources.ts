@@ -0,0 +1,52 @@
+import { Migration } from '../types';
+
+// Every platform record of a device, so a device imported from several platforms
+// keeps all of them (devices.source_platform/source_device_id is the latest one)
+export const migration: Migration = {
+  version: 2,
+  name: 'device_sources',
+  statements: [
+    `CREATE TABLE IF NOT EXISTS device_sources (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL, -- Multi-tenancy: isolates data by user
+      device_id TEXT NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+      platform TEXT NOT NULL,
+      source_device_id TEXT NOT NULL,
+      client_name TEXT,
+      first_seen_at INTEGER NOT NULL,
+      last_seen_at INTEGER NOT NULL,
+      warranty_written_back_at INTEGER,
+      UNIQUE (user_id, platform, source_device_id)
+    )`,
+
+    'CREATE INDEX IF NOT EXISTS idx_device_sources_device ON device_sources(user_id, device_id)',
+
+    // Link the source every existing device was last imported from
+    `INSERT INTO device_sources (
+       user_id, device_id, platform, source_device_id, client_name, first_seen_at, last_seen_at, warranty_written_back_at
+     )
+     SELECT user_id, id, source_platform, source_device_id, client_name,
+            EXTRACT(EPOCH FROM COALESCE(created_at, NOW()))::integer,
+            EXTRACT(EPOCH FROM COALESCE(updated_at, NOW()))::integer,
+            warranty_written_back_at
+     FROM devices
+     WHERE source_platform IS NOT NULL AND source_platform != 'CSV'
+       AND source_device_id IS NOT NULL AND source_device_id != ''
+     ON CONFLICT (user_id, platform, source_device_id) DO NOTHING`,
+
+    'ALTER TABLE device_sources ENABLE ROW LEVEL SECURITY',
+
+    // RLS Policy: Users can only see source records of devices they own
+    'DROP POLICY IF EXISTS device_sources_user_isolation ON device_sources',
+    `CREATE POLICY device_sources_user_isolation ON device_sources
+      FOR ALL
+      TO authenticated
+      USING (user_id = auth.uid())`,
+
+    `COMMENT ON TABLE device_sources IS 'Every platform record of a device (one device can be in several RMM/PSA platforms)'`,
+    `COMMENT ON COLUMN device_sources.source_device_id IS 'Device ID in the source platform'`,
+    `COMMENT ON COLUMN device_sources.client_name IS 'Client name as the source platform reports it'`,
+    `COMMENT ON COLUMN device_sources.last_seen_at IS 'Unix timestamp of the last import that included this record'`,
+    `COMMENT ON COLUMN device_sources.warranty_written_back_at IS 'Unix timestamp when warranty was last written back to this record'`
+  ]
+};
@@ -0,0 +1,14 @@
+import { Migration } from '../types';
+
+// Deleted devices go to the trash (deleted_at set) and can be restored until they are purged
+export const migration: Migration = {
+  version: 3,
+  name: 'soft_delete',
+  statements: [
+    'ALTER TABLE devices ADD COLUMN IF NOT EXISTS deleted_at INTEGER',
+
+    'CREATE INDEX IF NOT EXISTS idx_devices_deleted_at ON devices(user_id, deleted_at)',
+
+    `COMMENT ON COLUMN devices.deleted_at IS 'Unix timestamp when the device was moved to the trash (NULL = not deleted)'`
+  ]
+};
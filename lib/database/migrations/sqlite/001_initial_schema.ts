@@ -0,0 +1,141 @@
+import { Migration } from '../types';
+
+// Schema as of the first tracked version. Databases created before migrations
+// were tracked already have some or all of it, so every statement is idempotent
+// (the runner skips ALTER TABLE ... ADD COLUMN for columns that already exist).
+export const migration: Migration = {
+  version: 1,
+  name: 'initial_schema',
+  statements: [
+    `CREATE TABLE IF NOT EXISTS devices (
+      id TEXT PRIMARY KEY,
+      serial_number TEXT UNIQUE NOT NULL,
+      manufacturer TEXT NOT NULL,
+      model TEXT,
+      hostname TEXT,
+      client_id TEXT,
+      client_name TEXT,
+      device_class TEXT,
+      source_platform TEXT,
+      source_device_id TEXT,
+
+      warranty_start_date DATE,
+      warranty_end_date DATE,
+      warranty_fetched_at INTEGER,
+      warranty_written_back_at INTEGER,
+      warranty_lookup_attempted_at INTEGER,
+      warranty_lookup_status TEXT,
+      warranty_lookup_error TEXT,
+      warranty_lookup_attempts INTEGER DEFAULT 0,
+
+      total_memory INTEGER,
+      total_cpu_cores INTEGER,
+      network_interfaces TEXT,
+
+      created_at INTEGER DEFAULT (unixepoch('now')),
+      updated_at INTEGER DEFAULT (unixepoch('now'))
+    )`,
+
+    // Coverage line items per device (e.g. NBD Onsite, Accidental Damage)
+    `CREATE TABLE IF NOT EXISTS device_entitlements (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      device_id TEXT NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+      service_level_code TEXT,
+      description TEXT NOT NULL,
+      start_date DATE,
+      end_date DATE,
+      provider TEXT NOT NULL,
+      created_at INTEGER DEFAULT (unixepoch('now'))
+    )`,
+
+    // Background jobs (e.g. warranty lookups) processed by the in-process worker
+    `CREATE TABLE IF NOT EXISTS jobs (
+      id TEXT PRIMARY KEY,
+      type TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'queued',
+      params TEXT NOT NULL,
+      total_items INTEGER NOT NULL DEFAULT 0,
+      processed_items INTEGER NOT NULL DEFAULT 0,
+      failed_items INTEGER NOT NULL DEFAULT 0,
+      failures TEXT,
+      error TEXT,
+      created_at INTEGER DEFAULT (unixepoch('now')),
+      started_at INTEGER,
+      finished_at INTEGER,
+      updated_at INTEGER DEFAULT (unixepoch('now'))
+    )`,
+
+    // Scheduled import / lookup / write-back per platform, and their run history
+    `CREATE TABLE IF NOT EXISTS sync_schedules (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      platform TEXT NOT NULL,
+      cron_expression TEXT NOT NULL,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      lookup_warranties INTEGER NOT NULL DEFAULT 1,
+      write_back INTEGER NOT NULL DEFAULT 0,
+      credentials TEXT,
+      next_run_at INTEGER,
+      last_run_at INTEGER,
+      last_run_status TEXT,
+      created_at INTEGER DEFAULT (unixepoch('now')),
+      updated_at INTEGER DEFAULT (unixepoch('now'))
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS schedule_runs (
+      id TEXT PRIMARY KEY,
+      schedule_id TEXT NOT NULL REFERENCES sync_schedules(id) ON DELETE CASCADE,
+      platform TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'running',
+      devices_imported INTEGER NOT NULL DEFAULT 0,
+      devices_looked_up INTEGER NOT NULL DEFAULT 0,
+      lookups_failed INTEGER NOT NULL DEFAULT 0,
+      devices_written_back INTEGER NOT NULL DEFAULT 0,
+      write_backs_failed INTEGER NOT NULL DEFAULT 0,
+      error TEXT,
+      started_at INTEGER NOT NULL,
+      finished_at INTEGER
+    )`,
+
+    // Every distinct warranty start/end pair a device has had, so extensions don't erase the original dates
+    `CREATE TABLE IF NOT EXISTS warranty_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      device_id TEXT NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+      start_date DATE,
+      end_date DATE,
+      source TEXT NOT NULL,
+      recorded_at INTEGER NOT NULL
+    )`,
+
+    // Columns added to devices before migrations were tracked
+    'ALTER TABLE devices ADD COLUMN warranty_lookup_attempted_at INTEGER',
+    'ALTER TABLE devices ADD COLUMN warranty_lookup_error TEXT',
+    'ALTER TABLE devices ADD COLUMN warranty_lookup_status TEXT',
+    'ALTER TABLE devices ADD COLUMN warranty_lookup_attempts INTEGER DEFAULT 0',
+    'ALTER TABLE devices ADD COLUMN total_memory INTEGER',
+    'ALTER TABLE devices ADD COLUMN total_cpu_cores INTEGER',
+    'ALTER TABLE devices ADD COLUMN network_interfaces TEXT',
+
+    'CREATE INDEX IF NOT EXISTS idx_devices_serial ON devices(serial_number)',
+    'CREATE INDEX IF NOT EXISTS idx_devices_platform ON devices(source_platform)',
+    'CREATE INDEX IF NOT EXISTS idx_devices_warranty_fetched ON devices(warranty_fetched_at)',
+    'CREATE INDEX IF NOT EXISTS idx_devices_client_name ON devices(client_name)',
+    'CREATE INDEX IF NOT EXISTS idx_devices_warranty_end ON devices(warranty_end_date)',
+    'CREATE INDEX IF NOT EXISTS idx_device_entitlements_device ON device_entitlements(device_id)',
+    'CREATE INDEX IF NOT EXISTS idx_warranty_history_device ON warranty_history(device_id, recorded_at)',
+    'CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status, created_at)',
+    'CREATE INDEX IF NOT EXISTS idx_sync_schedules_next_run ON sync_schedules(enabled, next_run_at)',
+    'CREATE INDEX IF NOT EXISTS idx_schedule_runs_started ON schedule_runs(started_at)',
+
+    // Seeds history with the current dates of devices that have none yet (e.g. from before the table existed)
+    `INSERT INTO warranty_history (device_id, start_date, end_date, source, recorded_at)
+     SELECT d.id, d.warranty_start_date, d.warranty_end_date,
+            CASE WHEN d.warranty_fetched_at IS NOT NULL THEN 'manufacturer_api'
+                 WHEN d.source_platform = 'CSV' THEN 'csv'
+                 ELSE 'platform_import' END,
+            COALESCE(d.warranty_fetched_at, d.updated_at)
+     FROM devices d
+     WHERE (d.warranty_start_date IS NOT NULL OR d.warranty_end_date IS NOT NULL)
+       AND NOT EXISTS (SELECT 1 FROM warranty_history h WHERE h.device_id = d.id)`
+  ]
+};
@@ -0,0 +1,34 @@
+import { Migration } from '../types';
+
+// Every platform record of a device, so a device imported from several platforms
+// keeps all of them (devices.source_platform/source_device_id is the latest one)
+export const migration: Migration = {
+  version: 2,
+  name: 'device_sources',
+  statements: [
+    `CREATE TABLE IF NOT EXISTS device_sources (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      device_id TEXT NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+      platform TEXT NOT NULL,
+      source_device_id TEXT NOT NULL,
+      client_name TEXT,
+      first_seen_at INTEGER NOT NULL,
+      last_seen_at INTEGER NOT NULL,
+      warranty_written_back_at INTEGER,
+      UNIQUE (platform, source_device_id)
+    )`,
+
+    'CREATE INDEX IF NOT EXISTS idx_device_sources_device ON device_sources(device_id)',
+
+    // Link the source every existing device was last imported from
+    `INSERT INTO device_sources (
+       device_id, platform, source_device_id, client_name, first_seen_at, last_seen_at, warranty_written_back_at
+     )
+     SELECT id, source_platform, source_device_id, client_name,
+            COALESCE(created_at, unixepoch('now')), COALESCE(updated_at, unixepoch('now')), warranty_written_back_at
+     FROM devices
+     WHERE source_platform IS NOT NULL AND source_platform != 'CSV'
+       AND source_device_id IS NOT NULL AND source_device_id != ''
+     ON CONFLICT (platform, source_device_id) DO NOTHING`
+  ]
+};
@@ -0,0 +1,12 @@
+import { Migration } from '../types';
+
+// Deleted devices go to the trash (deleted_at set) and can be restored until they are purged
+export const migration: Migration = {
+  version: 3,
+  name: 'soft_delete',
+  statements: [
+    'ALTER TABLE devices ADD COLUMN deleted_at INTEGER',
+
+    'CREATE INDEX IF NOT EXISTS idx_devices_deleted_at ON devices(deleted_at)'
+  ]
+};
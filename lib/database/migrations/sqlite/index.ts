@@ -0,0 +1,11 @@
+import { Migration } from '../types';
+import { migration as initialSchema } from './001_initial_schema';
+import { migration as deviceSources } from './002_device_sources';
+import { migration as softDelete } from './003_soft_delete';
+
+// Oldest first; each version needs a PostgreSQL counterpart in ../postgres
+export const migrations: Migration[] = [
+  initialSchema,
+  deviceSources,
+  softDelete
+];
@@ -0,0 +1,20 @@
+export interface Migration {
+  version: number;
+  name: string;
+  statements: string[]; // Run in order, in one transaction
+}
+
+// A known migration and when it was applied (undefined while pending)
+export interface SchemaMigration {
+  version: number;
+  name: string;
+  appliedAt?: number;
+}
+
+export interface SchemaMigrationRow {
+  version: number;
+  name: string;
+  applied_at: number;
+}
+
+export type MigrationDialect = 'sqlite' | 'postgres';
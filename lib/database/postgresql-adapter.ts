@@ -1,12 +1,152 @@
 import 'server-only';
 
-import { Device } from '@/types/device';
-import { DatabaseAdapter, DeviceRow, mapRowToDevice } from './adapter';
+import {
+  Device,
+  DeviceDeleteFilter,
+  DeviceDetailsUpdate,
+  DeviceQuery,
+  DeviceQueryResult,
+  DeviceSourceRef,
+  DeviceUpsertResult
+} from '@/types/device';
+import { WarrantyEntitlement, WarrantyHistoryEntry, WarrantyHistorySource, WarrantyLookupStatus } from '@/types/warranty';
+import { Job, JobProgress, JobType, WarrantyLookupJobParams } from '@/types/job';
+import { ScheduleRun, ScheduleRunStats, SyncSchedule, SyncScheduleInput } from '@/types/schedule';
+import {
+  DEVICE_SORT_COLUMNS,
+  DatabaseAdapter,
+  DatabaseBackup,
+  DeviceQueryRow,
+  DeviceRow,
+  DeviceSourceRow,
+  EntitlementRow,
+  IMPORTED_DEVICE_COLUMNS,
+  JobRow,
+  ScheduleRunRow,
+  SyncScheduleRow,
+  WarrantyHistoryRow,
+  getImportHistorySource,
+  getImportSourceRef,
+  mapRowToDevice,
+  mapRowToEntitlement,
+  mapRowToJob,
+  mapRowToScheduleRun,
+  mapRowToSyncSchedule,
+  serializeScheduleCredentials,
+  mapRowToWarrantyHistoryEntry,
+  mergeImportedDevice,
+  planDeviceUpserts,
+  escapeLikePattern,
+  getBackupFileName,
+  groupEntitlementsBySerial,
+  groupSourcesByDeviceId,
+  toDeviceQueryResult,
+  toImportedDeviceValues,
+  withDeviceSources
+} from './adapter';
+import {
+  SchemaMigration,
+  SchemaMigrationRow,
+  getPendingMigrations,
+  getSchemaMigrationStatus,
+  validateBackupSchemaVersion
+} from './migrations';
 import { logger } from '@/lib/logger';
+import { DEFAULT_DEVICE_SORT, decodeDeviceCursor, getDevicePageSize } from '@/lib/utils/deviceQuery';
 import { Pool, PoolClient } from 'pg';
 
 // Database row interfaces are now imported from adapter.ts
 
+// Key of the advisory lock held while migrations are applied (any constant shared by all processes)
+const MIGRATION_LOCK_ID = 7310042;
+
+// Tables with per-user data in backups, parents before children. Billing (subscriptions)
+// and the transient job queue are left out.
+const BACKUP_TABLES = ['devices', 'device_entitlements', 'warranty_history', 'device_sources', 'sync_schedules', 'schedule_runs'];
+
+const POSTGRES_BACKUP_FORMAT = 'warranty-watcher-postgres-backup';
+
+interface PostgresBackup {
+  format: typeof POSTGRES_BACKUP_FORMAT;
+  schemaVersion: number;
+  createdAt: string;
+  tables: Record<string, Record<string, unknown>[]>;
+}
+
+type BackupRow = Record<string, unknown>;
+
+// Backup tables whose rows belong to a row of another backup table, and the column linking them
+const BACKUP_TABLE_PARENTS: Record<string, { table: string; column: string }> = {
+  device_entitlements: { table: 'devices', column: 'device_id' },
+  warranty_history: { table: 'devices', column: 'device_id' },
+  device_sources: { table: 'devices', column: 'device_id' },
+  schedule_runs: { table: 'sync_schedules', column: 'schedule_id' },
+};
+
+/**
+ * Gives every row of an uploaded backup a new ID and points child rows at their parents'
+ * new IDs, so a backup can't reuse or link to another user's rows. Throws when a child row
+ * belongs to a row that isn't in the backup.
+ */
+function remapBackupIds(tables: PostgresBackup['tables']): Record<string, BackupRow[]> {
+  const newIdsByTable = new Map<string, Map<string, string>>();
+  const remapped: Record<string, BackupRow[]> = {};
+
+  for (const table of BACKUP_TABLES) {
+    const rows: unknown = tables[table] || [];
+    if (!Array.isArray(rows)) {
+      throw new Error(`Backup table ${table} is not a list of rows`);
+    }
+
+    const newIds = new Map<string, string>();
+    newIdsByTable.set(table, newIds);
+    const parent = BACKUP_TABLE_PARENTS[table];
+
+    remapped[table] = rows.map((row: unknown) => {
+      if (typeof row !== 'object' || row === null || Array.isArray(row)) {
+        throw new Error(`Backup table ${table} contains a row that is not an object`);
+      }
+      const copy: BackupRow = { ...row, id: crypto.randomUUID() };
+      const oldId = (row as BackupRow).id;
+      if (oldId !== undefined && oldId !== null) {
+        newIds.set(String(oldId), copy.id as string);
+      }
+
+      if (parent) {
+        const parentId = newIdsByTable.get(parent.table)?.get(String(copy[parent.column]));
+        if (!parentId) {
+          throw new Error(`Backup table ${table} has a row whose ${parent.column} is not in ${parent.table}`);
+        }
+        copy[parent.column] = parentId;
+      }
+      return copy;
+    });
+  }
+
+  return remapped;
+}
+
+// Column types for passing bulk device imports as unnest() arrays
+const IMPORTED_DEVICE_COLUMN_TYPES: Record<string, string> = {
+  id: 'text',
+  serial_number: 'text',
+  manufacturer: 'text',
+  model: 'text',
+  hostname: 'text',
+  client_id: 'text',
+  client_name: 'text',
+  device_class: 'text',
+  source_platform: 'text',
+  source_device_id: 'text',
+  warranty_start_date: 'date',
+  warranty_end_date: 'date',
+  warranty_fetched_at: 'integer',
+  warranty_written_back_at: 'integer',
+  total_memory: 'bigint',
+  total_cpu_cores: 'integer',
+  network_interfaces: 'jsonb'
+};
+
 /**
  * PostgreSQL Database Adapter
  * Implements multi-tenant database operations for SaaS mode
@@ -14,6 +154,7 @@ import { Pool, PoolClient } from 'pg';
  */
 export class PostgreSQLAdapter implements DatabaseAdapter {
   private pool: Pool;
+  private migrationRun: Promise<SchemaMigration[]> | null = null;
 
   constructor(connectionString: string) {
     this.pool = new Pool({
@@ -23,9 +164,200 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
   }
 
   private async getClient(): Promise<PoolClient> {
+    // Pending migrations are applied once per process, before any other query runs
+    await this.ensureMigrated();
     return this.pool.connect();
   }
 
+  private ensureMigrated(): Promise<SchemaMigration[]> {
+    if (!this.migrationRun) {
+      this.migrationRun = this.migrate();
+      // Let the next call retry, e.g. once the database is reachable
+      this.migrationRun.catch(() => {
+        this.migrationRun = null;
+      });
+    }
+    return this.migrationRun;
+  }
+
+  /**
+   * Applies pending migrations one transaction at a time, holding an advisory lock
+   * so concurrent processes apply each version only once
+   */
+  private async migrate(): Promise<SchemaMigration[]> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+      try {
+        await client.query(`
+          CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INTEGER PRIMARY KEY,
+            name TEXT NOT NULL,
+            applied_at INTEGER NOT NULL
+          )
+        `);
+        // No policies: only the app's own connection (which bypasses RLS) may read it
+        await client.query('ALTER TABLE schema_migrations ENABLE ROW LEVEL SECURITY');
+
+        const appliedResult = await client.query<SchemaMigrationRow>('SELECT * FROM schema_migrations');
+        const applied: SchemaMigration[] = [];
+
+        for (const migration of getPendingMigrations('postgres', appliedResult.rows)) {
+          logger.info(`Applying schema migration ${migration.version} (${migration.name})`, 'database');
+          try {
+            await client.query('BEGIN');
+            for (const statementSQL of migration.statements) {
+              await client.query(statementSQL);
+            }
+            const result = await client.query<SchemaMigrationRow>(
+              `INSERT INTO schema_migrations (version, name, applied_at)
+               VALUES ($1, $2, EXTRACT(EPOCH FROM NOW())::integer)
+               RETURNING *`,
+              [migration.version, migration.name]
+            );
+            await client.query('COMMIT');
+            applied.push({ version: migration.version, name: migration.name, appliedAt: result.rows[0].applied_at });
+          } catch (error) {
+            await client.query('ROLLBACK');
+            logger.error(`Schema migration failed: ${error}`, 'database', {
+              error: error instanceof Error ? error.message : String(error)
+            });
+            throw error;
+          }
+        }
+
+        return applied;
+      } finally {
+        await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]);
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  async getSchemaMigrations(): Promise<SchemaMigration[]> {
+    // Reads the recorded versions without applying anything, so pending migrations can be listed
+    const client = await this.pool.connect();
+
+    try {
+      const tableResult = await client.query("SELECT to_regclass('schema_migrations') AS table_name");
+      const appliedRows = tableResult.rows[0].table_name
+        ? (await client.query<SchemaMigrationRow>('SELECT * FROM schema_migrations')).rows
+        : [];
+      return getSchemaMigrationStatus('postgres', appliedRows);
+    } finally {
+      client.release();
+    }
+  }
+
+  async applyPendingMigrations(): Promise<SchemaMigration[]> {
+    return this.ensureMigrated();
+  }
+
+  async createBackup(userId?: string): Promise<DatabaseBackup> {
+    if (!userId) {
+      throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
+    }
+
+    const client = await this.getClient();
+
+    try {
+      // One snapshot for all tables, so rows that reference each other match up
+      await client.query('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY');
+      const versionResult = await client.query('SELECT COALESCE(MAX(version), 0) AS version FROM schema_migrations');
+      const tables: Record<string, Record<string, unknown>[]> = {};
+      for (const table of BACKUP_TABLES) {
+        // json_agg keeps dates as YYYY-MM-DD instead of going through JavaScript Dates
+        const result = await client.query(
+          `SELECT COALESCE(json_agg(t), '[]'::json) AS rows FROM (SELECT * FROM ${table} WHERE user_id = $1) t`,
+          [userId]
+        );
+        tables[table] = result.rows[0].rows;
+      }
+      await client.query('COMMIT');
+
+      const backup: PostgresBackup = {
+        format: POSTGRES_BACKUP_FORMAT,
+        schemaVersion: Number(versionResult.rows[0].version),
+        createdAt: new Date().toISOString(),
+        tables
+      };
+      return {
+        fileName: getBackupFileName('json'),
+        contentType: 'application/json',
+        data: Buffer.from(JSON.stringify(backup))
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Replaces the user's rows in every backed-up table with the backup's, in one
+   * transaction. Columns a backup from an older release lacks get their defaults.
+   */
+  async restoreBackup(data: Buffer, userId?: string): Promise<void> {
+    if (!userId) {
+      throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
+    }
+
+    let backup: PostgresBackup;
+    try {
+      backup = JSON.parse(data.toString('utf8'));
+    } catch {
+      throw new Error('Backup is not a valid JSON file');
+    }
+    if (backup?.format !== POSTGRES_BACKUP_FORMAT || typeof backup.tables !== 'object' || !backup.tables) {
+      throw new Error('Backup is not a Warranty Watcher backup');
+    }
+    validateBackupSchemaVersion('postgres', Number(backup.schemaVersion));
+    const tables = remapBackupIds(backup.tables);
+
+    const client = await this.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      for (const table of [...BACKUP_TABLES].reverse()) {
+        await client.query(`DELETE FROM ${table} WHERE user_id = $1`, [userId]);
+      }
+
+      for (const table of BACKUP_TABLES) {
+        const rows = tables[table];
+        if (rows.length === 0) {
+          continue;
+        }
+
+        // Only the table's real columns, and never another user's ID
+        const columnResult = await client.query<{ column_name: string }>(
+          'SELECT column_name FROM information_schema.columns WHERE table_schema = current_schema() AND table_name = $1',
+          [table]
+        );
+        const tableColumns = new Set(columnResult.rows.map(row => row.column_name));
+        const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))))
+          .filter(column => column !== 'user_id' && tableColumns.has(column));
+
+        await client.query(`
+          INSERT INTO ${table} (user_id, ${columns.join(', ')})
+          SELECT $1::uuid, ${columns.join(', ')}
+          FROM json_populate_recordset(NULL::${table}, $2::json)
+        `, [userId, JSON.stringify(rows)]);
+      }
+
+      await client.query('COMMIT');
+      logger.info('Restored user data from backup', 'database', { userId });
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   // mapRowToDevice function is now imported from adapter.ts
 
   async insertOrUpdateDevice(device: Device, userId?: string): Promise<void> {
@@ -41,10 +373,15 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
     const client = await this.getClient();
     
     try {
-      // Check if device already exists by serial number and userId
+      // The device row, its warranty history and its source link are written together
+      await client.query('BEGIN');
+
+      // Check if device already exists by serial number and userId, including devices in the trash.
+      // Locked until commit, so a concurrent import can't change it between merge and write
       const existingQuery = `
         SELECT * FROM devices 
         WHERE serial_number = $1 AND user_id = $2
+        FOR UPDATE
       `;
       const existingResult = await client.query(existingQuery, [device.serialNumber, userId]);
       
@@ -52,21 +389,7 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
         // Device exists - perform UPDATE with intelligent merge
         const existingDevice = mapRowToDevice(existingResult.rows[0]);
         
-        const mergedDevice: Device = {
-          ...device,
-          id: existingDevice.id,
-          warrantyStartDate: device.warrantyStartDate || existingDevice.warrantyStartDate,
-          warrantyEndDate: device.warrantyEndDate || existingDevice.warrantyEndDate,
-          warrantyFetchedAt: device.warrantyFetchedAt || existingDevice.warrantyFetchedAt,
-          warrantyWrittenBackAt: device.warrantyWrittenBackAt || existingDevice.warrantyWrittenBackAt,
-          model: device.model || existingDevice.model,
-          hostname: device.hostname || existingDevice.hostname,
-          clientId: device.clientId || existingDevice.clientId,
-          clientName: device.clientName || existingDevice.clientName,
-          deviceClass: device.deviceClass || existingDevice.deviceClass,
-          sourcePlatform: device.sourcePlatform || existingDevice.sourcePlatform,
-          sourceDeviceId: device.sourceDeviceId || existingDevice.sourceDeviceId,
-        };
+        const mergedDevice = mergeImportedDevice(existingDevice, device);
 
         const updateQuery = `
           UPDATE devices 
@@ -82,28 +405,31 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
               warranty_end_date = $10, 
               warranty_fetched_at = $11, 
               warranty_written_back_at = $12,
+              total_memory = $13,
+              total_cpu_cores = $14,
+              network_interfaces = $15,
+              deleted_at = NULL,
               updated_at = NOW()
-          WHERE serial_number = $13 AND user_id = $14
+          WHERE serial_number = $16 AND user_id = $17
         `;
 
         const updateParams = [
-          mergedDevice.manufacturer,
-          mergedDevice.model || null,
-          mergedDevice.hostname || null,
-          mergedDevice.clientId || null,
-          mergedDevice.clientName || null,
-          mergedDevice.deviceClass || null,
-          mergedDevice.sourcePlatform || null,
-          mergedDevice.sourceDeviceId || null,
-          mergedDevice.warrantyStartDate || null,
-          mergedDevice.warrantyEndDate || null,
-          mergedDevice.warrantyFetchedAt || null,
-          mergedDevice.warrantyWrittenBackAt || null,
+          ...toImportedDeviceValues(mergedDevice),
           device.serialNumber,
           userId
         ];
 
         await client.query(updateQuery, updateParams);
+        if (device.warrantyStartDate || device.warrantyEndDate) {
+          await this.recordWarrantyHistory(
+            client,
+            existingDevice.id!,
+            { startDate: mergedDevice.warrantyStartDate, endDate: mergedDevice.warrantyEndDate },
+            getImportHistorySource(device),
+            userId
+          );
+        }
+        await this.linkDeviceSource(client, existingDevice.id!, device, userId);
         logger.debug(`Updated existing device: ${device.serialNumber}`, 'database', {
           serialNumber: device.serialNumber,
           manufacturer: device.manufacturer,
@@ -117,73 +443,211 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
             client_id, client_name, device_class, source_platform, source_device_id,
             warranty_start_date, warranty_end_date, 
             warranty_fetched_at, warranty_written_back_at, 
+            total_memory, total_cpu_cores, network_interfaces,
             created_at, updated_at
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, NOW(), NOW())
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, NOW(), NOW())
         `;
 
+        const deviceId = device.id || crypto.randomUUID();
         const insertParams = [
-          device.id || crypto.randomUUID(),
+          deviceId,
           userId,
           device.serialNumber,
-          device.manufacturer,
-          device.model || null,
-          device.hostname || null,
-          device.clientId || null,
-          device.clientName || null,
-          device.deviceClass || null,
-          device.sourcePlatform || null,
-          device.sourceDeviceId || null,
-          device.warrantyStartDate || null,
-          device.warrantyEndDate || null,
-          device.warrantyFetchedAt || null,
-          device.warrantyWrittenBackAt || null
+          ...toImportedDeviceValues(device)
         ];
 
         await client.query(insertQuery, insertParams);
+        if (device.warrantyStartDate || device.warrantyEndDate) {
+          await this.recordWarrantyHistory(
+            client,
+            deviceId,
+            { startDate: device.warrantyStartDate, endDate: device.warrantyEndDate },
+            getImportHistorySource(device),
+            userId
+          );
+        }
+        await this.linkDeviceSource(client, deviceId, device, userId);
         logger.debug(`Inserted new device: ${device.serialNumber}`, 'database', {
           serialNumber: device.serialNumber,
           manufacturer: device.manufacturer,
           userId
         });
       }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
     } finally {
       client.release();
     }
   }
 
-  async getDeviceBySerial(serialNumber: string, userId?: string): Promise<Device | null> {
+  async bulkUpsertDevices(devices: Device[], userId?: string): Promise<DeviceUpsertResult[]> {
     if (!userId) {
       throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
     }
 
     const client = await this.getClient();
-    
+
     try {
-      const query = 'SELECT * FROM devices WHERE serial_number = $1 AND user_id = $2';
-      const result = await client.query(query, [serialNumber, userId]);
-      return result.rows.length > 0 ? mapRowToDevice(result.rows[0]) : null;
+      await client.query('BEGIN');
+
+      // Locked until commit, so a concurrent import can't change them between merge and write
+      const serialNumbers = Array.from(new Set(devices.map(device => device.serialNumber).filter(Boolean)));
+      const existingResult = await client.query<DeviceRow>(
+        'SELECT * FROM devices WHERE user_id = $1 AND serial_number = ANY($2::text[]) FOR UPDATE',
+        [userId, serialNumbers]
+      );
+      const existingBySerial = new Map(existingResult.rows.map(row => [row.serial_number, mapRowToDevice(row)]));
+
+      const plan = planDeviceUpserts(devices, existingBySerial);
+
+      if (plan.devices.length > 0) {
+        const values = plan.devices.map(device => [device.id, device.serialNumber, ...toImportedDeviceValues(device)]);
+        const columns = ['id', 'serial_number', ...IMPORTED_DEVICE_COLUMNS];
+        await client.query(`
+          INSERT INTO devices (user_id, ${columns.join(', ')}, created_at, updated_at)
+          SELECT $1::uuid, ${columns.map(column => `t.${column}`).join(', ')}, NOW(), NOW()
+          FROM unnest(${columns.map((column, index) => `$${index + 2}::${IMPORTED_DEVICE_COLUMN_TYPES[column]}[]`).join(', ')})
+            AS t(${columns.join(', ')})
+          ON CONFLICT (user_id, serial_number) DO UPDATE SET
+            ${IMPORTED_DEVICE_COLUMNS.map(column => `${column} = EXCLUDED.${column}`).join(', ')},
+            deleted_at = NULL,
+            updated_at = NOW()
+        `, [userId, ...columns.map((_, index) => values.map(row => row[index]))]);
+      }
+
+      if (plan.warrantyHistory.length > 0) {
+        await client.query(`
+          INSERT INTO warranty_history (user_id, device_id, start_date, end_date, source, recorded_at)
+          SELECT $1::uuid, t.device_id, t.start_date, t.end_date, t.source, EXTRACT(EPOCH FROM NOW())::integer
+          FROM unnest($2::text[], $3::date[], $4::date[], $5::text[]) AS t(device_id, start_date, end_date, source)
+        `, [
+          userId,
+          plan.warrantyHistory.map(entry => entry.deviceId),
+          plan.warrantyHistory.map(entry => entry.startDate || null),
+          plan.warrantyHistory.map(entry => entry.endDate || null),
+          plan.warrantyHistory.map(entry => entry.source)
+        ]);
+      }
+
+      // Same conflict handling as linkDeviceSource
+      if (plan.sourceLinks.length > 0) {
+        await client.query(`
+          INSERT INTO device_sources (
+            user_id, device_id, platform, source_device_id, client_name, first_seen_at, last_seen_at
+          )
+          SELECT $1::uuid, t.device_id, t.platform, t.source_device_id, t.client_name,
+                 EXTRACT(EPOCH FROM NOW())::integer, EXTRACT(EPOCH FROM NOW())::integer
+          FROM unnest($2::text[], $3::text[], $4::text[], $5::text[]) AS t(device_id, platform, source_device_id, client_name)
+          ON CONFLICT (user_id, platform, source_device_id) DO UPDATE SET
+            client_name = COALESCE(EXCLUDED.client_name, device_sources.client_name),
+            last_seen_at = EXCLUDED.last_seen_at,
+            warranty_written_back_at = CASE WHEN device_sources.device_id = EXCLUDED.device_id
+                                            THEN device_sources.warranty_written_back_at END,
+            device_id = EXCLUDED.device_id
+        `, [
+          userId,
+          plan.sourceLinks.map(link => link.deviceId),
+          plan.sourceLinks.map(link => link.source.platform),
+          plan.sourceLinks.map(link => link.source.sourceDeviceId),
+          plan.sourceLinks.map(link => link.clientName || null)
+        ]);
+      }
+
+      await client.query('COMMIT');
+      return plan.results;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
     } finally {
       client.release();
     }
   }
 
-  async getAllDevices(userId?: string): Promise<Device[]> {
+  async importDeviceSources(devices: Device[], userId?: string): Promise<void> {
     if (!userId) {
       throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
     }
 
+    const links = devices.flatMap(device => (device.sources || []).map(source => ({ serialNumber: device.serialNumber, source })));
+    if (links.length === 0) {
+      return;
+    }
+
     const client = await this.getClient();
-    
+
     try {
-      const query = 'SELECT * FROM devices WHERE user_id = $1 ORDER BY updated_at DESC';
-      const result = await client.query(query, [userId]);
-      return result.rows.map((row: DeviceRow) => mapRowToDevice(row));
+      await client.query(`
+        INSERT INTO device_sources (
+          user_id, device_id, platform, source_device_id, client_name,
+          first_seen_at, last_seen_at, warranty_written_back_at
+        )
+        SELECT $1::uuid, d.id, t.platform, t.source_device_id, t.client_name,
+               t.first_seen_at, t.last_seen_at, t.warranty_written_back_at
+        FROM unnest($2::text[], $3::text[], $4::text[], $5::text[], $6::integer[], $7::integer[], $8::integer[])
+          AS t(serial_number, platform, source_device_id, client_name, first_seen_at, last_seen_at, warranty_written_back_at)
+        JOIN devices d ON d.user_id = $1 AND d.serial_number = t.serial_number
+        ON CONFLICT (user_id, platform, source_device_id) DO UPDATE SET
+          client_name = COALESCE(EXCLUDED.client_name, device_sources.client_name),
+          first_seen_at = LEAST(device_sources.first_seen_at, EXCLUDED.first_seen_at),
+          last_seen_at = GREATEST(device_sources.last_seen_at, EXCLUDED.last_seen_at),
+          warranty_written_back_at = CASE WHEN device_sources.device_id = EXCLUDED.device_id
+                                          THEN COALESCE(EXCLUDED.warranty_written_back_at, device_sources.warranty_written_back_at)
+                                          ELSE EXCLUDED.warranty_written_back_at END,
+          device_id = EXCLUDED.device_id
+      `, [
+        userId,
+        links.map(link => link.serialNumber),
+        links.map(link => link.source.platform),
+        links.map(link => link.source.sourceDeviceId),
+        links.map(link => link.source.clientName || null),
+        links.map(link => link.source.firstSeenAt),
+        links.map(link => link.source.lastSeenAt),
+        links.map(link => link.source.warrantyWrittenBackAt || null)
+      ]);
     } finally {
       client.release();
     }
   }
 
-  async getDevicesByPlatform(platform: string, userId?: string): Promise<Device[]> {
+  /**
+   * Links the platform record an imported device came from. A record that now
+   * reports a different serial number moves to that device.
+   */
+  private async linkDeviceSource(client: PoolClient, deviceId: string, device: Device, userId: string): Promise<void> {
+    const source = getImportSourceRef(device);
+    if (!source) {
+      return;
+    }
+
+    await client.query(`
+      INSERT INTO device_sources (
+        user_id, device_id, platform, source_device_id, client_name, first_seen_at, last_seen_at
+      ) VALUES ($1, $2, $3, $4, $5, EXTRACT(EPOCH FROM NOW())::integer, EXTRACT(EPOCH FROM NOW())::integer)
+      ON CONFLICT (user_id, platform, source_device_id) DO UPDATE SET
+        client_name = COALESCE(EXCLUDED.client_name, device_sources.client_name),
+        last_seen_at = EXCLUDED.last_seen_at,
+        warranty_written_back_at = CASE WHEN device_sources.device_id = EXCLUDED.device_id
+                                        THEN device_sources.warranty_written_back_at END,
+        device_id = EXCLUDED.device_id
+    `, [userId, deviceId, source.platform, source.sourceDeviceId, device.clientName || null]);
+  }
+
+  // Source records of the devices matching a condition on devices (aliased d), which must filter by user
+  private async getDeviceSourceRows(client: PoolClient, condition: string, params: unknown[]): Promise<DeviceSourceRow[]> {
+    const result = await client.query<DeviceSourceRow>(`
+      SELECT s.*
+      FROM device_sources s
+      JOIN devices d ON d.id = s.device_id
+      WHERE ${condition}
+      ORDER BY s.last_seen_at DESC
+    `, params);
+    return result.rows;
+  }
+
+  async getDeviceBySerial(serialNumber: string, userId?: string): Promise<Device | null> {
     if (!userId) {
       throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
     }
@@ -191,34 +655,35 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
     const client = await this.getClient();
     
     try {
-      const query = 'SELECT * FROM devices WHERE source_platform = $1 AND user_id = $2 ORDER BY updated_at DESC';
-      const result = await client.query(query, [platform, userId]);
-      return result.rows.map((row: DeviceRow) => mapRowToDevice(row));
+      const query = 'SELECT * FROM devices WHERE serial_number = $1 AND user_id = $2 AND deleted_at IS NULL';
+      const result = await client.query(query, [serialNumber, userId]);
+      return result.rows.length > 0 ? mapRowToDevice(result.rows[0]) : null;
     } finally {
       client.release();
     }
   }
 
-  async deleteDeviceById(deviceId: string, userId?: string): Promise<void> {
+  async getDeviceById(deviceId: string, userId?: string): Promise<Device | null> {
     if (!userId) {
       throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
     }
 
     const client = await this.getClient();
-    
+
     try {
-      const query = 'DELETE FROM devices WHERE id = $1 AND user_id = $2';
-      await client.query(query, [deviceId, userId]);
+      const query = 'SELECT * FROM devices WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL';
+      const result = await client.query(query, [deviceId, userId]);
+      if (result.rows.length === 0) {
+        return null;
+      }
+      const sourceRows = await this.getDeviceSourceRows(client, 'd.id = $1 AND d.user_id = $2', [deviceId, userId]);
+      return withDeviceSources([mapRowToDevice(result.rows[0])], sourceRows)[0];
     } finally {
       client.release();
     }
   }
 
-  async updateDeviceWarranty(
-    serialNumber: string, 
-    warranty: { startDate: string; endDate: string },
-    userId?: string
-  ): Promise<void> {
+  async getAllDevices(userId?: string): Promise<Device[]> {
     if (!userId) {
       throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
     }
@@ -226,22 +691,16 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
     const client = await this.getClient();
     
     try {
-      const query = `
-        UPDATE devices 
-        SET warranty_start_date = $1, 
-            warranty_end_date = $2, 
-            warranty_fetched_at = EXTRACT(EPOCH FROM NOW())::integer,
-            updated_at = NOW()
-        WHERE serial_number = $3 AND user_id = $4
-      `;
-      
-      await client.query(query, [warranty.startDate, warranty.endDate, serialNumber, userId]);
+      const query = 'SELECT * FROM devices WHERE user_id = $1 AND deleted_at IS NULL ORDER BY updated_at DESC';
+      const result = await client.query(query, [userId]);
+      const sourceRows = await this.getDeviceSourceRows(client, 'd.user_id = $1 AND d.deleted_at IS NULL', [userId]);
+      return withDeviceSources(result.rows.map((row: DeviceRow) => mapRowToDevice(row)), sourceRows);
     } finally {
       client.release();
     }
   }
 
-  async markWarrantyWrittenBack(serialNumber: string, userId?: string): Promise<void> {
+  async getDevicesByPlatform(platform: string, userId?: string): Promise<Device[]> {
     if (!userId) {
       throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
     }
@@ -249,103 +708,1071 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
     const client = await this.getClient();
     
     try {
-      const query = `
-        UPDATE devices 
-        SET warranty_written_back_at = EXTRACT(EPOCH FROM NOW())::integer,
-            updated_at = NOW()
-        WHERE serial_number = $1 AND user_id = $2
+      // Devices last imported from the platform, or linked to a record in it
+      const condition = `d.user_id = $2 AND d.deleted_at IS NULL AND (d.source_platform = $1 OR EXISTS (
+        SELECT 1 FROM device_sources ps WHERE ps.device_id = d.id AND ps.platform = $1
+      ))`;
+      const query = `SELECT * FROM devices d WHERE ${condition} ORDER BY updated_at DESC`;
+      const result = await client.query(query, [platform, userId]);
+      const sourceRows = await this.getDeviceSourceRows(client, condition, [platform, userId]);
+      return withDeviceSources(result.rows.map((row: DeviceRow) => mapRowToDevice(row)), sourceRows);
+    } finally {
+      client.release();
+    }
+  }
+
+  async queryDevices(query: DeviceQuery, userId?: string): Promise<DeviceQueryResult> {
+    if (!userId) {
+      throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
+    }
+
+    const filter = query.filter || {};
+    const sort = query.sort || DEFAULT_DEVICE_SORT;
+    const limit = getDevicePageSize(query.limit);
+    const column = DEVICE_SORT_COLUMNS[sort.field];
+    // Missing values sort first ascending, so they can still be compared against a cursor.
+    // Dates are compared as YYYY-MM-DD text so cursor values round-trip through JSON.
+    let sortExpression = `COALESCE(${column}, '')`;
+    if (sort.field === 'warrantyFetchedAt') {
+      sortExpression = `COALESCE(${column}, 0)`;
+    } else if (sort.field === 'warrantyStartDate' || sort.field === 'warrantyEndDate') {
+      sortExpression = `COALESCE(to_char(${column}, 'YYYY-MM-DD'), '')`;
+    }
+
+    const params: unknown[] = [userId];
+    const param = (value: unknown) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+    const conditions: string[] = ['user_id = $1', 'deleted_at IS NULL'];
+
+    if (filter.search) {
+      const pattern = param(`%${escapeLikePattern(filter.search)}%`);
+      const searchColumns = ['hostname', 'serial_number', 'client_name', 'manufacturer', 'model'];
+      conditions.push(`(${searchColumns.map(name => `${name} ILIKE ${pattern} ESCAPE '\\'`).join(' OR ')})`);
+    }
+    // Matches inferWarrantyStatus, which treats a warranty as expired on its end date
+    if (filter.status === 'active') {
+      conditions.push('warranty_end_date > CURRENT_DATE');
+    } else if (filter.status === 'expired') {
+      conditions.push('warranty_end_date <= CURRENT_DATE');
+    } else if (filter.status === 'unknown') {
+      conditions.push('warranty_end_date IS NULL');
+    }
+    if (filter.clientName) {
+      conditions.push(`client_name = ${param(filter.clientName)}`);
+    }
+    if (filter.manufacturer) {
+      conditions.push(`manufacturer = ${param(filter.manufacturer)}`);
+    }
+    if (filter.sourcePlatform) {
+      const platformParam = param(filter.sourcePlatform);
+      conditions.push(`(source_platform = ${platformParam} OR EXISTS (
+        SELECT 1 FROM device_sources ps WHERE ps.device_id = devices.id AND ps.platform = ${platformParam}
+      ))`);
+    }
+    if (filter.expiresWithinDays) {
+      conditions.push(`warranty_end_date > CURRENT_DATE AND warranty_end_date <= CURRENT_DATE + ${param(filter.expiresWithinDays)}::integer`);
+    }
+    if (filter.lookupStatus === 'failed') {
+      conditions.push(`warranty_lookup_status IS NOT NULL AND warranty_lookup_status != 'success'`);
+    } else if (filter.lookupStatus === 'never') {
+      conditions.push('warranty_lookup_status IS NULL');
+    } else if (filter.lookupStatus) {
+      conditions.push(`warranty_lookup_status = ${param(filter.lookupStatus)}`);
+    }
+
+    const client = await this.getClient();
+
+    try {
+      const countResult = await client.query(
+        `SELECT COUNT(*) AS count FROM devices WHERE ${conditions.join(' AND ')}`,
+        params
+      );
+
+      if (query.cursor) {
+        const cursor = decodeDeviceCursor(query.cursor);
+        if (!cursor) {
+          throw new Error('Invalid device cursor');
+        }
+        const comparison = sort.direction === 'asc' ? '>' : '<';
+        const value = param(cursor.value);
+        conditions.push(`(${sortExpression} ${comparison} ${value} OR (${sortExpression} = ${value} AND id ${comparison} ${param(cursor.id)}))`);
+      }
+
+      const direction = sort.direction === 'asc' ? 'ASC' : 'DESC';
+      // One extra row tells us whether there is a next page
+      const pageQuery = `
+        SELECT *, ${sortExpression} AS sort_value
+        FROM devices
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY sort_value ${direction}, id ${direction}
+        LIMIT ${param(limit + 1)}
       `;
-      
-      await client.query(query, [serialNumber, userId]);
+      const result = await client.query(pageQuery, params);
+      const rows: DeviceQueryRow[] = result.rows;
+
+      const deviceIds = rows.slice(0, limit).map(row => row.id);
+      const entitlementResult = deviceIds.length > 0
+        ? await client.query(`
+            SELECT d.serial_number, e.service_level_code, e.description, e.start_date, e.end_date, e.provider
+            FROM device_entitlements e
+            JOIN devices d ON d.id = e.device_id
+            WHERE e.user_id = $1 AND e.device_id = ANY($2)
+            ORDER BY d.serial_number, e.end_date DESC
+          `, [userId, deviceIds])
+        : { rows: [] };
+
+      const sourceRows = deviceIds.length > 0
+        ? await this.getDeviceSourceRows(client, 'd.user_id = $1 AND d.id = ANY($2)', [userId, deviceIds])
+        : [];
+
+      const totalCount = parseInt(countResult.rows[0].count);
+      return toDeviceQueryResult(
+        rows,
+        limit,
+        totalCount,
+        groupEntitlementsBySerial(entitlementResult.rows),
+        groupSourcesByDeviceId(sourceRows)
+      );
     } finally {
       client.release();
     }
   }
 
-  async getUniqueClientNames(userId?: string): Promise<string[]> {
+  async deleteDeviceById(deviceId: string, userId?: string): Promise<void> {
+    if (!userId) {
+      throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
+    }
+
+    await this.deleteDevices({ deviceIds: [deviceId] }, userId);
+  }
+
+  async deleteDevices(filter: DeviceDeleteFilter, userId?: string): Promise<number> {
     if (!userId) {
       throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
     }
+    if (filter.deviceIds && filter.deviceIds.length === 0) {
+      return 0;
+    }
+
+    const params: unknown[] = [userId];
+    const param = (value: unknown) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+    const conditions: string[] = ['user_id = $1', 'deleted_at IS NULL'];
+    if (filter.clientName) {
+      conditions.push(`client_name = ${param(filter.clientName)}`);
+    }
+    if (filter.platform) {
+      const platformParam = param(filter.platform);
+      conditions.push(`(source_platform = ${platformParam} OR EXISTS (
+        SELECT 1 FROM device_sources ps WHERE ps.device_id = devices.id AND ps.platform = ${platformParam}
+      ))`);
+    }
+    if (filter.deviceIds) {
+      conditions.push(`id = ANY(${param(filter.deviceIds)}::text[])`);
+    }
 
     const client = await this.getClient();
-    
+
     try {
       const query = `
-        SELECT DISTINCT client_name 
-        FROM devices 
-        WHERE client_name IS NOT NULL 
-        AND client_name != '' 
-        AND user_id = $1
-        ORDER BY client_name ASC
+        UPDATE devices
+        SET deleted_at = EXTRACT(EPOCH FROM NOW())::integer
+        WHERE ${conditions.join(' AND ')}
       `;
-      
-      const result = await client.query(query, [userId]);
-      return result.rows.map((row: { client_name: string }) => row.client_name);
+      const result = await client.query(query, params);
+      return result.rowCount || 0;
     } finally {
       client.release();
     }
   }
 
-  async getDevicesByClientName(clientName: string, userId?: string): Promise<Device[]> {
+  async getDeletedDevices(userId?: string): Promise<Device[]> {
     if (!userId) {
       throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
     }
 
     const client = await this.getClient();
-    
+
     try {
-      const query = 'SELECT * FROM devices WHERE client_name = $1 AND user_id = $2 ORDER BY updated_at DESC';
-      const result = await client.query(query, [clientName, userId]);
+      const query = 'SELECT * FROM devices WHERE user_id = $1 AND deleted_at IS NOT NULL ORDER BY deleted_at DESC';
+      const result = await client.query(query, [userId]);
       return result.rows.map((row: DeviceRow) => mapRowToDevice(row));
     } finally {
       client.release();
     }
   }
 
-  async getDeviceCountByClient(userId?: string): Promise<{ clientName: string; count: number }[]> {
+  async restoreDevices(deviceIds: string[], userId?: string): Promise<number> {
     if (!userId) {
       throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
     }
+    if (deviceIds.length === 0) {
+      return 0;
+    }
 
     const client = await this.getClient();
-    
+
     try {
       const query = `
-        SELECT client_name, COUNT(*) as count
-        FROM devices 
-        WHERE client_name IS NOT NULL 
-        AND client_name != ''
-        AND user_id = $1
-        GROUP BY client_name 
-        ORDER BY count DESC, client_name ASC
+        UPDATE devices
+        SET deleted_at = NULL
+        WHERE user_id = $1 AND deleted_at IS NOT NULL AND id = ANY($2::text[])
       `;
-      
-      const result = await client.query(query, [userId]);
-      return result.rows.map((row: { client_name: string; count: number }) => ({ 
-        clientName: row.client_name, 
-        count: typeof row.count === 'string' ? parseInt(row.count) : row.count 
-      }));
+      const result = await client.query(query, [userId, deviceIds]);
+      return result.rowCount || 0;
     } finally {
       client.release();
     }
   }
 
-  async cleanupOldDevices(daysOld: number = 90, userId?: string): Promise<number> {
+  async updateDeviceDetails(deviceId: string, details: DeviceDetailsUpdate, userId?: string): Promise<Device | null> {
     if (!userId) {
       throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
     }
 
     const client = await this.getClient();
-    
+
     try {
-      const thresholdTimestamp = Math.floor(Date.now() / 1000) - (daysOld * 24 * 3600);
-      
+      const existingResult = await client.query(
+        'SELECT * FROM devices WHERE id = $1 AND user_id = $2',
+        [deviceId, userId]
+      );
+      if (existingResult.rows.length === 0) {
+        return null;
+      }
+      const existingDevice = mapRowToDevice(existingResult.rows[0]);
+
       const query = `
-        DELETE FROM devices 
-        WHERE updated_at < to_timestamp($1) AND user_id = $2
+        UPDATE devices
+        SET hostname = $1,
+            model = $2,
+            client_name = $3,
+            device_class = $4,
+            warranty_start_date = $5,
+            warranty_end_date = $6,
+            updated_at = NOW()
+        WHERE id = $7 AND user_id = $8
+        RETURNING *
       `;
-      
-      const result = await client.query(query, [thresholdTimestamp, userId]);
+
+      const result = await client.query(query, [
+        details.hostname || null,
+        details.model || null,
+        details.clientName || null,
+        details.deviceClass || null,
+        details.warrantyStartDate || null,
+        details.warrantyEndDate || null,
+        deviceId,
+        userId
+      ]);
+
+      if (
+        (details.warrantyStartDate || undefined) !== existingDevice.warrantyStartDate ||
+        (details.warrantyEndDate || undefined) !== existingDevice.warrantyEndDate
+      ) {
+        await this.recordWarrantyHistory(
+          client,
+          deviceId,
+          { startDate: details.warrantyStartDate, endDate: details.warrantyEndDate },
+          'manual',
+          userId
+        );
+      }
+
+      return mapRowToDevice(result.rows[0]);
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateDeviceWarranty(
+    serialNumber: string, 
+    warranty: { startDate: string; endDate: string },
+    userId?: string
+  ): Promise<void> {
+    if (!userId) {
+      throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
+    }
+
+    const client = await this.getClient();
+    
+    try {
+      const query = `
+        UPDATE devices 
+        SET warranty_start_date = $1, 
+            warranty_end_date = $2, 
+            warranty_fetched_at = EXTRACT(EPOCH FROM NOW())::integer,
+            warranty_lookup_attempted_at = EXTRACT(EPOCH FROM NOW())::integer,
+            warranty_lookup_status = 'success',
+            warranty_lookup_error = NULL,
+            warranty_lookup_attempts = COALESCE(warranty_lookup_attempts, 0) + 1,
+            updated_at = NOW()
+        WHERE serial_number = $3 AND user_id = $4
+        RETURNING id
+      `;
+      
+      const result = await client.query(query, [warranty.startDate, warranty.endDate, serialNumber, userId]);
+      if (result.rows.length > 0) {
+        await this.recordWarrantyHistory(client, result.rows[0].id, warranty, 'manufacturer_api', userId);
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  async recordWarrantyLookupFailure(
+    serialNumber: string,
+    status: WarrantyLookupStatus,
+    error: string,
+    userId?: string
+  ): Promise<void> {
+    if (!userId) {
+      throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
+    }
+
+    const client = await this.getClient();
+
+    try {
+      const query = `
+        UPDATE devices
+        SET warranty_lookup_attempted_at = EXTRACT(EPOCH FROM NOW())::integer,
+            warranty_lookup_status = $1,
+            warranty_lookup_error = $2,
+            warranty_lookup_attempts = COALESCE(warranty_lookup_attempts, 0) + 1,
+            updated_at = NOW()
+        WHERE serial_number = $3 AND user_id = $4
+      `;
+
+      await client.query(query, [status, error, serialNumber, userId]);
+    } finally {
+      client.release();
+    }
+  }
+
+  async markWarrantyWrittenBack(serialNumber: string, source?: DeviceSourceRef, userId?: string): Promise<void> {
+    if (!userId) {
+      throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
+    }
+
+    const client = await this.getClient();
+    
+    try {
+      const query = `
+        UPDATE devices 
+        SET warranty_written_back_at = EXTRACT(EPOCH FROM NOW())::integer,
+            updated_at = NOW()
+        WHERE serial_number = $1 AND user_id = $2
+      `;
+      
+      await client.query(query, [serialNumber, userId]);
+
+      if (source) {
+        await client.query(`
+          UPDATE device_sources
+          SET warranty_written_back_at = EXTRACT(EPOCH FROM NOW())::integer
+          WHERE user_id = $1 AND platform = $2 AND source_device_id = $3
+            AND device_id = (SELECT id FROM devices WHERE serial_number = $4 AND user_id = $1)
+        `, [userId, source.platform, source.sourceDeviceId, serialNumber]);
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  async replaceDeviceEntitlements(
+    serialNumber: string,
+    entitlements: WarrantyEntitlement[],
+    userId?: string
+  ): Promise<void> {
+    if (!userId) {
+      throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
+    }
+
+    const client = await this.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      const deviceResult = await client.query(
+        'SELECT id FROM devices WHERE serial_number = $1 AND user_id = $2',
+        [serialNumber, userId]
+      );
+      if (deviceResult.rows.length === 0) {
+        throw new Error(`Device not found: ${serialNumber}`);
+      }
+      const deviceId = deviceResult.rows[0].id;
+
+      await client.query(
+        'DELETE FROM device_entitlements WHERE device_id = $1 AND user_id = $2',
+        [deviceId, userId]
+      );
+
+      for (const entitlement of entitlements) {
+        await client.query(
+          `INSERT INTO device_entitlements (
+            user_id, device_id, service_level_code, description, start_date, end_date, provider
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+          [
+            userId,
+            deviceId,
+            entitlement.serviceLevelCode || null,
+            entitlement.description,
+            entitlement.startDate || null,
+            entitlement.endDate || null,
+            entitlement.provider
+          ]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getDeviceEntitlements(serialNumber: string, userId?: string): Promise<WarrantyEntitlement[]> {
+    if (!userId) {
+      throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
+    }
+
+    const client = await this.getClient();
+
+    try {
+      const query = `
+        SELECT d.serial_number, e.service_level_code, e.description, e.start_date, e.end_date, e.provider
+        FROM device_entitlements e
+        JOIN devices d ON d.id = e.device_id
+        WHERE d.serial_number = $1 AND e.user_id = $2
+        ORDER BY e.end_date DESC
+      `;
+      const result = await client.query(query, [serialNumber, userId]);
+      return result.rows.map((row: EntitlementRow) => mapRowToEntitlement(row));
+    } finally {
+      client.release();
+    }
+  }
+
+  async getAllDeviceEntitlements(userId?: string): Promise<Record<string, WarrantyEntitlement[]>> {
+    if (!userId) {
+      throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
+    }
+
+    const client = await this.getClient();
+
+    try {
+      const query = `
+        SELECT d.serial_number, e.service_level_code, e.description, e.start_date, e.end_date, e.provider
+        FROM device_entitlements e
+        JOIN devices d ON d.id = e.device_id
+        WHERE e.user_id = $1 AND d.deleted_at IS NULL
+        ORDER BY d.serial_number, e.end_date DESC
+      `;
+      const result = await client.query(query, [userId]);
+      return groupEntitlementsBySerial(result.rows);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Adds a history entry unless the device's latest entry already has the same dates
+   */
+  private async recordWarrantyHistory(
+    client: PoolClient,
+    deviceId: string,
+    warranty: { startDate?: string; endDate?: string },
+    source: WarrantyHistorySource,
+    userId: string
+  ): Promise<void> {
+    const query = `
+      INSERT INTO warranty_history (user_id, device_id, start_date, end_date, source, recorded_at)
+      SELECT $1, $2, $3::date, $4::date, $5, EXTRACT(EPOCH FROM NOW())::integer
+      WHERE NOT EXISTS (
+        SELECT 1 FROM (
+          SELECT start_date, end_date FROM warranty_history
+          WHERE device_id = $2 AND user_id = $1
+          ORDER BY recorded_at DESC, created_at DESC
+          LIMIT 1
+        ) latest
+        WHERE latest.start_date IS NOT DISTINCT FROM $3::date
+          AND latest.end_date IS NOT DISTINCT FROM $4::date
+      )
+    `;
+
+    await client.query(query, [userId, deviceId, warranty.startDate || null, warranty.endDate || null, source]);
+  }
+
+  async getWarrantyHistory(serialNumber: string, userId?: string): Promise<WarrantyHistoryEntry[]> {
+    if (!userId) {
+      throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
+    }
+
+    const client = await this.getClient();
+
+    try {
+      const query = `
+        SELECT h.start_date, h.end_date, h.source, h.recorded_at
+        FROM warranty_history h
+        JOIN devices d ON d.id = h.device_id
+        WHERE d.serial_number = $1 AND h.user_id = $2
+        ORDER BY h.recorded_at DESC, h.created_at DESC
+      `;
+      const result = await client.query(query, [serialNumber, userId]);
+      return result.rows.map((row: WarrantyHistoryRow) => mapRowToWarrantyHistoryEntry(row));
+    } finally {
+      client.release();
+    }
+  }
+
+  async createJob(
+    job: { type: JobType; params: WarrantyLookupJobParams; totalItems: number },
+    userId?: string
+  ): Promise<Job> {
+    if (!userId) {
+      throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
+    }
+
+    const client = await this.getClient();
+
+    try {
+      const query = `
+        INSERT INTO jobs (id, user_id, type, status, params, total_items, failures, created_at, updated_at)
+        VALUES ($1, $2, $3, 'queued', $4, $5, '[]'::jsonb, NOW(), NOW())
+        RETURNING *
+      `;
+      const result = await client.query(query, [
+        crypto.randomUUID(),
+        userId,
+        job.type,
+        JSON.stringify(job.params),
+        job.totalItems
+      ]);
+      return mapRowToJob(result.rows[0]);
+    } finally {
+      client.release();
+    }
+  }
+
+  async getJobById(jobId: string, userId?: string): Promise<Job | null> {
+    if (!userId) {
+      throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
+    }
+
+    const client = await this.getClient();
+
+    try {
+      const result = await client.query('SELECT * FROM jobs WHERE id = $1 AND user_id = $2', [jobId, userId]);
+      return result.rows.length > 0 ? mapRowToJob(result.rows[0]) : null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getRecentJobs(limit: number, userId?: string): Promise<Job[]> {
+    if (!userId) {
+      throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
+    }
+
+    const client = await this.getClient();
+
+    try {
+      const result = await client.query(
+        'SELECT * FROM jobs WHERE user_id = $1 ORDER BY created_at DESC LIMIT $2',
+        [userId, limit]
+      );
+      return result.rows.map((row: JobRow) => mapRowToJob(row));
+    } finally {
+      client.release();
+    }
+  }
+
+  async cancelJob(jobId: string, userId?: string): Promise<boolean> {
+    if (!userId) {
+      throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
+    }
+
+    const client = await this.getClient();
+
+    try {
+      const query = `
+        UPDATE jobs
+        SET status = 'canceled',
+            params = params - 'manufacturerCredentials',
+            finished_at = EXTRACT(EPOCH FROM NOW())::integer,
+            updated_at = NOW()
+        WHERE id = $1 AND user_id = $2 AND status IN ('queued', 'running')
+      `;
+      const result = await client.query(query, [jobId, userId]);
+      return (result.rowCount || 0) > 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  async claimNextQueuedJob(): Promise<Job | null> {
+    const client = await this.getClient();
+
+    try {
+      // SKIP LOCKED lets several app instances poll the queue without claiming the same job
+      const query = `
+        UPDATE jobs
+        SET status = 'running',
+            started_at = COALESCE(started_at, EXTRACT(EPOCH FROM NOW())::integer),
+            updated_at = NOW()
+        WHERE id = (
+          SELECT id FROM jobs
+          WHERE status = 'queued'
+          ORDER BY created_at ASC
+          FOR UPDATE SKIP LOCKED
+          LIMIT 1
+        )
+        RETURNING *
+      `;
+      const result = await client.query(query);
+      return result.rows.length > 0 ? mapRowToJob(result.rows[0]) : null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateJobProgress(jobId: string, progress: JobProgress): Promise<void> {
+    const client = await this.getClient();
+
+    try {
+      const query = `
+        UPDATE jobs
+        SET processed_items = $1,
+            failed_items = $2,
+            failures = $3,
+            updated_at = NOW()
+        WHERE id = $4
+      `;
+      await client.query(query, [
+        progress.processedItems,
+        progress.failedItems,
+        JSON.stringify(progress.failures),
+        jobId
+      ]);
+    } finally {
+      client.release();
+    }
+  }
+
+  async finishJob(jobId: string, status: 'completed' | 'failed', error?: string): Promise<void> {
+    const client = await this.getClient();
+
+    try {
+      // Only running jobs are finished, so a cancellation is never overwritten
+      const query = `
+        UPDATE jobs
+        SET status = $1,
+            error = $2,
+            params = params - 'manufacturerCredentials',
+            finished_at = EXTRACT(EPOCH FROM NOW())::integer,
+            updated_at = NOW()
+        WHERE id = $3 AND status = 'running'
+      `;
+      await client.query(query, [status, error || null, jobId]);
+    } finally {
+      client.release();
+    }
+  }
+
+  async requeueStaleJobs(staleBefore: number): Promise<number> {
+    const client = await this.getClient();
+
+    try {
+      const query = `
+        UPDATE jobs
+        SET status = 'queued',
+            updated_at = NOW()
+        WHERE status = 'running' AND updated_at <= to_timestamp($1)
+      `;
+      const result = await client.query(query, [staleBefore]);
+      return result.rowCount || 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  async createSchedule(schedule: SyncScheduleInput, nextRunAt: number | null, userId?: string): Promise<SyncSchedule> {
+    if (!userId) {
+      throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
+    }
+
+    const client = await this.getClient();
+
+    try {
+      const query = `
+        INSERT INTO sync_schedules (
+          id, user_id, name, platform, cron_expression, enabled, lookup_warranties, write_back,
+          credentials, next_run_at, created_at, updated_at
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW(), NOW())
+        RETURNING *
+      `;
+      const result = await client.query(query, [
+        crypto.randomUUID(),
+        userId,
+        schedule.name,
+        schedule.platform,
+        schedule.cronExpression,
+        schedule.enabled,
+        schedule.lookupWarranties,
+        schedule.writeBack,
+        serializeScheduleCredentials(schedule.credentials),
+        nextRunAt
+      ]);
+      return mapRowToSyncSchedule(result.rows[0]);
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateSchedule(
+    scheduleId: string,
+    schedule: SyncScheduleInput,
+    nextRunAt: number | null,
+    userId?: string
+  ): Promise<SyncSchedule | null> {
+    if (!userId) {
+      throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
+    }
+
+    const client = await this.getClient();
+
+    try {
+      const query = `
+        UPDATE sync_schedules
+        SET name = $1,
+            platform = $2,
+            cron_expression = $3,
+            enabled = $4,
+            lookup_warranties = $5,
+            write_back = $6,
+            credentials = $7,
+            next_run_at = $8,
+            updated_at = NOW()
+        WHERE id = $9 AND user_id = $10
+        RETURNING *
+      `;
+      const result = await client.query(query, [
+        schedule.name,
+        schedule.platform,
+        schedule.cronExpression,
+        schedule.enabled,
+        schedule.lookupWarranties,
+        schedule.writeBack,
+        serializeScheduleCredentials(schedule.credentials),
+        nextRunAt,
+        scheduleId,
+        userId
+      ]);
+      return result.rows.length > 0 ? mapRowToSyncSchedule(result.rows[0]) : null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async deleteSchedule(scheduleId: string, userId?: string): Promise<boolean> {
+    if (!userId) {
+      throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
+    }
+
+    const client = await this.getClient();
+
+    try {
+      // Run history is removed with the schedule (ON DELETE CASCADE)
+      const result = await client.query('DELETE FROM sync_schedules WHERE id = $1 AND user_id = $2', [scheduleId, userId]);
+      return (result.rowCount || 0) > 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getScheduleById(scheduleId: string, userId?: string): Promise<SyncSchedule | null> {
+    if (!userId) {
+      throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
+    }
+
+    const client = await this.getClient();
+
+    try {
+      const result = await client.query('SELECT * FROM sync_schedules WHERE id = $1 AND user_id = $2', [scheduleId, userId]);
+      return result.rows.length > 0 ? mapRowToSyncSchedule(result.rows[0]) : null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getSchedules(userId?: string): Promise<SyncSchedule[]> {
+    if (!userId) {
+      throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
+    }
+
+    const client = await this.getClient();
+
+    try {
+      const result = await client.query('SELECT * FROM sync_schedules WHERE user_id = $1 ORDER BY name', [userId]);
+      return result.rows.map((row: SyncScheduleRow) => mapRowToSyncSchedule(row));
+    } finally {
+      client.release();
+    }
+  }
+
+  async getRecentScheduleRuns(limit: number, userId?: string): Promise<ScheduleRun[]> {
+    if (!userId) {
+      throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
+    }
+
+    const client = await this.getClient();
+
+    try {
+      const query = `
+        SELECT r.*, s.name AS schedule_name
+        FROM schedule_runs r
+        JOIN sync_schedules s ON s.id = r.schedule_id
+        WHERE r.user_id = $1
+        ORDER BY r.started_at DESC
+        LIMIT $2
+      `;
+      const result = await client.query(query, [userId, limit]);
+      return result.rows.map((row: ScheduleRunRow) => mapRowToScheduleRun(row));
+    } finally {
+      client.release();
+    }
+  }
+
+  async getDueSchedules(now: number): Promise<SyncSchedule[]> {
+    const client = await this.getClient();
+
+    try {
+      const query = `
+        SELECT * FROM sync_schedules
+        WHERE enabled = TRUE AND next_run_at IS NOT NULL AND next_run_at <= $1
+        ORDER BY next_run_at ASC
+      `;
+      const result = await client.query(query, [now]);
+      return result.rows.map((row: SyncScheduleRow) => mapRowToSyncSchedule(row));
+    } finally {
+      client.release();
+    }
+  }
+
+  async claimScheduleRun(scheduleId: string, expectedNextRunAt: number, nextRunAt: number | null): Promise<boolean> {
+    const client = await this.getClient();
+
+    try {
+      // Only succeeds if no other instance advanced next_run_at since the schedule was read
+      const query = `
+        UPDATE sync_schedules
+        SET next_run_at = $1,
+            last_run_at = EXTRACT(EPOCH FROM NOW())::integer,
+            last_run_status = 'running'
+        WHERE id = $2 AND enabled = TRUE AND next_run_at = $3
+      `;
+      const result = await client.query(query, [nextRunAt, scheduleId, expectedNextRunAt]);
+      return (result.rowCount || 0) > 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  async createScheduleRun(schedule: SyncSchedule): Promise<ScheduleRun> {
+    const client = await this.getClient();
+
+    try {
+      const query = `
+        INSERT INTO schedule_runs (id, user_id, schedule_id, platform, status, started_at)
+        VALUES ($1, $2, $3, $4, 'running', EXTRACT(EPOCH FROM NOW())::integer)
+        RETURNING *
+      `;
+      const result = await client.query(query, [crypto.randomUUID(), schedule.userId, schedule.id, schedule.platform]);
+      return mapRowToScheduleRun({ ...result.rows[0], schedule_name: schedule.name });
+    } finally {
+      client.release();
+    }
+  }
+
+  async finishScheduleRun(
+    runId: string,
+    status: 'completed' | 'failed',
+    stats: ScheduleRunStats,
+    error?: string
+  ): Promise<void> {
+    const client = await this.getClient();
+
+    try {
+      const query = `
+        UPDATE schedule_runs
+        SET status = $1,
+            devices_imported = $2,
+            devices_looked_up = $3,
+            lookups_failed = $4,
+            devices_written_back = $5,
+            write_backs_failed = $6,
+            error = $7,
+            finished_at = EXTRACT(EPOCH FROM NOW())::integer
+        WHERE id = $8
+        RETURNING schedule_id
+      `;
+      const result = await client.query(query, [
+        status,
+        stats.devicesImported,
+        stats.devicesLookedUp,
+        stats.lookupsFailed,
+        stats.devicesWrittenBack,
+        stats.writeBacksFailed,
+        error || null,
+        runId
+      ]);
+      if (result.rows.length > 0) {
+        await client.query('UPDATE sync_schedules SET last_run_status = $1 WHERE id = $2', [status, result.rows[0].schedule_id]);
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  async failInterruptedScheduleRuns(startedBefore: number): Promise<number> {
+    const client = await this.getClient();
+
+    try {
+      await client.query(`
+        UPDATE sync_schedules
+        SET last_run_status = 'failed'
+        WHERE id IN (SELECT schedule_id FROM schedule_runs WHERE status = 'running' AND started_at <= $1)
+      `, [startedBefore]);
+
+      const query = `
+        UPDATE schedule_runs
+        SET status = 'failed',
+            error = 'Interrupted by a server restart',
+            finished_at = EXTRACT(EPOCH FROM NOW())::integer
+        WHERE status = 'running' AND started_at <= $1
+      `;
+      const result = await client.query(query, [startedBefore]);
+      return result.rowCount || 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getUniqueClientNames(userId?: string): Promise<string[]> {
+    if (!userId) {
+      throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
+    }
+
+    const client = await this.getClient();
+    
+    try {
+      const query = `
+        SELECT DISTINCT client_name 
+        FROM devices 
+        WHERE client_name IS NOT NULL 
+        AND client_name != '' 
+        AND user_id = $1
+        AND deleted_at IS NULL
+        ORDER BY client_name ASC
+      `;
+      
+      const result = await client.query(query, [userId]);
+      return result.rows.map((row: { client_name: string }) => row.client_name);
+    } finally {
+      client.release();
+    }
+  }
+
+  async getDevicesByClientName(clientName: string, userId?: string): Promise<Device[]> {
+    if (!userId) {
+      throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
+    }
+
+    const client = await this.getClient();
+    
+    try {
+      const query = 'SELECT * FROM devices WHERE client_name = $1 AND user_id = $2 AND deleted_at IS NULL ORDER BY updated_at DESC';
+      const result = await client.query(query, [clientName, userId]);
+      const sourceRows = await this.getDeviceSourceRows(
+        client,
+        'd.client_name = $1 AND d.user_id = $2 AND d.deleted_at IS NULL',
+        [clientName, userId]
+      );
+      return withDeviceSources(result.rows.map((row: DeviceRow) => mapRowToDevice(row)), sourceRows);
+    } finally {
+      client.release();
+    }
+  }
+
+  async getDeviceCountByClient(userId?: string): Promise<{ clientName: string; count: number }[]> {
+    if (!userId) {
+      throw new Error('userId is required for PostgreSQL adapter (SaaS mode)');
+    }
+
+    const client = await this.getClient();
+    
+    try {
+      const query = `
+        SELECT client_name, COUNT(*) as count
+        FROM devices 
+        WHERE client_name IS NOT NULL 
+        AND client_name != ''
+        AND user_id = $1
+        AND deleted_at IS NULL
+        GROUP BY client_name 
+        ORDER BY count DESC, client_name ASC
+      `;
+      
+      const result = await client.query(query, [userId]);
+      return result.rows.map((row: { client_name: string; count: number }) => ({ 
+        clientName: row.client_name, 
+        count: typeof row.count === 'string' ? parseInt(row.count) : row.count 
+      }));
+    } finally {
+      client.release();
+    }
+  }
+
+  async cleanupOldDevices(daysOld: number = 90): Promise<number> {
+    const client = await this.getClient();
+    
+    try {
+      const thresholdTimestamp = Math.floor(Date.now() / 1000) - (daysOld * 24 * 3600);
+      
+      // Only imports count: a device is stale when none of its platform records was seen recently,
+      // or, without any platform records, when it was added long ago. Warranty lookups and
+      // write-backs also touch updated_at, so it can't tell whether a device still exists.
+      const query = `
+        UPDATE devices 
+        SET deleted_at = EXTRACT(EPOCH FROM NOW())::integer
+        WHERE deleted_at IS NULL 
+        AND COALESCE(
+          (SELECT MAX(s.last_seen_at) FROM device_sources s WHERE s.device_id = devices.id),
+          EXTRACT(EPOCH FROM created_at)::integer
+        ) < $1
+      `;
+      
+      const result = await client.query(query, [thresholdTimestamp]);
+      return result.rowCount || 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  async purgeDeletedDevices(deletedBefore: number): Promise<number> {
+    const client = await this.getClient();
+
+    try {
+      // Entitlements, warranty history and source records are deleted with the device
+      const query = 'DELETE FROM devices WHERE deleted_at IS NOT NULL AND deleted_at < $1';
+      const result = await client.query(query, [deletedBefore]);
       return result.rowCount || 0;
     } finally {
       client.release();
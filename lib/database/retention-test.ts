@@ -0,0 +1,93 @@
+// This test uses TypeScript directly with tsx
+// To run: npx tsx --conditions=react-server lib/database/retention-test.ts
+//
+// Runs against a temporary SQLite database, so no configuration is needed.
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Manufacturer } from '@/types/manufacturer';
+
+// The adapter reads DB_PATH when it is imported, so it is imported after this is set
+const dbPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'warranty-watcher-retention-')), 'warranty.db');
+process.env.DB_PATH = dbPath;
+
+const DAY_SECONDS = 24 * 3600;
+const RETENTION_DAYS = 90;
+
+let failures = 0;
+
+function check(description: string, passed: boolean) {
+  console.log(`${passed ? '✅' : '❌'} ${description}`);
+  if (!passed) {
+    failures++;
+  }
+}
+
+/**
+ * Adds devices seen at different times, then checks which ones the stale device rule trashes.
+ * Warranty lookups touch updated_at, so a device looked up yesterday but not imported for
+ * months must still count as stale.
+ */
+async function testStaleDevices() {
+  const { SQLiteAdapter } = await import('./sqlite-adapter');
+  const adapter = new SQLiteAdapter();
+  const now = Math.floor(Date.now() / 1000);
+  const longAgo = now - (RETENTION_DAYS + 30) * DAY_SECONDS;
+
+  try {
+    console.log('Step 1: Adding devices...');
+    await adapter.bulkUpsertDevices([
+      { serialNumber: 'SEEN-RECENTLY', manufacturer: Manufacturer.DELL, sourcePlatform: 'Datto RMM', sourceDeviceId: 'd-1' },
+      { serialNumber: 'REFRESHED-NOT-SEEN', manufacturer: Manufacturer.DELL, sourcePlatform: 'Datto RMM', sourceDeviceId: 'd-2' },
+      { serialNumber: 'ADDED-LONG-AGO', manufacturer: Manufacturer.HP },
+      { serialNumber: 'ADDED-RECENTLY', manufacturer: Manufacturer.HP },
+    ]);
+
+    // Last imported months ago, but its warranty was refreshed yesterday
+    await adapter.executeQuery(
+      `UPDATE device_sources SET last_seen_at = ?
+       WHERE device_id = (SELECT id FROM devices WHERE serial_number = 'REFRESHED-NOT-SEEN')`,
+      [longAgo]
+    );
+    await adapter.updateDeviceWarranty('REFRESHED-NOT-SEEN', { startDate: '2024-01-01', endDate: '2027-01-01' });
+
+    // Added by hand months ago, with no platform records, and refreshed yesterday
+    await adapter.executeQuery("UPDATE devices SET created_at = ? WHERE serial_number = 'ADDED-LONG-AGO'", [longAgo]);
+    await adapter.updateDeviceWarranty('ADDED-LONG-AGO', { startDate: '2024-01-01', endDate: '2027-01-01' });
+
+    console.log(`\nStep 2: Trashing devices not seen in ${RETENTION_DAYS} days...`);
+    const trashedCount = await adapter.cleanupOldDevices(RETENTION_DAYS);
+    const trashed = (await adapter.getDeletedDevices()).map(device => device.serialNumber);
+    console.log(`  Trashed: ${trashed.join(', ') || '(none)'}`);
+
+    check('Trashes two devices', trashedCount === 2);
+    check('Trashes a device refreshed recently but not seen by an import', trashed.includes('REFRESHED-NOT-SEEN'));
+    check('Trashes a device without platform records added long ago', trashed.includes('ADDED-LONG-AGO'));
+    check('Keeps a device seen by a recent import', !trashed.includes('SEEN-RECENTLY'));
+    check('Keeps a device without platform records added recently', !trashed.includes('ADDED-RECENTLY'));
+  } finally {
+    await adapter.close();
+  }
+}
+
+async function testRetention() {
+  console.log('=== Starting Retention Test ===\n');
+
+  try {
+    await testStaleDevices();
+  } catch (error) {
+    console.error('Test execution failed:', error);
+    process.exit(1);
+  } finally {
+    fs.rmSync(path.dirname(dbPath), { recursive: true, force: true });
+  }
+
+  console.log(`\n=== Retention Test Completed${failures > 0 ? ` with ${failures} failure(s)` : ''} ===`);
+  if (failures > 0) {
+    process.exit(1);
+  }
+}
+
+// Run the test
+testRetention();
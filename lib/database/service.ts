@@ -1,7 +1,19 @@
 'use server';
 
-import { Device } from '@/types/device';
+import {
+  Device,
+  DeviceDeleteFilter,
+  DeviceDetailsUpdate,
+  DeviceQuery,
+  DeviceQueryResult,
+  DeviceSourceRef,
+  DeviceUpsertResult
+} from '@/types/device';
+import { WarrantyEntitlement, WarrantyHistoryEntry, WarrantyLookupStatus } from '@/types/warranty';
+import { Job, JobType, WarrantyLookupJobParams } from '@/types/job';
+import { ScheduleRun, SyncSchedule, SyncScheduleInput } from '@/types/schedule';
 import { getDatabaseAdapter } from './factory';
+import { DatabaseBackup } from './adapter';
 import { isSaaSMode } from '@/lib/config';
 import { getCurrentUser } from '@/lib/supabase/auth';
 
@@ -36,12 +48,24 @@ export async function insertOrUpdateDevice(device: Device): Promise<void> {
   return adapter.insertOrUpdateDevice(device, userId);
 }
 
+export async function bulkUpsertDevices(devices: Device[]): Promise<DeviceUpsertResult[]> {
+  const adapter = getDatabaseAdapter();
+  const userId = await getUserId();
+  return adapter.bulkUpsertDevices(devices, userId);
+}
+
 export async function getDeviceBySerial(serialNumber: string): Promise<Device | null> {
   const adapter = getDatabaseAdapter();
   const userId = await getUserId();
   return adapter.getDeviceBySerial(serialNumber, userId);
 }
 
+export async function getDeviceById(deviceId: string): Promise<Device | null> {
+  const adapter = getDatabaseAdapter();
+  const userId = await getUserId();
+  return adapter.getDeviceById(deviceId, userId);
+}
+
 export async function getAllDevices(): Promise<Device[]> {
   const adapter = getDatabaseAdapter();
   const userId = await getUserId();
@@ -54,12 +78,49 @@ export async function getDevicesByPlatform(platform: string): Promise<Device[]>
   return adapter.getDevicesByPlatform(platform, userId);
 }
 
+export async function queryDevices(query: DeviceQuery): Promise<DeviceQueryResult> {
+  const adapter = getDatabaseAdapter();
+  const userId = await getUserId();
+  return adapter.queryDevices(query, userId);
+}
+
 export async function deleteDeviceById(deviceId: string): Promise<void> {
   const adapter = getDatabaseAdapter();
   const userId = await getUserId();
   return adapter.deleteDeviceById(deviceId, userId);
 }
 
+export async function updateDeviceDetails(deviceId: string, details: DeviceDetailsUpdate): Promise<Device | null> {
+  for (const date of [details.warrantyStartDate, details.warrantyEndDate]) {
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      throw new Error(`Invalid warranty date: ${date} (expected YYYY-MM-DD)`);
+    }
+  }
+
+  const adapter = getDatabaseAdapter();
+  const userId = await getUserId();
+  return adapter.updateDeviceDetails(deviceId, details, userId);
+}
+
+// Trash operations
+export async function deleteDevices(filter: DeviceDeleteFilter): Promise<number> {
+  const adapter = getDatabaseAdapter();
+  const userId = await getUserId();
+  return adapter.deleteDevices(filter, userId);
+}
+
+export async function getDeletedDevices(): Promise<Device[]> {
+  const adapter = getDatabaseAdapter();
+  const userId = await getUserId();
+  return adapter.getDeletedDevices(userId);
+}
+
+export async function restoreDevices(deviceIds: string[]): Promise<number> {
+  const adapter = getDatabaseAdapter();
+  const userId = await getUserId();
+  return adapter.restoreDevices(deviceIds, userId);
+}
+
 // Warranty operations
 export async function updateDeviceWarranty(
   serialNumber: string, 
@@ -70,10 +131,117 @@ export async function updateDeviceWarranty(
   return adapter.updateDeviceWarranty(serialNumber, warranty, userId);
 }
 
-export async function markWarrantyWrittenBack(serialNumber: string): Promise<void> {
+export async function markWarrantyWrittenBack(serialNumber: string, source?: DeviceSourceRef): Promise<void> {
+  const adapter = getDatabaseAdapter();
+  const userId = await getUserId();
+  return adapter.markWarrantyWrittenBack(serialNumber, source, userId);
+}
+
+export async function recordWarrantyLookupFailure(
+  serialNumber: string,
+  status: WarrantyLookupStatus,
+  error: string
+): Promise<void> {
+  const adapter = getDatabaseAdapter();
+  const userId = await getUserId();
+  return adapter.recordWarrantyLookupFailure(serialNumber, status, error, userId);
+}
+
+// Entitlement operations
+export async function replaceDeviceEntitlements(
+  serialNumber: string,
+  entitlements: WarrantyEntitlement[]
+): Promise<void> {
+  const adapter = getDatabaseAdapter();
+  const userId = await getUserId();
+  return adapter.replaceDeviceEntitlements(serialNumber, entitlements, userId);
+}
+
+export async function getDeviceEntitlements(serialNumber: string): Promise<WarrantyEntitlement[]> {
+  const adapter = getDatabaseAdapter();
+  const userId = await getUserId();
+  return adapter.getDeviceEntitlements(serialNumber, userId);
+}
+
+export async function getAllDeviceEntitlements(): Promise<Record<string, WarrantyEntitlement[]>> {
   const adapter = getDatabaseAdapter();
   const userId = await getUserId();
-  return adapter.markWarrantyWrittenBack(serialNumber, userId);
+  return adapter.getAllDeviceEntitlements(userId);
+}
+
+// Warranty history operations
+export async function getWarrantyHistory(serialNumber: string): Promise<WarrantyHistoryEntry[]> {
+  const adapter = getDatabaseAdapter();
+  const userId = await getUserId();
+  return adapter.getWarrantyHistory(serialNumber, userId);
+}
+
+// Background job operations
+export async function createJob(
+  job: { type: JobType; params: WarrantyLookupJobParams; totalItems: number }
+): Promise<Job> {
+  const adapter = getDatabaseAdapter();
+  const userId = await getUserId();
+  return adapter.createJob(job, userId);
+}
+
+export async function getJobById(jobId: string): Promise<Job | null> {
+  const adapter = getDatabaseAdapter();
+  const userId = await getUserId();
+  return adapter.getJobById(jobId, userId);
+}
+
+export async function getRecentJobs(limit: number = 20): Promise<Job[]> {
+  const adapter = getDatabaseAdapter();
+  const userId = await getUserId();
+  return adapter.getRecentJobs(limit, userId);
+}
+
+export async function cancelJob(jobId: string): Promise<boolean> {
+  const adapter = getDatabaseAdapter();
+  const userId = await getUserId();
+  return adapter.cancelJob(jobId, userId);
+}
+
+// Sync schedule operations
+export async function createSchedule(schedule: SyncScheduleInput, nextRunAt: number | null): Promise<SyncSchedule> {
+  const adapter = getDatabaseAdapter();
+  const userId = await getUserId();
+  return adapter.createSchedule(schedule, nextRunAt, userId);
+}
+
+export async function updateSchedule(
+  scheduleId: string,
+  schedule: SyncScheduleInput,
+  nextRunAt: number | null
+): Promise<SyncSchedule | null> {
+  const adapter = getDatabaseAdapter();
+  const userId = await getUserId();
+  return adapter.updateSchedule(scheduleId, schedule, nextRunAt, userId);
+}
+
+export async function deleteSchedule(scheduleId: string): Promise<boolean> {
+  const adapter = getDatabaseAdapter();
+  const userId = await getUserId();
+  return adapter.deleteSchedule(scheduleId, userId);
+}
+
+export async function getScheduleById(scheduleId: string): Promise<SyncSchedule | null> {
+  const adapter = getDatabaseAdapter();
+  const userId = await getUserId();
+  return adapter.getScheduleById(scheduleId, userId);
+}
+
+export async function getSchedules(): Promise<SyncSchedule[]> {
+  const adapter = getDatabaseAdapter();
+  const userId = await getUserId();
+  return adapter.getSchedules(userId);
+}
+
+export async function getRecentScheduleRuns(limit: number = 50): Promise<ScheduleRun[]> {
+  const adapter = getDatabaseAdapter();
+  const userId = await getUserId();
+  return adapter.getRecentScheduleRuns(limit, userId);
 }
 
 // Client operations (MSP functionality)
@@ -95,11 +263,17 @@ export async function getDeviceCountByClient(): Promise<{ clientName: string; co
   return adapter.getDeviceCountByClient(userId);
 }
 
-// Utility operations
-export async function cleanupOldDevices(daysOld: number = 90): Promise<number> {
+// Backup and restore
+export async function createBackup(): Promise<DatabaseBackup> {
+  const adapter = getDatabaseAdapter();
+  const userId = await getUserId();
+  return adapter.createBackup(userId);
+}
+
+export async function restoreBackup(data: Buffer): Promise<void> {
   const adapter = getDatabaseAdapter();
   const userId = await getUserId();
-  return adapter.cleanupOldDevices(daysOld, userId);
+  return adapter.restoreBackup(data, userId);
 }
 
 // Connection management
@@ -3,13 +3,107 @@ import 'server-only';
 import sqlite3 from 'sqlite3';
 import path from 'path';
 import fs from 'fs';
-import { Device } from '@/types/device';
-import { DatabaseAdapter, DeviceRow, mapRowToDevice } from './adapter';
+import {
+  Device,
+  DeviceDeleteFilter,
+  DeviceDetailsUpdate,
+  DeviceQuery,
+  DeviceQueryResult,
+  DeviceSourceRef,
+  DeviceUpsertResult
+} from '@/types/device';
+import { WarrantyEntitlement, WarrantyHistoryEntry, WarrantyHistorySource, WarrantyLookupStatus } from '@/types/warranty';
+import { Job, JobProgress, JobType, WarrantyLookupJobParams } from '@/types/job';
+import { ScheduleRun, ScheduleRunStats, SyncSchedule, SyncScheduleInput } from '@/types/schedule';
+import {
+  DEVICE_SORT_COLUMNS,
+  DatabaseAdapter,
+  DatabaseBackup,
+  DeviceQueryRow,
+  DeviceRow,
+  DeviceSourceRow,
+  EntitlementRow,
+  IMPORTED_DEVICE_COLUMNS,
+  JobRow,
+  ScheduleRunRow,
+  SyncScheduleRow,
+  WarrantyHistoryRow,
+  getImportHistorySource,
+  getImportSourceRef,
+  mapRowToDevice,
+  mapRowToEntitlement,
+  mapRowToJob,
+  mapRowToScheduleRun,
+  mapRowToSyncSchedule,
+  serializeScheduleCredentials,
+  mapRowToWarrantyHistoryEntry,
+  mergeImportedDevice,
+  planDeviceUpserts,
+  escapeLikePattern,
+  getBackupFileName,
+  groupEntitlementsBySerial,
+  groupSourcesByDeviceId,
+  toDeviceQueryResult,
+  toImportedDeviceValues,
+  withDeviceSources
+} from './adapter';
+import {
+  SchemaMigration,
+  SchemaMigrationRow,
+  getPendingMigrations,
+  getSchemaMigrationStatus,
+  validateBackupSchemaVersion
+} from './migrations';
 import { logger } from '@/lib/logger';
 import { appConfig } from '@/lib/config';
+import { DEFAULT_DEVICE_SORT, decodeDeviceCursor, getDevicePageSize } from '@/lib/utils/deviceQuery';
 
 // DeviceRow interface is now imported from adapter.ts
 
+// How long to wait for another connection holding the write lock (e.g. one applying migrations)
+const BUSY_TIMEOUT_MS = 30000;
+
+// Rows per multi-row statement in bulk writes, well under SQLite's bound parameter limit
+const BULK_CHUNK_SIZE = 500;
+
+function openConnection(dbPath: string): Promise<sqlite3.Database> {
+  return new Promise((resolve, reject) => {
+    const db = new sqlite3.Database(dbPath, (err) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+      // Wait for the write lock instead of failing with SQLITE_BUSY
+      db.configure('busyTimeout', BUSY_TIMEOUT_MS);
+      // SQLite only enforces ON DELETE CASCADE when foreign keys are enabled per connection
+      db.run('PRAGMA foreign_keys = ON;', (pragmaErr) => {
+        if (pragmaErr) {
+          db.close();
+          reject(pragmaErr);
+          return;
+        }
+        resolve(db);
+      });
+    });
+  });
+}
+
+function closeConnection(db: sqlite3.Database): Promise<void> {
+  return new Promise(resolve => db.close(() => resolve()));
+}
+
+function execStatement(db: sqlite3.Database, query: string, params: unknown[] = []): Promise<void> {
+  return new Promise((resolve, reject) => {
+    db.run(query, params, (err: Error | null) => (err ? reject(err) : resolve()));
+  });
+}
+
+function queryRows<T = unknown>(db: sqlite3.Database, query: string, params: unknown[] = []): Promise<T[]> {
+  return new Promise((resolve, reject) => {
+    db.all(query, params, (err: Error | null, rows: unknown) => (err ? reject(err) : resolve(rows as T[])));
+  });
+}
+
 /**
  * SQLite Database Adapter
  * Direct implementation of SQLite operations for self-hosted mode
@@ -18,6 +112,7 @@ import { appConfig } from '@/lib/config';
 export class SQLiteAdapter implements DatabaseAdapter {
   private db: sqlite3.Database | null = null;
   private dbPath: string;
+  private migrationRun: Promise<SchemaMigration[]> | null = null;
 
   constructor() {
     this.dbPath = appConfig.database.sqlitePath || path.join(process.cwd(), 'data', 'warranty.db');
@@ -32,74 +127,171 @@ export class SQLiteAdapter implements DatabaseAdapter {
   }
 
   private async initializeDatabase(): Promise<sqlite3.Database> {
-    return new Promise((resolve, reject) => {
-      if (this.db) {
-        resolve(this.db);
-        return;
-      }
+    // Pending migrations are applied once per process, before any other statement runs
+    await this.ensureMigrated();
+    return this.db!;
+  }
 
-      this.db = new sqlite3.Database(this.dbPath, (err) => {
-        if (err) {
-          reject(err);
-          return;
+  private async openDatabase(): Promise<sqlite3.Database> {
+    if (!this.db) {
+      this.db = await openConnection(this.dbPath);
+    }
+    return this.db;
+  }
+
+  private ensureMigrated(): Promise<SchemaMigration[]> {
+    if (!this.migrationRun) {
+      this.migrationRun = this.openDatabase().then(db => this.migrate(db));
+      // Let the next call retry, e.g. after the database file is made writable
+      this.migrationRun.catch(() => {
+        this.migrationRun = null;
+      });
+    }
+    return this.migrationRun;
+  }
+
+  /**
+   * Applies pending migrations one transaction at a time. BEGIN IMMEDIATE takes the
+   * database write lock, so concurrent processes apply each version only once.
+   */
+  private async migrate(db: sqlite3.Database): Promise<SchemaMigration[]> {
+    await execStatement(db, `
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at INTEGER NOT NULL
+      );
+    `);
+
+    const applied: SchemaMigration[] = [];
+    for (;;) {
+      await execStatement(db, 'BEGIN IMMEDIATE;');
+      try {
+        const appliedRows = await queryRows<SchemaMigrationRow>(db, 'SELECT * FROM schema_migrations');
+        const migration = getPendingMigrations('sqlite', appliedRows)[0];
+        if (!migration) {
+          await execStatement(db, 'COMMIT;');
+          return applied;
         }
 
-        // Initialize schema
-        const createTableSQL = `
-          CREATE TABLE IF NOT EXISTS devices (
-            id TEXT PRIMARY KEY,
-            serial_number TEXT UNIQUE NOT NULL,
-            manufacturer TEXT NOT NULL,
-            model TEXT,
-            hostname TEXT,
-            client_id TEXT,
-            client_name TEXT,
-            device_class TEXT,
-            source_platform TEXT,
-            source_device_id TEXT,
-            
-            warranty_start_date DATE,
-            warranty_end_date DATE,
-            warranty_fetched_at INTEGER,
-            warranty_written_back_at INTEGER,
-            
-            created_at INTEGER DEFAULT (unixepoch('now')),
-            updated_at INTEGER DEFAULT (unixepoch('now'))
-          );
-        `;
-
-        const createIndexesSQL = [
-          'CREATE INDEX IF NOT EXISTS idx_devices_serial ON devices(serial_number);',
-          'CREATE INDEX IF NOT EXISTS idx_devices_platform ON devices(source_platform);',
-          'CREATE INDEX IF NOT EXISTS idx_devices_warranty_fetched ON devices(warranty_fetched_at);',
-          'CREATE INDEX IF NOT EXISTS idx_devices_client_name ON devices(client_name);'
-        ];
-
-        this.db!.serialize(() => {
-          this.db!.run(createTableSQL, (err) => {
-            if (err) {
-              reject(err);
-              return;
+        logger.info(`Applying schema migration ${migration.version} (${migration.name})`, 'database');
+        for (const statementSQL of migration.statements) {
+          try {
+            await execStatement(db, statementSQL);
+          } catch (err) {
+            // Databases created before migrations were tracked may already have the column
+            const isAddColumn = /^\s*ALTER TABLE\s+\S+\s+ADD COLUMN/i.test(statementSQL);
+            if (!(isAddColumn && err instanceof Error && err.message.includes('duplicate column name'))) {
+              throw err;
             }
-
-            // Create indexes
-            let indexCount = 0;
-            createIndexesSQL.forEach((indexSQL) => {
-              this.db!.run(indexSQL, (err) => {
-                if (err) {
-                  reject(err);
-                  return;
-                }
-                indexCount++;
-                if (indexCount === createIndexesSQL.length) {
-                  resolve(this.db!);
-                }
-              });
-            });
-          });
+          }
+        }
+        await execStatement(
+          db,
+          "INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, unixepoch('now'))",
+          [migration.version, migration.name]
+        );
+        await execStatement(db, 'COMMIT;');
+        applied.push({ version: migration.version, name: migration.name, appliedAt: Math.floor(Date.now() / 1000) });
+      } catch (error) {
+        await execStatement(db, 'ROLLBACK;').catch(() => undefined);
+        logger.error(`Schema migration failed: ${error}`, 'database', {
+          error: error instanceof Error ? error.message : String(error)
         });
+        throw error;
+      }
+    }
+  }
+
+  async getSchemaMigrations(): Promise<SchemaMigration[]> {
+    // Reads the recorded versions without applying anything, so pending migrations can be listed
+    const db = await this.openDatabase();
+    const tables = await queryRows(db, "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'");
+    const appliedRows = tables.length > 0
+      ? await queryRows<SchemaMigrationRow>(db, 'SELECT * FROM schema_migrations')
+      : [];
+    return getSchemaMigrationStatus('sqlite', appliedRows);
+  }
+
+  async applyPendingMigrations(): Promise<SchemaMigration[]> {
+    return this.ensureMigrated();
+  }
+
+  async createBackup(userId?: string): Promise<DatabaseBackup> {
+    if (userId) {
+      logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
+    }
+
+    const db = await this.initializeDatabase();
+    const snapshotPath = `${this.dbPath}.backup-${crypto.randomUUID()}`;
+
+    try {
+      // VACUUM INTO copies the live database as of one point in time, without blocking readers
+      await execStatement(db, 'VACUUM INTO ?', [snapshotPath]);
+      return {
+        fileName: getBackupFileName('db'),
+        contentType: 'application/vnd.sqlite3',
+        data: await fs.promises.readFile(snapshotPath)
+      };
+    } finally {
+      await fs.promises.rm(snapshotPath, { force: true });
+    }
+  }
+
+  /**
+   * Replaces the database file with the backup. The backup is checked on a copy
+   * first, so an invalid upload leaves the current database untouched.
+   */
+  async restoreBackup(data: Buffer, userId?: string): Promise<void> {
+    if (userId) {
+      logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
+    }
+
+    const restorePath = `${this.dbPath}.restore-${crypto.randomUUID()}`;
+    await fs.promises.writeFile(restorePath, data);
+
+    try {
+      const backupDb = await openConnection(restorePath).catch(() => {
+        throw new Error('Backup is not a SQLite database');
       });
-    });
+      try {
+        const tables = await queryRows<{ name: string }>(backupDb, "SELECT name FROM sqlite_master WHERE type = 'table'")
+          .catch(() => {
+            throw new Error('Backup is not a SQLite database');
+          });
+        const tableNames = new Set(tables.map(table => table.name));
+        if (!tableNames.has('devices')) {
+          throw new Error('Backup is not a Warranty Watcher database');
+        }
+
+        // Backups from before migrations were tracked have no schema_migrations table (version 0)
+        const appliedRows = tableNames.has('schema_migrations')
+          ? await queryRows<SchemaMigrationRow>(backupDb, 'SELECT * FROM schema_migrations')
+          : [];
+        validateBackupSchemaVersion('sqlite', Math.max(0, ...appliedRows.map(row => Number(row.version))));
+
+        const integrity = await queryRows<{ integrity_check: string }>(backupDb, 'PRAGMA integrity_check');
+        if (integrity[0]?.integrity_check !== 'ok') {
+          throw new Error('Backup database is corrupt');
+        }
+      } finally {
+        await closeConnection(backupDb);
+      }
+
+      // Swap the file while no connection is open; the next query migrates it to the current schema
+      await this.close();
+      await fs.promises.rename(restorePath, this.dbPath);
+    } finally {
+      await fs.promises.rm(restorePath, { force: true });
+    }
+
+    await this.ensureMigrated();
+
+    // Jobs and schedule runs the backup caught mid-way are recovered like after a restart
+    const now = Math.floor(Date.now() / 1000);
+    await this.requeueStaleJobs(now);
+    await this.failInterruptedScheduleRuns(now);
+    logger.info('Restored database from backup', 'database');
   }
 
   // mapRowToDevice function is now imported from adapter.ts
@@ -108,10 +300,9 @@ export class SQLiteAdapter implements DatabaseAdapter {
     query: string,
     params: unknown[] = []
   ): Promise<T[]> {
-    return new Promise(async (resolve, reject) => {
-      await this.initializeDatabase();
-      
-      this.db!.all(query, params, (err: Error | null, rows: unknown) => {
+    const db = await this.initializeDatabase();
+    return new Promise((resolve, reject) => {
+      db.all(query, params, (err: Error | null, rows: unknown) => {
         if (err) {
           reject(err);
           return;
@@ -125,10 +316,9 @@ export class SQLiteAdapter implements DatabaseAdapter {
     query: string,
     params: unknown[] = []
   ): Promise<{ changes: number; lastID: number }> {
-    return new Promise(async (resolve, reject) => {
-      await this.initializeDatabase();
-      
-      this.db!.run(query, params, function(this: { changes: number; lastID: number }, err: Error | null) {
+    const db = await this.initializeDatabase();
+    return new Promise((resolve, reject) => {
+      db.run(query, params, function(this: { changes: number; lastID: number }, err: Error | null) {
         if (err) {
           reject(err);
           return;
@@ -149,29 +339,13 @@ export class SQLiteAdapter implements DatabaseAdapter {
       throw new Error(`Device missing required fields: serialNumber='${device.serialNumber}', manufacturer='${device.manufacturer}'`);
     }
 
-    // Check if device already exists by serial number
-    const existingDevice = await this.getDeviceBySerial(device.serialNumber);
+    // Check if device already exists by serial number, including devices in the trash
+    const existingRows = await this.runQuery<DeviceRow>('SELECT * FROM devices WHERE serial_number = ?', [device.serialNumber]);
+    const existingDevice = existingRows.length > 0 ? mapRowToDevice(existingRows[0]) : null;
     
     if (existingDevice) {
       // Device exists - perform intelligent merge
-      const mergedDevice: Device = {
-        ...device, // Start with incoming device data
-        id: existingDevice.id, // Keep existing database ID
-        // Preserve existing warranty data if it exists and incoming doesn't have it
-        warrantyStartDate: device.warrantyStartDate || existingDevice.warrantyStartDate,
-        warrantyEndDate: device.warrantyEndDate || existingDevice.warrantyEndDate,
-        warrantyFetchedAt: device.warrantyFetchedAt || existingDevice.warrantyFetchedAt,
-        warrantyWrittenBackAt: device.warrantyWrittenBackAt || existingDevice.warrantyWrittenBackAt,
-        // Update other fields from incoming data, but fall back to existing if not provided
-        model: device.model || existingDevice.model,
-        hostname: device.hostname || existingDevice.hostname,
-        clientId: device.clientId || existingDevice.clientId,
-        clientName: device.clientName || existingDevice.clientName,
-        deviceClass: device.deviceClass || existingDevice.deviceClass,
-        // Always update source information if provided (device might be found in multiple platforms)
-        sourcePlatform: device.sourcePlatform || existingDevice.sourcePlatform,
-        sourceDeviceId: device.sourceDeviceId || existingDevice.sourceDeviceId,
-      };
+      const mergedDevice = mergeImportedDevice(existingDevice, device);
       
       // Perform UPDATE operation
       const updateQuery = `
@@ -188,27 +362,28 @@ export class SQLiteAdapter implements DatabaseAdapter {
             warranty_end_date = ?, 
             warranty_fetched_at = ?, 
             warranty_written_back_at = ?,
+            total_memory = ?,
+            total_cpu_cores = ?,
+            network_interfaces = ?,
+            deleted_at = NULL,
             updated_at = unixepoch('now')
         WHERE serial_number = ?
       `;
       
       const updateParams = [
-        mergedDevice.manufacturer,
-        mergedDevice.model || null,
-        mergedDevice.hostname || null,
-        mergedDevice.clientId || null,
-        mergedDevice.clientName || null,
-        mergedDevice.deviceClass || null,
-        mergedDevice.sourcePlatform || null,
-        mergedDevice.sourceDeviceId || null,
-        mergedDevice.warrantyStartDate || null,
-        mergedDevice.warrantyEndDate || null,
-        mergedDevice.warrantyFetchedAt || null,
-        mergedDevice.warrantyWrittenBackAt || null,
+        ...toImportedDeviceValues(mergedDevice),
         device.serialNumber
       ];
       
       await this.runStatement(updateQuery, updateParams);
+      if (device.warrantyStartDate || device.warrantyEndDate) {
+        await this.recordWarrantyHistory(
+          existingDevice.id!,
+          { startDate: mergedDevice.warrantyStartDate, endDate: mergedDevice.warrantyEndDate },
+          getImportHistorySource(device)
+        );
+      }
+      await this.linkDeviceSource(existingDevice.id!, device);
       logger.debug(`Updated existing device: ${device.serialNumber}`, 'database', {
         serialNumber: device.serialNumber,
         manufacturer: device.manufacturer
@@ -221,28 +396,27 @@ export class SQLiteAdapter implements DatabaseAdapter {
           client_id, client_name, device_class, source_platform, source_device_id,
           warranty_start_date, warranty_end_date, 
           warranty_fetched_at, warranty_written_back_at, 
+          total_memory, total_cpu_cores, network_interfaces,
           created_at, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, unixepoch('now'), unixepoch('now'))
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, unixepoch('now'), unixepoch('now'))
       `;
       
+      const deviceId = device.id || crypto.randomUUID();
       const insertParams = [
-        device.id || crypto.randomUUID(),
+        deviceId,
         device.serialNumber,
-        device.manufacturer,
-        device.model || null,
-        device.hostname || null,
-        device.clientId || null,
-        device.clientName || null,
-        device.deviceClass || null,
-        device.sourcePlatform || null,
-        device.sourceDeviceId || null,
-        device.warrantyStartDate || null,
-        device.warrantyEndDate || null,
-        device.warrantyFetchedAt || null,
-        device.warrantyWrittenBackAt || null
+        ...toImportedDeviceValues(device)
       ];
       
       await this.runStatement(insertQuery, insertParams);
+      if (device.warrantyStartDate || device.warrantyEndDate) {
+        await this.recordWarrantyHistory(
+          deviceId,
+          { startDate: device.warrantyStartDate, endDate: device.warrantyEndDate },
+          getImportHistorySource(device)
+        );
+      }
+      await this.linkDeviceSource(deviceId, device);
       logger.debug(`Inserted new device: ${device.serialNumber}`, 'database', {
         serialNumber: device.serialNumber,
         manufacturer: device.manufacturer
@@ -250,24 +424,194 @@ export class SQLiteAdapter implements DatabaseAdapter {
     }
   }
 
+  async bulkUpsertDevices(devices: Device[], userId?: string): Promise<DeviceUpsertResult[]> {
+    // userId is ignored in self-hosted mode
+    if (userId) {
+      logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
+    }
+
+    return this.runInTransaction(async (db) => {
+      const serialNumbers = Array.from(new Set(devices.map(device => device.serialNumber).filter(Boolean)));
+      const existingBySerial = new Map<string, Device>();
+      for (let i = 0; i < serialNumbers.length; i += BULK_CHUNK_SIZE) {
+        const chunk = serialNumbers.slice(i, i + BULK_CHUNK_SIZE);
+        const rows = await queryRows<DeviceRow>(
+          db,
+          `SELECT * FROM devices WHERE serial_number IN (${chunk.map(() => '?').join(', ')})`,
+          chunk
+        );
+        rows.forEach(row => existingBySerial.set(row.serial_number, mapRowToDevice(row)));
+      }
+
+      const plan = planDeviceUpserts(devices, existingBySerial);
+      const devicePlaceholders = `(?, ?, ${IMPORTED_DEVICE_COLUMNS.map(() => '?').join(', ')}, unixepoch('now'), unixepoch('now'))`;
+
+      for (let i = 0; i < plan.devices.length; i += BULK_CHUNK_SIZE) {
+        const chunk = plan.devices.slice(i, i + BULK_CHUNK_SIZE);
+        await execStatement(db, `
+          INSERT INTO devices (id, serial_number, ${IMPORTED_DEVICE_COLUMNS.join(', ')}, created_at, updated_at)
+          VALUES ${chunk.map(() => devicePlaceholders).join(', ')}
+          ON CONFLICT (serial_number) DO UPDATE SET
+            ${IMPORTED_DEVICE_COLUMNS.map(column => `${column} = excluded.${column}`).join(', ')},
+            deleted_at = NULL,
+            updated_at = excluded.updated_at
+        `, chunk.flatMap(device => [device.id, device.serialNumber, ...toImportedDeviceValues(device)]));
+      }
+
+      for (let i = 0; i < plan.warrantyHistory.length; i += BULK_CHUNK_SIZE) {
+        const chunk = plan.warrantyHistory.slice(i, i + BULK_CHUNK_SIZE);
+        await execStatement(db, `
+          INSERT INTO warranty_history (device_id, start_date, end_date, source, recorded_at)
+          VALUES ${chunk.map(() => "(?, ?, ?, ?, unixepoch('now'))").join(', ')}
+        `, chunk.flatMap(entry => [entry.deviceId, entry.startDate || null, entry.endDate || null, entry.source]));
+      }
+
+      // Same conflict handling as linkDeviceSource
+      for (let i = 0; i < plan.sourceLinks.length; i += BULK_CHUNK_SIZE) {
+        const chunk = plan.sourceLinks.slice(i, i + BULK_CHUNK_SIZE);
+        await execStatement(db, `
+          INSERT INTO device_sources (
+            device_id, platform, source_device_id, client_name, first_seen_at, last_seen_at
+          ) VALUES ${chunk.map(() => "(?, ?, ?, ?, unixepoch('now'), unixepoch('now'))").join(', ')}
+          ON CONFLICT (platform, source_device_id) DO UPDATE SET
+            client_name = COALESCE(excluded.client_name, device_sources.client_name),
+            last_seen_at = excluded.last_seen_at,
+            warranty_written_back_at = CASE WHEN device_sources.device_id = excluded.device_id
+                                            THEN device_sources.warranty_written_back_at END,
+            device_id = excluded.device_id
+        `, chunk.flatMap(link => [link.deviceId, link.source.platform, link.source.sourceDeviceId, link.clientName || null]));
+      }
+
+      return plan.results;
+    });
+  }
+
+  async importDeviceSources(devices: Device[], userId?: string): Promise<void> {
+    if (userId) {
+      logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
+    }
+
+    await this.runInTransaction(async (db) => {
+      for (const device of devices) {
+        for (const source of device.sources || []) {
+          await execStatement(db, `
+            INSERT INTO device_sources (
+              device_id, platform, source_device_id, client_name,
+              first_seen_at, last_seen_at, warranty_written_back_at
+            )
+            SELECT id, ?, ?, ?, ?, ?, ? FROM devices WHERE serial_number = ?
+            ON CONFLICT (platform, source_device_id) DO UPDATE SET
+              client_name = COALESCE(excluded.client_name, device_sources.client_name),
+              first_seen_at = MIN(device_sources.first_seen_at, excluded.first_seen_at),
+              last_seen_at = MAX(device_sources.last_seen_at, excluded.last_seen_at),
+              warranty_written_back_at = CASE WHEN device_sources.device_id = excluded.device_id
+                                              THEN COALESCE(excluded.warranty_written_back_at, device_sources.warranty_written_back_at)
+                                              ELSE excluded.warranty_written_back_at END,
+              device_id = excluded.device_id
+          `, [
+            source.platform,
+            source.sourceDeviceId,
+            source.clientName || null,
+            source.firstSeenAt,
+            source.lastSeenAt,
+            source.warrantyWrittenBackAt || null,
+            device.serialNumber
+          ]);
+        }
+      }
+    });
+  }
+
+  /**
+   * Runs work in one write transaction on a connection of its own, so statements
+   * other callers issue on the shared connection meanwhile stay out of it
+   */
+  private async runInTransaction<T>(work: (db: sqlite3.Database) => Promise<T>): Promise<T> {
+    await this.ensureMigrated();
+    const db = await openConnection(this.dbPath);
+
+    try {
+      await execStatement(db, 'BEGIN IMMEDIATE;');
+      try {
+        const result = await work(db);
+        await execStatement(db, 'COMMIT;');
+        return result;
+      } catch (error) {
+        await execStatement(db, 'ROLLBACK;').catch(() => undefined);
+        throw error;
+      }
+    } finally {
+      await closeConnection(db);
+    }
+  }
+
+  /**
+   * Links the platform record an imported device came from. A record that now
+   * reports a different serial number moves to that device.
+   */
+  private async linkDeviceSource(deviceId: string, device: Device): Promise<void> {
+    const source = getImportSourceRef(device);
+    if (!source) {
+      return;
+    }
+
+    await this.runStatement(`
+      INSERT INTO device_sources (
+        device_id, platform, source_device_id, client_name, first_seen_at, last_seen_at
+      ) VALUES (?, ?, ?, ?, unixepoch('now'), unixepoch('now'))
+      ON CONFLICT (platform, source_device_id) DO UPDATE SET
+        client_name = COALESCE(excluded.client_name, device_sources.client_name),
+        last_seen_at = excluded.last_seen_at,
+        warranty_written_back_at = CASE WHEN device_sources.device_id = excluded.device_id
+                                        THEN device_sources.warranty_written_back_at END,
+        device_id = excluded.device_id
+    `, [deviceId, source.platform, source.sourceDeviceId, device.clientName || null]);
+  }
+
+  // Source records of the devices matching a condition on devices (aliased d)
+  private async getDeviceSourceRows(condition: string, params: unknown[] = []): Promise<DeviceSourceRow[]> {
+    return this.runQuery<DeviceSourceRow>(`
+      SELECT s.*
+      FROM device_sources s
+      JOIN devices d ON d.id = s.device_id
+      WHERE ${condition}
+      ORDER BY s.last_seen_at DESC
+    `, params);
+  }
+
   async getDeviceBySerial(serialNumber: string, userId?: string): Promise<Device | null> {
     if (userId) {
       logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
     }
     
-    const query = 'SELECT * FROM devices WHERE serial_number = ?';
+    const query = 'SELECT * FROM devices WHERE serial_number = ? AND deleted_at IS NULL';
     const rows = await this.runQuery<DeviceRow>(query, [serialNumber]);
     return rows.length > 0 ? mapRowToDevice(rows[0]) : null;
   }
 
+  async getDeviceById(deviceId: string, userId?: string): Promise<Device | null> {
+    if (userId) {
+      logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
+    }
+
+    const query = 'SELECT * FROM devices WHERE id = ? AND deleted_at IS NULL';
+    const rows = await this.runQuery<DeviceRow>(query, [deviceId]);
+    if (rows.length === 0) {
+      return null;
+    }
+    const sourceRows = await this.getDeviceSourceRows('d.id = ?', [deviceId]);
+    return withDeviceSources([mapRowToDevice(rows[0])], sourceRows)[0];
+  }
+
   async getAllDevices(userId?: string): Promise<Device[]> {
     if (userId) {
       logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
     }
     
-    const query = 'SELECT * FROM devices ORDER BY updated_at DESC';
+    const query = 'SELECT * FROM devices WHERE deleted_at IS NULL ORDER BY updated_at DESC';
     const rows = await this.runQuery<DeviceRow>(query);
-    return rows.map(row => mapRowToDevice(row));
+    const sourceRows = await this.getDeviceSourceRows('d.deleted_at IS NULL');
+    return withDeviceSources(rows.map(row => mapRowToDevice(row)), sourceRows);
   }
 
   async getDevicesByPlatform(platform: string, userId?: string): Promise<Device[]> {
@@ -275,9 +619,121 @@ export class SQLiteAdapter implements DatabaseAdapter {
       logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
     }
     
-    const query = 'SELECT * FROM devices WHERE source_platform = ? ORDER BY updated_at DESC';
-    const rows = await this.runQuery<DeviceRow>(query, [platform]);
-    return rows.map(row => mapRowToDevice(row));
+    // Devices last imported from the platform, or linked to a record in it
+    const condition = `d.deleted_at IS NULL AND (d.source_platform = ? OR EXISTS (
+      SELECT 1 FROM device_sources ps WHERE ps.device_id = d.id AND ps.platform = ?
+    ))`;
+    const query = `SELECT * FROM devices d WHERE ${condition} ORDER BY updated_at DESC`;
+    const rows = await this.runQuery<DeviceRow>(query, [platform, platform]);
+    const sourceRows = await this.getDeviceSourceRows(condition, [platform, platform]);
+    return withDeviceSources(rows.map(row => mapRowToDevice(row)), sourceRows);
+  }
+
+  async queryDevices(query: DeviceQuery, userId?: string): Promise<DeviceQueryResult> {
+    if (userId) {
+      logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
+    }
+
+    const filter = query.filter || {};
+    const sort = query.sort || DEFAULT_DEVICE_SORT;
+    const limit = getDevicePageSize(query.limit);
+    const column = DEVICE_SORT_COLUMNS[sort.field];
+    // Missing values sort first ascending, so they can still be compared against a cursor
+    const sortExpression = sort.field === 'warrantyFetchedAt' ? `COALESCE(${column}, 0)` : `COALESCE(${column}, '')`;
+
+    const conditions: string[] = ['deleted_at IS NULL'];
+    const params: unknown[] = [];
+
+    if (filter.search) {
+      const searchColumns = ['hostname', 'serial_number', 'client_name', 'manufacturer', 'model'];
+      conditions.push(`(${searchColumns.map(name => `${name} LIKE ? ESCAPE '\\'`).join(' OR ')})`);
+      params.push(...searchColumns.map(() => `%${escapeLikePattern(filter.search!)}%`));
+    }
+    // Matches inferWarrantyStatus, which treats a warranty as expired on its end date
+    if (filter.status === 'active') {
+      conditions.push(`warranty_end_date > date('now')`);
+    } else if (filter.status === 'expired') {
+      conditions.push(`warranty_end_date <= date('now') AND warranty_end_date != ''`);
+    } else if (filter.status === 'unknown') {
+      conditions.push(`(warranty_end_date IS NULL OR warranty_end_date = '')`);
+    }
+    if (filter.clientName) {
+      conditions.push('client_name = ?');
+      params.push(filter.clientName);
+    }
+    if (filter.manufacturer) {
+      conditions.push('manufacturer = ?');
+      params.push(filter.manufacturer);
+    }
+    if (filter.sourcePlatform) {
+      conditions.push(`(source_platform = ? OR EXISTS (
+        SELECT 1 FROM device_sources ps WHERE ps.device_id = devices.id AND ps.platform = ?
+      ))`);
+      params.push(filter.sourcePlatform, filter.sourcePlatform);
+    }
+    if (filter.expiresWithinDays) {
+      conditions.push(`warranty_end_date > date('now') AND warranty_end_date <= date('now', ?)`);
+      params.push(`+${filter.expiresWithinDays} days`);
+    }
+    if (filter.lookupStatus === 'failed') {
+      conditions.push(`warranty_lookup_status IS NOT NULL AND warranty_lookup_status != 'success'`);
+    } else if (filter.lookupStatus === 'never') {
+      conditions.push('warranty_lookup_status IS NULL');
+    } else if (filter.lookupStatus) {
+      conditions.push('warranty_lookup_status = ?');
+      params.push(filter.lookupStatus);
+    }
+
+    const countRows = await this.runQuery<{ count: number }>(
+      `SELECT COUNT(*) AS count FROM devices WHERE ${conditions.join(' AND ')}`,
+      params
+    );
+
+    const pageConditions = [...conditions];
+    const pageParams = [...params];
+    if (query.cursor) {
+      const cursor = decodeDeviceCursor(query.cursor);
+      if (!cursor) {
+        throw new Error('Invalid device cursor');
+      }
+      const comparison = sort.direction === 'asc' ? '>' : '<';
+      pageConditions.push(`(${sortExpression} ${comparison} ? OR (${sortExpression} = ? AND id ${comparison} ?))`);
+      pageParams.push(cursor.value, cursor.value, cursor.id);
+    }
+
+    const direction = sort.direction === 'asc' ? 'ASC' : 'DESC';
+    const pageQuery = `
+      SELECT *, ${sortExpression} AS sort_value
+      FROM devices
+      WHERE ${pageConditions.join(' AND ')}
+      ORDER BY sort_value ${direction}, id ${direction}
+      LIMIT ?
+    `;
+    // One extra row tells us whether there is a next page
+    const rows = await this.runQuery<DeviceQueryRow>(pageQuery, [...pageParams, limit + 1]);
+
+    const deviceIds = rows.slice(0, limit).map(row => row.id);
+    const entitlementRows = deviceIds.length > 0
+      ? await this.runQuery<EntitlementRow>(`
+          SELECT d.serial_number, e.service_level_code, e.description, e.start_date, e.end_date, e.provider
+          FROM device_entitlements e
+          JOIN devices d ON d.id = e.device_id
+          WHERE e.device_id IN (${deviceIds.map(() => '?').join(', ')})
+          ORDER BY d.serial_number, e.end_date DESC
+        `, deviceIds)
+      : [];
+
+    const sourceRows = deviceIds.length > 0
+      ? await this.getDeviceSourceRows(`d.id IN (${deviceIds.map(() => '?').join(', ')})`, deviceIds)
+      : [];
+
+    return toDeviceQueryResult(
+      rows,
+      limit,
+      countRows[0]?.count || 0,
+      groupEntitlementsBySerial(entitlementRows),
+      groupSourcesByDeviceId(sourceRows)
+    );
   }
 
   async deleteDeviceById(deviceId: string, userId?: string): Promise<void> {
@@ -285,8 +741,110 @@ export class SQLiteAdapter implements DatabaseAdapter {
       logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
     }
     
-    const query = `DELETE FROM devices WHERE id = ?`;
-    await this.runStatement(query, [deviceId]);
+    await this.deleteDevices({ deviceIds: [deviceId] });
+  }
+
+  async deleteDevices(filter: DeviceDeleteFilter, userId?: string): Promise<number> {
+    if (userId) {
+      logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
+    }
+
+    const conditions: string[] = ['deleted_at IS NULL'];
+    const params: unknown[] = [];
+    if (filter.clientName) {
+      conditions.push('client_name = ?');
+      params.push(filter.clientName);
+    }
+    if (filter.platform) {
+      conditions.push(`(source_platform = ? OR EXISTS (
+        SELECT 1 FROM device_sources ps WHERE ps.device_id = devices.id AND ps.platform = ?
+      ))`);
+      params.push(filter.platform, filter.platform);
+    }
+    if (filter.deviceIds) {
+      if (filter.deviceIds.length === 0) {
+        return 0;
+      }
+      conditions.push(`id IN (${filter.deviceIds.map(() => '?').join(', ')})`);
+      params.push(...filter.deviceIds);
+    }
+
+    const query = `UPDATE devices SET deleted_at = unixepoch('now') WHERE ${conditions.join(' AND ')}`;
+    const result = await this.runStatement(query, params);
+    return result.changes;
+  }
+
+  async getDeletedDevices(userId?: string): Promise<Device[]> {
+    if (userId) {
+      logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
+    }
+
+    const query = 'SELECT * FROM devices WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC';
+    const rows = await this.runQuery<DeviceRow>(query);
+    return rows.map(row => mapRowToDevice(row));
+  }
+
+  async restoreDevices(deviceIds: string[], userId?: string): Promise<number> {
+    if (userId) {
+      logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
+    }
+    if (deviceIds.length === 0) {
+      return 0;
+    }
+
+    const query = `
+      UPDATE devices
+      SET deleted_at = NULL
+      WHERE deleted_at IS NOT NULL AND id IN (${deviceIds.map(() => '?').join(', ')})
+    `;
+    const result = await this.runStatement(query, deviceIds);
+    return result.changes;
+  }
+
+  async updateDeviceDetails(deviceId: string, details: DeviceDetailsUpdate, userId?: string): Promise<Device | null> {
+    if (userId) {
+      logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
+    }
+
+    const existingDevice = await this.getDeviceById(deviceId);
+    if (!existingDevice) {
+      return null;
+    }
+
+    const query = `
+      UPDATE devices
+      SET hostname = ?,
+          model = ?,
+          client_name = ?,
+          device_class = ?,
+          warranty_start_date = ?,
+          warranty_end_date = ?,
+          updated_at = unixepoch('now')
+      WHERE id = ?
+    `;
+
+    await this.runStatement(query, [
+      details.hostname || null,
+      details.model || null,
+      details.clientName || null,
+      details.deviceClass || null,
+      details.warrantyStartDate || null,
+      details.warrantyEndDate || null,
+      deviceId
+    ]);
+
+    if (
+      (details.warrantyStartDate || undefined) !== existingDevice.warrantyStartDate ||
+      (details.warrantyEndDate || undefined) !== existingDevice.warrantyEndDate
+    ) {
+      await this.recordWarrantyHistory(
+        deviceId,
+        { startDate: details.warrantyStartDate, endDate: details.warrantyEndDate },
+        'manual'
+      );
+    }
+
+    return this.getDeviceById(deviceId);
   }
 
   async updateDeviceWarranty(
@@ -303,14 +861,46 @@ export class SQLiteAdapter implements DatabaseAdapter {
       SET warranty_start_date = ?, 
           warranty_end_date = ?, 
           warranty_fetched_at = unixepoch('now'),
+          warranty_lookup_attempted_at = unixepoch('now'),
+          warranty_lookup_status = 'success',
+          warranty_lookup_error = NULL,
+          warranty_lookup_attempts = COALESCE(warranty_lookup_attempts, 0) + 1,
           updated_at = unixepoch('now')
       WHERE serial_number = ?
     `;
     
     await this.runStatement(query, [warranty.startDate, warranty.endDate, serialNumber]);
+
+    const device = await this.getDeviceBySerial(serialNumber);
+    if (device?.id) {
+      await this.recordWarrantyHistory(device.id, warranty, 'manufacturer_api');
+    }
   }
 
-  async markWarrantyWrittenBack(serialNumber: string, userId?: string): Promise<void> {
+  async recordWarrantyLookupFailure(
+    serialNumber: string,
+    status: WarrantyLookupStatus,
+    error: string,
+    userId?: string
+  ): Promise<void> {
+    if (userId) {
+      logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
+    }
+
+    const query = `
+      UPDATE devices
+      SET warranty_lookup_attempted_at = unixepoch('now'),
+          warranty_lookup_status = ?,
+          warranty_lookup_error = ?,
+          warranty_lookup_attempts = COALESCE(warranty_lookup_attempts, 0) + 1,
+          updated_at = unixepoch('now')
+      WHERE serial_number = ?
+    `;
+
+    await this.runStatement(query, [status, error, serialNumber]);
+  }
+
+  async markWarrantyWrittenBack(serialNumber: string, source?: DeviceSourceRef, userId?: string): Promise<void> {
     if (userId) {
       logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
     }
@@ -323,6 +913,441 @@ export class SQLiteAdapter implements DatabaseAdapter {
     `;
     
     await this.runStatement(query, [serialNumber]);
+
+    if (source) {
+      await this.runStatement(`
+        UPDATE device_sources
+        SET warranty_written_back_at = unixepoch('now')
+        WHERE platform = ? AND source_device_id = ?
+          AND device_id = (SELECT id FROM devices WHERE serial_number = ?)
+      `, [source.platform, source.sourceDeviceId, serialNumber]);
+    }
+  }
+
+  async replaceDeviceEntitlements(
+    serialNumber: string,
+    entitlements: WarrantyEntitlement[],
+    userId?: string
+  ): Promise<void> {
+    if (userId) {
+      logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
+    }
+
+    const device = await this.getDeviceBySerial(serialNumber);
+    if (!device?.id) {
+      throw new Error(`Device not found: ${serialNumber}`);
+    }
+
+    const deviceId = device.id;
+
+    // Delete and re-insert together so readers never see the device without entitlements
+    await this.runInTransaction(async (db) => {
+      await execStatement(db, 'DELETE FROM device_entitlements WHERE device_id = ?', [deviceId]);
+
+      if (entitlements.length === 0) {
+        return;
+      }
+
+      const insertQuery = `
+        INSERT INTO device_entitlements (
+          device_id, service_level_code, description, start_date, end_date, provider
+        ) VALUES ${entitlements.map(() => '(?, ?, ?, ?, ?, ?)').join(', ')}
+      `;
+
+      const insertParams = entitlements.flatMap(entitlement => [
+        deviceId,
+        entitlement.serviceLevelCode || null,
+        entitlement.description,
+        entitlement.startDate || null,
+        entitlement.endDate || null,
+        entitlement.provider
+      ]);
+
+      await execStatement(db, insertQuery, insertParams);
+    });
+  }
+
+  async getDeviceEntitlements(serialNumber: string, userId?: string): Promise<WarrantyEntitlement[]> {
+    if (userId) {
+      logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
+    }
+
+    const query = `
+      SELECT d.serial_number, e.service_level_code, e.description, e.start_date, e.end_date, e.provider
+      FROM device_entitlements e
+      JOIN devices d ON d.id = e.device_id
+      WHERE d.serial_number = ?
+      ORDER BY e.end_date DESC
+    `;
+    const rows = await this.runQuery<EntitlementRow>(query, [serialNumber]);
+    return rows.map(row => mapRowToEntitlement(row));
+  }
+
+  async getAllDeviceEntitlements(userId?: string): Promise<Record<string, WarrantyEntitlement[]>> {
+    if (userId) {
+      logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
+    }
+
+    const query = `
+      SELECT d.serial_number, e.service_level_code, e.description, e.start_date, e.end_date, e.provider
+      FROM device_entitlements e
+      JOIN devices d ON d.id = e.device_id
+      WHERE d.deleted_at IS NULL
+      ORDER BY d.serial_number, e.end_date DESC
+    `;
+    const rows = await this.runQuery<EntitlementRow>(query);
+    return groupEntitlementsBySerial(rows);
+  }
+
+  /**
+   * Adds a history entry unless the device's latest entry already has the same dates
+   */
+  private async recordWarrantyHistory(
+    deviceId: string,
+    warranty: { startDate?: string; endDate?: string },
+    source: WarrantyHistorySource
+  ): Promise<void> {
+    const query = `
+      INSERT INTO warranty_history (device_id, start_date, end_date, source, recorded_at)
+      SELECT ?, ?, ?, ?, unixepoch('now')
+      WHERE NOT EXISTS (
+        SELECT 1 FROM (
+          SELECT start_date, end_date FROM warranty_history
+          WHERE device_id = ?
+          ORDER BY recorded_at DESC, id DESC
+          LIMIT 1
+        ) latest
+        WHERE latest.start_date IS ? AND latest.end_date IS ?
+      )
+    `;
+
+    const startDate = warranty.startDate || null;
+    const endDate = warranty.endDate || null;
+    await this.runStatement(query, [deviceId, startDate, endDate, source, deviceId, startDate, endDate]);
+  }
+
+  async getWarrantyHistory(serialNumber: string, userId?: string): Promise<WarrantyHistoryEntry[]> {
+    if (userId) {
+      logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
+    }
+
+    const query = `
+      SELECT h.start_date, h.end_date, h.source, h.recorded_at
+      FROM warranty_history h
+      JOIN devices d ON d.id = h.device_id
+      WHERE d.serial_number = ?
+      ORDER BY h.recorded_at DESC, h.id DESC
+    `;
+    const rows = await this.runQuery<WarrantyHistoryRow>(query, [serialNumber]);
+    return rows.map(row => mapRowToWarrantyHistoryEntry(row));
+  }
+
+  async createJob(
+    job: { type: JobType; params: WarrantyLookupJobParams; totalItems: number },
+    userId?: string
+  ): Promise<Job> {
+    if (userId) {
+      logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
+    }
+
+    const query = `
+      INSERT INTO jobs (id, type, status, params, total_items, failures, created_at, updated_at)
+      VALUES (?, ?, 'queued', ?, ?, '[]', unixepoch('now'), unixepoch('now'))
+      RETURNING *
+    `;
+    const rows = await this.runQuery<JobRow>(query, [
+      crypto.randomUUID(),
+      job.type,
+      JSON.stringify(job.params),
+      job.totalItems
+    ]);
+    return mapRowToJob(rows[0]);
+  }
+
+  async getJobById(jobId: string, userId?: string): Promise<Job | null> {
+    if (userId) {
+      logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
+    }
+
+    const rows = await this.runQuery<JobRow>('SELECT * FROM jobs WHERE id = ?', [jobId]);
+    return rows.length > 0 ? mapRowToJob(rows[0]) : null;
+  }
+
+  async getRecentJobs(limit: number, userId?: string): Promise<Job[]> {
+    if (userId) {
+      logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
+    }
+
+    const rows = await this.runQuery<JobRow>('SELECT * FROM jobs ORDER BY created_at DESC LIMIT ?', [limit]);
+    return rows.map(row => mapRowToJob(row));
+  }
+
+  async cancelJob(jobId: string, userId?: string): Promise<boolean> {
+    if (userId) {
+      logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
+    }
+
+    const query = `
+      UPDATE jobs
+      SET status = 'canceled',
+          params = json_remove(params, '$.manufacturerCredentials'),
+          finished_at = unixepoch('now'),
+          updated_at = unixepoch('now')
+      WHERE id = ? AND status IN ('queued', 'running')
+    `;
+    const result = await this.runStatement(query, [jobId]);
+    return result.changes > 0;
+  }
+
+  async claimNextQueuedJob(): Promise<Job | null> {
+    const query = `
+      UPDATE jobs
+      SET status = 'running',
+          started_at = COALESCE(started_at, unixepoch('now')),
+          updated_at = unixepoch('now')
+      WHERE id = (
+        SELECT id FROM jobs WHERE status = 'queued' ORDER BY created_at ASC LIMIT 1
+      )
+      RETURNING *
+    `;
+    const rows = await this.runQuery<JobRow>(query);
+    return rows.length > 0 ? mapRowToJob(rows[0]) : null;
+  }
+
+  async updateJobProgress(jobId: string, progress: JobProgress): Promise<void> {
+    const query = `
+      UPDATE jobs
+      SET processed_items = ?,
+          failed_items = ?,
+          failures = ?,
+          updated_at = unixepoch('now')
+      WHERE id = ?
+    `;
+    await this.runStatement(query, [
+      progress.processedItems,
+      progress.failedItems,
+      JSON.stringify(progress.failures),
+      jobId
+    ]);
+  }
+
+  async finishJob(jobId: string, status: 'completed' | 'failed', error?: string): Promise<void> {
+    // Only running jobs are finished, so a cancellation is never overwritten
+    const query = `
+      UPDATE jobs
+      SET status = ?,
+          error = ?,
+          params = json_remove(params, '$.manufacturerCredentials'),
+          finished_at = unixepoch('now'),
+          updated_at = unixepoch('now')
+      WHERE id = ? AND status = 'running'
+    `;
+    await this.runStatement(query, [status, error || null, jobId]);
+  }
+
+  async requeueStaleJobs(staleBefore: number): Promise<number> {
+    const query = `
+      UPDATE jobs
+      SET status = 'queued',
+          updated_at = unixepoch('now')
+      WHERE status = 'running' AND updated_at <= ?
+    `;
+    const result = await this.runStatement(query, [staleBefore]);
+    return result.changes;
+  }
+
+  async createSchedule(schedule: SyncScheduleInput, nextRunAt: number | null, userId?: string): Promise<SyncSchedule> {
+    if (userId) {
+      logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
+    }
+
+    const query = `
+      INSERT INTO sync_schedules (
+        id, name, platform, cron_expression, enabled, lookup_warranties, write_back,
+        credentials, next_run_at, created_at, updated_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, unixepoch('now'), unixepoch('now'))
+      RETURNING *
+    `;
+    const rows = await this.runQuery<SyncScheduleRow>(query, [
+      crypto.randomUUID(),
+      schedule.name,
+      schedule.platform,
+      schedule.cronExpression,
+      schedule.enabled ? 1 : 0,
+      schedule.lookupWarranties ? 1 : 0,
+      schedule.writeBack ? 1 : 0,
+      serializeScheduleCredentials(schedule.credentials),
+      nextRunAt
+    ]);
+    return mapRowToSyncSchedule(rows[0]);
+  }
+
+  async updateSchedule(
+    scheduleId: string,
+    schedule: SyncScheduleInput,
+    nextRunAt: number | null,
+    userId?: string
+  ): Promise<SyncSchedule | null> {
+    if (userId) {
+      logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
+    }
+
+    const query = `
+      UPDATE sync_schedules
+      SET name = ?,
+          platform = ?,
+          cron_expression = ?,
+          enabled = ?,
+          lookup_warranties = ?,
+          write_back = ?,
+          credentials = ?,
+          next_run_at = ?,
+          updated_at = unixepoch('now')
+      WHERE id = ?
+      RETURNING *
+    `;
+    const rows = await this.runQuery<SyncScheduleRow>(query, [
+      schedule.name,
+      schedule.platform,
+      schedule.cronExpression,
+      schedule.enabled ? 1 : 0,
+      schedule.lookupWarranties ? 1 : 0,
+      schedule.writeBack ? 1 : 0,
+      serializeScheduleCredentials(schedule.credentials),
+      nextRunAt,
+      scheduleId
+    ]);
+    return rows.length > 0 ? mapRowToSyncSchedule(rows[0]) : null;
+  }
+
+  async deleteSchedule(scheduleId: string, userId?: string): Promise<boolean> {
+    if (userId) {
+      logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
+    }
+
+    // Run history is removed with the schedule (ON DELETE CASCADE)
+    const result = await this.runStatement('DELETE FROM sync_schedules WHERE id = ?', [scheduleId]);
+    return result.changes > 0;
+  }
+
+  async getScheduleById(scheduleId: string, userId?: string): Promise<SyncSchedule | null> {
+    if (userId) {
+      logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
+    }
+
+    const rows = await this.runQuery<SyncScheduleRow>('SELECT * FROM sync_schedules WHERE id = ?', [scheduleId]);
+    return rows.length > 0 ? mapRowToSyncSchedule(rows[0]) : null;
+  }
+
+  async getSchedules(userId?: string): Promise<SyncSchedule[]> {
+    if (userId) {
+      logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
+    }
+
+    const rows = await this.runQuery<SyncScheduleRow>('SELECT * FROM sync_schedules ORDER BY name');
+    return rows.map(row => mapRowToSyncSchedule(row));
+  }
+
+  async getRecentScheduleRuns(limit: number, userId?: string): Promise<ScheduleRun[]> {
+    if (userId) {
+      logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
+    }
+
+    const query = `
+      SELECT r.*, s.name AS schedule_name
+      FROM schedule_runs r
+      JOIN sync_schedules s ON s.id = r.schedule_id
+      ORDER BY r.started_at DESC
+      LIMIT ?
+    `;
+    const rows = await this.runQuery<ScheduleRunRow>(query, [limit]);
+    return rows.map(row => mapRowToScheduleRun(row));
+  }
+
+  async getDueSchedules(now: number): Promise<SyncSchedule[]> {
+    const query = `
+      SELECT * FROM sync_schedules
+      WHERE enabled = 1 AND next_run_at IS NOT NULL AND next_run_at <= ?
+      ORDER BY next_run_at ASC
+    `;
+    const rows = await this.runQuery<SyncScheduleRow>(query, [now]);
+    return rows.map(row => mapRowToSyncSchedule(row));
+  }
+
+  async claimScheduleRun(scheduleId: string, expectedNextRunAt: number, nextRunAt: number | null): Promise<boolean> {
+    // Only succeeds if nobody else advanced next_run_at since the schedule was read
+    const query = `
+      UPDATE sync_schedules
+      SET next_run_at = ?,
+          last_run_at = unixepoch('now'),
+          last_run_status = 'running'
+      WHERE id = ? AND enabled = 1 AND next_run_at = ?
+    `;
+    const result = await this.runStatement(query, [nextRunAt, scheduleId, expectedNextRunAt]);
+    return result.changes > 0;
+  }
+
+  async createScheduleRun(schedule: SyncSchedule): Promise<ScheduleRun> {
+    const query = `
+      INSERT INTO schedule_runs (id, schedule_id, platform, status, started_at)
+      VALUES (?, ?, ?, 'running', unixepoch('now'))
+      RETURNING *
+    `;
+    const rows = await this.runQuery<ScheduleRunRow>(query, [crypto.randomUUID(), schedule.id, schedule.platform]);
+    return mapRowToScheduleRun({ ...rows[0], schedule_name: schedule.name });
+  }
+
+  async finishScheduleRun(
+    runId: string,
+    status: 'completed' | 'failed',
+    stats: ScheduleRunStats,
+    error?: string
+  ): Promise<void> {
+    const query = `
+      UPDATE schedule_runs
+      SET status = ?,
+          devices_imported = ?,
+          devices_looked_up = ?,
+          lookups_failed = ?,
+          devices_written_back = ?,
+          write_backs_failed = ?,
+          error = ?,
+          finished_at = unixepoch('now')
+      WHERE id = ?
+    `;
+    await this.runStatement(query, [
+      status,
+      stats.devicesImported,
+      stats.devicesLookedUp,
+      stats.lookupsFailed,
+      stats.devicesWrittenBack,
+      stats.writeBacksFailed,
+      error || null,
+      runId
+    ]);
+    await this.runStatement(
+      'UPDATE sync_schedules SET last_run_status = ? WHERE id = (SELECT schedule_id FROM schedule_runs WHERE id = ?)',
+      [status, runId]
+    );
+  }
+
+  async failInterruptedScheduleRuns(startedBefore: number): Promise<number> {
+    await this.runStatement(`
+      UPDATE sync_schedules
+      SET last_run_status = 'failed'
+      WHERE id IN (SELECT schedule_id FROM schedule_runs WHERE status = 'running' AND started_at <= ?)
+    `, [startedBefore]);
+
+    const query = `
+      UPDATE schedule_runs
+      SET status = 'failed',
+          error = 'Interrupted by a server restart',
+          finished_at = unixepoch('now')
+      WHERE status = 'running' AND started_at <= ?
+    `;
+    const result = await this.runStatement(query, [startedBefore]);
+    return result.changes;
   }
 
   async getUniqueClientNames(userId?: string): Promise<string[]> {
@@ -335,6 +1360,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
       FROM devices 
       WHERE client_name IS NOT NULL 
       AND client_name != '' 
+      AND deleted_at IS NULL
       ORDER BY client_name ASC
     `;
     
@@ -347,9 +1373,10 @@ export class SQLiteAdapter implements DatabaseAdapter {
       logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
     }
     
-    const query = 'SELECT * FROM devices WHERE client_name = ? ORDER BY updated_at DESC';
+    const query = 'SELECT * FROM devices WHERE client_name = ? AND deleted_at IS NULL ORDER BY updated_at DESC';
     const rows = await this.runQuery<DeviceRow>(query, [clientName]);
-    return rows.map(row => mapRowToDevice(row));
+    const sourceRows = await this.getDeviceSourceRows('d.client_name = ? AND d.deleted_at IS NULL', [clientName]);
+    return withDeviceSources(rows.map(row => mapRowToDevice(row)), sourceRows);
   }
 
   async getDeviceCountByClient(userId?: string): Promise<{ clientName: string; count: number }[]> {
@@ -362,6 +1389,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
       FROM devices 
       WHERE client_name IS NOT NULL 
       AND client_name != ''
+      AND deleted_at IS NULL
       GROUP BY client_name 
       ORDER BY count DESC, client_name ASC
     `;
@@ -370,22 +1398,33 @@ export class SQLiteAdapter implements DatabaseAdapter {
     return rows.map(row => ({ clientName: row.client_name, count: row.count }));
   }
 
-  async cleanupOldDevices(daysOld: number = 90, userId?: string): Promise<number> {
-    if (userId) {
-      logger.debug('SQLite adapter ignoring userId parameter (self-hosted mode)', 'database');
-    }
-    
+  async cleanupOldDevices(daysOld: number = 90): Promise<number> {
     const thresholdTimestamp = Math.floor(Date.now() / 1000) - (daysOld * 24 * 3600);
     
+    // Only imports count: a device is stale when none of its platform records was seen recently,
+    // or, without any platform records, when it was added long ago. Warranty lookups and
+    // write-backs also touch updated_at, so it can't tell whether a device still exists.
     const query = `
-      DELETE FROM devices 
-      WHERE updated_at < ?
+      UPDATE devices 
+      SET deleted_at = unixepoch('now')
+      WHERE deleted_at IS NULL 
+      AND COALESCE(
+        (SELECT MAX(s.last_seen_at) FROM device_sources s WHERE s.device_id = devices.id),
+        created_at
+      ) < ?
     `;
     
     const result = await this.runStatement(query, [thresholdTimestamp]);
     return result.changes;
   }
 
+  async purgeDeletedDevices(deletedBefore: number): Promise<number> {
+    // Entitlements, warranty history and source records are deleted with the device
+    const query = 'DELETE FROM devices WHERE deleted_at IS NOT NULL AND deleted_at < ?';
+    const result = await this.runStatement(query, [deletedBefore]);
+    return result.changes;
+  }
+
   /**
    * Execute raw SQL query (for subscription management and other advanced features)
    * Note: In self-hosted mode, subscriptions are not used, but we provide this for consistency
@@ -409,6 +1448,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
             return;
           }
           this.db = null;
+          this.migrationRun = null;
           resolve();
         });
       } else {
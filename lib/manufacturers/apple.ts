@@ -0,0 +1,134 @@
+import { Manufacturer } from '../../types/manufacturer';
+import { WarrantyInfo } from '../../types/warranty';
+import { AppleCredentials } from '../../types/credentials';
+import axios from 'axios';
+import { logger } from '@/lib/logger';
+import { hashSerialNumber, lookupWarrantiesSequentially } from '@/lib/utils/warrantyUtils';
+import { testApiKeyWithPlaceholderSerial } from '@/lib/utils/apiKeyUtils';
+import { WarrantyProvider } from './types';
+import { appleDefinition } from './definitions';
+
+interface AppleCoverageResponse {
+  serial_number: string;
+  product_description: string;
+  coverage_start_date: string;
+  coverage_end_date: string;
+  applecare_status: 'active' | 'expired' | 'none';
+  coverage_type?: string; // e.g. "AppleCare+ for Mac" or "Limited Warranty"
+}
+
+function formatAppleCareStatus(status: AppleCoverageResponse['applecare_status']): string {
+  if (status === 'active') return 'AppleCare: Active';
+  if (status === 'expired') return 'AppleCare: Expired';
+  return 'AppleCare: Not Enrolled';
+}
+
+// Mock Apple data for demos - deterministic per serial number
+async function getMockAppleWarrantyInfo(serialNumber: string): Promise<WarrantyInfo> {
+  logger.info(`Looking up Apple warranty for ${serialNumber} (mock implementation)`, 'apple-api', {
+    serialNumber,
+    mode: 'mock'
+  });
+
+  // Simulate API delay
+  await new Promise(resolve => setTimeout(resolve, 1000));
+
+  // Apple's limited warranty is one year; AppleCare+ extends coverage up to three years
+  const today = new Date();
+  const startDate = new Date(today.getFullYear() - 2, today.getMonth(), today.getDate());
+  // Roughly half of the mock fleet has AppleCare+
+  const hasAppleCare = hashSerialNumber(serialNumber) % 2 === 0;
+  const coverageYears = hasAppleCare ? 3 : 1;
+  const endDate = new Date(startDate.getFullYear() + coverageYears, startDate.getMonth(), startDate.getDate());
+
+  // Get the formatted dates
+  const startDateStr = startDate.toISOString().split('T')[0];
+  const endDateStr = endDate.toISOString().split('T')[0];
+
+  return {
+    serialNumber,
+    manufacturer: Manufacturer.APPLE,
+    startDate: startDateStr,
+    endDate: endDateStr,
+    productDescription: 'MacBook Pro (14-inch, 2023) (mock data)',
+    coverageDetails: hasAppleCare
+      ? ['AppleCare+ for Mac', formatAppleCareStatus('active')]
+      : ['Limited Warranty', formatAppleCareStatus('none')]
+  };
+}
+
+async function fetchAppleWarrantyData(
+  serialNumber: string,
+  apiKey: string,
+  apiUrl: string
+): Promise<WarrantyInfo> {
+  // Call the configured Apple coverage endpoint (Apple has no public warranty API)
+  const response = await axios.get<AppleCoverageResponse>(
+    `${apiUrl.replace(/\/+$/, '')}/${encodeURIComponent(serialNumber)}`,
+    {
+      headers: {
+        'X-API-Key': apiKey,
+        'Content-Type': 'application/json'
+      }
+    }
+  );
+
+  const data = response.data;
+
+  // Validate response
+  if (!data || !data.coverage_end_date) {
+    throw new Error(`Invalid or empty response from Apple coverage API for ${serialNumber}`);
+  }
+
+  const coverageDetails = [formatAppleCareStatus(data.applecare_status)];
+  if (data.coverage_type) {
+    coverageDetails.unshift(data.coverage_type);
+  }
+
+  return {
+    serialNumber,
+    manufacturer: Manufacturer.APPLE,
+    startDate: data.coverage_start_date,
+    endDate: data.coverage_end_date,
+    productDescription: data.product_description || 'Apple Product',
+    coverageDetails
+  };
+}
+
+export async function getAppleWarrantyInfo(
+  serialNumber: string,
+  apiKey?: string,
+  apiUrl?: string
+): Promise<WarrantyInfo> {
+  // Check if the endpoint and its API key are provided
+  if (apiKey && apiUrl) {
+    const warranty = await fetchAppleWarrantyData(serialNumber, apiKey, apiUrl);
+    logger.info(`Found Apple warranty for ${serialNumber}: ${warranty.startDate} to ${warranty.endDate}`, 'apple-api', {
+      serialNumber,
+      startDate: warranty.startDate,
+      endDate: warranty.endDate,
+      mode: 'api'
+    });
+    return warranty;
+  } else {
+    logger.info('Coverage endpoint / API key is not provided, falling back to mock implementation', 'apple-api', {
+      serialNumber,
+      mode: 'mock-fallback'
+    });
+  }
+
+  return getMockAppleWarrantyInfo(serialNumber);
+}
+
+export const appleProvider: WarrantyProvider<AppleCredentials> = {
+  ...appleDefinition,
+  lookup: (serialNumber, credentials) =>
+    getAppleWarrantyInfo(serialNumber, credentials?.apiKey, credentials?.apiUrl),
+  lookupBatch: (serialNumbers, credentials) =>
+    lookupWarrantiesSequentially(serialNumbers, serialNumber =>
+      getAppleWarrantyInfo(serialNumber, credentials?.apiKey, credentials?.apiUrl)
+    ),
+  testCredentials: async (credentials) => credentials.apiKey && credentials.apiUrl
+    ? testApiKeyWithPlaceholderSerial(credentials.apiUrl, credentials.apiKey, 'apple-api')
+    : false
+};
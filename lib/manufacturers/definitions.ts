@@ -0,0 +1,153 @@
+import { Manufacturer } from '@/types/manufacturer';
+import {
+  AppleCredentials,
+  DellCredentials,
+  HPCredentials,
+  LenovoCredentials,
+  MicrosoftCredentials,
+} from '@/types/credentials';
+import { WarrantyProviderDefinition } from './types';
+
+/**
+ * Warranty provider definitions: the name, manufacturers and credential fields of each
+ * provider. This module has no runtime dependencies, so the config form reads it instead
+ * of registry.ts, which pulls in every provider's API client and stays on the server.
+ * Add a new provider here and spread its definition into the provider.
+ */
+
+// Checked with satisfies rather than annotated, so the definitions keep their literal field
+// keys and still fit the untyped list below
+export const dellDefinition = {
+  id: Manufacturer.DELL,
+  name: 'Dell',
+  manufacturers: [Manufacturer.DELL],
+  credentialFields: [
+    {
+      key: 'clientId',
+      label: 'Client ID',
+      placeholder: 'Enter Dell client ID',
+      description: 'Your Dell TechDirect API client ID (optional)',
+      envVar: 'DELL_API_CLIENT_ID'
+    },
+    {
+      key: 'clientSecret',
+      label: 'Client Secret',
+      placeholder: 'Enter Dell client secret',
+      description: 'Your Dell TechDirect API client secret (optional)',
+      secret: true,
+      envVar: 'DELL_API_CLIENT_SECRET'
+    }
+  ],
+} satisfies WarrantyProviderDefinition<DellCredentials>;
+
+export const hpDefinition = {
+  id: Manufacturer.HP,
+  name: 'HP',
+  manufacturers: [Manufacturer.HP],
+  credentialFields: [
+    {
+      key: 'apiKey',
+      label: 'API Key',
+      placeholder: 'Enter HP API Key',
+      description: 'Your API Key for api.warrantywatcher.com (the same key works for HP and Lenovo)',
+      secret: true,
+      envVar: 'HP_API_KEY'
+    }
+  ],
+} satisfies WarrantyProviderDefinition<HPCredentials>;
+
+export const lenovoDefinition = {
+  id: Manufacturer.LENOVO,
+  name: 'Lenovo',
+  manufacturers: [Manufacturer.LENOVO],
+  credentialFields: [
+    {
+      key: 'apiKey',
+      label: 'API Key',
+      placeholder: 'Enter Lenovo API Key',
+      description: 'Your API Key for api.warrantywatcher.com (the same key works for HP and Lenovo)',
+      secret: true,
+      envVar: 'LENOVO_API_KEY'
+    }
+  ],
+} satisfies WarrantyProviderDefinition<LenovoCredentials>;
+
+export const appleDefinition = {
+  id: Manufacturer.APPLE,
+  name: 'Apple',
+  manufacturers: [Manufacturer.APPLE],
+  credentialFields: [
+    {
+      key: 'apiUrl',
+      label: 'Endpoint URL',
+      placeholder: 'https://your-coverage-proxy.example.com/apple',
+      description: 'Your Apple coverage endpoint, e.g. an Apple Business Manager / GSX proxy. The serial number is appended to this URL. Its host must be listed in WARRANTY_ENDPOINT_HOSTS on the server.',
+      envVar: 'APPLE_API_URL',
+      allowedHosts: []
+    },
+    {
+      key: 'apiKey',
+      label: 'API Key',
+      placeholder: 'Enter Apple coverage API Key',
+      description: 'Sent to the coverage endpoint in the X-API-Key header',
+      secret: true,
+      envVar: 'APPLE_API_KEY'
+    }
+  ],
+} satisfies WarrantyProviderDefinition<AppleCredentials>;
+
+export const microsoftDefinition = {
+  id: Manufacturer.MICROSOFT,
+  name: 'Microsoft Surface',
+  manufacturers: [Manufacturer.MICROSOFT],
+  credentialFields: [
+    {
+      key: 'apiUrl',
+      label: 'Coverage Endpoint URL',
+      placeholder: 'https://warranty.example.com/surface',
+      description: 'Surface warranty endpoint; the serial number is appended to this URL. Its host must be listed in WARRANTY_ENDPOINT_HOSTS on the server.',
+      envVar: 'MICROSOFT_WARRANTY_API_URL',
+      allowedHosts: []
+    },
+    {
+      key: 'tokenUrl',
+      label: 'Token URL',
+      placeholder: 'https://login.microsoftonline.com/<tenant-id>/oauth2/v2.0/token',
+      description: 'OAuth 2.0 token endpoint used for the client credentials grant',
+      envVar: 'MICROSOFT_WARRANTY_TOKEN_URL',
+      allowedHosts: ['login.microsoftonline.com']
+    },
+    {
+      key: 'clientId',
+      label: 'Client ID',
+      placeholder: 'Enter Microsoft client ID',
+      envVar: 'MICROSOFT_WARRANTY_CLIENT_ID'
+    },
+    {
+      key: 'clientSecret',
+      label: 'Client Secret',
+      placeholder: 'Enter Microsoft client secret',
+      secret: true,
+      envVar: 'MICROSOFT_WARRANTY_CLIENT_SECRET'
+    },
+    {
+      key: 'scope',
+      label: 'Scope (Optional)',
+      placeholder: 'api://<app-id>/.default',
+      optional: true,
+      envVar: 'MICROSOFT_WARRANTY_SCOPE'
+    }
+  ],
+} satisfies WarrantyProviderDefinition<MicrosoftCredentials>;
+
+const warrantyProviderDefinitions: WarrantyProviderDefinition[] = [
+  dellDefinition,
+  hpDefinition,
+  lenovoDefinition,
+  appleDefinition,
+  microsoftDefinition,
+];
+
+export function getWarrantyProviderDefinitions(): WarrantyProviderDefinition[] {
+  return warrantyProviderDefinitions;
+}
@@ -5,7 +5,7 @@
 import 'dotenv/config';
 
 // Import the Dell warranty function
-import { getDellWarrantyInfo } from './dell';
+import { getDellWarrantyInfo, getDellWarrantyInfoBatch } from './dell';
 
 // Function to validate credentials
 function validateCredentials() {
@@ -85,6 +85,17 @@ async function testDellApi() {
     console.log(`The Dell API integration is working with the provided credentials (${apiSuccessCount}/${testSerials.length} successful).`);
   }
   
+  // Look up all serials again in a single batched request
+  console.log('\n📦 Testing batched lookup...');
+  const batchResults = await getDellWarrantyInfoBatch(testSerials, clientId, clientSecret);
+  for (const result of batchResults) {
+    if (result.warranty) {
+      console.log(`✅ ${result.serialNumber}: ${result.warranty.startDate} to ${result.warranty.endDate}`);
+    } else {
+      console.log(`❌ ${result.serialNumber}: ${result.error}`);
+    }
+  }
+
   console.log('\n=== Dell API Test Completed ===');
 }
 
@@ -1,17 +1,16 @@
 import { Manufacturer } from '../../types/manufacturer';
 import { WarrantyInfo } from '../../types/warranty';
+import { DellCredentials } from '../../types/credentials';
 import axios from 'axios';
 import { logger } from '@/lib/logger';
+import { lookupWarrantiesSequentially } from '@/lib/utils/warrantyUtils';
+import { ClientCredentialsConfig, getClientCredentialsToken, withClientCredentialsToken } from '@/lib/utils/oauthUtils';
+import { WarrantyLookupResult, WarrantyProvider } from './types';
+import { dellDefinition } from './definitions';
 
 // List of Service Level Codes not related to hardware warranties
 const SLC_BLACKLIST = ['D', 'DL', 'PJ', 'PR'];
 
-interface DellTokenResponse {
-  access_token: string;
-  expires_in: number;
-  token_type: string;
-}
-
 interface DellEntitlement {
   startDate: string;
   endDate: string;
@@ -37,37 +36,16 @@ interface DellDeviceInfo {
   entitlements: DellEntitlement[];
 }
 
-// Cache token and its expiration time
-let dellToken: string | null = null;
-let tokenExpiration: Date | null = null;
+const DELL_TOKEN_URL = 'https://apigtwb2c.us.dell.com/auth/oauth/v2/token';
 
-async function getDellAuthToken(clientId: string, clientSecret: string): Promise<string> {
-  // Check if we have a valid cached token
-  if (dellToken && tokenExpiration && tokenExpiration > new Date()) {
-    return dellToken;
-  }
+function getDellTokenConfig(clientId: string, clientSecret: string): ClientCredentialsConfig {
+  return { tokenUrl: DELL_TOKEN_URL, clientId, clientSecret, authMethod: 'basic' };
+}
 
-  // Get new token
-  const authString = `${clientId}:${clientSecret}`;
-  const encodedAuth = Buffer.from(authString).toString('base64');
-  
+async function getDellAuthToken(clientId: string, clientSecret: string): Promise<string> {
   try {
-    const response = await axios.post<DellTokenResponse>(
-      'https://apigtwb2c.us.dell.com/auth/oauth/v2/token',
-      'grant_type=client_credentials',
-      {
-        headers: {
-          'Authorization': `Basic ${encodedAuth}`,
-          'Content-Type': 'application/x-www-form-urlencoded'
-        }
-      }
-    );
-    
-    // Cache the token and set expiration (55 minutes from now to be safe)
-    dellToken = response.data.access_token;
-    tokenExpiration = new Date(Date.now() + 55 * 60 * 1000);
-    
-    return dellToken;
+    // Tokens are cached per client credentials and refreshed based on expires_in
+    return await getClientCredentialsToken(getDellTokenConfig(clientId, clientSecret));
   } catch (error) {
     logger.error(`Error getting Dell auth token: ${error}`, 'dell-api', {
       error: error instanceof Error ? error.message : String(error)
@@ -76,41 +54,44 @@ async function getDellAuthToken(clientId: string, clientSecret: string): Promise
   }
 }
 
+// Maximum number of service tags the asset-entitlements endpoint accepts per request
+const DELL_BATCH_SIZE = 100;
+
 // Warning: the Dell API integration is still being tested and may not work as expected
-async function fetchDellWarrantyData(
-  serialNumber: string,
+async function fetchDellDeviceInfo(
+  serialNumbers: string[],
   clientId: string,
   clientSecret: string
-): Promise<WarrantyInfo> {
-  // Get authentication token
-  const token = await getDellAuthToken(clientId, clientSecret);
-
-  // Call Dell warranty API
-  const response = await axios.get<DellDeviceInfo[]>(
-    'https://apigtwb2c.us.dell.com/PROD/sbil/eapi/v5/asset-entitlements',
-    {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json'
-      },
-      params: {
-        servicetags: serialNumber
+): Promise<DellDeviceInfo[]> {
+  // Call Dell warranty API with a comma-separated list of service tags (retried once on 401)
+  const response = await withClientCredentialsToken(getDellTokenConfig(clientId, clientSecret), token =>
+    axios.get<DellDeviceInfo[]>(
+      'https://apigtwb2c.us.dell.com/PROD/sbil/eapi/v5/asset-entitlements',
+      {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        params: {
+          servicetags: serialNumbers.join(',')
+        }
       }
-    }
+    )
   );
 
   // The API returns an array of devices
-  if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+  if (!response.data || !Array.isArray(response.data)) {
     logger.error('Invalid response format from Dell API', 'dell-api', {
-      serialNumber,
+      serialNumbers,
       responseData: response.data
     });
     throw new Error('Invalid response format from Dell API - expected array');
   }
 
-  // Get the device info
-  const deviceInfo = response.data[0];
+  return response.data;
+}
 
+function dellDeviceInfoToWarrantyInfo(serialNumber: string, deviceInfo: DellDeviceInfo): WarrantyInfo {
   // Validate device found
   if (deviceInfo.invalid) {
     throw new Error(`Invalid service tag: ${serialNumber}`);
@@ -153,10 +134,87 @@ async function fetchDellWarrantyData(
     startDate,
     endDate,
     productDescription,
-    coverageDetails
+    coverageDetails,
+    entitlements: validEntitlements.map(e => ({
+      serviceLevelCode: e.serviceLevelCode,
+      description: e.serviceLevelDescription,
+      startDate: new Date(e.startDate).toISOString().split('T')[0],
+      endDate: new Date(e.endDate).toISOString().split('T')[0],
+      provider: Manufacturer.DELL
+    }))
   };
 }
 
+async function fetchDellWarrantyData(
+  serialNumber: string,
+  clientId: string,
+  clientSecret: string
+): Promise<WarrantyInfo> {
+  const [result] = await fetchDellWarrantyDataBatch([serialNumber], clientId, clientSecret);
+  if (result.error || !result.warranty) {
+    throw new Error(result.error || `No warranty data returned for ${serialNumber}`);
+  }
+  return result.warranty;
+}
+
+/**
+ * Looks up service tags in chunks of DELL_BATCH_SIZE and maps each returned
+ * device back to its serial. Errors are reported per serial; a failed request
+ * only fails the serials in its own chunk.
+ */
+async function fetchDellWarrantyDataBatch(
+  serialNumbers: string[],
+  clientId: string,
+  clientSecret: string
+): Promise<WarrantyLookupResult[]> {
+  const results: WarrantyLookupResult[] = [];
+
+  for (let i = 0; i < serialNumbers.length; i += DELL_BATCH_SIZE) {
+    const chunk = serialNumbers.slice(i, i + DELL_BATCH_SIZE);
+
+    let deviceInfos: DellDeviceInfo[];
+    try {
+      deviceInfos = await fetchDellDeviceInfo(chunk, clientId, clientSecret);
+    } catch (error) {
+      logger.error(`Error fetching Dell warranty batch: ${error}`, 'dell-api', {
+        batchSize: chunk.length,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      results.push(...chunk.map(serialNumber => ({ serialNumber, error: errorMessage })));
+      continue;
+    }
+
+    // Service tags are case-insensitive; Dell returns them upper-cased
+    const deviceInfoByTag = new Map(
+      deviceInfos.map(deviceInfo => [deviceInfo.serviceTag?.toUpperCase(), deviceInfo])
+    );
+
+    for (const serialNumber of chunk) {
+      const deviceInfo = deviceInfoByTag.get(serialNumber.toUpperCase());
+      if (!deviceInfo) {
+        results.push({ serialNumber, error: `No warranty data returned for ${serialNumber}` });
+        continue;
+      }
+      try {
+        results.push({ serialNumber, warranty: dellDeviceInfoToWarrantyInfo(serialNumber, deviceInfo) });
+      } catch (error) {
+        results.push({
+          serialNumber,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    logger.info(`Fetched Dell warranty batch of ${chunk.length} service tags`, 'dell-api', {
+      batchSize: chunk.length,
+      returnedCount: deviceInfos.length
+    });
+  }
+
+  return results;
+}
+
 // Mock Dell data for demos
 async function getMockDellWarrantyInfo(serialNumber: string): Promise<WarrantyInfo> {
   try {
@@ -177,6 +235,9 @@ async function getMockDellWarrantyInfo(serialNumber: string): Promise<WarrantyIn
     // Get the formatted dates
     const startDateStr = startDate.toISOString().split('T')[0];
     const endDateStr = endDate.toISOString().split('T')[0];
+    // Accidental damage cover only runs for the first year
+    const accidentalDamageEndDateStr = new Date(startDate.getFullYear() + 1, startDate.getMonth(), startDate.getDate())
+      .toISOString().split('T')[0];
     
     return {
       serialNumber,
@@ -187,6 +248,10 @@ async function getMockDellWarrantyInfo(serialNumber: string): Promise<WarrantyIn
       coverageDetails: [
         'Hardware Support',
         'Next Business Day Onsite Service'
+      ],
+      entitlements: [
+        { serviceLevelCode: 'ND', description: 'Next Business Day Onsite Service', startDate: startDateStr, endDate: endDateStr, provider: Manufacturer.DELL },
+        { serviceLevelCode: 'AD', description: 'Accidental Damage', startDate: startDateStr, endDate: accidentalDamageEndDateStr, provider: Manufacturer.DELL }
       ]
     };
   } catch (error) {
@@ -227,4 +292,40 @@ export async function getDellWarrantyInfo(
   }
 
   return getMockDellWarrantyInfo(serialNumber);
-} 
\ No newline at end of file
+}
+
+export async function getDellWarrantyInfoBatch(
+  serialNumbers: string[],
+  clientId?: string,
+  clientSecret?: string
+): Promise<WarrantyLookupResult[]> {
+  // Check if both clientId and clientSecret are provided
+  if (clientId && clientSecret) {
+    return fetchDellWarrantyDataBatch(serialNumbers, clientId, clientSecret);
+  }
+
+  logger.info('clientId / clientSecret is not provided, falling back to mock implementation', 'dell-api', {
+    serialCount: serialNumbers.length,
+    mode: 'mock-fallback'
+  });
+  return lookupWarrantiesSequentially(serialNumbers, getMockDellWarrantyInfo);
+}
+
+export const dellProvider: WarrantyProvider<DellCredentials> = {
+  ...dellDefinition,
+  lookup: (serialNumber, credentials) =>
+    getDellWarrantyInfo(serialNumber, credentials?.clientId, credentials?.clientSecret),
+  lookupBatch: (serialNumbers, credentials) =>
+    getDellWarrantyInfoBatch(serialNumbers, credentials?.clientId, credentials?.clientSecret),
+  async testCredentials(credentials) {
+    if (!credentials.clientId || !credentials.clientSecret) {
+      return false;
+    }
+    try {
+      await getDellAuthToken(credentials.clientId, credentials.clientSecret);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+};
@@ -1,7 +1,14 @@
 import { Manufacturer } from '../../types/manufacturer';
 import { WarrantyInfo } from '../../types/warranty';
+import { HPCredentials } from '../../types/credentials';
 import axios from 'axios';
 import { logger } from '@/lib/logger';
+import { lookupWarrantiesSequentially } from '@/lib/utils/warrantyUtils';
+import { testApiKeyWithPlaceholderSerial } from '@/lib/utils/apiKeyUtils';
+import { WarrantyProvider } from './types';
+import { hpDefinition } from './definitions';
+
+const HP_API_URL = 'https://api.warrantywatcher.com/warranty/hp';
 
 interface HpWarrantyResponse {
   start_date: string;
@@ -52,7 +59,7 @@ async function fetchHpWarrantyData(
 ): Promise<WarrantyInfo> {
   // Call HP warranty API
   const response = await axios.get<HpWarrantyResponse>(
-    `https://api.warrantywatcher.com/warranty/hp/${serialNumber}`,
+    `${HP_API_URL}/${serialNumber}`,
     {
       headers: {
         'X-API-Key': apiKey,
@@ -100,4 +107,16 @@ export async function getHpWarrantyInfo(
   }
 
   return getMockHpWarrantyInfo(serialNumber);
-} 
\ No newline at end of file
+}
+
+export const hpProvider: WarrantyProvider<HPCredentials> = {
+  ...hpDefinition,
+  lookup: (serialNumber, credentials) => getHpWarrantyInfo(serialNumber, credentials?.apiKey),
+  lookupBatch: (serialNumbers, credentials) =>
+    lookupWarrantiesSequentially(serialNumbers, serialNumber =>
+      getHpWarrantyInfo(serialNumber, credentials?.apiKey)
+    ),
+  testCredentials: async (credentials) => credentials.apiKey
+    ? testApiKeyWithPlaceholderSerial(HP_API_URL, credentials.apiKey, 'hp-api')
+    : false
+};
@@ -1,7 +1,14 @@
 import { Manufacturer } from '../../types/manufacturer';
 import { WarrantyInfo } from '../../types/warranty';
+import { LenovoCredentials } from '../../types/credentials';
 import axios from 'axios';
 import { logger } from '@/lib/logger';
+import { lookupWarrantiesSequentially } from '@/lib/utils/warrantyUtils';
+import { testApiKeyWithPlaceholderSerial } from '@/lib/utils/apiKeyUtils';
+import { WarrantyProvider } from './types';
+import { lenovoDefinition } from './definitions';
+
+const LENOVO_API_URL = 'https://api.warrantywatcher.com/warranty/lenovo';
 
 interface LenovoWarrantyResponse {
   start_date: string;
@@ -53,7 +60,7 @@ async function fetchLenovoWarrantyData(
 ): Promise<WarrantyInfo> {
   // Call Lenovo warranty API
   const response = await axios.get<LenovoWarrantyResponse>(
-    `https://api.warrantywatcher.com/warranty/lenovo/${serialNumber}`,
+    `${LENOVO_API_URL}/${serialNumber}`,
     {
       headers: {
         'X-API-Key': apiKey,
@@ -101,4 +108,16 @@ export async function getLenovoWarrantyInfo(
   }
 
   return getMockLenovoWarrantyInfo(serialNumber);
-} 
\ No newline at end of file
+}
+
+export const lenovoProvider: WarrantyProvider<LenovoCredentials> = {
+  ...lenovoDefinition,
+  lookup: (serialNumber, credentials) => getLenovoWarrantyInfo(serialNumber, credentials?.apiKey),
+  lookupBatch: (serialNumbers, credentials) =>
+    lookupWarrantiesSequentially(serialNumbers, serialNumber =>
+      getLenovoWarrantyInfo(serialNumber, credentials?.apiKey)
+    ),
+  testCredentials: async (credentials) => credentials.apiKey
+    ? testApiKeyWithPlaceholderSerial(LENOVO_API_URL, credentials.apiKey, 'lenovo-api')
+    : false
+};
@@ -0,0 +1,209 @@
+import { Manufacturer } from '../../types/manufacturer';
+import { WarrantyInfo } from '../../types/warranty';
+import { MicrosoftCredentials } from '../../types/credentials';
+import axios from 'axios';
+import { logger } from '@/lib/logger';
+import { hashSerialNumber, lookupWarrantiesSequentially } from '@/lib/utils/warrantyUtils';
+import { ClientCredentialsConfig, getClientCredentialsToken, withClientCredentialsToken } from '@/lib/utils/oauthUtils';
+import { WarrantyProvider } from './types';
+import { microsoftDefinition } from './definitions';
+
+interface MicrosoftCoverage {
+  name: string; // e.g. "Limited Hardware Warranty" or "Microsoft Complete for Business"
+  startDate: string;
+  endDate: string;
+}
+
+interface MicrosoftCoverageResponse {
+  serialNumber: string;
+  productName: string;
+  coverages: MicrosoftCoverage[];
+}
+
+const MOCK_SURFACE_MODELS = [
+  'Surface Laptop 5',
+  'Surface Pro 9',
+  'Surface Laptop 4',
+  'Surface Pro 8',
+  'Surface Go 3'
+];
+
+// Mock Microsoft data for demos - deterministic per serial number
+async function getMockMicrosoftWarrantyInfo(serialNumber: string): Promise<WarrantyInfo> {
+  logger.info(`Looking up Microsoft warranty for ${serialNumber} (mock implementation)`, 'microsoft-api', {
+    serialNumber,
+    mode: 'mock'
+  });
+
+  // Simulate API delay
+  await new Promise(resolve => setTimeout(resolve, 1000));
+
+  const hash = hashSerialNumber(serialNumber);
+
+  // Purchase date between 0 and 47 months ago, anchored to the start of the month
+  const today = new Date();
+  const ageInMonths = hash % 48;
+  const startDate = new Date(Date.UTC(today.getFullYear(), today.getMonth() - ageInMonths, 1));
+
+  // Surface ships with a one year limited warranty; roughly half of the mock fleet has extended coverage
+  const hasExtendedCoverage = (hash >> 8) % 2 === 0;
+  const coverageYears = hasExtendedCoverage ? 3 : 1;
+  const endDate = new Date(Date.UTC(startDate.getUTCFullYear() + coverageYears, startDate.getUTCMonth(), 1));
+
+  // Get the formatted dates
+  const startDateStr = startDate.toISOString().split('T')[0];
+  const endDateStr = endDate.toISOString().split('T')[0];
+
+  return {
+    serialNumber,
+    manufacturer: Manufacturer.MICROSOFT,
+    startDate: startDateStr,
+    endDate: endDateStr,
+    productDescription: `${MOCK_SURFACE_MODELS[hash % MOCK_SURFACE_MODELS.length]} (mock data)`,
+    coverageDetails: hasExtendedCoverage
+      ? ['Limited Hardware Warranty', 'Microsoft Complete for Business']
+      : ['Limited Hardware Warranty'],
+    entitlements: [
+      {
+        description: 'Limited Hardware Warranty',
+        startDate: startDateStr,
+        endDate: new Date(Date.UTC(startDate.getUTCFullYear() + 1, startDate.getUTCMonth(), 1)).toISOString().split('T')[0],
+        provider: Manufacturer.MICROSOFT
+      },
+      ...(hasExtendedCoverage
+        ? [{ description: 'Microsoft Complete for Business', startDate: startDateStr, endDate: endDateStr, provider: Manufacturer.MICROSOFT }]
+        : [])
+    ]
+  };
+}
+
+function getMicrosoftTokenConfig(credentials: MicrosoftCredentials): ClientCredentialsConfig {
+  return {
+    tokenUrl: credentials.tokenUrl,
+    clientId: credentials.clientId,
+    clientSecret: credentials.clientSecret,
+    scope: credentials.scope || undefined,
+    authMethod: 'body'
+  };
+}
+
+async function getMicrosoftAuthToken(credentials: MicrosoftCredentials): Promise<string> {
+  try {
+    return await getClientCredentialsToken(getMicrosoftTokenConfig(credentials));
+  } catch (error) {
+    logger.error(`Error getting Microsoft auth token: ${error}`, 'microsoft-api', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw new Error('Failed to authenticate with Microsoft warranty API');
+  }
+}
+
+/**
+ * Parses a coverage date from the API response, failing the lookup with a clear
+ * error instead of a RangeError when the date is missing or malformed
+ */
+function parseCoverageDate(value: string, serialNumber: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid coverage date "${value}" in Microsoft response for ${serialNumber}`);
+  }
+  return date;
+}
+
+async function fetchMicrosoftWarrantyData(
+  serialNumber: string,
+  credentials: MicrosoftCredentials
+): Promise<WarrantyInfo> {
+  // Call the Surface coverage endpoint (retried once on 401)
+  const response = await withClientCredentialsToken(getMicrosoftTokenConfig(credentials), token =>
+    axios.get<MicrosoftCoverageResponse>(
+      `${credentials.apiUrl.replace(/\/+$/, '')}/${encodeURIComponent(serialNumber)}`,
+      {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        }
+      }
+    )
+  );
+
+  const data = response.data;
+
+  // Validate response
+  if (!data || !Array.isArray(data.coverages) || data.coverages.length === 0) {
+    throw new Error(`No warranty coverage found for ${serialNumber}`);
+  }
+
+  // Base warranty and extended coverage (e.g. Microsoft Complete) are separate entries;
+  // report the earliest start and the latest end across all of them
+  const coverages = data.coverages.map(c => ({
+    name: c.name,
+    startDate: parseCoverageDate(c.startDate, serialNumber),
+    endDate: parseCoverageDate(c.endDate, serialNumber)
+  }));
+  const startDates = coverages.map(c => c.startDate).sort((a, b) => a.getTime() - b.getTime());
+  const endDates = coverages.map(c => c.endDate).sort((a, b) => b.getTime() - a.getTime());
+
+  return {
+    serialNumber,
+    manufacturer: Manufacturer.MICROSOFT,
+    startDate: startDates[0].toISOString().split('T')[0],
+    endDate: endDates[0].toISOString().split('T')[0],
+    productDescription: data.productName || 'Microsoft Surface',
+    coverageDetails: Array.from(new Set(coverages.map(c => c.name))),
+    entitlements: coverages.map(c => ({
+      description: c.name,
+      startDate: c.startDate.toISOString().split('T')[0],
+      endDate: c.endDate.toISOString().split('T')[0],
+      provider: Manufacturer.MICROSOFT
+    }))
+  };
+}
+
+function hasMicrosoftCredentials(credentials?: Partial<MicrosoftCredentials>): credentials is MicrosoftCredentials {
+  return !!(credentials?.apiUrl && credentials.tokenUrl && credentials.clientId && credentials.clientSecret);
+}
+
+export async function getMicrosoftWarrantyInfo(
+  serialNumber: string,
+  credentials?: Partial<MicrosoftCredentials>
+): Promise<WarrantyInfo> {
+  // Check if the endpoint and client credentials are all provided
+  if (hasMicrosoftCredentials(credentials)) {
+    const warranty = await fetchMicrosoftWarrantyData(serialNumber, credentials);
+    logger.info(`Found Microsoft warranty for ${serialNumber}: ${warranty.startDate} to ${warranty.endDate}`, 'microsoft-api', {
+      serialNumber,
+      startDate: warranty.startDate,
+      endDate: warranty.endDate,
+      mode: 'api'
+    });
+    return warranty;
+  } else {
+    logger.info('Microsoft endpoint / client credentials are not provided, falling back to mock implementation', 'microsoft-api', {
+      serialNumber,
+      mode: 'mock-fallback'
+    });
+  }
+
+  return getMockMicrosoftWarrantyInfo(serialNumber);
+}
+
+export const microsoftProvider: WarrantyProvider<MicrosoftCredentials> = {
+  ...microsoftDefinition,
+  lookup: (serialNumber, credentials) => getMicrosoftWarrantyInfo(serialNumber, credentials),
+  lookupBatch: (serialNumbers, credentials) =>
+    lookupWarrantiesSequentially(serialNumbers, serialNumber =>
+      getMicrosoftWarrantyInfo(serialNumber, credentials)
+    ),
+  testCredentials: async (credentials) => {
+    if (!hasMicrosoftCredentials(credentials)) {
+      return false;
+    }
+    try {
+      await getMicrosoftAuthToken(credentials);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+};
@@ -0,0 +1,69 @@
+import 'server-only';
+
+import { Manufacturer } from '@/types/manufacturer';
+import { appConfig } from '@/lib/config';
+import { WarrantyProvider } from './types';
+import { dellProvider } from './dell';
+import { hpProvider } from './hp';
+import { lenovoProvider } from './lenovo';
+import { appleProvider } from './apple';
+import { microsoftProvider } from './microsoft';
+
+/**
+ * Warranty provider registry (server only)
+ * Add new manufacturer integrations here - the sync service and env credential
+ * loading drive from this list. The config form uses definitions.ts instead.
+ */
+const warrantyProviders: WarrantyProvider[] = [
+  dellProvider,
+  hpProvider,
+  lenovoProvider,
+  appleProvider,
+  microsoftProvider,
+];
+
+export function getWarrantyProviders(): WarrantyProvider[] {
+  return warrantyProviders;
+}
+
+/**
+ * Find the provider that can look up warranties for a given manufacturer
+ */
+export function getWarrantyProvider(manufacturer: Manufacturer): WarrantyProvider | undefined {
+  return warrantyProviders.find(provider => provider.manufacturers.includes(manufacturer));
+}
+
+/**
+ * Find a provider by its id (the ManufacturerCredentials key)
+ */
+export function getWarrantyProviderById(id: string): WarrantyProvider | undefined {
+  return warrantyProviders.find(provider => provider.id === id);
+}
+
+function isAllowedHttpsUrl(value: string, allowedHosts: string[]): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  const hostname = url.hostname.toLowerCase();
+  return url.protocol === 'https:' &&
+    allowedHosts.some(host => hostname === host || hostname.endsWith(`.${host}`));
+}
+
+/**
+ * Throws if a URL credential points anywhere but the provider's known hosts or those in
+ * WARRANTY_ENDPOINT_HOSTS, so URLs sent from the browser can't make the server call arbitrary hosts
+ */
+export function assertAllowedCredentialUrls(provider: WarrantyProvider, credentials?: object): void {
+  for (const field of provider.credentialFields) {
+    const value = (credentials as Record<string, unknown> | undefined)?.[field.key];
+    if (!field.allowedHosts || typeof value !== 'string' || !value) {
+      continue;
+    }
+    if (!isAllowedHttpsUrl(value, [...field.allowedHosts, ...appConfig.warrantyEndpoints.allowedHosts])) {
+      throw new Error(`${provider.name} ${field.label} must be an https URL on an allowed host (see WARRANTY_ENDPOINT_HOSTS): ${value}`);
+    }
+  }
+}
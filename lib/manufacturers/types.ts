@@ -0,0 +1,52 @@
+import { Manufacturer } from '@/types/manufacturer';
+import { ManufacturerCredentials } from '@/types/credentials';
+import { WarrantyInfo } from '@/types/warranty';
+
+/**
+ * Describes a single credential input required by a warranty provider or platform connector.
+ * Drives both the configuration form and env var loading in SaaS mode.
+ */
+export interface CredentialField<K extends string = string> {
+  key: K;
+  label: string;
+  placeholder?: string;
+  description?: string;
+  secret?: boolean; // Render as a password input
+  multiline?: boolean; // Render as a text area, e.g. for one entry per line
+  optional?: boolean; // Not required even when other fields are filled
+  envVar?: string; // Environment variable holding this value on the server
+  allowedHosts?: string[]; // URL field: hosts (or their subdomains) it may point to, besides WARRANTY_ENDPOINT_HOSTS
+}
+
+/**
+ * Outcome of looking up a single serial number as part of a batch
+ */
+export interface WarrantyLookupResult {
+  serialNumber: string;
+  warranty?: WarrantyInfo;
+  error?: string;
+}
+
+// Credential field keys of a provider; any string when the credential shape is unknown
+export type CredentialKey<C> = [keyof C] extends [never] ? string : Extract<keyof C, string>;
+
+/**
+ * What the UI needs to know about a warranty provider, declared in definitions.ts
+ */
+export interface WarrantyProviderDefinition<C extends object = object> {
+  id: keyof ManufacturerCredentials; // Key under which credentials are stored in ManufacturerCredentials
+  name: string;
+  manufacturers: Manufacturer[]; // Device manufacturers this provider can look up
+  credentialFields: CredentialField<CredentialKey<C>>[];
+}
+
+/**
+ * Warranty provider contract
+ * Each manufacturer integration implements this on top of its definition and registers itself in registry.ts
+ */
+export interface WarrantyProvider<C extends object = object> extends WarrantyProviderDefinition<C> {
+  lookup(serialNumber: string, credentials?: Partial<C>): Promise<WarrantyInfo>;
+  // Returns one result per serial number, in the same order as serialNumbers
+  lookupBatch(serialNumbers: string[], credentials?: Partial<C>): Promise<WarrantyLookupResult[]>;
+  testCredentials(credentials: Partial<C>): Promise<boolean>;
+}
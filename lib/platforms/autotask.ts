@@ -0,0 +1,406 @@
+import { Device } from '@/types/device';
+import { determineManufacturer } from '@/lib/utils/manufacturerUtils';
+import axios, { AxiosInstance } from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { logger } from '@/lib/logger';
+import { Platform } from '@/types/platform';
+import { PlatformConnector } from './types';
+import { autotaskDefinition } from './definitions';
+
+export interface AutotaskCredentials {
+  username?: string; // API-only user's username, e.g. api-user@yourcompany.com
+  secret?: string;
+  integrationCode?: string; // Tracking identifier of the API user
+}
+
+// Any zone answers zone discovery; it returns the zone the user belongs to
+const ZONE_DISCOVERY_URL = 'https://webservices.autotask.net/atservicesrest/V1.0';
+
+// Autotask API types
+interface AutotaskZoneInformation {
+  zoneName: string;
+  url: string; // e.g. https://webservices5.autotask.net/ATServicesRest/
+  webUrl: string;
+  ci: number;
+}
+
+interface AutotaskQueryFilter {
+  op: 'eq' | 'gt' | 'in';
+  field: string;
+  value: unknown;
+}
+
+interface AutotaskQueryResponse<T> {
+  items: T[];
+  pageDetails: {
+    count: number;
+    requestCount: number;
+    prevPageUrl: string | null;
+    nextPageUrl: string | null;
+  };
+}
+
+interface AutotaskConfigurationItem {
+  id: number;
+  companyID: number;
+  productID: number;
+  serialNumber?: string;
+  referenceTitle?: string; // Display name, usually the hostname
+  isActive: boolean;
+  warrantyExpirationDate?: string; // e.g. 2026-06-04T00:00:00Z
+}
+
+interface AutotaskProduct {
+  id: number;
+  name: string;
+  manufacturerName?: string;
+  manufacturerProductName?: string;
+}
+
+interface AutotaskCompany {
+  id: number;
+  companyName: string;
+}
+
+// Mock data for demo mode
+const mockCompanies: AutotaskCompany[] = [
+  { id: 29684001, companyName: 'Bluebird Architects' },
+  { id: 29684002, companyName: 'Cedar Grove School District' }
+];
+
+const mockProducts: AutotaskProduct[] = [
+  { id: 29682001, name: 'Dell OptiPlex 7070', manufacturerName: 'Dell', manufacturerProductName: 'OptiPlex 7070' },
+  { id: 29682002, name: 'HP EliteBook 850 G7', manufacturerName: 'HP', manufacturerProductName: 'EliteBook 850 G7' },
+  { id: 29682003, name: 'Lenovo ThinkStation P500', manufacturerName: 'Lenovo', manufacturerProductName: 'ThinkStation P500' }
+];
+
+const mockConfigurationItems: AutotaskConfigurationItem[] = [
+  {
+    id: 1001,
+    companyID: 29684001,
+    productID: 29682001,
+    serialNumber: 'JH2RRW1',
+    referenceTitle: 'BLUEBIRD-CAD01',
+    isActive: true,
+    warrantyExpirationDate: '2026-06-04T00:00:00Z'
+  },
+  {
+    id: 1002,
+    companyID: 29684002,
+    productID: 29682002,
+    serialNumber: 'CZC8178FY9',
+    referenceTitle: 'CEDAR-STAFF-LT12',
+    isActive: true
+  },
+  {
+    id: 1003,
+    companyID: 29684001,
+    productID: 29682003,
+    serialNumber: 'CCKWN63',
+    referenceTitle: 'BLUEBIRD-RENDER',
+    isActive: true
+  }
+];
+
+/**
+ * Sets up axios mock adapter for demo mode
+ */
+function setupMockAdapter(axiosInstance: AxiosInstance): void {
+  const mock = new MockAdapter(axiosInstance, { onNoMatch: "passthrough" });
+
+  // Mock zone discovery
+  mock.onGet(/.*\/zoneInformation/).reply(200, {
+    zoneName: 'Demo Zone',
+    url: 'https://webservices-demo.autotask.net/ATServicesRest/',
+    webUrl: 'https://ww-demo.autotask.net/',
+    ci: 0
+  });
+
+  // Mock entity information used to check the connection
+  mock.onGet(/.*\/ConfigurationItems\/entityInformation/).reply(200, {
+    info: { name: 'ConfigurationItem', canCreate: true, canUpdate: true, canQuery: true }
+  });
+
+  // Mock queries (a single page each)
+  const singlePage = <T>(items: T[]): AutotaskQueryResponse<T> => ({
+    items,
+    pageDetails: { count: items.length, requestCount: 500, prevPageUrl: null, nextPageUrl: null }
+  });
+  mock.onPost(/.*\/ConfigurationItems\/query/).reply(200, singlePage(mockConfigurationItems));
+  mock.onPost(/.*\/Products\/query/).reply(200, singlePage(mockProducts));
+  mock.onPost(/.*\/Companies\/query/).reply(200, singlePage(mockCompanies));
+
+  // Mock the configuration item update endpoint
+  mock.onPatch(/.*\/ConfigurationItems$/).reply(config => [200, { itemId: JSON.parse(config.data).id }]);
+}
+
+function hasCompleteCredentials(credentials?: AutotaskCredentials): boolean {
+  return Boolean(credentials?.username?.trim() && credentials?.secret && credentials?.integrationCode?.trim());
+}
+
+/**
+ * Looks up the API zone of the user and creates a client for it
+ */
+async function createAutotaskClient(credentials?: AutotaskCredentials): Promise<AxiosInstance> {
+  try {
+    const username = credentials?.username?.trim() || 'demo@example.com';
+    const useDemoMode = !hasCompleteCredentials(credentials);
+
+    logger.info(`Discovering Autotask zone for ${username} ${useDemoMode ? '(DEMO MODE)' : ''}`, 'autotask-api', {
+      username,
+      mode: useDemoMode ? 'demo' : 'api'
+    });
+
+    const discoveryClient = axios.create({ baseURL: ZONE_DISCOVERY_URL });
+    if (useDemoMode) {
+      setupMockAdapter(discoveryClient);
+    }
+
+    const zoneResponse = await discoveryClient.get<AutotaskZoneInformation>('/zoneInformation', {
+      params: { user: username }
+    });
+
+    if (!zoneResponse.data?.url) {
+      logger.error('Zone URL not found in zone information response', 'autotask-api');
+      throw new Error('Could not determine the Autotask zone for this user');
+    }
+
+    logger.info(`Using Autotask zone ${zoneResponse.data.zoneName}`, 'autotask-api', {
+      zoneName: zoneResponse.data.zoneName,
+      zoneUrl: zoneResponse.data.url
+    });
+
+    const axiosInstance = axios.create({
+      baseURL: `${zoneResponse.data.url.replace(/\/+$/, '')}/V1.0`,
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+        'UserName': username,
+        'Secret': credentials?.secret || '',
+        'ApiIntegrationCode': credentials?.integrationCode || ''
+      }
+    });
+
+    if (useDemoMode) {
+      setupMockAdapter(axiosInstance);
+    }
+
+    return axiosInstance;
+  } catch (error) {
+    logger.error(`Error connecting to Autotask: ${error}`, 'autotask-api', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+const MAX_RECORDS = 500; // Autotask's maximum page size
+const MAX_PAGES = 100; // Limit to prevent excessive API calls
+
+/**
+ * Queries an entity page by page. Autotask returns items in ID order, so each page asks
+ * for IDs after the last one seen.
+ */
+async function queryAll<T extends { id: number }>(
+  client: AxiosInstance,
+  entity: string,
+  filter: AutotaskQueryFilter[]
+): Promise<T[]> {
+  const items: T[] = [];
+  let lastId = 0;
+
+  for (let page = 1; page <= MAX_PAGES; page++) {
+    logger.debug(`Querying ${entity} page ${page} (${MAX_RECORDS} items per page)`, 'autotask-api', { page });
+    const response = await client.post<AutotaskQueryResponse<T>>(`/${entity}/query`, {
+      MaxRecords: MAX_RECORDS,
+      filter: [...filter, { op: 'gt', field: 'id', value: lastId }]
+    });
+
+    if (!Array.isArray(response.data?.items)) {
+      logger.error(`Unexpected ${entity} response format from Autotask`, 'autotask-api');
+      throw new Error('Unexpected API response format');
+    }
+
+    items.push(...response.data.items);
+    if (response.data.items.length < MAX_RECORDS) {
+      return items;
+    }
+    lastId = Math.max(...response.data.items.map(item => item.id));
+  }
+
+  logger.warn(`Reached maximum page limit (${MAX_PAGES}) for ${entity}. Some records may not be returned.`, 'autotask-api', {
+    maxPages: MAX_PAGES
+  });
+  return items;
+}
+
+/**
+ * Looks up entities by ID, in batches that fit one query each
+ */
+async function queryByIds<T extends { id: number }>(client: AxiosInstance, entity: string, ids: number[]): Promise<Map<number, T>> {
+  const result = new Map<number, T>();
+  const uniqueIds = [...new Set(ids)];
+
+  for (let i = 0; i < uniqueIds.length; i += MAX_RECORDS) {
+    const batch = uniqueIds.slice(i, i + MAX_RECORDS);
+    const items = await queryAll<T>(client, entity, [{ op: 'in', field: 'id', value: batch }]);
+    for (const item of items) {
+      result.set(item.id, item);
+    }
+  }
+  return result;
+}
+
+/**
+ * Fetches active configuration items from Autotask
+ *
+ * This function can operate in two modes:
+ * 1. Demo mode - returns mock data (when credentials are incomplete)
+ * 2. Real API mode - calls the Autotask REST API (when complete credentials are provided)
+ *
+ * Example usage:
+ *
+ * const devices = await fetchAutotaskDevices({
+ *   username: 'api-user@yourcompany.com',
+ *   secret: 'your-api-secret',
+ *   integrationCode: 'YOUR-TRACKING-IDENTIFIER'
+ * });
+ */
+export async function fetchAutotaskDevices(credentials?: AutotaskCredentials): Promise<Device[]> {
+  try {
+    const client = await createAutotaskClient(credentials);
+    return await fetchDevicesUsingRealAPI(client);
+  } catch (error) {
+    // More user-friendly error message
+    if (error instanceof Error) {
+      if (error.message.includes('401')) {
+        throw new Error('Authentication failed. Please check your Autotask username, secret and integration code.');
+      } else if (error.message.includes('403')) {
+        throw new Error('Autotask denied access. Please check the API user\'s security level allows viewing configuration items, products and companies.');
+      } else if (error.message.includes('404')) {
+        throw new Error('Autotask API endpoint not found. Please check your API username.');
+      } else if (error.message.includes('ECONNREFUSED') || error.message.includes('ENOTFOUND')) {
+        throw new Error('Could not connect to Autotask. Please check your network connection.');
+      }
+    }
+    // Re-throw the original error if it doesn't match any known patterns
+    throw error;
+  }
+}
+
+/**
+ * Main function to fetch configuration items using the real Autotask API
+ */
+async function fetchDevicesUsingRealAPI(client: AxiosInstance): Promise<Device[]> {
+  try {
+    logger.info('Fetching active configuration items from Autotask', 'autotask-api');
+
+    const configurationItems = await queryAll<AutotaskConfigurationItem>(client, 'ConfigurationItems', [
+      { op: 'eq', field: 'isActive', value: true }
+    ]);
+    // Skip configuration items without serial numbers (e.g. software and services)
+    const withSerials = configurationItems.filter(item => item.serialNumber?.trim());
+
+    const products = await queryByIds<AutotaskProduct>(client, 'Products', withSerials.map(item => item.productID));
+    const companies = await queryByIds<AutotaskCompany>(client, 'Companies', withSerials.map(item => item.companyID));
+
+    logger.info(`Found ${configurationItems.length} active configuration items, ${withSerials.length} with serial numbers`, 'autotask-api', {
+      configurationItemCount: configurationItems.length,
+      withSerialCount: withSerials.length
+    });
+
+    const result: Device[] = withSerials.map(item => {
+      const product = products.get(item.productID);
+      return {
+        sourceDeviceId: item.id.toString(),
+        sourcePlatform: Platform.AUTOTASK,
+        serialNumber: item.serialNumber!.trim(),
+        manufacturer: determineManufacturer(product?.manufacturerName || product?.name || ''),
+        model: product?.manufacturerProductName || product?.name || '',
+        hostname: item.referenceTitle || '',
+        clientId: item.companyID.toString(),
+        clientName: companies.get(item.companyID)?.companyName || '',
+        warrantyEndDate: item.warrantyExpirationDate ? item.warrantyExpirationDate.split('T')[0] : undefined
+      };
+    });
+
+    logger.info(`Completed fetching configuration items. Total devices found: ${result.length}`, 'autotask-api', {
+      totalDevices: result.length
+    });
+    return result;
+  } catch (error) {
+    logger.error(`Error fetching Autotask configuration items: ${error}`, 'autotask-api', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Updates a configuration item's warranty expiration date in Autotask
+ *
+ * This function can operate in two modes:
+ * 1. Demo mode - simulates updating warranty info (when credentials are incomplete)
+ * 2. Real API mode - calls the Autotask REST API (when complete credentials are provided)
+ *
+ * @param configurationItemId The Autotask configuration item ID to update
+ * @param warrantyEndDate The warranty expiration date in ISO format (YYYY-MM-DD)
+ * @param credentials Optional Autotask credentials
+ * @returns True if update was successful, false otherwise
+ */
+export async function updateAutotaskWarranty(
+  configurationItemId: string,
+  warrantyEndDate: string,
+  credentials?: AutotaskCredentials
+): Promise<boolean> {
+  try {
+    // Autotask configuration item IDs are numeric; anything else would be sent as NaN
+    if (!/^\d+$/.test(configurationItemId)) {
+      throw new Error(`Invalid Autotask configuration item ID: ${configurationItemId}`);
+    }
+
+    logger.info(`Updating Autotask warranty for configuration item ${configurationItemId} to ${warrantyEndDate}`, 'autotask-api', {
+      configurationItemId,
+      warrantyEndDate
+    });
+
+    const client = await createAutotaskClient(credentials);
+
+    // PATCH only changes the fields sent
+    const response = await client.patch('/ConfigurationItems', {
+      id: Number(configurationItemId),
+      warrantyExpirationDate: `${warrantyEndDate}T00:00:00Z`
+    });
+
+    logger.info('Autotask warranty update response received', 'autotask-api', {
+      statusCode: response.status
+    });
+
+    // Consider any 2xx status code as success
+    return response.status >= 200 && response.status < 300;
+  } catch (error) {
+    logger.error(`Error updating Autotask warranty for configuration item ${configurationItemId}: ${error}`, 'autotask-api', {
+      configurationItemId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return false;
+  }
+}
+
+export const autotaskConnector: PlatformConnector<AutotaskCredentials> = {
+  ...autotaskDefinition,
+  fetchDevices: (credentials) => fetchAutotaskDevices(credentials),
+  writeWarranty: (deviceId, warranty, credentials) => updateAutotaskWarranty(deviceId, warranty.endDate, credentials),
+  async testConnection(credentials) {
+    if (!hasCompleteCredentials(credentials)) {
+      return false;
+    }
+    try {
+      const client = await createAutotaskClient(credentials);
+      await client.get('/ConfigurationItems/entityInformation');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+};
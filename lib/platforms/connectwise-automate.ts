@@ -0,0 +1,281 @@
+import { Device } from '@/types/device';
+import { determineManufacturer } from '@/lib/utils/manufacturerUtils';
+import axios, { AxiosInstance } from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { logger } from '@/lib/logger';
+import { Platform } from '@/types/platform';
+import { PlatformConnector } from './types';
+import { connectWiseAutomateDefinition } from './definitions';
+
+export interface ConnectWiseAutomateCredentials {
+  serverUrl?: string;
+  clientId?: string; // Integrator client ID from the ConnectWise developer portal
+  username?: string;
+  password?: string;
+}
+
+// ConnectWise Automate API types
+interface AutomateTokenResponse {
+  AccessToken: string;
+  TokenType: string;
+  ExpirationDate: string;
+}
+
+interface AutomateComputer {
+  Id: number;
+  ComputerName: string;
+  Client?: {
+    Id: number;
+    Name: string;
+  };
+  Type?: string; // e.g. "Workstation" or "Server"
+  SerialNumber?: string;
+  BiosManufacturer?: string;
+  Model?: string;
+  TotalMemory?: number; // Megabytes
+  LocalIPAddress?: string;
+  MACAddress?: string;
+}
+
+// Mock data for demo mode
+const mockComputers: AutomateComputer[] = [
+  {
+    Id: 201,
+    ComputerName: 'HARBOR-RECEPTION',
+    Client: { Id: 11, Name: 'Harbor Veterinary Clinic' },
+    Type: 'Workstation',
+    SerialNumber: 'JH2RRW1',
+    BiosManufacturer: 'Dell Inc.',
+    Model: 'OptiPlex 7070',
+    TotalMemory: 16384,
+    LocalIPAddress: '192.168.10.21',
+    MACAddress: '00-1A-2B-3C-4D-70'
+  },
+  {
+    Id: 202,
+    ComputerName: 'SUMMIT-LT-04',
+    Client: { Id: 12, Name: 'Summit Accounting' },
+    Type: 'Workstation',
+    SerialNumber: 'CZC8178FY9',
+    BiosManufacturer: 'HP',
+    Model: 'HP EliteBook 850 G7',
+    TotalMemory: 8192
+  },
+  {
+    Id: 203,
+    ComputerName: 'SUMMIT-VM-01',
+    Client: { Id: 12, Name: 'Summit Accounting' },
+    Type: 'Server',
+    SerialNumber: '', // Virtual machines often report no serial
+    BiosManufacturer: 'Microsoft Corporation',
+    Model: 'Virtual Machine'
+  }
+];
+
+/**
+ * Sets up axios mock adapter for demo mode
+ */
+function setupMockAdapter(axiosInstance: AxiosInstance): void {
+  const mock = new MockAdapter(axiosInstance, { onNoMatch: "passthrough" });
+
+  // Mock authentication endpoint
+  mock.onPost(/.*\/cwa\/api\/v1\/apitoken/).reply(200, {
+    AccessToken: 'mock-access-token-for-demo',
+    TokenType: 'Bearer',
+    ExpirationDate: new Date(Date.now() + 3600 * 1000).toISOString()
+  });
+
+  // Mock computers endpoint (a single page)
+  mock.onGet(/.*\/cwa\/api\/v1\/computers/).reply(200, mockComputers);
+}
+
+function hasCompleteCredentials(credentials?: ConnectWiseAutomateCredentials): boolean {
+  return Boolean(
+    credentials?.serverUrl?.trim() &&
+    credentials?.clientId?.trim() &&
+    credentials?.username?.trim() &&
+    credentials?.password
+  );
+}
+
+/**
+ * Fetches computers from ConnectWise Automate
+ *
+ * This function can operate in two modes:
+ * 1. Demo mode - returns mock data (when credentials are incomplete)
+ * 2. Real API mode - calls the Automate REST API (when complete credentials are provided)
+ *
+ * Example usage:
+ *
+ * const devices = await fetchConnectWiseAutomateDevices({
+ *   serverUrl: 'yourcompany.hostedrmm.com',
+ *   clientId: 'your-integrator-client-id',
+ *   username: 'api-user',
+ *   password: 'api-user-password'
+ * });
+ */
+export async function fetchConnectWiseAutomateDevices(credentials?: ConnectWiseAutomateCredentials): Promise<Device[]> {
+  try {
+    const client = await createAutomateClient(credentials);
+    return await fetchDevicesUsingRealAPI(client);
+  } catch (error) {
+    // More user-friendly error message
+    if (error instanceof Error) {
+      if (error.message.includes('401') || error.message.includes('400')) {
+        throw new Error('Authentication failed. Please check your ConnectWise Automate username, password and client ID.');
+      } else if (error.message.includes('404')) {
+        throw new Error('ConnectWise Automate API endpoint not found. Please check your server URL.');
+      } else if (error.message.includes('ECONNREFUSED') || error.message.includes('ENOTFOUND')) {
+        throw new Error('Could not connect to ConnectWise Automate server. Please check your server URL and network connection.');
+      }
+    }
+    // Re-throw the original error if it doesn't match any known patterns
+    throw error;
+  }
+}
+
+/**
+ * Creates an Automate API client authenticated with a user token
+ */
+async function createAutomateClient(credentials?: ConnectWiseAutomateCredentials): Promise<AxiosInstance> {
+  try {
+    const serverUrl = credentials?.serverUrl?.trim() || 'demo.hostedrmm.com';
+    // Ensure URL has proper protocol
+    const baseURL = (serverUrl.startsWith('http') ? serverUrl : `https://${serverUrl}`).replace(/\/+$/, '');
+    const useDemoMode = !hasCompleteCredentials(credentials);
+
+    logger.info(`Creating ConnectWise Automate client at ${baseURL} ${useDemoMode ? '(DEMO MODE)' : ''}`, 'cw-automate-api', {
+      baseURL,
+      mode: useDemoMode ? 'demo' : 'api'
+    });
+
+    const axiosInstance = axios.create({
+      baseURL: `${baseURL}/cwa/api/v1`,
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+        'ClientId': credentials?.clientId || ''
+      }
+    });
+
+    // If demo mode is needed, set up mocking
+    if (useDemoMode) {
+      setupMockAdapter(axiosInstance);
+    }
+
+    logger.info('Authenticating with ConnectWise Automate', 'cw-automate-api');
+
+    const authResponse = await axiosInstance.post<AutomateTokenResponse>('/apitoken', {
+      UserName: credentials?.username || '',
+      Password: credentials?.password || ''
+    });
+
+    if (!authResponse.data?.AccessToken) {
+      logger.error('Access token not found in response', 'cw-automate-api');
+      throw new Error('Access token not found in authentication response');
+    }
+
+    logger.info('Successfully obtained access token', 'cw-automate-api');
+
+    axiosInstance.defaults.headers.common['Authorization'] = `Bearer ${authResponse.data.AccessToken}`;
+
+    return axiosInstance;
+  } catch (error) {
+    logger.error(`Error authenticating with ConnectWise Automate: ${error}`, 'cw-automate-api', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Main function to fetch computers using the real Automate API
+ */
+async function fetchDevicesUsingRealAPI(client: AxiosInstance): Promise<Device[]> {
+  try {
+    const result: Device[] = [];
+    const pageSize = 250;
+    const maxPages = 100; // Limit to prevent excessive API calls
+
+    for (let page = 1; page <= maxPages; page++) {
+      logger.debug(`Fetching computers page ${page} (${pageSize} items per page)`, 'cw-automate-api', {
+        page,
+        pageSize
+      });
+      const response = await client.get<AutomateComputer[]>('/computers', {
+        params: { page, pageSize }
+      });
+
+      if (!Array.isArray(response.data)) {
+        logger.error('Unexpected response format from ConnectWise Automate', 'cw-automate-api');
+        throw new Error('Unexpected API response format');
+      }
+
+      for (const computer of response.data) {
+        const serialNumber = computer.SerialNumber?.trim();
+
+        // Skip computers without serial numbers (e.g. most virtual machines)
+        if (!serialNumber) {
+          continue;
+        }
+
+        result.push({
+          sourceDeviceId: computer.Id.toString(),
+          sourcePlatform: Platform.CONNECTWISE_AUTOMATE,
+          serialNumber,
+          manufacturer: determineManufacturer(computer.BiosManufacturer || ''),
+          model: computer.Model || '',
+          hostname: computer.ComputerName || '',
+          clientId: computer.Client?.Id.toString() || '',
+          clientName: computer.Client?.Name || '',
+          deviceClass: computer.Type || '',
+          totalMemory: computer.TotalMemory ? computer.TotalMemory * 1024 ** 2 : undefined,
+          networkInterfaces: computer.MACAddress
+            ? [{ macAddress: computer.MACAddress, ipv4: computer.LocalIPAddress || undefined }]
+            : undefined
+        });
+      }
+
+      if (response.data.length < pageSize) {
+        break;
+      }
+      if (page === maxPages) {
+        logger.warn(`Reached maximum page limit (${maxPages}). Some devices may not be returned.`, 'cw-automate-api', {
+          maxPages
+        });
+      }
+    }
+
+    logger.info(`Completed fetching computers. Total devices (with serial number) found: ${result.length}`, 'cw-automate-api', {
+      totalDevices: result.length
+    });
+    return result;
+  } catch (error) {
+    logger.error(`Error fetching ConnectWise Automate computers: ${error}`, 'cw-automate-api', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+export const connectWiseAutomateConnector: PlatformConnector<ConnectWiseAutomateCredentials> = {
+  ...connectWiseAutomateDefinition,
+  fetchDevices: (credentials) => fetchConnectWiseAutomateDevices(credentials),
+  async writeWarranty(deviceId) {
+    logger.warn(`ConnectWise Automate does not support warranty write-back, skipping device ${deviceId}`, 'cw-automate-api', {
+      deviceId
+    });
+    return false;
+  },
+  async testConnection(credentials) {
+    if (!hasCompleteCredentials(credentials)) {
+      return false;
+    }
+    try {
+      await createAutomateClient(credentials);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+};
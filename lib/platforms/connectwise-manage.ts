@@ -0,0 +1,332 @@
+import { Device } from '@/types/device';
+import { determineManufacturer } from '@/lib/utils/manufacturerUtils';
+import axios, { AxiosInstance } from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { logger } from '@/lib/logger';
+import { Platform } from '@/types/platform';
+import { PlatformConnector } from './types';
+import { connectWiseManageDefinition } from './definitions';
+
+export interface ConnectWiseManageCredentials {
+  url?: string; // API site, e.g. api-na.myconnectwise.net
+  companyId?: string; // Company ID used to sign in to Manage
+  publicKey?: string;
+  privateKey?: string;
+  clientId?: string; // Integrator client ID from the ConnectWise developer portal
+}
+
+// ConnectWise Manage API types
+interface ManageReference {
+  id: number;
+  name: string;
+}
+
+interface ManageConfiguration {
+  id: number;
+  name: string;
+  type?: ManageReference;
+  company?: ManageReference & { identifier?: string };
+  manufacturer?: ManageReference;
+  modelNumber?: string;
+  serialNumber?: string;
+  tagNumber?: string;
+  warrantyExpirationDate?: string; // e.g. 2026-06-04T00:00:00Z
+  ipAddress?: string;
+  macAddress?: string;
+  activeFlag?: boolean;
+}
+
+// Mock data for demo mode
+const mockConfigurations: ManageConfiguration[] = [
+  {
+    id: 301,
+    name: 'HARBOR-RECEPTION',
+    type: { id: 1, name: 'Workstation' },
+    company: { id: 21, identifier: 'HarborVet', name: 'Harbor Veterinary Clinic' },
+    manufacturer: { id: 1, name: 'Dell' },
+    modelNumber: 'OptiPlex 7070',
+    serialNumber: 'JH2RRW1',
+    warrantyExpirationDate: '2026-06-04T00:00:00Z',
+    ipAddress: '192.168.10.21',
+    macAddress: '00:1A:2B:3C:4D:70',
+    activeFlag: true
+  },
+  {
+    id: 302,
+    name: 'SUMMIT-LT-04',
+    type: { id: 2, name: 'Laptop' },
+    company: { id: 22, identifier: 'SummitAcct', name: 'Summit Accounting' },
+    manufacturer: { id: 2, name: 'HP' },
+    modelNumber: 'EliteBook 850 G7',
+    serialNumber: 'CZC8178FY9',
+    activeFlag: true
+  },
+  {
+    id: 303,
+    name: 'SUMMIT-WS-02',
+    type: { id: 1, name: 'Workstation' },
+    company: { id: 22, identifier: 'SummitAcct', name: 'Summit Accounting' },
+    manufacturer: { id: 3, name: 'Lenovo' },
+    modelNumber: 'ThinkStation P500',
+    serialNumber: 'CCKWN63',
+    activeFlag: true
+  }
+];
+
+/**
+ * Sets up axios mock adapter for demo mode
+ */
+function setupMockAdapter(axiosInstance: AxiosInstance): void {
+  const mock = new MockAdapter(axiosInstance, { onNoMatch: "passthrough" });
+
+  // Mock the system info endpoint used to check the connection
+  mock.onGet(/.*\/system\/info/).reply(200, {
+    version: 'v2024.1',
+    isCloud: true,
+    cloudRegion: 'NA'
+  });
+
+  // Mock configurations endpoint (a single page)
+  mock.onGet(/.*\/company\/configurations$/).reply(200, mockConfigurations);
+
+  // Mock the configuration update endpoint for any configuration ID
+  mock.onPatch(/.*\/company\/configurations\/\d+/).reply(config => {
+    const id = Number(config.url?.split('/').pop());
+    const configuration = mockConfigurations.find(item => item.id === id);
+    return configuration ? [200, configuration] : [404, { code: 'NotFound', message: 'Configuration not found' }];
+  });
+}
+
+function hasCompleteCredentials(credentials?: ConnectWiseManageCredentials): boolean {
+  return Boolean(
+    credentials?.url?.trim() &&
+    credentials?.companyId?.trim() &&
+    credentials?.publicKey?.trim() &&
+    credentials?.privateKey?.trim() &&
+    credentials?.clientId?.trim()
+  );
+}
+
+/**
+ * Creates a Manage API client. Manage uses API member keys with basic auth, so there is no
+ * token to fetch; getting the system info checks the keys.
+ */
+async function createManageClient(credentials?: ConnectWiseManageCredentials): Promise<AxiosInstance> {
+  try {
+    const url = credentials?.url?.trim() || 'api-na.myconnectwise.net';
+    // Ensure URL has proper protocol
+    const siteUrl = (url.startsWith('http') ? url : `https://${url}`).replace(/\/+$/, '');
+    const useDemoMode = !hasCompleteCredentials(credentials);
+
+    logger.info(`Creating ConnectWise Manage client at ${siteUrl} ${useDemoMode ? '(DEMO MODE)' : ''}`, 'cw-manage-api', {
+      siteUrl,
+      mode: useDemoMode ? 'demo' : 'api'
+    });
+
+    const authorization = Buffer.from(
+      `${credentials?.companyId || ''}+${credentials?.publicKey || ''}:${credentials?.privateKey || ''}`
+    ).toString('base64');
+
+    const axiosInstance = axios.create({
+      baseURL: `${siteUrl}/v4_6_release/apis/3.0`,
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+        'Authorization': `Basic ${authorization}`,
+        'clientId': credentials?.clientId || ''
+      }
+    });
+
+    // If demo mode is needed, set up mocking
+    if (useDemoMode) {
+      setupMockAdapter(axiosInstance);
+    }
+
+    await axiosInstance.get('/system/info');
+    logger.info('Successfully connected to ConnectWise Manage', 'cw-manage-api');
+
+    return axiosInstance;
+  } catch (error) {
+    logger.error(`Error connecting to ConnectWise Manage: ${error}`, 'cw-manage-api', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Fetches configurations from ConnectWise Manage
+ *
+ * This function can operate in two modes:
+ * 1. Demo mode - returns mock data (when credentials are incomplete)
+ * 2. Real API mode - calls the Manage REST API (when complete credentials are provided)
+ *
+ * Example usage:
+ *
+ * const devices = await fetchConnectWiseManageDevices({
+ *   url: 'api-na.myconnectwise.net',
+ *   companyId: 'yourcompany',
+ *   publicKey: 'your-public-key',
+ *   privateKey: 'your-private-key',
+ *   clientId: 'your-integrator-client-id'
+ * });
+ */
+export async function fetchConnectWiseManageDevices(credentials?: ConnectWiseManageCredentials): Promise<Device[]> {
+  try {
+    const client = await createManageClient(credentials);
+    return await fetchDevicesUsingRealAPI(client);
+  } catch (error) {
+    // More user-friendly error message
+    if (error instanceof Error) {
+      if (error.message.includes('401')) {
+        throw new Error('Authentication failed. Please check your ConnectWise Manage company ID and API keys.');
+      } else if (error.message.includes('403')) {
+        throw new Error('ConnectWise Manage denied access. Please check the API member\'s security role allows reading and editing configurations.');
+      } else if (error.message.includes('404')) {
+        throw new Error('ConnectWise Manage API endpoint not found. Please check your site URL.');
+      } else if (error.message.includes('ECONNREFUSED') || error.message.includes('ENOTFOUND')) {
+        throw new Error('Could not connect to ConnectWise Manage. Please check your site URL and network connection.');
+      }
+    }
+    // Re-throw the original error if it doesn't match any known patterns
+    throw error;
+  }
+}
+
+/**
+ * Main function to fetch configurations using the real Manage API
+ */
+async function fetchDevicesUsingRealAPI(client: AxiosInstance): Promise<Device[]> {
+  try {
+    const result: Device[] = [];
+    const pageSize = 1000; // Manage's maximum
+    const maxPages = 100; // Limit to prevent excessive API calls
+
+    for (let page = 1; page <= maxPages; page++) {
+      logger.debug(`Fetching configurations page ${page} (${pageSize} items per page)`, 'cw-manage-api', {
+        page,
+        pageSize
+      });
+      const response = await client.get<ManageConfiguration[]>('/company/configurations', {
+        params: { page, pageSize, conditions: 'activeFlag=true' }
+      });
+
+      if (!Array.isArray(response.data)) {
+        logger.error('Unexpected response format from ConnectWise Manage', 'cw-manage-api');
+        throw new Error('Unexpected API response format');
+      }
+
+      for (const configuration of response.data) {
+        const serialNumber = configuration.serialNumber?.trim();
+
+        // Skip inactive configurations and ones without serial numbers (e.g. licenses, contacts)
+        if (configuration.activeFlag === false || !serialNumber) {
+          continue;
+        }
+
+        result.push({
+          sourceDeviceId: configuration.id.toString(),
+          sourcePlatform: Platform.CONNECTWISE_MANAGE,
+          serialNumber,
+          manufacturer: determineManufacturer(configuration.manufacturer?.name || configuration.modelNumber || ''),
+          model: configuration.modelNumber || '',
+          hostname: configuration.name || '',
+          clientId: configuration.company?.id.toString() || '',
+          clientName: configuration.company?.name || '',
+          deviceClass: configuration.type?.name || '',
+          warrantyEndDate: configuration.warrantyExpirationDate ? configuration.warrantyExpirationDate.split('T')[0] : undefined,
+          networkInterfaces: configuration.macAddress
+            ? [{ macAddress: configuration.macAddress, ipv4: configuration.ipAddress || undefined }]
+            : undefined
+        });
+      }
+
+      if (response.data.length < pageSize) {
+        break;
+      }
+      if (page === maxPages) {
+        logger.warn(`Reached maximum page limit (${maxPages}). Some devices may not be returned.`, 'cw-manage-api', {
+          maxPages
+        });
+      }
+    }
+
+    logger.info(`Completed fetching configurations. Total devices (with serial number) found: ${result.length}`, 'cw-manage-api', {
+      totalDevices: result.length
+    });
+    return result;
+  } catch (error) {
+    logger.error(`Error fetching ConnectWise Manage configurations: ${error}`, 'cw-manage-api', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Updates a configuration's warranty expiration date in ConnectWise Manage
+ *
+ * This function can operate in two modes:
+ * 1. Demo mode - simulates updating warranty info (when credentials are incomplete)
+ * 2. Real API mode - calls the Manage REST API (when complete credentials are provided)
+ *
+ * @param configurationId The Manage configuration ID to update
+ * @param warrantyEndDate The warranty expiration date in ISO format (YYYY-MM-DD)
+ * @param credentials Optional ConnectWise Manage credentials
+ * @returns True if update was successful, false otherwise
+ */
+export async function updateConnectWiseManageWarranty(
+  configurationId: string,
+  warrantyEndDate: string,
+  credentials?: ConnectWiseManageCredentials
+): Promise<boolean> {
+  try {
+    // The ID goes into the request path, so only accept Manage's numeric configuration IDs
+    if (!/^\d+$/.test(configurationId)) {
+      throw new Error(`Invalid ConnectWise Manage configuration ID: ${configurationId}`);
+    }
+
+    logger.info(`Updating ConnectWise Manage warranty for configuration ${configurationId} to ${warrantyEndDate}`, 'cw-manage-api', {
+      configurationId,
+      warrantyEndDate
+    });
+
+    const client = await createManageClient(credentials);
+
+    // Manage takes JSON Patch operations and UTC date-times
+    const response = await client.patch(`/company/configurations/${configurationId}`, [
+      { op: 'replace', path: 'warrantyExpirationDate', value: `${warrantyEndDate}T00:00:00Z` }
+    ]);
+
+    logger.info('ConnectWise Manage warranty update response received', 'cw-manage-api', {
+      statusCode: response.status
+    });
+
+    // Consider any 2xx status code as success
+    return response.status >= 200 && response.status < 300;
+  } catch (error) {
+    logger.error(`Error updating ConnectWise Manage warranty for configuration ${configurationId}: ${error}`, 'cw-manage-api', {
+      configurationId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return false;
+  }
+}
+
+export const connectWiseManageConnector: PlatformConnector<ConnectWiseManageCredentials> = {
+  ...connectWiseManageDefinition,
+  fetchDevices: (credentials) => fetchConnectWiseManageDevices(credentials),
+  writeWarranty: (deviceId, warranty, credentials) =>
+    updateConnectWiseManageWarranty(deviceId, warranty.endDate, credentials),
+  async testConnection(credentials) {
+    if (!hasCompleteCredentials(credentials)) {
+      return false;
+    }
+    try {
+      await createManageClient(credentials);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+};
@@ -4,6 +4,8 @@ import axios, { AxiosInstance, AxiosError } from 'axios';
 import { logger } from '@/lib/logger';
 import { determineManufacturer } from '@/lib/utils/manufacturerUtils';
 import { Platform } from '@/types/platform';
+import { PlatformConnector } from './types';
+import { dattoDefinition } from './definitions';
 
 interface DattoCredentials {
   url?: string;
@@ -21,6 +23,16 @@ interface TokenResponse {
 interface SystemInfo {
   manufacturer: string;
   model: string;
+  totalPhysicalMemory?: number; // Bytes
+  totalCpuCores?: number;
+}
+
+interface Nic {
+  instance?: string;
+  ipv4?: string;
+  ipv6?: string;
+  macAddress?: string;
+  type?: string;
 }
 
 interface Bios {
@@ -30,6 +42,7 @@ interface Bios {
 interface DeviceAudit {
   systemInfo: SystemInfo;
   bios: Bios;
+  nics?: Nic[];
   warrantyInfo?: {
     warrantyStartDate?: string;
     warrantyEndDate?: string;
@@ -102,7 +115,10 @@ export async function fetchDattoDevices(credentials?: DattoCredentials): Promise
           serialNumber: 'DELL00123456',
           manufacturer: Manufacturer.DELL,
           model: 'Latitude 5420 (mock data)',
-          hostname: 'DESKTOP-ABCDE1'
+          hostname: 'DESKTOP-ABCDE1',
+          totalMemory: 16 * 1024 * 1024 * 1024,
+          totalCpuCores: 4,
+          networkInterfaces: [{ macAddress: '00:1A:2B:3C:4D:01', ipv4: '192.168.1.101' }]
         },
         {
           sourceDeviceId: 'dev-2',
@@ -110,6 +126,8 @@ export async function fetchDattoDevices(credentials?: DattoCredentials): Promise
           manufacturer: Manufacturer.HP,
           model: 'EliteBook 840 G8 (mock data)',
           hostname: 'DESKTOP-FGHIJ2',
+          totalMemory: 8 * 1024 * 1024 * 1024,
+          totalCpuCores: 4,
           // This device already has warranty info
           warrantyEndDate: '2025-01-15'
         },
@@ -457,7 +475,16 @@ async function fetchDevicesUsingRealAPI(client: AxiosInstance): Promise<Device[]
           model: audit.systemInfo.model || '',
           hostname: dattoDevice.hostname,
           clientName: dattoDevice.siteName,
-          warrantyEndDate: warrantyEndDate
+          warrantyEndDate: warrantyEndDate,
+          totalMemory: audit.systemInfo.totalPhysicalMemory || undefined,
+          totalCpuCores: audit.systemInfo.totalCpuCores || undefined,
+          networkInterfaces: (audit.nics || [])
+            .filter(nic => nic.macAddress)
+            .map(nic => ({
+              macAddress: nic.macAddress!,
+              ipv4: nic.ipv4 || undefined,
+              ipv6: nic.ipv6 || undefined
+            }))
         };
 
         result.push(mappedDevice);
@@ -567,4 +594,21 @@ export async function updateDattoWarranty(
     }
     return false;
   }
-} 
\ No newline at end of file
+}
+
+export const dattoConnector: PlatformConnector<DattoCredentials> = {
+  ...dattoDefinition,
+  fetchDevices: (credentials) => fetchDattoDevices(credentials),
+  writeWarranty: (deviceId, warranty, credentials) => updateDattoWarranty(deviceId, warranty.endDate, credentials),
+  async testConnection(credentials) {
+    if (!credentials.url || !credentials.apiKey || !credentials.secretKey) {
+      return false;
+    }
+    try {
+      await createDattoRMMClient(credentials.url, credentials.apiKey, credentials.secretKey);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+};
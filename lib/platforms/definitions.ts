@@ -0,0 +1,292 @@
+import { Platform, PlatformCredentials, SyncPlatform } from '@/types/platform';
+import { PlatformDefinition, PlatformWriteBackCapabilities } from './types';
+
+/**
+ * Platform definitions: the name, credential fields and write-back capabilities of each
+ * RMM/PSA connector. This module has no runtime dependencies, so client components
+ * (config form, import and write-back UI) read it instead of registry.ts, which pulls
+ * in every connector's API client and demo data and stays on the server.
+ * Add a new platform here and spread its definition into the connector.
+ */
+
+type SyncPlatformDefinition<P extends SyncPlatform> = PlatformDefinition<NonNullable<PlatformCredentials[P]>>;
+
+// Custom field NinjaOne writes the warranty end date to unless another one is configured
+export const NINJAONE_DEFAULT_WARRANTY_END_FIELD = 'warrantyEndDate';
+
+export const dattoDefinition: SyncPlatformDefinition<Platform.DATTO_RMM> = {
+  id: Platform.DATTO_RMM,
+  name: 'Datto RMM',
+  credentialFields: [
+    {
+      key: 'url',
+      label: 'URL',
+      placeholder: 'Enter Datto RMM URL',
+      description: 'Your Datto RMM instance URL'
+    },
+    {
+      key: 'apiKey',
+      label: 'API Key',
+      placeholder: 'Enter Datto RMM API Key',
+      description: 'Your Datto RMM API Key'
+    },
+    {
+      key: 'secretKey',
+      label: 'Secret Key',
+      placeholder: 'Enter Datto RMM Secret Key',
+      description: 'Your Datto RMM Secret Key',
+      secret: true
+    }
+  ],
+  // Datto RMM keeps a single warranty date per device
+  writeBack: { startDate: false, endDate: true, notes: false },
+};
+
+export const ncentralDefinition: SyncPlatformDefinition<Platform.NCENTRAL> = {
+  id: Platform.NCENTRAL,
+  name: 'N-able N-central',
+  credentialFields: [
+    {
+      key: 'serverUrl',
+      label: 'Server URL',
+      placeholder: 'Enter N-central Server URL',
+      description: 'Your N-central instance URL (e.g., https://yourserver.n-able.com)'
+    },
+    {
+      key: 'apiToken',
+      label: 'API Token (JWT)',
+      placeholder: 'Enter N-central API Token',
+      description: 'Your N-central User-API Token (JWT) generated from the N-central UI for an API-only user',
+      secret: true
+    }
+  ],
+  // The lifecycle info only has a warranty expiry date
+  writeBack: { startDate: false, endDate: true, notes: false },
+};
+
+export const haloPSADefinition: SyncPlatformDefinition<Platform.HALOPSA> = {
+  id: Platform.HALOPSA,
+  name: 'HaloPSA',
+  credentialFields: [
+    {
+      key: 'url',
+      label: 'URL',
+      placeholder: 'Enter HaloPSA URL (e.g., acme-tech.halopsa.com)',
+      description: 'Your HaloPSA instance URL (without https://)'
+    },
+    {
+      key: 'clientId',
+      label: 'Client ID',
+      placeholder: 'Enter HaloPSA Client ID',
+      description: 'Your HaloPSA OAuth2 Client ID'
+    },
+    {
+      key: 'clientSecret',
+      label: 'Client Secret',
+      placeholder: 'Enter HaloPSA Client Secret',
+      description: 'Your HaloPSA OAuth2 Client Secret',
+      secret: true
+    }
+  ],
+  writeBack: { startDate: true, endDate: true, notes: false },
+};
+
+export const ninjaOneDefinition: SyncPlatformDefinition<Platform.NINJAONE> = {
+  id: Platform.NINJAONE,
+  name: 'NinjaOne',
+  credentialFields: [
+    {
+      key: 'url',
+      label: 'Instance URL',
+      placeholder: 'Enter NinjaOne instance (e.g., app.ninjarmm.com)',
+      description: 'The NinjaOne region you sign in to, e.g. app.ninjarmm.com, eu.ninjarmm.com or ca.ninjarmm.com'
+    },
+    {
+      key: 'clientId',
+      label: 'Client ID',
+      placeholder: 'Enter NinjaOne Client ID',
+      description: 'Client ID of a NinjaOne API client app using the Client Credentials grant'
+    },
+    {
+      key: 'clientSecret',
+      label: 'Client Secret',
+      placeholder: 'Enter NinjaOne Client Secret',
+      description: 'Client Secret of the NinjaOne API client app',
+      secret: true
+    },
+    {
+      key: 'warrantyEndField',
+      label: 'Warranty End Custom Field',
+      placeholder: NINJAONE_DEFAULT_WARRANTY_END_FIELD,
+      description: `Name of the device custom field that receives the warranty end date (defaults to ${NINJAONE_DEFAULT_WARRANTY_END_FIELD})`,
+      optional: true
+    },
+    {
+      key: 'warrantyStartField',
+      label: 'Warranty Start Custom Field',
+      placeholder: 'Leave empty to skip',
+      description: 'Name of the device custom field that receives the warranty start date',
+      optional: true
+    }
+  ],
+  // Start dates are only written when a start custom field is configured
+  writeBack: { startDate: false, endDate: true, notes: false },
+  getWriteBack: credentials => ({ startDate: !!credentials.warrantyStartField?.trim(), endDate: true, notes: false }),
+};
+
+export const connectWiseAutomateDefinition: SyncPlatformDefinition<Platform.CONNECTWISE_AUTOMATE> = {
+  id: Platform.CONNECTWISE_AUTOMATE,
+  name: 'ConnectWise Automate',
+  credentialFields: [
+    {
+      key: 'serverUrl',
+      label: 'Server URL',
+      placeholder: 'Enter Automate server URL (e.g., yourcompany.hostedrmm.com)',
+      description: 'Your ConnectWise Automate server URL'
+    },
+    {
+      key: 'clientId',
+      label: 'Client ID',
+      placeholder: 'Enter ConnectWise Client ID',
+      description: 'Integrator client ID from the ConnectWise developer portal'
+    },
+    {
+      key: 'username',
+      label: 'Username',
+      placeholder: 'Enter Automate API username',
+      description: 'An Automate user with access to the clients to import'
+    },
+    {
+      key: 'password',
+      label: 'Password',
+      placeholder: 'Enter Automate API password',
+      description: 'Password of the Automate user (the user must not require two-factor authentication)',
+      secret: true
+    }
+  ],
+  // Warranty dates are kept in ConnectWise Manage, not in Automate
+  writeBack: { startDate: false, endDate: false, notes: false },
+};
+
+export const connectWiseManageDefinition: SyncPlatformDefinition<Platform.CONNECTWISE_MANAGE> = {
+  id: Platform.CONNECTWISE_MANAGE,
+  name: 'ConnectWise Manage',
+  credentialFields: [
+    {
+      key: 'url',
+      label: 'API URL',
+      placeholder: 'Enter Manage API URL (e.g., api-na.myconnectwise.net)',
+      description: 'Your ConnectWise Manage API site, e.g. api-na.myconnectwise.net or api-eu.myconnectwise.net'
+    },
+    {
+      key: 'companyId',
+      label: 'Company ID',
+      placeholder: 'Enter ConnectWise Company ID',
+      description: 'The company ID you sign in to Manage with'
+    },
+    {
+      key: 'publicKey',
+      label: 'Public Key',
+      placeholder: 'Enter API member public key',
+      description: 'Public key of a Manage API member'
+    },
+    {
+      key: 'privateKey',
+      label: 'Private Key',
+      placeholder: 'Enter API member private key',
+      description: 'Private key of the Manage API member',
+      secret: true
+    },
+    {
+      key: 'clientId',
+      label: 'Client ID',
+      placeholder: 'Enter ConnectWise Client ID',
+      description: 'Integrator client ID from the ConnectWise developer portal'
+    }
+  ],
+  // Configurations only have a warranty expiration date
+  writeBack: { startDate: false, endDate: true, notes: false },
+};
+
+export const autotaskDefinition: SyncPlatformDefinition<Platform.AUTOTASK> = {
+  id: Platform.AUTOTASK,
+  name: 'Autotask PSA',
+  credentialFields: [
+    {
+      key: 'username',
+      label: 'API Username',
+      placeholder: 'Enter Autotask API username',
+      description: 'Username of an API-only user, e.g. api-user@yourcompany.com (used to find your Autotask zone)'
+    },
+    {
+      key: 'secret',
+      label: 'Secret',
+      placeholder: 'Enter Autotask API secret',
+      description: 'Password (secret) of the API-only user',
+      secret: true
+    },
+    {
+      key: 'integrationCode',
+      label: 'Integration Code',
+      placeholder: 'Enter Autotask tracking identifier',
+      description: 'The API tracking identifier selected on the API user'
+    }
+  ],
+  // Configuration items only have a warranty expiration date
+  writeBack: { startDate: false, endDate: true, notes: false },
+};
+
+export const intuneDefinition: SyncPlatformDefinition<Platform.INTUNE> = {
+  id: Platform.INTUNE,
+  name: 'Microsoft Intune',
+  credentialFields: [
+    {
+      key: 'tenants',
+      label: 'Tenants',
+      placeholder: 'Contoso Dental, contoso.onmicrosoft.com, 00000000-0000-0000-0000-000000000000',
+      description: 'One tenant per line: client name, tenant ID or domain, application (client) ID. Each app registration needs the DeviceManagementManagedDevices.Read.All application permission.',
+      multiline: true
+    },
+    {
+      key: 'clientSecrets',
+      label: 'Client Secrets',
+      placeholder: 'Enter the client secrets, separated by commas',
+      description: 'The client secret of each tenant\'s app registration, in the same order as the tenants',
+      secret: true
+    }
+  ],
+  // Intune has no warranty fields to write to
+  writeBack: { startDate: false, endDate: false, notes: false },
+};
+
+const platformDefinitions: PlatformDefinition[] = [
+  dattoDefinition,
+  ncentralDefinition,
+  haloPSADefinition,
+  ninjaOneDefinition,
+  connectWiseAutomateDefinition,
+  connectWiseManageDefinition,
+  autotaskDefinition,
+  intuneDefinition,
+];
+
+export function getPlatformDefinitions(): PlatformDefinition[] {
+  return platformDefinitions;
+}
+
+/**
+ * Find the definition for a platform (the PlatformCredentials key)
+ */
+export function getPlatformDefinition(platform: SyncPlatform): PlatformDefinition | undefined {
+  return platformDefinitions.find(definition => definition.id === platform);
+}
+
+/**
+ * Warranty fields a platform writes back with the given credentials
+ */
+export function getWriteBackCapabilities(
+  definition: PlatformDefinition,
+  credentials?: object
+): PlatformWriteBackCapabilities {
+  return definition.getWriteBack && credentials ? definition.getWriteBack(credentials) : definition.writeBack;
+}
@@ -5,14 +5,22 @@ import axios, { AxiosInstance } from 'axios';
 import MockAdapter from 'axios-mock-adapter';
 import { logger } from '@/lib/logger';
 import { Platform } from '@/types/platform';
+import { PlatformConnector } from './types';
+import { haloPSADefinition } from './definitions';
 
 export interface HaloPSACredentials {
-  url: string;
-  clientId: string;
-  clientSecret: string;
+  url?: string;
+  clientId?: string;
+  clientSecret?: string;
 }
 
 // HaloPSA API types
+interface HaloPSAAssetField {
+  id: number;
+  name: string; // Configured per asset type, e.g. "RAM" or "MAC Address"
+  value?: string;
+}
+
 interface HaloPSAAsset {
   id: number;
   inventory_number: string;
@@ -29,6 +37,7 @@ interface HaloPSAAsset {
   inactive: boolean;
   warranty_start?: string; // e.g. 2025-06-04T12:00:00
   warranty_end?: string; // e.g. 2026-06-04T12:00:00
+  fields?: HaloPSAAssetField[]; // Only returned with includeassetfields=true
   [key: string]: unknown;
 }
 
@@ -60,7 +69,13 @@ const mockAssets: HaloPSAAsset[] = [
     assettype_name: 'Desktop Computer',
     inactive: false,
     warranty_start: '2025-06-04T12:00:00',
-    warranty_end: '2026-06-04T12:00:00'
+    warranty_end: '2026-06-04T12:00:00',
+    fields: [
+      { id: 1, name: 'RAM', value: '16 GB' },
+      { id: 2, name: 'CPU Cores', value: '8' },
+      { id: 3, name: 'MAC Address', value: '00:1A:2B:3C:4D:5E' },
+      { id: 4, name: 'IP Address', value: '10.0.0.15' }
+    ]
   },
   {
     id: 2,
@@ -131,6 +146,55 @@ function determineManufacturerForHaloPSA(keyField: string, assetTypeName?: strin
   return Manufacturer.DELL;
 }
 
+// Asset field names vary per HaloPSA instance, so hardware specs are matched by name
+const MEMORY_FIELD_PATTERN = /\b(ram|memory)\b/i;
+const CPU_CORES_FIELD_PATTERN = /\bcores?\b/i;
+const MAC_ADDRESS_FIELD_PATTERN = /\bmac\b/i;
+const IP_ADDRESS_FIELD_PATTERN = /\bip\b/i;
+
+const MEMORY_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+  tb: 1024 ** 4
+};
+
+function getAssetFieldValue(asset: HaloPSAAsset, pattern: RegExp): string | undefined {
+  return asset.fields?.find(field => pattern.test(field.name) && field.value?.trim())?.value?.trim();
+}
+
+/**
+ * Parses memory such as "16 GB", "16384MB" or a plain byte count into bytes
+ */
+function parseMemoryBytes(value?: string): number | undefined {
+  const match = value?.match(/^([\d.]+)\s*([kmgt]?b)?$/i);
+  if (!match) return undefined;
+  const bytes = Math.round(parseFloat(match[1]) * MEMORY_UNITS[(match[2] || 'b').toLowerCase()]);
+  return bytes > 0 ? bytes : undefined;
+}
+
+/**
+ * Maps hardware specs from the asset's custom fields, where the HaloPSA instance has them
+ */
+function getAssetHardware(asset: HaloPSAAsset): Pick<Device, 'totalMemory' | 'totalCpuCores' | 'networkInterfaces'> {
+  const cpuCores = parseInt(getAssetFieldValue(asset, CPU_CORES_FIELD_PATTERN) || '', 10);
+  const macAddress = getAssetFieldValue(asset, MAC_ADDRESS_FIELD_PATTERN);
+  const ipAddress = getAssetFieldValue(asset, IP_ADDRESS_FIELD_PATTERN);
+
+  return {
+    totalMemory: parseMemoryBytes(getAssetFieldValue(asset, MEMORY_FIELD_PATTERN)),
+    totalCpuCores: cpuCores > 0 ? cpuCores : undefined,
+    networkInterfaces: macAddress
+      ? [{
+          macAddress,
+          ipv4: ipAddress && !ipAddress.includes(':') ? ipAddress : undefined,
+          ipv6: ipAddress?.includes(':') ? ipAddress : undefined
+        }]
+      : undefined
+  };
+}
+
 /**
  * Sets up axios mock adapter for demo mode
  */
@@ -278,7 +342,9 @@ async function fetchDevicesUsingRealAPI(client: AxiosInstance): Promise<Device[]
   try {
     logger.info('Fetching assets from HaloPSA', 'halopsa-api');
     
-    const response = await client.get<HaloPSAResponse>('/api/asset');
+    const response = await client.get<HaloPSAResponse>('/api/asset', {
+      params: { includeassetfields: true }
+    });
     
     logger.debug('API response received', 'halopsa-api');
     
@@ -326,7 +392,8 @@ async function fetchDevicesUsingRealAPI(client: AxiosInstance): Promise<Device[]
           clientName: asset.client_name || '',
           deviceClass: asset.assettype_name || '',
           warrantyStartDate: warrantyStartDate,
-          warrantyEndDate: warrantyEndDate
+          warrantyEndDate: warrantyEndDate,
+          ...getAssetHardware(asset)
         };
 
         result.push(mappedDevice);
@@ -361,12 +428,14 @@ async function fetchDevicesUsingRealAPI(client: AxiosInstance): Promise<Device[]
  * @param deviceId The HaloPSA asset ID to update
  * @param warrantyEndDate The warranty expiration date in ISO format (YYYY-MM-DD)
  * @param credentials Optional HaloPSA credentials
+ * @param warrantyStartDate Optional warranty start date in ISO format (YYYY-MM-DD), written when given
  * @returns True if update was successful, false otherwise
  */
 export async function updateHaloPSAWarranty(
   deviceId: string, 
   warrantyEndDate: string, 
-  credentials?: HaloPSACredentials
+  credentials?: HaloPSACredentials,
+  warrantyStartDate?: string
 ): Promise<boolean> {
   try {
     logger.info(`Updating HaloPSA warranty for device ${deviceId} to ${warrantyEndDate}`, 'halopsa-api', {
@@ -382,7 +451,8 @@ export async function updateHaloPSAWarranty(
     
     const updatedAsset = {
       id: deviceId,
-      warranty_end: haloPSADate
+      warranty_end: haloPSADate,
+      ...(warrantyStartDate ? { warranty_start: `${warrantyStartDate}T12:00:00` } : {})
     };
     
     const response = await client.post('/api/asset', [updatedAsset], {
@@ -404,4 +474,22 @@ export async function updateHaloPSAWarranty(
     });
     return false;
   }
-} 
\ No newline at end of file
+}
+
+export const haloPSAConnector: PlatformConnector<HaloPSACredentials> = {
+  ...haloPSADefinition,
+  fetchDevices: (credentials) => fetchHaloPSADevices(credentials),
+  writeWarranty: (deviceId, warranty, credentials) =>
+    updateHaloPSAWarranty(deviceId, warranty.endDate, credentials, warranty.startDate),
+  async testConnection(credentials) {
+    if (!credentials.url || !credentials.clientId || !credentials.clientSecret) {
+      return false;
+    }
+    try {
+      await createHaloPSAClient(credentials);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+};
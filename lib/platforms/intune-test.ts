@@ -0,0 +1,112 @@
+// This test uses TypeScript directly with tsx
+// To run: npx tsx lib/platforms/intune-test.ts
+//
+// Without INTUNE_TENANTS and INTUNE_CLIENT_SECRETS it runs offline against the mock Graph API (demo mode).
+
+// Import dotenv to load environment variables from .env file
+import 'dotenv/config';
+
+// Import the Intune connector functions from intune.ts
+import { fetchIntuneDevices, parseIntuneTenants } from './intune';
+
+let failures = 0;
+
+function check(description: string, passed: boolean) {
+  console.log(`${passed ? '✅' : '❌'} ${description}`);
+  if (!passed) {
+    failures++;
+  }
+}
+
+/**
+ * Checks the tenants field parsing, including client names with commas, invalid lines and
+ * pairing tenants with their client secrets
+ */
+function testTenantParsing() {
+  console.log('Step 1: Parsing tenant lines...');
+
+  const tenants = parseIntuneTenants([
+    '# Cloud-only clients',
+    'Contoso Dental, contoso.onmicrosoft.com, client-1',
+    '',
+    'Smith, Jones & Co, 22222222-3333-4444-5555-666666666666, client-2'
+  ].join('\n'), 'secret-1, secret-2');
+
+  check('Skips comments and blank lines', tenants.length === 2);
+  check('Reads the tenant, client ID and secret', tenants[0]?.tenantId === 'contoso.onmicrosoft.com'
+    && tenants[0]?.clientId === 'client-1' && tenants[0]?.clientSecret === 'secret-1');
+  check('Keeps commas in client names', tenants[1]?.clientName === 'Smith, Jones & Co'
+    && tenants[1]?.clientSecret === 'secret-2');
+  check('Empty fields mean no tenants', parseIntuneTenants('', '').length === 0);
+
+  let invalidLineError = '';
+  try {
+    parseIntuneTenants('Contoso Dental, contoso.onmicrosoft.com', 'secret-1');
+  } catch (error) {
+    invalidLineError = error instanceof Error ? error.message : String(error);
+  }
+  check('Rejects lines with missing values', invalidLineError.includes('line 1'));
+
+  let missingSecretError = '';
+  try {
+    parseIntuneTenants('Contoso Dental, contoso.onmicrosoft.com, client-1\nFabrikam Legal, fabrikam.com, client-2', 'secret-1');
+  } catch (error) {
+    missingSecretError = error instanceof Error ? error.message : String(error);
+  }
+  check('Rejects a secret count that does not match the tenants', missingSecretError.includes('2 tenant(s), 1 secret(s)'));
+}
+
+/**
+ * Imports from the mock Graph API and checks the tenants map to client names
+ */
+async function testDemoImport() {
+  console.log('\nStep 2: Importing devices from the mock Graph API...');
+
+  const devices = await fetchIntuneDevices();
+  devices.forEach(device => {
+    console.log(`  ${device.hostname} (${device.serialNumber}) - ${device.manufacturer} ${device.model} - ${device.clientName}`);
+  });
+
+  check('Follows next links across pages', devices.length === 3);
+  check('Skips devices without serial numbers', devices.every(device => device.serialNumber));
+  check('Maps each tenant to its client name', devices.filter(device => device.clientName === 'Fabrikam Legal').length === 2);
+  check('Maps manufacturer and model', devices.some(device => device.manufacturer === 'Lenovo' && device.model === 'ThinkStation P500'));
+}
+
+/**
+ * Imports from the tenants in INTUNE_TENANTS, using the secrets in INTUNE_CLIENT_SECRETS
+ */
+async function testRealImport(tenants: string, clientSecrets?: string) {
+  console.log('\nImporting devices from the configured tenants...');
+
+  const devices = await fetchIntuneDevices({ tenants, clientSecrets });
+  console.log(`Successfully fetched ${devices.length} devices from Intune`);
+  devices.forEach(device => {
+    console.log(`  ${device.hostname} (${device.serialNumber}) - ${device.manufacturer} ${device.model} - ${device.clientName}`);
+  });
+}
+
+async function testIntune() {
+  console.log('=== Starting Intune Test ===\n');
+
+  try {
+    const tenants = process.env.INTUNE_TENANTS?.replace(/\\n/g, '\n');
+    if (tenants) {
+      await testRealImport(tenants, process.env.INTUNE_CLIENT_SECRETS);
+    } else {
+      testTenantParsing();
+      await testDemoImport();
+    }
+  } catch (error) {
+    console.error('Test execution failed:', error);
+    process.exit(1);
+  }
+
+  console.log(`\n=== Intune Test Completed${failures > 0 ? ` with ${failures} failure(s)` : ''} ===`);
+  if (failures > 0) {
+    process.exit(1);
+  }
+}
+
+// Run the test
+testIntune();
@@ -0,0 +1,335 @@
+import { Device } from '@/types/device';
+import { determineManufacturer } from '@/lib/utils/manufacturerUtils';
+import axios, { AxiosInstance } from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { logger } from '@/lib/logger';
+import { Platform } from '@/types/platform';
+import { ClientCredentialsConfig, attachClientCredentialsToken, getClientCredentialsToken } from '@/lib/utils/oauthUtils';
+import { PlatformConnector } from './types';
+import { intuneDefinition } from './definitions';
+
+export interface IntuneCredentials {
+  // One tenant per line: "Client Name, tenant ID, application (client) ID"
+  tenants?: string;
+  // The tenants' client secrets in the same order, separated by commas; kept apart so the form can mask them
+  clientSecrets?: string;
+}
+
+/**
+ * An Entra ID tenant and the app registration used to read its Intune devices
+ */
+export interface IntuneTenant {
+  clientName: string;
+  tenantId: string;
+  clientId: string;
+  clientSecret: string;
+}
+
+const GRAPH_URL = 'https://graph.microsoft.com/v1.0';
+const LOGIN_URL = 'https://login.microsoftonline.com';
+
+// Microsoft Graph API types
+interface GraphManagedDevice {
+  id: string;
+  deviceName?: string;
+  serialNumber?: string;
+  manufacturer?: string;
+  model?: string;
+  operatingSystem?: string; // e.g. Windows, macOS, iOS
+  physicalMemoryInBytes?: number; // Often 0 when not reported
+}
+
+interface GraphPage<T> {
+  value: T[];
+  '@odata.nextLink'?: string;
+}
+
+// Mock data for demo mode
+const mockTenants: IntuneTenant[] = [
+  { clientName: 'Contoso Dental', tenantId: 'contoso-demo', clientId: 'demo', clientSecret: 'demo' },
+  { clientName: 'Fabrikam Legal', tenantId: 'fabrikam-demo', clientId: 'demo', clientSecret: 'demo' }
+];
+
+const mockManagedDevices: Record<string, GraphManagedDevice[]> = {
+  'contoso-demo': [
+    {
+      id: '4f1c6b2e-0d1a-4a7e-9d2b-1a2b3c4d5e01',
+      deviceName: 'CONTOSO-FRONT01',
+      serialNumber: 'JH2RRW1',
+      manufacturer: 'Dell Inc.',
+      model: 'OptiPlex 7070',
+      operatingSystem: 'Windows',
+      physicalMemoryInBytes: 16 * 1024 ** 3
+    },
+    {
+      id: '4f1c6b2e-0d1a-4a7e-9d2b-1a2b3c4d5e02',
+      deviceName: 'Dr. Lee’s iPhone',
+      serialNumber: '', // Personal devices don't report a serial
+      manufacturer: 'Apple',
+      model: 'iPhone 15',
+      operatingSystem: 'iOS'
+    }
+  ],
+  'fabrikam-demo': [
+    {
+      id: '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c01',
+      deviceName: 'FAB-LT-014',
+      serialNumber: 'CZC8178FY9',
+      manufacturer: 'HP',
+      model: 'HP EliteBook 850 G7 Notebook PC',
+      operatingSystem: 'Windows',
+      physicalMemoryInBytes: 0
+    },
+    {
+      id: '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c02',
+      deviceName: 'FAB-WS-002',
+      serialNumber: 'CCKWN63',
+      manufacturer: 'LENOVO',
+      model: 'ThinkStation P500',
+      operatingSystem: 'Windows'
+    }
+  ]
+};
+
+/**
+ * Sets up axios mock adapter for demo mode. Each demo tenant gets its own token, which
+ * the managed devices endpoint uses to pick the tenant's devices.
+ */
+function setupMockAdapter(axiosInstance: AxiosInstance, tenant: IntuneTenant): void {
+  const mock = new MockAdapter(axiosInstance, { onNoMatch: "passthrough" });
+  axiosInstance.defaults.headers.common['Authorization'] = `Bearer mock-token-${tenant.tenantId}`;
+
+  // Mock the managed devices endpoint, one device per page to exercise paging
+  mock.onGet(/.*\/deviceManagement\/managedDevices/).reply(config => {
+    const authorization = String(config.headers?.Authorization || '');
+    const devices = mockManagedDevices[authorization.replace('Bearer mock-token-', '')] || [];
+    const skip = Number(new URL(config.url || '', GRAPH_URL).searchParams.get('$skiptoken') || 0);
+    const nextLink = skip + 1 < devices.length
+      ? `${GRAPH_URL}/deviceManagement/managedDevices?$skiptoken=${skip + 1}`
+      : undefined;
+    return [200, {
+      value: devices.slice(skip, skip + 1),
+      ...(nextLink ? { '@odata.nextLink': nextLink } : {})
+    }];
+  });
+}
+
+/**
+ * Parses the tenants field, one "Client Name, tenant ID, client ID" per line, and pairs each
+ * tenant with the client secret at the same position in the comma-separated secrets field.
+ * The last two values never contain commas, so client names may. Blank lines and lines
+ * starting with # are skipped.
+ */
+export function parseIntuneTenants(tenantsValue?: string, clientSecretsValue?: string): IntuneTenant[] {
+  const clientSecrets = (clientSecretsValue || '')
+    .split(',')
+    .map(secret => secret.trim())
+    .filter(Boolean);
+
+  const tenants = (tenantsValue || '')
+    .split(/\r?\n/)
+    .map((line, index) => ({ line: line.trim(), lineNumber: index + 1 }))
+    .filter(({ line }) => line && !line.startsWith('#'))
+    .map(({ line, lineNumber }, index) => {
+      const parts = line.split(',').map(part => part.trim());
+      const [tenantId, clientId] = parts.slice(-2);
+      const clientName = parts.slice(0, -2).join(', ');
+      if (parts.length < 3 || !clientName || !tenantId || !clientId) {
+        throw new Error(
+          `Invalid Intune tenant on line ${lineNumber}: expected "Client Name, tenant ID, client ID"`
+        );
+      }
+      return { clientName, tenantId, clientId, clientSecret: clientSecrets[index] };
+    });
+
+  if (clientSecrets.length !== tenants.length) {
+    throw new Error(
+      `Expected one Intune client secret per tenant: ${tenants.length} tenant(s), ${clientSecrets.length} secret(s)`
+    );
+  }
+  return tenants;
+}
+
+function getGraphTokenConfig(tenant: IntuneTenant): ClientCredentialsConfig {
+  return {
+    tokenUrl: `${LOGIN_URL}/${encodeURIComponent(tenant.tenantId)}/oauth2/v2.0/token`,
+    clientId: tenant.clientId,
+    clientSecret: tenant.clientSecret,
+    scope: 'https://graph.microsoft.com/.default',
+    authMethod: 'body'
+  };
+}
+
+/**
+ * Returns a client that sends an app-only Graph token for the tenant. Tokens are cached
+ * per tenant and refreshed (once) when Graph rejects them.
+ */
+function createGraphClient(tenant: IntuneTenant, useDemoMode: boolean): AxiosInstance {
+  const axiosInstance = axios.create({
+    headers: {
+      'Accept': 'application/json'
+    }
+  });
+
+  if (useDemoMode) {
+    setupMockAdapter(axiosInstance, tenant);
+  } else {
+    attachClientCredentialsToken(axiosInstance, getGraphTokenConfig(tenant));
+  }
+
+  return axiosInstance;
+}
+
+/**
+ * Fetches one tenant's managed devices, following Graph's next links
+ */
+async function fetchTenantDevices(tenant: IntuneTenant, useDemoMode: boolean): Promise<Device[]> {
+  const client = createGraphClient(tenant, useDemoMode);
+  const result: Device[] = [];
+  const select = 'id,deviceName,serialNumber,manufacturer,model,operatingSystem,physicalMemoryInBytes';
+  let url: string | undefined = `${GRAPH_URL}/deviceManagement/managedDevices?$select=${select}`;
+  const maxPages = 100; // Limit to prevent excessive API calls
+
+  for (let page = 1; url && page <= maxPages; page++) {
+    const response: { data: GraphPage<GraphManagedDevice> } = await client.get<GraphPage<GraphManagedDevice>>(url);
+
+    if (!Array.isArray(response.data?.value)) {
+      logger.error('Unexpected response format from Microsoft Graph', 'intune-api');
+      throw new Error('Unexpected API response format');
+    }
+
+    for (const managedDevice of response.data.value) {
+      const serialNumber = managedDevice.serialNumber?.trim();
+
+      // Skip devices without serial numbers (e.g. personally owned phones)
+      if (!serialNumber) {
+        continue;
+      }
+
+      result.push({
+        sourceDeviceId: managedDevice.id,
+        sourcePlatform: Platform.INTUNE,
+        serialNumber,
+        manufacturer: determineManufacturer(managedDevice.manufacturer || managedDevice.model || ''),
+        model: managedDevice.model || '',
+        hostname: managedDevice.deviceName || '',
+        clientId: tenant.tenantId,
+        clientName: tenant.clientName,
+        deviceClass: managedDevice.operatingSystem || '',
+        totalMemory: managedDevice.physicalMemoryInBytes || undefined
+      });
+    }
+
+    url = response.data['@odata.nextLink'];
+    if (url && page === maxPages) {
+      logger.warn(`Reached maximum page limit (${maxPages}) for ${tenant.clientName}. Some devices may not be returned.`, 'intune-api', {
+        maxPages,
+        tenantId: tenant.tenantId
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Fetches managed devices from Intune for every configured tenant
+ *
+ * This function can operate in two modes:
+ * 1. Demo mode - returns mock data for two demo tenants (when no tenants are configured)
+ * 2. Real API mode - calls Microsoft Graph for each configured tenant
+ *
+ * A tenant that fails (e.g. an expired client secret) is logged and skipped so the
+ * others still import; the import only fails when every tenant does.
+ *
+ * Example usage:
+ *
+ * const devices = await fetchIntuneDevices({
+ *   tenants: 'Contoso Dental, contoso.onmicrosoft.com, your-client-id',
+ *   clientSecrets: 'your-client-secret'
+ * });
+ */
+export async function fetchIntuneDevices(credentials?: IntuneCredentials): Promise<Device[]> {
+  const configuredTenants = parseIntuneTenants(credentials?.tenants, credentials?.clientSecrets);
+  const useDemoMode = configuredTenants.length === 0;
+  const tenants = useDemoMode ? mockTenants : configuredTenants;
+
+  logger.info(`Fetching Intune devices for ${tenants.length} tenant(s) ${useDemoMode ? '(DEMO MODE)' : ''}`, 'intune-api', {
+    tenantCount: tenants.length,
+    mode: useDemoMode ? 'demo' : 'api'
+  });
+
+  const result: Device[] = [];
+  const errors: Error[] = [];
+
+  for (const tenant of tenants) {
+    try {
+      const devices = await fetchTenantDevices(tenant, useDemoMode);
+      logger.info(`Found ${devices.length} devices (with serial number) for ${tenant.clientName}`, 'intune-api', {
+        tenantId: tenant.tenantId,
+        deviceCount: devices.length
+      });
+      result.push(...devices);
+    } catch (error) {
+      logger.error(`Error fetching Intune devices for ${tenant.clientName}: ${error}`, 'intune-api', {
+        tenantId: tenant.tenantId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      errors.push(toFriendlyError(error, tenant));
+    }
+  }
+
+  if (errors.length === tenants.length) {
+    throw errors[0];
+  }
+
+  logger.info(`Completed fetching Intune devices. Total devices found: ${result.length}`, 'intune-api', {
+    totalDevices: result.length,
+    failedTenants: errors.length
+  });
+  return result;
+}
+
+// More user-friendly error message
+function toFriendlyError(error: unknown, tenant: IntuneTenant): Error {
+  if (error instanceof Error) {
+    if (error.message.includes('400') || error.message.includes('401')) {
+      return new Error(`Authentication failed for ${tenant.clientName}. Please check the tenant ID, client ID and client secret.`);
+    } else if (error.message.includes('403')) {
+      return new Error(`Microsoft Graph denied access for ${tenant.clientName}. Please grant the app DeviceManagementManagedDevices.Read.All with admin consent.`);
+    } else if (error.message.includes('ECONNREFUSED') || error.message.includes('ENOTFOUND')) {
+      return new Error('Could not connect to Microsoft Graph. Please check your network connection.');
+    }
+    return error;
+  }
+  return new Error(String(error));
+}
+
+export const intuneConnector: PlatformConnector<IntuneCredentials> = {
+  ...intuneDefinition,
+  fetchDevices: (credentials) => fetchIntuneDevices(credentials),
+  async writeWarranty(deviceId) {
+    logger.warn(`Microsoft Intune does not support warranty write-back, skipping device ${deviceId}`, 'intune-api', {
+      deviceId
+    });
+    return false;
+  },
+  async testConnection(credentials) {
+    try {
+      const tenants = parseIntuneTenants(credentials.tenants, credentials.clientSecrets);
+      if (tenants.length === 0) {
+        return false;
+      }
+      // Every tenant must sign in for the connection to count as working
+      for (const tenant of tenants) {
+        logger.info(`Authenticating with Microsoft Graph for ${tenant.clientName}`, 'intune-api', {
+          tenantId: tenant.tenantId
+        });
+        await getClientCredentialsToken(getGraphTokenConfig(tenant));
+      }
+      return true;
+    } catch {
+      return false;
+    }
+  }
+};
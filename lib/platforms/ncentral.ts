@@ -1,10 +1,12 @@
-import { Device } from '../../types/device';
+import { Device, NetworkInterface } from '../../types/device';
 import { Manufacturer } from '../../types/manufacturer';
 import axios, { AxiosInstance } from 'axios';
 import { logger } from '@/lib/logger';
 import MockAdapter from 'axios-mock-adapter';
 import { determineManufacturer } from '@/lib/utils/manufacturerUtils';
 import { Platform } from '@/types/platform';
+import { PlatformConnector } from './types';
+import { ncentralDefinition } from './definitions';
 
 interface NCentralCredentials {
   serverUrl?: string;
@@ -19,12 +21,21 @@ interface DeviceAsset {
         customerid: string;
         customername: string;
       };
+      networkadapter?: {
+        list?: NCentralNetworkAdapter[];
+      };
     };
     computersystem?: {
       serialnumber: string;
       netbiosname: string;
       model: string;
       manufacturer: string;
+      totalphysicalmemory?: string; // Bytes
+    };
+    processor?: {
+      name?: string;
+      numberofcores?: string; // Total across CPUs; "0" when not reported
+      numberofcpus?: string;
     };
     device?: {
       deleted: string;
@@ -36,6 +47,12 @@ interface DeviceAsset {
   };
 }
 
+interface NCentralNetworkAdapter {
+  macaddress?: string;
+  ipaddress?: string; // May hold several comma-separated addresses, IPv4 and IPv6
+  description?: string;
+}
+
 // Interface for Device item in response
 interface NCentralDeviceItem {
   deviceId: string;
@@ -55,7 +72,9 @@ const mockDevices = [
     hostname: 'NCENTRAL-DEV1',
     clientId: 'NC-CLIENT-1',
     clientName: 'Worldwide Enterprises',
-    deviceClass: 'Desktop - Windows'
+    deviceClass: 'Desktop - Windows',
+    totalMemory: 8 * 1024 * 1024 * 1024,
+    totalCpuCores: 6
   },
   {
     sourceDeviceId: 'nc-2',
@@ -65,7 +84,9 @@ const mockDevices = [
     hostname: 'NCENTRAL-DEV2',
     clientId: 'NC-CLIENT-1', 
     clientName: 'Worldwide Enterprises',
-    deviceClass: 'Laptop - Windows'
+    deviceClass: 'Laptop - Windows',
+    totalMemory: 16 * 1024 * 1024 * 1024,
+    totalCpuCores: 8
   },
   {
     sourceDeviceId: 'nc-3',
@@ -120,7 +141,12 @@ function setupMockAdapter(axiosInstance: AxiosInstance): void {
           serialnumber: device.serialNumber,
           netbiosname: device.hostname,
           model: device.model,
-          manufacturer: device.manufacturer === Manufacturer.DELL ? 'Dell Inc.' : 'HP Inc.'
+          manufacturer: device.manufacturer === Manufacturer.DELL ? 'Dell Inc.' : 'HP Inc.',
+          totalphysicalmemory: device.totalMemory?.toString()
+        },
+        processor: {
+          numberofcores: device.totalCpuCores?.toString() || '0',
+          numberofcpus: '1'
         },
         device: {
           deleted: "false",
@@ -133,6 +159,25 @@ function setupMockAdapter(axiosInstance: AxiosInstance): void {
   });
 }
 
+// N-central reports numbers as strings, with "0" or empty for unknown values
+function parsePositiveNumber(value?: string): number | undefined {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+function mapNetworkAdapters(adapters?: NCentralNetworkAdapter[]): NetworkInterface[] {
+  return (adapters || [])
+    .filter(adapter => adapter.macaddress)
+    .map(adapter => {
+      const addresses = (adapter.ipaddress || '').split(',').map(address => address.trim()).filter(Boolean);
+      return {
+        macAddress: adapter.macaddress!,
+        ipv4: addresses.find(address => !address.includes(':')),
+        ipv6: addresses.find(address => address.includes(':'))
+      };
+    });
+}
+
 /**
  * Fetches devices from N-central
  * 
@@ -328,7 +373,10 @@ async function fetchDevicesUsingRealAPI(client: AxiosInstance): Promise<Device[]
               hostname: assetData.data.device?.longname || assetData.data.computersystem?.netbiosname || '',
               clientId: assetData.data._extra?.customer?.customerid || '',
               clientName: assetData.data._extra?.customer?.customername || '',
-              deviceClass: assetData.data.device?.deviceclass || ''
+              deviceClass: assetData.data.device?.deviceclass || '',
+              totalMemory: parsePositiveNumber(assetData.data.computersystem?.totalphysicalmemory),
+              totalCpuCores: parsePositiveNumber(assetData.data.processor?.numberofcores),
+              networkInterfaces: mapNetworkAdapters(assetData.data._extra?.networkadapter?.list)
             };
             
             result.push(mappedDevice);
@@ -474,6 +522,29 @@ function setupWarrantyUpdateMock(axiosInstance: AxiosInstance): void {
   });
 }
 
+export const ncentralConnector: PlatformConnector<NCentralCredentials> = {
+  ...ncentralDefinition,
+  fetchDevices: (credentials) => fetchNCentralDevices(credentials),
+  writeWarranty: (deviceId, warranty, credentials) => updateNCentralWarranty(deviceId, warranty.endDate, credentials),
+  async testConnection(credentials) {
+    if (!credentials.serverUrl || !credentials.apiToken?.trim()) {
+      return false;
+    }
+    try {
+      const axiosInstance = axios.create({
+        baseURL: credentials.serverUrl,
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      });
+      await createNCentralClient(axiosInstance, credentials.apiToken);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+};
+
 /**
  * Sample response from N-central Device fetch API
   
@@ -0,0 +1,39 @@
+import 'server-only';
+
+import { SyncPlatform } from '@/types/platform';
+import { PlatformConnector } from './types';
+import { dattoConnector } from './datto';
+import { ncentralConnector } from './ncentral';
+import { haloPSAConnector } from './halopsa';
+import { ninjaOneConnector } from './ninjaone';
+import { connectWiseAutomateConnector } from './connectwise-automate';
+import { connectWiseManageConnector } from './connectwise-manage';
+import { autotaskConnector } from './autotask';
+import { intuneConnector } from './intune';
+
+/**
+ * Platform connector registry (server only)
+ * Add new RMM/PSA integrations here - the platform API routes and sync scheduler
+ * drive from this list. Client components use definitions.ts instead.
+ */
+const platformConnectors: PlatformConnector[] = [
+  dattoConnector,
+  ncentralConnector,
+  haloPSAConnector,
+  ninjaOneConnector,
+  connectWiseAutomateConnector,
+  connectWiseManageConnector,
+  autotaskConnector,
+  intuneConnector,
+];
+
+export function getPlatformConnectors(): PlatformConnector[] {
+  return platformConnectors;
+}
+
+/**
+ * Find the connector for a platform (the PlatformCredentials key)
+ */
+export function getPlatformConnector(platform: SyncPlatform): PlatformConnector | undefined {
+  return platformConnectors.find(connector => connector.id === platform);
+}
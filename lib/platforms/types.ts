@@ -1,6 +1,46 @@
-import { Device } from '../../types/device';
+import { Device } from '@/types/device';
+import { SyncPlatform } from '@/types/platform';
+import { CredentialField, CredentialKey } from '@/lib/manufacturers/types';
 
-export interface PlatformConnector {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  fetchDevices(credentials: any): Promise<Device[]>;
-} 
\ No newline at end of file
+/**
+ * Which warranty fields a connector can write to a device record in its platform
+ */
+export interface PlatformWriteBackCapabilities {
+  startDate: boolean;
+  endDate: boolean;
+  notes: boolean;
+}
+
+/**
+ * Warranty data to write back to a platform record. Connectors write the fields their
+ * capabilities allow and ignore the rest.
+ */
+export interface PlatformWarranty {
+  startDate?: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  notes?: string;
+}
+
+/**
+ * What the UI needs to know about a platform, declared in definitions.ts
+ */
+export interface PlatformDefinition<C extends object = object> {
+  id: SyncPlatform; // Key under which credentials are stored in PlatformCredentials
+  name: string;
+  credentialFields: CredentialField<CredentialKey<C>>[];
+  writeBack: PlatformWriteBackCapabilities; // With default settings
+  // For platforms where what is written depends on the settings (e.g. a configured custom field)
+  getWriteBack?(credentials: Partial<C>): PlatformWriteBackCapabilities;
+}
+
+/**
+ * Platform connector contract
+ * Each RMM/PSA integration implements this on top of its definition and registers itself in registry.ts
+ */
+export interface PlatformConnector<C extends object = object> extends PlatformDefinition<C> {
+  // Missing or incomplete credentials return demo data where the platform supports it
+  fetchDevices(credentials?: Partial<C>): Promise<Device[]>;
+  // deviceId is the device's ID in the platform; returns false when the platform rejected the update
+  writeWarranty(deviceId: string, warranty: PlatformWarranty, credentials?: Partial<C>): Promise<boolean>;
+  testConnection(credentials: Partial<C>): Promise<boolean>;
+}
@@ -1,19 +1,18 @@
 'use server';
 
 import { ManufacturerCredentials } from "@/types/credentials";
-import { Manufacturer } from "@/types/manufacturer";
+import { getWarrantyProviders } from "@/lib/manufacturers/registry";
 
 export async function getManufacturerCredentialsFromEnvs(): Promise<ManufacturerCredentials> {
-  return {
-    [Manufacturer.DELL]: {
-      clientId: process.env.DELL_API_CLIENT_ID || '',
-      clientSecret: process.env.DELL_API_CLIENT_SECRET || '',
-    },
-    [Manufacturer.HP]: {
-      apiKey: process.env.HP_API_KEY || '',
-    },
-    [Manufacturer.LENOVO]: {
-      apiKey: process.env.LENOVO_API_KEY || '',
-    },
-  };
-}
\ No newline at end of file
+  const credentials: Record<string, Record<string, string>> = {};
+
+  for (const provider of getWarrantyProviders()) {
+    credentials[provider.id] = Object.fromEntries(
+      provider.credentialFields
+        .filter(field => field.envVar)
+        .map(field => [field.key, process.env[field.envVar!] || ''])
+    );
+  }
+
+  return credentials as ManufacturerCredentials;
+}
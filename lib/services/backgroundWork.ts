@@ -0,0 +1,60 @@
+import 'server-only';
+
+/**
+ * Lets a self-hosted backup restore, which swaps the SQLite database file, pause the
+ * in-process job worker and sync scheduler. While paused they start no new work, and
+ * long-running jobs and schedule runs stop at their next batch; the restore waits until
+ * nothing is using the database.
+ */
+
+// How often a pausing caller checks whether running work has stopped
+const IDLE_POLL_INTERVAL_MS = 200;
+
+// Survives module reloads in development, like the worker and scheduler loops
+const backgroundWorkState = globalThis as unknown as {
+  backgroundWork?: { pauseCount: number; activeCount: number };
+};
+
+function getState(): { pauseCount: number; activeCount: number } {
+  if (!backgroundWorkState.backgroundWork) {
+    backgroundWorkState.backgroundWork = { pauseCount: 0, activeCount: 0 };
+  }
+  return backgroundWorkState.backgroundWork;
+}
+
+export function isBackgroundWorkPaused(): boolean {
+  return getState().pauseCount > 0;
+}
+
+/**
+ * Runs one unit of worker or scheduler work, or skips it (returning undefined) while paused
+ */
+export async function runBackgroundWork<T>(work: () => Promise<T>): Promise<T | undefined> {
+  const state = getState();
+  if (state.pauseCount > 0) {
+    return undefined;
+  }
+
+  state.activeCount++;
+  try {
+    return await work();
+  } finally {
+    state.activeCount--;
+  }
+}
+
+/**
+ * Pauses background work, waits for running work to stop, then runs the given work
+ */
+export async function withBackgroundWorkPaused<T>(work: () => Promise<T>): Promise<T> {
+  const state = getState();
+  state.pauseCount++;
+  try {
+    while (state.activeCount > 0) {
+      await new Promise(resolve => setTimeout(resolve, IDLE_POLL_INTERVAL_MS));
+    }
+    return await work();
+  } finally {
+    state.pauseCount--;
+  }
+}
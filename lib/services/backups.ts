@@ -0,0 +1,71 @@
+import 'server-only';
+
+import fs from 'fs';
+import path from 'path';
+import { getDatabaseAdapter } from '@/lib/database/factory';
+import { appConfig, isSaaSMode } from '@/lib/config';
+import { logger } from '@/lib/logger';
+
+/**
+ * Backup files in the data directory (self-hosted mode)
+ * Backups are written to a "backups" folder next to the SQLite database, so they end
+ * up on the same Docker volume. With BACKUP_KEEP_NIGHTLY set, the scheduler takes one
+ * backup per day (shortly after midnight, server time) and keeps the newest N.
+ */
+
+const NIGHTLY_BACKUP_PATTERN = /^nightly-\d{4}-\d{2}-\d{2}\.db$/;
+
+export function getBackupDirectory(): string {
+  const dbPath = appConfig.database.sqlitePath || path.join(process.cwd(), 'data', 'warranty.db');
+  return path.join(path.dirname(dbPath), 'backups');
+}
+
+/**
+ * Writes a backup to a file (by default a timestamped file in the backups folder)
+ * and returns its path. The file only appears once the backup is complete.
+ * userId selects the account in SaaS mode.
+ */
+export async function writeBackupFile(filePath?: string, userId?: string): Promise<string> {
+  const backup = await getDatabaseAdapter().createBackup(userId);
+  const targetPath = filePath || path.join(getBackupDirectory(), backup.fileName);
+
+  await fs.promises.mkdir(path.dirname(targetPath), { recursive: true });
+  await fs.promises.writeFile(`${targetPath}.partial`, backup.data);
+  await fs.promises.rename(`${targetPath}.partial`, targetPath);
+  return targetPath;
+}
+
+/**
+ * Takes today's nightly backup if it hasn't been taken yet, then deletes the
+ * oldest nightly backups beyond the configured count
+ */
+export async function runNightlyBackupIfDue(): Promise<void> {
+  const keepNightly = appConfig.backups.keepNightly;
+  if (isSaaSMode() || keepNightly <= 0) {
+    return;
+  }
+
+  const now = new Date();
+  const date = [
+    now.getFullYear(),
+    String(now.getMonth() + 1).padStart(2, '0'),
+    String(now.getDate()).padStart(2, '0')
+  ].join('-');
+  const backupDirectory = getBackupDirectory();
+  const backupPath = path.join(backupDirectory, `nightly-${date}.db`);
+  if (fs.existsSync(backupPath)) {
+    return;
+  }
+
+  await writeBackupFile(backupPath);
+  logger.info(`Wrote nightly backup ${backupPath}`, 'backups');
+
+  // File names sort by date, newest last
+  const nightlyBackups = (await fs.promises.readdir(backupDirectory))
+    .filter(fileName => NIGHTLY_BACKUP_PATTERN.test(fileName))
+    .sort();
+  for (const fileName of nightlyBackups.slice(0, Math.max(0, nightlyBackups.length - keepNightly))) {
+    await fs.promises.rm(path.join(backupDirectory, fileName), { force: true });
+    logger.info(`Deleted old nightly backup ${fileName}`, 'backups');
+  }
+}
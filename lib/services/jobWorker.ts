@@ -0,0 +1,159 @@
+import 'server-only';
+
+import { Device } from '@/types/device';
+import { Job, JobFailure } from '@/types/job';
+import { getDatabaseAdapter } from '@/lib/database/factory';
+import { getManufacturerCredentialsFromEnvs } from '@/lib/serverConfig';
+import { lookupAndStoreDeviceWarranties } from './warrantyBatch';
+import { isBackgroundWorkPaused, runBackgroundWork } from './backgroundWork';
+import { appConfig, isSaaSMode } from '@/lib/config';
+import { logger } from '@/lib/logger';
+
+/**
+ * In-process background job worker
+ * Started once per server process from instrumentation.ts. Polls the jobs table,
+ * processes one job at a time and persists progress after every batch, so a job
+ * interrupted by a restart resumes where it left off.
+ */
+
+// Devices looked up per batch; progress is persisted after each batch
+const JOB_BATCH_SIZE = 100;
+// How often to poll for queued jobs when idle
+const POLL_INTERVAL_MS = 2000;
+// Running jobs that haven't reported progress for this long are assumed to be orphaned
+const STALE_JOB_SECONDS = 10 * 60;
+
+// Survives module reloads in development so only one worker loop runs per process
+const workerState = globalThis as unknown as { jobWorkerStarted?: boolean };
+
+export function startJobWorker(): void {
+  if (workerState.jobWorkerStarted) {
+    return;
+  }
+  if (!appConfig.jobs.workerEnabled) {
+    logger.info('Background job worker disabled via JOB_WORKER_ENABLED', 'job-worker');
+    return;
+  }
+  workerState.jobWorkerStarted = true;
+
+  logger.info('Starting background job worker', 'job-worker');
+  void recoverInterruptedJobs().finally(() => scheduleNextPoll(0));
+}
+
+function scheduleNextPoll(delayMs: number): void {
+  setTimeout(async () => {
+    let processedJob = false;
+    try {
+      // Skipped while a backup restore has paused background work
+      processedJob = await runBackgroundWork(runNextJob) ?? false;
+    } catch (error) {
+      logger.error(`Job worker error: ${error}`, 'job-worker', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+    // Pick up the next queued job right away; otherwise wait before polling again
+    scheduleNextPoll(processedJob ? 0 : POLL_INTERVAL_MS);
+  }, delayMs);
+}
+
+/**
+ * Requeues jobs left in 'running' state by a previous server process.
+ * Self-hosted runs a single process, so every running job is orphaned on startup;
+ * in SaaS mode other instances may still be working, so only stale jobs are requeued.
+ */
+async function recoverInterruptedJobs(): Promise<void> {
+  try {
+    const now = Math.floor(Date.now() / 1000);
+    const staleBefore = isSaaSMode() ? now - STALE_JOB_SECONDS : now;
+    const requeuedCount = await getDatabaseAdapter().requeueStaleJobs(staleBefore);
+    if (requeuedCount > 0) {
+      logger.info(`Requeued ${requeuedCount} interrupted job(s)`, 'job-worker', { requeuedCount });
+    }
+  } catch (error) {
+    logger.error(`Error recovering interrupted jobs: ${error}`, 'job-worker', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+async function runNextJob(): Promise<boolean> {
+  const adapter = getDatabaseAdapter();
+  const job = await adapter.claimNextQueuedJob();
+  if (!job) {
+    return false;
+  }
+
+  logger.info(`Processing ${job.type} job ${job.id} (${job.processedItems}/${job.totalItems} done)`, 'job-worker', {
+    jobId: job.id,
+    type: job.type,
+    processedItems: job.processedItems,
+    totalItems: job.totalItems
+  });
+
+  try {
+    await processWarrantyLookupJob(job);
+    await adapter.finishJob(job.id, 'completed');
+    logger.info(`Finished job ${job.id}`, 'job-worker', { jobId: job.id });
+  } catch (error) {
+    logger.error(`Job ${job.id} failed: ${error}`, 'job-worker', {
+      jobId: job.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    await adapter.finishJob(job.id, 'failed', error instanceof Error ? error.message : String(error));
+  }
+
+  return true;
+}
+
+async function processWarrantyLookupJob(job: Job): Promise<void> {
+  const adapter = getDatabaseAdapter();
+  const { userId } = job;
+  const manufacturerCredentials = isSaaSMode() || !job.params.manufacturerCredentials
+    ? await getManufacturerCredentialsFromEnvs()
+    : job.params.manufacturerCredentials;
+
+  const serialNumbers = job.params.serialNumbers;
+  let processedItems = job.processedItems;
+  let failedItems = job.failedItems;
+  const failures: JobFailure[] = [...job.failures];
+
+  while (processedItems < serialNumbers.length) {
+    // Stop early if the job was canceled while the previous batch ran
+    const currentJob = await adapter.getJobById(job.id, userId);
+    if (!currentJob || currentJob.status !== 'running') {
+      logger.info(`Job ${job.id} is ${currentJob?.status || 'gone'}, stopping`, 'job-worker', { jobId: job.id });
+      return;
+    }
+
+    // A backup restore is waiting for the database; hand the job back to the queue.
+    // Only self-hosted restores pause, and there this worker runs the only job.
+    if (isBackgroundWorkPaused()) {
+      logger.info(`Pausing job ${job.id} for a backup restore`, 'job-worker', { jobId: job.id });
+      await adapter.requeueStaleJobs(Math.floor(Date.now() / 1000));
+      return;
+    }
+
+    const batch = serialNumbers.slice(processedItems, processedItems + JOB_BATCH_SIZE);
+    const devices: Device[] = [];
+    for (const serialNumber of batch) {
+      const device = await adapter.getDeviceBySerial(serialNumber, userId);
+      if (device) {
+        devices.push(device);
+      } else {
+        failures.push({ serialNumber, error: 'Device no longer exists' });
+      }
+    }
+
+    const results = await lookupAndStoreDeviceWarranties(devices, manufacturerCredentials, userId);
+
+    for (const result of results) {
+      if (result.error) {
+        failures.push({ serialNumber: result.serialNumber, error: result.errorMessage || 'Unknown error' });
+      }
+    }
+
+    processedItems += batch.length;
+    failedItems = failures.length;
+    await adapter.updateJobProgress(job.id, { processedItems, failedItems, failures });
+  }
+}
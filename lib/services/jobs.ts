@@ -0,0 +1,58 @@
+import { Job } from '@/types/job';
+import { ManufacturerCredentials } from '@/types/credentials';
+import { createJob, getAllDevices, getDevicesByClientName } from '@/lib/database/service';
+import { isSaaSMode } from '@/lib/config';
+import { logger } from '@/lib/logger';
+
+export interface WarrantyLookupJobRequest {
+  serialNumbers?: string[]; // Explicit device set; takes precedence over clientName
+  clientName?: string;      // All devices of one client
+  skipExisting?: boolean;   // Only include devices due under the warranty refresh policy
+  credentials?: ManufacturerCredentials; // Self-hosted mode only
+}
+
+/**
+ * Resolves the requested device set and enqueues a background warranty lookup job.
+ * Devices are resolved to serial numbers up front, so the job works on a stable list
+ * even if devices are imported while it runs.
+ */
+export async function enqueueWarrantyLookupJob(request: WarrantyLookupJobRequest): Promise<Job> {
+  const devices = request.clientName && !request.serialNumbers
+    ? await getDevicesByClientName(request.clientName)
+    : await getAllDevices();
+
+  const requestedSerials = request.serialNumbers ? new Set(request.serialNumbers) : null;
+  const serialNumbers = devices
+    .filter(device => device.serialNumber)
+    .filter(device => !requestedSerials || requestedSerials.has(device.serialNumber))
+    .filter(device => !request.skipExisting || device.needsWarrantyLookup)
+    .map(device => device.serialNumber);
+
+  const job = await createJob({
+    type: 'warranty-lookup',
+    params: {
+      serialNumbers,
+      // SaaS mode reads credentials from env; never persist user-supplied ones there
+      manufacturerCredentials: isSaaSMode() ? undefined : request.credentials
+    },
+    totalItems: serialNumbers.length
+  });
+
+  logger.info(`Enqueued warranty lookup job ${job.id} for ${serialNumbers.length} devices`, 'jobs-api', {
+    jobId: job.id,
+    deviceCount: serialNumbers.length,
+    clientName: request.clientName
+  });
+
+  return toPublicJob(job);
+}
+
+/**
+ * Strips stored credentials before a job is returned to the browser
+ */
+export function toPublicJob(job: Job): Job {
+  return {
+    ...job,
+    params: { serialNumbers: job.params.serialNumbers }
+  };
+}
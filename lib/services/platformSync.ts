@@ -0,0 +1,46 @@
+import { Device } from '@/types/device';
+import { PlatformCredentials, SyncPlatform } from '@/types/platform';
+import { getPlatformConnector, getPlatformConnectors } from '@/lib/platforms/registry';
+import { PlatformConnector, PlatformWarranty } from '@/lib/platforms/types';
+
+/**
+ * Dispatches device imports and warranty write-backs to the platform connectors.
+ * Shared by the platform-data API routes and the sync scheduler.
+ */
+
+export const SYNC_PLATFORMS: SyncPlatform[] = getPlatformConnectors().map(connector => connector.id);
+
+export function isSyncPlatform(platform: unknown): platform is SyncPlatform {
+  return SYNC_PLATFORMS.includes(platform as SyncPlatform);
+}
+
+function requireConnector(platform: SyncPlatform): PlatformConnector {
+  const connector = getPlatformConnector(platform);
+  if (!connector) {
+    throw new Error(`Unsupported platform: ${platform}`);
+  }
+  return connector;
+}
+
+export async function fetchPlatformDevices(
+  platform: SyncPlatform,
+  credentials: PlatformCredentials[SyncPlatform] = {}
+): Promise<Device[]> {
+  return requireConnector(platform).fetchDevices(credentials);
+}
+
+export async function updatePlatformWarranty(
+  platform: SyncPlatform,
+  deviceId: string,
+  warranty: PlatformWarranty,
+  credentials: PlatformCredentials[SyncPlatform] = {}
+): Promise<boolean> {
+  return requireConnector(platform).writeWarranty(deviceId, warranty, credentials);
+}
+
+export async function testPlatformConnection(
+  platform: SyncPlatform,
+  credentials: PlatformCredentials[SyncPlatform] = {}
+): Promise<boolean> {
+  return requireConnector(platform).testConnection(credentials);
+}
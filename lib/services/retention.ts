@@ -0,0 +1,66 @@
+import 'server-only';
+
+import { getDatabaseAdapter } from '@/lib/database/factory';
+import { appConfig, isSaaSMode } from '@/lib/config';
+import { logger } from '@/lib/logger';
+
+/**
+ * Device retention rules, applied by the scheduler:
+ * - DEVICE_RETENTION_DAYS moves devices that no import has seen in that many days
+ *   to the trash (off by default). Self-hosted only: in SaaS mode one server
+ *   setting would apply to every account, so devices are only trashed by their owners.
+ * - TRASH_RETENTION_DAYS permanently deletes devices that have been in the trash that
+ *   long (30 days by default)
+ */
+
+// How often the rules are applied
+const RETENTION_INTERVAL_MS = 60 * 60 * 1000;
+
+// Survives module reloads in development, like the scheduler state
+const retentionState = globalThis as unknown as {
+  deviceRetentionLastRunAt?: number;
+  staleDeviceRuleSkipLogged?: boolean;
+};
+
+function getStaleDeviceDays(): number {
+  const { staleDeviceDays } = appConfig.retention;
+  if (staleDeviceDays > 0 && isSaaSMode()) {
+    if (!retentionState.staleDeviceRuleSkipLogged) {
+      retentionState.staleDeviceRuleSkipLogged = true;
+      logger.warn('DEVICE_RETENTION_DAYS is ignored in SaaS mode', 'retention');
+    }
+    return 0;
+  }
+  return staleDeviceDays;
+}
+
+/**
+ * Applies the retention rules if they haven't been applied in the last hour
+ */
+export async function runDeviceRetentionIfDue(): Promise<void> {
+  const staleDeviceDays = getStaleDeviceDays();
+  const { trashDays } = appConfig.retention;
+  if (staleDeviceDays <= 0 && trashDays <= 0) {
+    return;
+  }
+
+  const now = Date.now();
+  if (retentionState.deviceRetentionLastRunAt && now - retentionState.deviceRetentionLastRunAt < RETENTION_INTERVAL_MS) {
+    return;
+  }
+  retentionState.deviceRetentionLastRunAt = now;
+
+  const adapter = getDatabaseAdapter();
+  if (staleDeviceDays > 0) {
+    const trashed = await adapter.cleanupOldDevices(staleDeviceDays);
+    if (trashed > 0) {
+      logger.info(`Moved ${trashed} devices not seen in ${staleDeviceDays} days to the trash`, 'retention');
+    }
+  }
+  if (trashDays > 0) {
+    const purged = await adapter.purgeDeletedDevices(Math.floor(now / 1000) - trashDays * 24 * 3600);
+    if (purged > 0) {
+      logger.info(`Permanently deleted ${purged} devices trashed more than ${trashDays} days ago`, 'retention');
+    }
+  }
+}
@@ -0,0 +1,314 @@
+import 'server-only';
+
+import { Device, DeviceSource } from '@/types/device';
+import { ScheduleRunStats, SyncSchedule } from '@/types/schedule';
+import { getDatabaseAdapter } from '@/lib/database/factory';
+import { getManufacturerCredentialsFromEnvs } from '@/lib/serverConfig';
+import { fetchPlatformDevices, updatePlatformWarranty } from './platformSync';
+import { getScheduleNextRunAt } from './schedules';
+import { getWriteBackSources } from '@/lib/utils/deviceUtils';
+import { lookupAndStoreDeviceWarranties } from './warrantyBatch';
+import { runNightlyBackupIfDue } from './backups';
+import { runDeviceRetentionIfDue } from './retention';
+import { isBackgroundWorkPaused, runBackgroundWork } from './backgroundWork';
+import { getMaxDevicesForUser } from '@/lib/subscription/limits';
+import { appConfig, isSaaSMode } from '@/lib/config';
+import { logger } from '@/lib/logger';
+
+/**
+ * In-process sync scheduler
+ * Started once per server process from instrumentation.ts. Every tick it runs the
+ * schedules that are due: import devices from the platform, look up warranties for
+ * devices the refresh policy marks as due, then write new warranty dates back.
+ * The same loop takes the nightly backup when BACKUP_KEEP_NIGHTLY is set and applies
+ * the device retention rules (see retention.ts).
+ */
+
+// How often to check for due schedules
+const TICK_INTERVAL_MS = 30 * 1000;
+// Devices looked up per batch
+const LOOKUP_BATCH_SIZE = 100;
+// Runs still marked running after this long are assumed to be orphaned (SaaS mode)
+const STALE_RUN_SECONDS = 6 * 60 * 60;
+
+// Survives module reloads in development so only one scheduler loop runs per process
+const schedulerState = globalThis as unknown as { syncSchedulerStarted?: boolean };
+
+export function startSyncScheduler(): void {
+  if (schedulerState.syncSchedulerStarted) {
+    return;
+  }
+  if (!appConfig.jobs.schedulerEnabled) {
+    logger.info('Sync scheduler disabled via SCHEDULER_ENABLED', 'scheduler');
+    return;
+  }
+  schedulerState.syncSchedulerStarted = true;
+
+  logger.info('Starting sync scheduler', 'scheduler');
+  void recoverInterruptedRuns().finally(() => scheduleNextTick(0));
+}
+
+function scheduleNextTick(delayMs: number): void {
+  setTimeout(async () => {
+    // Skipped while a backup restore has paused background work
+    await runBackgroundWork(runTick);
+    scheduleNextTick(TICK_INTERVAL_MS);
+  }, delayMs);
+}
+
+async function runTick(): Promise<void> {
+  try {
+    await runDueSchedules();
+  } catch (error) {
+    logger.error(`Sync scheduler error: ${error}`, 'scheduler', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+  try {
+    await runNightlyBackupIfDue();
+  } catch (error) {
+    logger.error(`Nightly backup failed: ${error}`, 'backups', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+  try {
+    await runDeviceRetentionIfDue();
+  } catch (error) {
+    logger.error(`Device retention failed: ${error}`, 'retention', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+/**
+ * Marks runs left in 'running' state by a previous server process as failed.
+ * Scheduled runs aren't resumable; the schedule simply runs again at its next time.
+ */
+async function recoverInterruptedRuns(): Promise<void> {
+  try {
+    const now = Math.floor(Date.now() / 1000);
+    const startedBefore = isSaaSMode() ? now - STALE_RUN_SECONDS : now;
+    const failedCount = await getDatabaseAdapter().failInterruptedScheduleRuns(startedBefore);
+    if (failedCount > 0) {
+      logger.warn(`Marked ${failedCount} interrupted schedule run(s) as failed`, 'scheduler', { failedCount });
+    }
+  } catch (error) {
+    logger.error(`Error recovering interrupted schedule runs: ${error}`, 'scheduler', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+async function runDueSchedules(): Promise<void> {
+  const adapter = getDatabaseAdapter();
+  const dueSchedules = await adapter.getDueSchedules(Math.floor(Date.now() / 1000));
+
+  for (const schedule of dueSchedules) {
+    // Leave the rest for after a backup restore that is waiting for the database
+    if (isBackgroundWorkPaused()) {
+      return;
+    }
+
+    // Advance next_run_at before running, so a slow run isn't picked up again by the next tick
+    const claimed = await adapter.claimScheduleRun(
+      schedule.id,
+      schedule.nextRunAt!,
+      getScheduleNextRunAt(schedule)
+    );
+    if (!claimed) {
+      continue;
+    }
+
+    await runSchedule(schedule);
+  }
+}
+
+async function runSchedule(schedule: SyncSchedule): Promise<void> {
+  const adapter = getDatabaseAdapter();
+  const run = await adapter.createScheduleRun(schedule);
+  const stats: ScheduleRunStats = {
+    devicesImported: 0,
+    devicesLookedUp: 0,
+    lookupsFailed: 0,
+    devicesWrittenBack: 0,
+    writeBacksFailed: 0
+  };
+
+  logger.info(`Running schedule "${schedule.name}" for ${schedule.platform}`, 'scheduler', {
+    scheduleId: schedule.id,
+    runId: run.id,
+    platform: schedule.platform
+  });
+
+  try {
+    await importPlatformDevices(schedule, stats);
+    if (schedule.lookupWarranties) {
+      await lookupDueWarranties(schedule, stats);
+    }
+    if (schedule.writeBack) {
+      await writeBackWarranties(schedule, stats);
+    }
+
+    await adapter.finishScheduleRun(run.id, 'completed', stats);
+    logger.info(`Finished schedule "${schedule.name}"`, 'scheduler', {
+      scheduleId: schedule.id,
+      runId: run.id,
+      ...stats
+    });
+  } catch (error) {
+    logger.error(`Schedule "${schedule.name}" failed: ${error}`, 'scheduler', {
+      scheduleId: schedule.id,
+      runId: run.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    await adapter.finishScheduleRun(run.id, 'failed', stats, error instanceof Error ? error.message : String(error));
+  }
+}
+
+async function importPlatformDevices(schedule: SyncSchedule, stats: ScheduleRunStats): Promise<void> {
+  const adapter = getDatabaseAdapter();
+  const { devices, skipped } = await applyPlanDeviceLimit(
+    schedule,
+    await fetchPlatformDevices(schedule.platform, schedule.credentials?.platform)
+  );
+
+  // Lookup and write-back select devices by source platform, so make sure it is set
+  const results = await adapter.bulkUpsertDevices(
+    devices.map(device => ({ ...device, sourcePlatform: device.sourcePlatform || schedule.platform })),
+    schedule.userId
+  );
+
+  for (const result of results) {
+    if (result.outcome === 'rejected') {
+      logger.error(`Error storing device ${result.serialNumber}: ${result.error}`, 'scheduler', {
+        scheduleId: schedule.id,
+        serialNumber: result.serialNumber,
+        error: result.error
+      });
+    } else {
+      stats.devicesImported++;
+    }
+  }
+
+  if (skipped > 0) {
+    throw new Error(`Plan limit reached: ${skipped} new device(s) were not imported. Please upgrade to import more devices.`);
+  }
+}
+
+/**
+ * In SaaS mode, drops the new devices that would take the schedule's owner past their
+ * plan's device limit. Devices already in the owner's inventory are still updated.
+ */
+async function applyPlanDeviceLimit(
+  schedule: SyncSchedule,
+  devices: Device[]
+): Promise<{ devices: Device[]; skipped: number }> {
+  if (!isSaaSMode() || !schedule.userId) {
+    return { devices, skipped: 0 };
+  }
+
+  const maxDevices = await getMaxDevicesForUser(schedule.userId);
+  const knownSerials = new Set(
+    (await getDatabaseAdapter().getAllDevices(schedule.userId)).map(device => device.serialNumber)
+  );
+  let remaining = maxDevices - knownSerials.size;
+
+  const allowed = devices.filter(device => {
+    if (knownSerials.has(device.serialNumber)) {
+      return true;
+    }
+    if (remaining <= 0) {
+      return false;
+    }
+    // Count a serial number once even if the platform reports it twice
+    knownSerials.add(device.serialNumber);
+    remaining--;
+    return true;
+  });
+
+  if (allowed.length < devices.length) {
+    logger.warn(`Schedule "${schedule.name}" reached the plan limit of ${maxDevices} devices`, 'scheduler', {
+      scheduleId: schedule.id,
+      skipped: devices.length - allowed.length
+    });
+  }
+
+  return { devices: allowed, skipped: devices.length - allowed.length };
+}
+
+async function lookupDueWarranties(schedule: SyncSchedule, stats: ScheduleRunStats): Promise<void> {
+  const adapter = getDatabaseAdapter();
+  const manufacturerCredentials = isSaaSMode() || !schedule.credentials?.manufacturer
+    ? await getManufacturerCredentialsFromEnvs()
+    : schedule.credentials.manufacturer;
+
+  const devices = (await adapter.getDevicesByPlatform(schedule.platform, schedule.userId))
+    .filter(device => device.serialNumber && device.needsWarrantyLookup);
+
+  for (let i = 0; i < devices.length; i += LOOKUP_BATCH_SIZE) {
+    throwIfPausedForRestore();
+    const results = await lookupAndStoreDeviceWarranties(
+      devices.slice(i, i + LOOKUP_BATCH_SIZE),
+      manufacturerCredentials,
+      schedule.userId
+    );
+    for (const result of results) {
+      if (result.error) {
+        stats.lookupsFailed++;
+      } else {
+        stats.devicesLookedUp++;
+      }
+    }
+  }
+}
+
+// Scheduled runs aren't resumable, so a restore waiting for the database fails the run
+function throwIfPausedForRestore(): void {
+  if (isBackgroundWorkPaused()) {
+    throw new Error('Interrupted by a backup restore');
+  }
+}
+
+function needsWriteBack(device: Device, source: DeviceSource): boolean {
+  if (!device.warrantyEndDate) {
+    return false;
+  }
+  // Written back before the latest lookup (or never) means the platform may have stale dates
+  return !source.warrantyWrittenBackAt || (device.warrantyFetchedAt || 0) > source.warrantyWrittenBackAt;
+}
+
+async function writeBackWarranties(schedule: SyncSchedule, stats: ScheduleRunStats): Promise<void> {
+  const adapter = getDatabaseAdapter();
+  const devices = await adapter.getDevicesByPlatform(schedule.platform, schedule.userId);
+
+  for (const device of devices) {
+    throwIfPausedForRestore();
+    // A device can have several records in the platform (e.g. duplicate agents); update each
+    const sources = getWriteBackSources(device)
+      .filter(source => source.platform === schedule.platform && needsWriteBack(device, source));
+
+    for (const source of sources) {
+      try {
+        const updated = await updatePlatformWarranty(
+          schedule.platform,
+          source.sourceDeviceId,
+          { startDate: device.warrantyStartDate, endDate: device.warrantyEndDate! },
+          schedule.credentials?.platform
+        );
+        if (!updated) {
+          throw new Error(`${schedule.platform} rejected the update`);
+        }
+        await adapter.markWarrantyWrittenBack(device.serialNumber, source, schedule.userId);
+        stats.devicesWrittenBack++;
+      } catch (error) {
+        logger.error(`Write-back failed for ${device.serialNumber}: ${error}`, 'scheduler', {
+          scheduleId: schedule.id,
+          serialNumber: device.serialNumber,
+          sourceDeviceId: source.sourceDeviceId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        stats.writeBacksFailed++;
+      }
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { SyncSchedule, SyncScheduleCredentials, SyncScheduleInput } from '@/types/schedule';
+import { createSchedule, getScheduleById, updateSchedule } from '@/lib/database/service';
+import { getNextCronRunEpoch, isValidCronExpression } from '@/lib/utils/cronUtils';
+import { isSyncPlatform } from './platformSync';
+import { isEncryptionConfigured } from '@/lib/utils/encryptionUtils';
+import { isSaaSMode } from '@/lib/config';
+import { logger } from '@/lib/logger';
+
+/**
+ * Next run time for a schedule, or null if it is disabled or its cron expression never matches
+ */
+export function getScheduleNextRunAt(
+  schedule: Pick<SyncScheduleInput, 'enabled' | 'cronExpression'>,
+  after: Date = new Date()
+): number | null {
+  if (!schedule.enabled) {
+    return null;
+  }
+  try {
+    return getNextCronRunEpoch(schedule.cronExpression, after);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validates a schedule from an API request body. Returns an error message if it is invalid.
+ */
+export function validateScheduleInput(body: Partial<SyncScheduleInput>): string | null {
+  if (!body.name?.trim()) {
+    return 'name is required';
+  }
+  if (!isSyncPlatform(body.platform)) {
+    return 'platform must be one of the supported RMM/PSA platforms';
+  }
+  if (!body.cronExpression || !isValidCronExpression(body.cronExpression)) {
+    return 'cronExpression must be a valid 5-field cron expression';
+  }
+  // SaaS mode only stores credentials encrypted (see serializeScheduleCredentials)
+  if (body.credentials && isSaaSMode() && !isEncryptionConfigured()) {
+    return 'schedule credentials cannot be stored until the server sets CREDENTIALS_ENCRYPTION_KEY';
+  }
+  return null;
+}
+
+function toScheduleInput(body: SyncScheduleInput, credentials?: SyncScheduleCredentials): SyncScheduleInput {
+  return {
+    name: body.name.trim(),
+    platform: body.platform,
+    cronExpression: body.cronExpression.trim(),
+    enabled: body.enabled !== false,
+    lookupWarranties: body.lookupWarranties !== false,
+    writeBack: !!body.writeBack,
+    credentials: credentials && {
+      platform: credentials.platform || {},
+      // SaaS mode reads manufacturer credentials from env; never persist user-supplied ones there
+      manufacturer: isSaaSMode() ? undefined : credentials.manufacturer
+    }
+  };
+}
+
+/**
+ * Creates a schedule, or updates it when scheduleId is given. When an update doesn't
+ * include credentials, the ones stored with the schedule are kept.
+ */
+export async function saveSchedule(body: SyncScheduleInput, scheduleId?: string): Promise<SyncSchedule | null> {
+  if (!scheduleId) {
+    const input = toScheduleInput(body, body.credentials);
+    const schedule = await createSchedule(input, getScheduleNextRunAt(input));
+    logger.info(`Created sync schedule "${schedule.name}" for ${schedule.platform}`, 'schedules-api', {
+      scheduleId: schedule.id,
+      cronExpression: schedule.cronExpression
+    });
+    return toPublicSchedule(schedule);
+  }
+
+  const existing = await getScheduleById(scheduleId);
+  if (!existing) {
+    return null;
+  }
+
+  const input = toScheduleInput(body, body.credentials || existing.credentials);
+  const schedule = await updateSchedule(scheduleId, input, getScheduleNextRunAt(input));
+  if (schedule) {
+    logger.info(`Updated sync schedule "${schedule.name}"`, 'schedules-api', {
+      scheduleId,
+      cronExpression: schedule.cronExpression,
+      enabled: schedule.enabled
+    });
+  }
+  return schedule && toPublicSchedule(schedule);
+}
+
+/**
+ * Makes an enabled schedule due right away; the scheduler picks it up on its next tick
+ */
+export async function runScheduleNow(scheduleId: string): Promise<SyncSchedule | null> {
+  const existing = await getScheduleById(scheduleId);
+  if (!existing || !existing.enabled) {
+    return null;
+  }
+
+  const schedule = await updateSchedule(scheduleId, existing, Math.floor(Date.now() / 1000));
+  logger.info(`Queued sync schedule "${existing.name}" to run now`, 'schedules-api', { scheduleId });
+  return schedule && toPublicSchedule(schedule);
+}
+
+/**
+ * Strips stored credentials before a schedule is returned to the browser
+ */
+export function toPublicSchedule(schedule: SyncSchedule): SyncSchedule {
+  return {
+    ...schedule,
+    credentials: undefined
+  };
+}
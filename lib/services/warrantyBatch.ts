@@ -0,0 +1,137 @@
+import { Device } from '@/types/device';
+import { WarrantyInfo, WarrantyLookupStatus } from '@/types/warranty';
+import { ManufacturerCredentials } from '@/types/credentials';
+import { getWarrantyProvider } from '@/lib/manufacturers/registry';
+import { WarrantyLookupResult, WarrantyProvider } from '@/lib/manufacturers/types';
+import { deviceToWarrantyInfo } from '@/lib/utils/deviceUtils';
+import { getWarrantyEntitlements } from '@/lib/utils/warrantyUtils';
+import { getWarrantyLookupStatus } from '@/lib/utils/warrantyLookupStatus';
+import { getDatabaseAdapter } from '@/lib/database/factory';
+import { logger } from '@/lib/logger';
+
+/**
+ * Looks up warranties for a set of devices and hands each successful result to storeWarranty.
+ * Failed lookups are passed to recordFailure, so the refresh policy can retry them later.
+ * Devices are grouped by warranty provider so providers with a batch endpoint (e.g. Dell)
+ * can look up many serials per request. Results are returned in the same order as the input.
+ *
+ * Shared by the warranty sync server actions and the background job worker, which store
+ * results with and without a user session respectively.
+ */
+export async function lookupDeviceWarranties(
+  devices: Device[],
+  manufacturerCredentials: ManufacturerCredentials,
+  storeWarranty: (serialNumber: string, warranty: WarrantyInfo) => Promise<void>,
+  recordFailure?: (serialNumber: string, status: WarrantyLookupStatus, error: string) => Promise<void>
+): Promise<WarrantyInfo[]> {
+  const results: WarrantyInfo[] = devices.map(device => deviceToWarrantyInfo(device));
+  const devicesByProvider = new Map<WarrantyProvider, number[]>();
+
+  devices.forEach((device, index) => {
+    const warrantyInfo = results[index];
+    if (!device.serialNumber) {
+      logger.warn(`Skipping device ID ${device.id} - no serial number.`, 'warranty-sync', {
+        deviceId: device.id
+      });
+      warrantyInfo.error = true;
+      warrantyInfo.errorMessage = 'Missing serial number';
+      warrantyInfo.skipped = true;
+      return;
+    }
+
+    const provider = getWarrantyProvider(device.manufacturer);
+    if (!provider) {
+      warrantyInfo.error = true;
+      warrantyInfo.errorMessage = `Unsupported manufacturer: ${device.manufacturer}`;
+      warrantyInfo.lookupStatus = 'unsupported_manufacturer';
+      return;
+    }
+
+    devicesByProvider.set(provider, [...(devicesByProvider.get(provider) || []), index]);
+  });
+
+  for (const [provider, indexes] of devicesByProvider) {
+    const serialNumbers = indexes.map(index => devices[index].serialNumber);
+    logger.info(`Fetching ${provider.name} warranties for ${serialNumbers.length} devices`, 'warranty-sync', {
+      provider: provider.id,
+      deviceCount: serialNumbers.length
+    });
+
+    let lookupResults: WarrantyLookupResult[];
+    let lookupStatus: WarrantyLookupStatus | undefined;
+    try {
+      lookupResults = await provider.lookupBatch(serialNumbers, manufacturerCredentials[provider.id]);
+    } catch (error) {
+      logger.error(`Error fetching ${provider.name} warranties from external API: ${error}`, 'warranty-sync', {
+        provider: provider.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      lookupResults = serialNumbers.map(serialNumber => ({
+        serialNumber,
+        error: error instanceof Error ? error.message : 'API fetch failed'
+      }));
+      // Keep the HTTP status code (if any) for classification, it isn't in every message
+      lookupStatus = getWarrantyLookupStatus(error);
+    }
+
+    for (let i = 0; i < indexes.length; i++) {
+      const warrantyInfo = results[indexes[i]];
+      const lookupResult = lookupResults[i];
+
+      if (!lookupResult?.warranty) {
+        logger.error(`Error fetching warranty for ${warrantyInfo.serialNumber} from external API: ${lookupResult?.error}`, 'warranty-sync', {
+          serialNumber: warrantyInfo.serialNumber,
+          manufacturer: warrantyInfo.manufacturer,
+          error: lookupResult?.error
+        });
+        warrantyInfo.error = true;
+        warrantyInfo.errorMessage = lookupResult?.error || 'API fetch failed';
+        warrantyInfo.lookupStatus = lookupStatus || getWarrantyLookupStatus(warrantyInfo.errorMessage);
+        continue;
+      }
+
+      // Store the warranty data in database
+      await storeWarranty(warrantyInfo.serialNumber, lookupResult.warranty);
+      warrantyInfo.startDate = lookupResult.warranty.startDate;
+      warrantyInfo.endDate = lookupResult.warranty.endDate;
+      warrantyInfo.entitlements = getWarrantyEntitlements(lookupResult.warranty);
+      warrantyInfo.lookupStatus = 'success';
+      warrantyInfo.lookupMessage = undefined;
+    }
+  }
+
+  if (recordFailure) {
+    // Devices skipped for a missing serial number have nothing to record against
+    for (const warrantyInfo of results.filter(result => result.error && !result.skipped)) {
+      await recordFailure(
+        warrantyInfo.serialNumber,
+        warrantyInfo.lookupStatus || 'error',
+        warrantyInfo.errorMessage || 'API fetch failed'
+      );
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Looks up and stores warranties on behalf of a given user, for background work
+ * (job worker, scheduler) that runs without a user session.
+ */
+export async function lookupAndStoreDeviceWarranties(
+  devices: Device[],
+  manufacturerCredentials: ManufacturerCredentials,
+  userId?: string
+): Promise<WarrantyInfo[]> {
+  const adapter = getDatabaseAdapter();
+
+  return lookupDeviceWarranties(devices, manufacturerCredentials, async (serialNumber, warranty) => {
+    await adapter.updateDeviceWarranty(serialNumber, {
+      startDate: warranty.startDate,
+      endDate: warranty.endDate
+    }, userId);
+    await adapter.replaceDeviceEntitlements(serialNumber, getWarrantyEntitlements(warranty), userId);
+  }, async (serialNumber, status, error) => {
+    await adapter.recordWarrantyLookupFailure(serialNumber, status, error, userId);
+  });
+}
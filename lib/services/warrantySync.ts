@@ -1,22 +1,30 @@
 'use server';
 
-import { Device } from '../../types/device';
-import { WarrantyInfo } from '../../types/warranty';
-import { Manufacturer } from '../../types/manufacturer';
+import { Device, DeviceSourceRef } from '../../types/device';
+import { WarrantyInfo, WarrantyLookupStatus } from '../../types/warranty';
 import { ManufacturerCredentials } from '../../types/credentials';
-import { getDellWarrantyInfo } from '../manufacturers/dell';
-import { getHpWarrantyInfo } from '../manufacturers/hp';
-import { getLenovoWarrantyInfo } from '../manufacturers/lenovo';
+import {
+  assertAllowedCredentialUrls,
+  getWarrantyProvider,
+  getWarrantyProviderById,
+  getWarrantyProviders,
+} from '../manufacturers/registry';
 import { 
-  insertOrUpdateDevice, 
+  bulkUpsertDevices, 
   getDeviceBySerial, 
   updateDeviceWarranty,
   markWarrantyWrittenBack,
+  recordWarrantyLookupFailure,
+  replaceDeviceEntitlements,
 } from '../database/service';
+import { getWarrantyEntitlements } from '../utils/warrantyUtils';
 import { deviceToWarrantyInfo } from '../utils/deviceUtils';
+import { getWarrantyRefreshReason } from '../utils/warrantyRefresh';
+import { getWarrantyLookupStatus } from '../utils/warrantyLookupStatus';
 import { logger } from '@/lib/logger';
 import { getManufacturerCredentialsFromEnvs } from '@/lib/serverConfig';
-import { isSaaSMode } from '@/lib/config';
+import { lookupDeviceWarranties } from './warrantyBatch';
+import { appConfig, isSaaSMode } from '@/lib/config';
 
 export interface SyncOptions {
   writeBackToSource: boolean;
@@ -35,47 +43,33 @@ export interface SyncResult {
 /**
  * Stores a list of devices in the database, enhancing them with source information.
  * This is the primary function for ingesting devices from any source (platform or CSV).
+ * The whole list is written in one transaction; devices missing required fields are
+ * counted as errors and skipped.
  */
 export async function storeDevicesInPool(
   devices: Device[], 
 ): Promise<{ successCount: number; errorCount: number }> {
   logger.info(`Storing ${devices.length} devices in database...`, 'warranty-sync');
   
-  let successCount = 0;
-  let errorCount = 0;
+  const results = await bulkUpsertDevices(devices);
+  const counts = { inserted: 0, updated: 0, unchanged: 0, rejected: 0 };
   
-  for (const device of devices) {
-    try {
-      /*
-      Starting now we're storing the device as-is 2025-08-04
-      const deviceToStore: Device = {
-        ...device,
-        id: device.id || device.serialNumber, // Ensure ID for database primary key
-        sourcePlatform: sourcePlatform,
-        // Preserve existing sourceDeviceId if available, otherwise use device.id from platform
-        sourceDeviceId: device.sourceDeviceId || device.id, 
-      };
-      */
-
-      await insertOrUpdateDevice(device);
-      successCount++;
-      logger.debug(`Stored device: ${device.serialNumber}`, 'warranty-sync', { 
-        serialNumber: device.serialNumber,
-        manufacturer: device.manufacturer,
-      });
-    } catch (error) {
-      logger.error(`Error storing device ${device.serialNumber}: ${error}`, 'warranty-sync', {
-        serialNumber: device.serialNumber,
-        error: error instanceof Error ? error.message : String(error)
+  for (const result of results) {
+    counts[result.outcome]++;
+    if (result.outcome === 'rejected') {
+      logger.error(`Error storing device ${result.serialNumber}: ${result.error}`, 'warranty-sync', {
+        serialNumber: result.serialNumber,
+        error: result.error
       });
-      errorCount++;
-      // Continue with other devices even if one fails
     }
   }
   
+  const successCount = results.length - counts.rejected;
+  const errorCount = counts.rejected;
   logger.info(`Successfully stored ${successCount} devices. Errors: ${errorCount}`, 'warranty-sync', {
     successCount,
     errorCount,
+    ...counts
   });
   return { successCount, errorCount };
 }
@@ -103,11 +97,15 @@ export async function getDevicesForWarrantySync(
       // Check database for existing warranty info
       const dbDevice = await getDeviceBySerial(device.serialNumber);
       
-      if (!dbDevice || !dbDevice.warrantyFetchedAt) {
-        // Device not in database or no warranty info fetched yet
+      if (!dbDevice || dbDevice.needsWarrantyLookup) {
+        // Device not in database, or its warranty info is missing or due for a refresh
+        logger.debug(`Looking up ${device.serialNumber}`, 'warranty-sync', {
+          serialNumber: device.serialNumber,
+          reason: dbDevice ? getWarrantyRefreshReason(dbDevice, appConfig.warrantyRefresh) : 'never-fetched'
+        });
         devicesNeedingLookup.push(device);
       } else {
-        logger.debug(`Skipping ${device.serialNumber} - already has warranty info in database`, 'warranty-sync', {
+        logger.debug(`Skipping ${device.serialNumber} - warranty info in database is current`, 'warranty-sync', {
           serialNumber: device.serialNumber,
           warrantyFetchedAt: dbDevice.warrantyFetchedAt
         });
@@ -137,6 +135,7 @@ export async function storeWarrantyInfo(
       startDate: warrantyInfo.startDate,
       endDate: warrantyInfo.endDate
     });
+    await replaceDeviceEntitlements(serialNumber, getWarrantyEntitlements(warrantyInfo));
     
     logger.info(`Stored warranty info for ${serialNumber} in database`, 'warranty-sync', {
       serialNumber
@@ -151,13 +150,14 @@ export async function storeWarrantyInfo(
 }
 
 /**
- * Mark warranty as written back to source platform
+ * Mark warranty as written back to a source platform record
  */
-export async function markWarrantyAsWrittenBack(serialNumber: string): Promise<void> {
+export async function markWarrantyAsWrittenBack(serialNumber: string, source?: DeviceSourceRef): Promise<void> {
   try {
-    await markWarrantyWrittenBack(serialNumber);
+    await markWarrantyWrittenBack(serialNumber, source);
     logger.info(`Marked warranty as written back for ${serialNumber}`, 'warranty-sync', {
-      serialNumber
+      serialNumber,
+      platform: source?.platform
     });
   } catch (error) {
     logger.error(`Error marking warranty as written back for ${serialNumber}: ${error}`, 'warranty-sync', {
@@ -168,6 +168,32 @@ export async function markWarrantyAsWrittenBack(serialNumber: string): Promise<v
   }
 }
 
+/**
+ * Record a failed warranty lookup so the refresh policy can retry it
+ */
+export async function recordLookupFailure(
+  serialNumber: string,
+  status: WarrantyLookupStatus,
+  error: string
+): Promise<void> {
+  try {
+    await recordWarrantyLookupFailure(serialNumber, status, error);
+  } catch (recordError) {
+    logger.error(`Error recording warranty lookup failure for ${serialNumber}: ${recordError}`, 'warranty-sync', {
+      serialNumber,
+      error: recordError instanceof Error ? recordError.message : String(recordError)
+    });
+    // Don't throw - this shouldn't break the sync process
+  }
+}
+
+// Credentials from the browser may carry endpoint URLs; the server's env credentials are trusted
+function assertAllowedManufacturerCredentialUrls(credentials: ManufacturerCredentials): void {
+  for (const provider of getWarrantyProviders()) {
+    assertAllowedCredentialUrls(provider, credentials[provider.id]);
+  }
+}
+
 /**
  * Fetches warranty information for a single device and stores it in the database.
  * It first checks the cache, then external APIs if necessary.
@@ -178,6 +204,8 @@ export async function fetchAndStoreDeviceWarranty(
 ): Promise<WarrantyInfo> {
   if (!manufacturerCredentials || isSaaSMode()) {
     manufacturerCredentials = await getManufacturerCredentialsFromEnvs();
+  } else {
+    assertAllowedManufacturerCredentialUrls(manufacturerCredentials);
   }
   const warrantyInfo = deviceToWarrantyInfo(device);
   if (!device.serialNumber) {
@@ -196,48 +224,25 @@ export async function fetchAndStoreDeviceWarranty(
   });
   // TODO: fix the type def for warrantyDates (it should not be WarrantyInfo)
   try {
-    // Use manufacturer-specific API implementations
-    if (device.manufacturer === Manufacturer.DELL) {
-      const dellCredentials = manufacturerCredentials[Manufacturer.DELL];
-      const warrantyDates = await getDellWarrantyInfo(
-        device.serialNumber,
-        dellCredentials?.clientId,
-        dellCredentials?.clientSecret
-      );
-      
-      // Store the warranty data in database
-      await storeWarrantyInfo(device.serialNumber, warrantyDates);
-      warrantyInfo.startDate = warrantyDates.startDate;
-      warrantyInfo.endDate = warrantyDates.endDate;
-      return warrantyInfo;
-    } else if (device.manufacturer === Manufacturer.HP) {
-      const hpCredentials = manufacturerCredentials[Manufacturer.HP];
-      const warrantyDates = await getHpWarrantyInfo(
-        device.serialNumber,
-        hpCredentials?.apiKey
-      );
-      
-      // Store the warranty data in database
-      await storeWarrantyInfo(device.serialNumber, warrantyDates);
-      warrantyInfo.startDate = warrantyDates.startDate;
-      warrantyInfo.endDate = warrantyDates.endDate;
-      return warrantyInfo;
-    } else if (device.manufacturer === Manufacturer.LENOVO) {
-      const lenovoCredentials = manufacturerCredentials[Manufacturer.LENOVO];
-      const warrantyDates = await getLenovoWarrantyInfo(
-        device.serialNumber,
-        lenovoCredentials?.apiKey
-      );
-      
-      // Store the warranty data in database
-      await storeWarrantyInfo(device.serialNumber, warrantyDates);
-      warrantyInfo.startDate = warrantyDates.startDate;
-      warrantyInfo.endDate = warrantyDates.endDate;
-      return warrantyInfo;
-    } else {
-      throw new Error(`Unsupported manufacturer or invalid/missing credentials for ${device.manufacturer}`);
+    // Resolve the manufacturer-specific provider from the registry
+    const provider = getWarrantyProvider(device.manufacturer);
+    if (!provider) {
+      throw new Error(`Unsupported manufacturer: ${device.manufacturer}`);
     }
 
+    const warrantyDates = await provider.lookup(
+      device.serialNumber,
+      manufacturerCredentials[provider.id]
+    );
+
+    // Store the warranty data in database
+    await storeWarrantyInfo(device.serialNumber, warrantyDates);
+    warrantyInfo.startDate = warrantyDates.startDate;
+    warrantyInfo.endDate = warrantyDates.endDate;
+    warrantyInfo.entitlements = getWarrantyEntitlements(warrantyDates);
+    warrantyInfo.lookupStatus = 'success';
+    warrantyInfo.lookupMessage = undefined;
+    return warrantyInfo;
   } catch (error) {
     logger.error(`Error fetching warranty for ${device.serialNumber} from external API: ${error}`, 'warranty-sync', {
       serialNumber: device.serialNumber,
@@ -246,6 +251,54 @@ export async function fetchAndStoreDeviceWarranty(
     });
     warrantyInfo.error = true;
     warrantyInfo.errorMessage = error instanceof Error ? error.message : 'API fetch failed';
+    warrantyInfo.lookupStatus = getWarrantyLookupStatus(error);
+    await recordLookupFailure(device.serialNumber, warrantyInfo.lookupStatus, warrantyInfo.errorMessage);
     return warrantyInfo;
   }
 }
+
+/**
+ * Fetches warranty information for a set of devices and stores it in the database.
+ * Devices are grouped by warranty provider so providers with a batch endpoint (e.g. Dell)
+ * can look up many serials per request. Results are returned in the same order as the input.
+ */
+export async function fetchAndStoreDeviceWarranties(
+  devices: Device[],
+  manufacturerCredentials?: ManufacturerCredentials
+): Promise<WarrantyInfo[]> {
+  if (!manufacturerCredentials || isSaaSMode()) {
+    manufacturerCredentials = await getManufacturerCredentialsFromEnvs();
+  } else {
+    assertAllowedManufacturerCredentialUrls(manufacturerCredentials);
+  }
+
+  return lookupDeviceWarranties(devices, manufacturerCredentials, storeWarrantyInfo, recordLookupFailure);
+}
+
+/**
+ * Checks whether the given credentials are accepted by a manufacturer's API.
+ * Runs on the server so the config form can test credentials without CORS issues.
+ * Only available in self-hosted mode, and only for endpoint URLs on allowed hosts.
+ */
+export async function testManufacturerCredentials(
+  providerId: string,
+  credentials: Record<string, string>
+): Promise<boolean> {
+  // SaaS mode has user accounts but only uses the server's manufacturer credentials
+  if (isSaaSMode()) {
+    throw new Error('Manufacturer credentials are configured on the server in SaaS mode');
+  }
+
+  const provider = getWarrantyProviderById(providerId);
+  if (!provider) {
+    throw new Error(`Unknown warranty provider: ${providerId}`);
+  }
+  assertAllowedCredentialUrls(provider, credentials);
+
+  const isValid = await provider.testCredentials(credentials);
+  logger.info(`Tested ${provider.name} credentials: ${isValid ? 'valid' : 'invalid'}`, 'warranty-sync', {
+    providerId,
+    isValid
+  });
+  return isValid;
+}
@@ -0,0 +1,26 @@
+import 'server-only';
+
+import { SubscriptionPlan } from '@/types/subscription';
+import { getDatabaseAdapter } from '@/lib/database/factory';
+import { SUBSCRIPTION_PLANS } from './plans';
+
+/**
+ * Plan limits for background work (e.g. scheduled syncs), where there is no user
+ * session for checkPlanLimits to read. Kept out of service.ts so the user ID can't
+ * be passed in from the browser as a server action argument.
+ */
+
+/**
+ * Returns the maximum number of devices the user's plan allows
+ * No subscription record means the free plan
+ */
+export async function getMaxDevicesForUser(userId: string): Promise<number> {
+  const result = await getDatabaseAdapter().executeQuery(
+    'SELECT plan FROM subscriptions WHERE user_id = $1',
+    [userId]
+  );
+  const row = result.rows[0] as { plan?: SubscriptionPlan } | undefined;
+  const plan = row?.plan && SUBSCRIPTION_PLANS[row.plan] ? row.plan : 'free';
+
+  return SUBSCRIPTION_PLANS[plan].features.maxDevices;
+}
@@ -0,0 +1,35 @@
+import axios from 'axios';
+import { logger } from '@/lib/logger';
+
+/**
+ * Verifies an API key by requesting a placeholder serial number from a warranty endpoint
+ * that takes the key in the X-API-Key header (e.g. HP, Lenovo, Apple).
+ * Any response other than 401/403 means the key itself was accepted.
+ *
+ * @param endpointUrl Lookup URL the serial number is appended to
+ * @param source Logger source of the calling provider, e.g. 'hp-api'
+ */
+export async function testApiKeyWithPlaceholderSerial(
+  endpointUrl: string,
+  apiKey: string,
+  source: string
+): Promise<boolean> {
+  try {
+    await axios.get(`${endpointUrl.replace(/\/+$/, '')}/CREDENTIALTEST`, {
+      headers: {
+        'X-API-Key': apiKey,
+        'Content-Type': 'application/json'
+      }
+    });
+    return true;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      return error.response.status !== 401 && error.response.status !== 403;
+    }
+    logger.error(`Error testing API key: ${error}`, source, {
+      endpointUrl,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return false;
+  }
+}
@@ -0,0 +1,164 @@
+// Minimal 5-field cron expression support (minute hour day-of-month month day-of-week)
+// Supports *, numbers, ranges (1-5), lists (1,15) and steps (*/15, 0-30/10).
+
+interface CronField {
+  min: number;
+  max: number;
+}
+
+const CRON_FIELDS: CronField[] = [
+  { min: 0, max: 59 }, // minute
+  { min: 0, max: 23 }, // hour
+  { min: 1, max: 31 }, // day of month
+  { min: 1, max: 12 }, // month
+  { min: 0, max: 7 },  // day of week (0 and 7 are both Sunday)
+];
+
+interface ParsedCron {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Cron matches either day field when both are restricted, and only the restricted one otherwise
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+// Don't search further ahead than this for the next run (covers Feb 29 schedules)
+const MAX_SEARCH_DAYS = 5 * 366;
+
+function parseCronField(field: string, { min, max }: CronField): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in cron field: ${field}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [rangeStart, rangeEnd] = rangePart.split('-');
+      start = Number(rangeStart);
+      end = Number(rangeEnd);
+    } else {
+      start = Number(rangePart);
+      // A single value with a step (e.g. 5/15) runs from that value to the end of the range
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid value in cron field: ${field}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseCronExpression(expression: string): ParsedCron {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Cron expression must have 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseCronField(field, CRON_FIELDS[index])
+  );
+
+  // Normalise Sunday to 0 so it matches Date.getDay()
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: !fields[2].startsWith('*'),
+    dayOfWeekRestricted: !fields[4].startsWith('*'),
+  };
+}
+
+function matchesDay(cron: ParsedCron, date: Date): boolean {
+  if (!cron.months.has(date.getMonth() + 1)) {
+    return false;
+  }
+
+  const dayOfMonthMatches = cron.daysOfMonth.has(date.getDate());
+  const dayOfWeekMatches = cron.daysOfWeek.has(date.getDay());
+
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return dayOfMonthMatches || dayOfWeekMatches;
+  }
+  return dayOfMonthMatches && dayOfWeekMatches;
+}
+
+/**
+ * Returns true if the expression is a valid 5-field cron expression that can actually run
+ */
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    getNextCronRun(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the first time strictly after `after` that matches the cron expression,
+ * evaluated in the server's local time zone. Throws if the expression is invalid
+ * or never matches (e.g. February 31st).
+ */
+export function getNextCronRun(expression: string, after: Date = new Date()): Date {
+  const cron = parseCronExpression(expression);
+
+  // Start at the next whole minute
+  const candidate = new Date(after.getTime());
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  for (let day = 0; day < MAX_SEARCH_DAYS; day++) {
+    if (matchesDay(cron, candidate)) {
+      for (let hour = candidate.getHours(); hour < 24; hour++) {
+        if (!cron.hours.has(hour)) {
+          continue;
+        }
+        const firstMinute = hour === candidate.getHours() ? candidate.getMinutes() : 0;
+        for (let minute = firstMinute; minute < 60; minute++) {
+          if (cron.minutes.has(minute)) {
+            const next = new Date(candidate.getTime());
+            next.setHours(hour, minute, 0, 0);
+            return next;
+          }
+        }
+      }
+    }
+
+    // Move on to the start of the next day
+    candidate.setDate(candidate.getDate() + 1);
+    candidate.setHours(0, 0, 0, 0);
+  }
+
+  throw new Error(`Cron expression never matches: ${expression}`);
+}
+
+/**
+ * Next run as a Unix epoch timestamp, as stored in the database
+ */
+export function getNextCronRunEpoch(expression: string, after: Date = new Date()): number {
+  return Math.floor(getNextCronRun(expression, after).getTime() / 1000);
+}
@@ -0,0 +1,179 @@
+import { DeviceFilter, DeviceQuery, DeviceSort, DeviceSortField, DeviceWarrantyStatus } from '@/types/device';
+import { Manufacturer } from '@/types/manufacturer';
+import { WarrantyLookupStatus } from '@/types/warranty';
+
+// Device inventory queries: URL parameters for /api/devices and the keyset pagination cursor
+
+export const DEFAULT_DEVICE_PAGE_SIZE = 50;
+export const MAX_DEVICE_PAGE_SIZE = 500;
+
+export const DEFAULT_DEVICE_SORT: DeviceSort = { field: 'hostname', direction: 'asc' };
+
+export const DEVICE_SORT_FIELDS: DeviceSortField[] = [
+  'hostname',
+  'serialNumber',
+  'clientName',
+  'manufacturer',
+  'warrantyStartDate',
+  'warrantyEndDate',
+  'sourcePlatform',
+  'warrantyFetchedAt'
+];
+
+const WARRANTY_STATUSES: DeviceWarrantyStatus[] = ['active', 'expired', 'unknown'];
+
+const LOOKUP_STATUS_FILTERS: NonNullable<DeviceFilter['lookupStatus']>[] = [
+  'success',
+  'not_found',
+  'invalid_serial',
+  'auth_error',
+  'rate_limited',
+  'unsupported_manufacturer',
+  'error',
+  'failed',
+  'never'
+];
+
+/**
+ * Serializes a device query to /api/devices search parameters
+ */
+export function toDeviceQueryParams(query: DeviceQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  const filter = query.filter || {};
+
+  if (filter.search?.trim()) params.set('search', filter.search.trim());
+  if (filter.status) params.set('status', filter.status);
+  if (filter.clientName) params.set('client', filter.clientName);
+  if (filter.manufacturer) params.set('manufacturer', filter.manufacturer);
+  if (filter.sourcePlatform) params.set('source', filter.sourcePlatform);
+  if (filter.expiresWithinDays) params.set('expiresWithin', String(filter.expiresWithinDays));
+  if (filter.lookupStatus) params.set('lookupStatus', filter.lookupStatus);
+  if (query.sort) {
+    params.set('sort', query.sort.field);
+    params.set('order', query.sort.direction);
+  }
+  if (query.cursor) params.set('cursor', query.cursor);
+  if (query.limit) params.set('limit', String(query.limit));
+
+  return params;
+}
+
+/**
+ * Parses /api/devices search parameters into a device query.
+ * Returns an error message instead if a parameter is invalid.
+ */
+export function parseDeviceQueryParams(params: URLSearchParams): { query: DeviceQuery } | { error: string } {
+  const filter: DeviceFilter = {};
+
+  const search = params.get('search')?.trim();
+  if (search) filter.search = search;
+
+  const status = params.get('status');
+  if (status) {
+    if (!WARRANTY_STATUSES.includes(status as DeviceWarrantyStatus)) {
+      return { error: `Invalid status: ${status}` };
+    }
+    filter.status = status as DeviceWarrantyStatus;
+  }
+
+  const clientName = params.get('client');
+  if (clientName) filter.clientName = clientName;
+
+  const manufacturer = params.get('manufacturer');
+  if (manufacturer) {
+    if (!Object.values(Manufacturer).includes(manufacturer as Manufacturer)) {
+      return { error: `Invalid manufacturer: ${manufacturer}` };
+    }
+    filter.manufacturer = manufacturer as Manufacturer;
+  }
+
+  const sourcePlatform = params.get('source');
+  if (sourcePlatform) filter.sourcePlatform = sourcePlatform;
+
+  const expiresWithin = params.get('expiresWithin');
+  if (expiresWithin) {
+    const days = Number(expiresWithin);
+    if (!Number.isInteger(days) || days <= 0) {
+      return { error: 'expiresWithin must be a positive number of days' };
+    }
+    filter.expiresWithinDays = days;
+  }
+
+  const lookupStatus = params.get('lookupStatus');
+  if (lookupStatus) {
+    if (!LOOKUP_STATUS_FILTERS.includes(lookupStatus as WarrantyLookupStatus)) {
+      return { error: `Invalid lookupStatus: ${lookupStatus}` };
+    }
+    filter.lookupStatus = lookupStatus as DeviceFilter['lookupStatus'];
+  }
+
+  const query: DeviceQuery = { filter };
+
+  const sortField = params.get('sort');
+  if (sortField) {
+    if (!DEVICE_SORT_FIELDS.includes(sortField as DeviceSortField)) {
+      return { error: `Invalid sort field: ${sortField}` };
+    }
+    const order = params.get('order') || 'asc';
+    if (order !== 'asc' && order !== 'desc') {
+      return { error: 'order must be asc or desc' };
+    }
+    query.sort = { field: sortField as DeviceSortField, direction: order };
+  }
+
+  const cursor = params.get('cursor');
+  if (cursor) {
+    if (!decodeDeviceCursor(cursor)) {
+      return { error: 'Invalid cursor' };
+    }
+    query.cursor = cursor;
+  }
+
+  const limit = params.get('limit');
+  if (limit) {
+    const pageSize = Number(limit);
+    if (!Number.isInteger(pageSize) || pageSize <= 0) {
+      return { error: 'limit must be a positive number' };
+    }
+    query.limit = pageSize;
+  }
+
+  return { query };
+}
+
+/**
+ * Clamps a requested page size to the allowed range
+ */
+export function getDevicePageSize(limit?: number): number {
+  return Math.min(Math.max(limit || DEFAULT_DEVICE_PAGE_SIZE, 1), MAX_DEVICE_PAGE_SIZE);
+}
+
+// Position of the last device on a page: its sort value and ID (the tie-breaker)
+export interface DeviceCursor {
+  value: string | number;
+  id: string;
+}
+
+export function encodeDeviceCursor(cursor: DeviceCursor): string {
+  return Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString('base64url');
+}
+
+/**
+ * Returns null for cursors that weren't produced by encodeDeviceCursor
+ */
+export function decodeDeviceCursor(cursor: string): DeviceCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (
+      Array.isArray(decoded) &&
+      decoded.length === 2 &&
+      (typeof decoded[0] === 'string' || typeof decoded[0] === 'number') &&
+      typeof decoded[1] === 'string'
+    ) {
+      return { value: decoded[0], id: decoded[1] };
+    }
+  } catch {
+    // Fall through: not valid base64 JSON
+  }
+  return null;
+}
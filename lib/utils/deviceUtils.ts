@@ -1,9 +1,12 @@
-import { Device } from '@/types/device';
+import { Device, DeviceSource } from '@/types/device';
 import { WarrantyInfo } from '@/types/warranty';
+import { Platform, PlatformCredentials, SyncPlatform } from '@/types/platform';
+import { getPlatformDefinition } from '@/lib/platforms/definitions';
 
 // Helper function to convert Device to WarrantyInfo for display
 export function deviceToWarrantyInfo(device: Device): WarrantyInfo {
   return {
+    deviceId: device.id,
     serialNumber: device.serialNumber,
     clientName: device.clientName,
     hostname: device.hostname,
@@ -14,6 +17,83 @@ export function deviceToWarrantyInfo(device: Device): WarrantyInfo {
     fromCache: !!device.warrantyFetchedAt,
     writtenBack: !!device.warrantyWrittenBackAt,
     lastUpdated: device.warrantyFetchedAt ? new Date(device.warrantyFetchedAt * 1000).toISOString() : undefined,
-    deviceSource: device.sourcePlatform || ''
+    deviceSource: getSourcePlatforms(device).join(', '),
+    entitlements: device.entitlements,
+    lookupStatus: device.warrantyLookupStatus,
+    lookupMessage: device.warrantyLookupError,
+    lookupAttempts: device.warrantyLookupAttempts,
+    totalMemory: device.totalMemory,
+    totalCpuCores: device.totalCpuCores
   };
-} 
\ No newline at end of file
+}
+
+/**
+ * Every platform a device is in, most recently seen first. Devices without linked
+ * source records (e.g. CSV imports) fall back to the platform they were imported from.
+ */
+export function getSourcePlatforms(device: Device): string[] {
+  const platforms = new Set((device.sources || []).map(source => source.platform));
+  if (platforms.size === 0 && device.sourcePlatform) {
+    platforms.add(device.sourcePlatform);
+  }
+  return [...platforms];
+}
+
+/**
+ * Source records a device's warranty can be written back to. CSV imports and platforms
+ * without a warranty date to write (e.g. ConnectWise Automate) are left out.
+ */
+export function getWriteBackSources(device: Device): DeviceSource[] {
+  return (device.sources || []).filter(source =>
+    source.platform !== Platform.CSV && getPlatformDefinition(source.platform as SyncPlatform)?.writeBack.endDate
+  );
+}
+
+/**
+ * Formats a memory size in bytes, e.g. "16.0 GB"
+ */
+export function formatMemory(bytes?: number): string | undefined {
+  return bytes ? `${(bytes / 1024 ** 3).toFixed(1)} GB` : undefined;
+}
+
+/**
+ * Summarizes RAM and CPU cores for compact display, e.g. "16.0 GB RAM, 8 cores"
+ */
+export function formatHardwareSummary(hardware: Pick<Device, 'totalMemory' | 'totalCpuCores'>): string | undefined {
+  const parts = [
+    hardware.totalMemory ? `${formatMemory(hardware.totalMemory)} RAM` : undefined,
+    hardware.totalCpuCores ? `${hardware.totalCpuCores} core${hardware.totalCpuCores !== 1 ? 's' : ''}` : undefined
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : undefined;
+}
+
+
+/**
+ * Link to the device in its source platform's web UI, where the platform has a stable
+ * per-device URL. Platform URLs are only known in the browser (they live with the credentials).
+ */
+export function getSourceDeviceUrl(
+  device: Device,
+  credentials: Partial<PlatformCredentials>
+): string | undefined {
+  if (!device.sourceDeviceId) {
+    return undefined;
+  }
+
+  switch (device.sourcePlatform) {
+    case Platform.HALOPSA: {
+      const url = credentials[Platform.HALOPSA]?.url;
+      if (!url) return undefined;
+      const baseUrl = (url.startsWith('http') ? url : `https://${url}`).replace(/\/+$/, '');
+      return `${baseUrl}/assets?id=${encodeURIComponent(device.sourceDeviceId)}`;
+    }
+    case Platform.NINJAONE: {
+      const url = credentials[Platform.NINJAONE]?.url;
+      if (!url) return undefined;
+      const baseUrl = (url.startsWith('http') ? url : `https://${url}`).replace(/\/+$/, '');
+      return `${baseUrl}/#/deviceDashboard/${encodeURIComponent(device.sourceDeviceId)}/overview`;
+    }
+    default:
+      return undefined;
+  }
+}
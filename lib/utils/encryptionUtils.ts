@@ -0,0 +1,71 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+/**
+ * Encryption at rest for secrets the server has to keep, e.g. the platform credentials
+ * scheduled syncs run with. Values are encrypted with AES-256-GCM using a key derived
+ * from CREDENTIALS_ENCRYPTION_KEY.
+ */
+
+const ENCRYPTION_VERSION = 'v1';
+const IV_LENGTH = 12;
+
+export interface EncryptedValue {
+  encrypted: string; // "v1:<iv>:<auth tag>:<ciphertext>", each part base64
+}
+
+function getEncryptionKey(): Buffer | null {
+  const secret = process.env.CREDENTIALS_ENCRYPTION_KEY;
+  return secret ? createHash('sha256').update(secret).digest() : null;
+}
+
+export function isEncryptionConfigured(): boolean {
+  return getEncryptionKey() !== null;
+}
+
+export function isEncryptedValue(value: unknown): value is EncryptedValue {
+  return typeof value === 'object' && value !== null && typeof (value as EncryptedValue).encrypted === 'string';
+}
+
+/**
+ * Encrypts a JSON-serializable value. Throws when CREDENTIALS_ENCRYPTION_KEY is not set.
+ */
+export function encryptJson(value: unknown): EncryptedValue {
+  const key = getEncryptionKey();
+  if (!key) {
+    throw new Error('CREDENTIALS_ENCRYPTION_KEY is not set');
+  }
+
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()]);
+
+  return {
+    encrypted: [ENCRYPTION_VERSION, iv, cipher.getAuthTag(), ciphertext]
+      .map(part => typeof part === 'string' ? part : part.toString('base64'))
+      .join(':')
+  };
+}
+
+/**
+ * Decrypts a value from encryptJson. Throws when the key is missing or doesn't match.
+ */
+export function decryptJson<T>(value: EncryptedValue): T {
+  const key = getEncryptionKey();
+  if (!key) {
+    throw new Error('CREDENTIALS_ENCRYPTION_KEY is not set, so stored credentials cannot be decrypted');
+  }
+
+  const [version, iv, authTag, ciphertext] = value.encrypted.split(':');
+  if (version !== ENCRYPTION_VERSION || !iv || !authTag || ciphertext === undefined) {
+    throw new Error('Unsupported encrypted value format');
+  }
+
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]);
+    return JSON.parse(plaintext.toString('utf8')) as T;
+  } catch {
+    throw new Error('Stored credentials could not be decrypted; check CREDENTIALS_ENCRYPTION_KEY');
+  }
+}
@@ -0,0 +1,175 @@
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { createHash } from 'crypto';
+import { logger } from '@/lib/logger';
+
+/**
+ * OAuth 2.0 client-credentials token cache shared by all warranty providers.
+ * Tokens are cached per token endpoint + client credentials, so rotated or
+ * per-tenant credentials never reuse each other's tokens.
+ */
+
+export interface ClientCredentialsConfig {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scope?: string;
+  // 'basic' sends the client credentials as an Authorization header (e.g. Dell),
+  // 'body' sends them as form fields (e.g. Microsoft Entra ID)
+  authMethod?: 'basic' | 'body';
+}
+
+interface ClientCredentialsTokenResponse {
+  access_token: string;
+  expires_in?: number;
+  token_type: string;
+}
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number; // Epoch milliseconds
+}
+
+// Used when the server doesn't return expires_in
+const DEFAULT_TOKEN_LIFETIME_SECONDS = 3600;
+// Refresh tokens slightly before they expire to avoid using them mid-request
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+const tokenCache = new Map<string, CachedToken>();
+const pendingTokenRequests = new Map<string, Promise<string>>();
+
+function getCacheKey(config: ClientCredentialsConfig): string {
+  // Hash so client secrets are never kept as plain map keys
+  return createHash('sha256')
+    .update([config.tokenUrl, config.clientId, config.clientSecret, config.scope || ''].join('\n'))
+    .digest('hex');
+}
+
+async function requestClientCredentialsToken(config: ClientCredentialsConfig): Promise<CachedToken> {
+  const params = new URLSearchParams({ grant_type: 'client_credentials' });
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded'
+  };
+
+  if (config.authMethod === 'basic') {
+    const encodedAuth = Buffer.from(`${config.clientId}:${config.clientSecret}`).toString('base64');
+    headers['Authorization'] = `Basic ${encodedAuth}`;
+  } else {
+    params.append('client_id', config.clientId);
+    params.append('client_secret', config.clientSecret);
+  }
+  if (config.scope) {
+    params.append('scope', config.scope);
+  }
+
+  const response = await axios.post<ClientCredentialsTokenResponse>(config.tokenUrl, params.toString(), { headers });
+  if (!response.data?.access_token) {
+    throw new Error(`Access token not found in response from ${config.tokenUrl}`);
+  }
+  const expiresIn = response.data.expires_in || DEFAULT_TOKEN_LIFETIME_SECONDS;
+
+  return {
+    accessToken: response.data.access_token,
+    expiresAt: Date.now() + expiresIn * 1000 - TOKEN_EXPIRY_MARGIN_MS
+  };
+}
+
+/**
+ * Returns a cached access token for the given client credentials, requesting a new one
+ * when there is none or it is about to expire. Concurrent callers share one token request.
+ */
+export async function getClientCredentialsToken(
+  config: ClientCredentialsConfig,
+  forceRefresh: boolean = false
+): Promise<string> {
+  const cacheKey = getCacheKey(config);
+
+  if (!forceRefresh) {
+    const cached = tokenCache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.accessToken;
+    }
+
+    const pending = pendingTokenRequests.get(cacheKey);
+    if (pending) {
+      return pending;
+    }
+  }
+
+  const tokenRequest = requestClientCredentialsToken(config)
+    .then(token => {
+      tokenCache.set(cacheKey, token);
+      logger.debug('Obtained new OAuth access token', 'oauth', {
+        tokenUrl: config.tokenUrl,
+        expiresAt: new Date(token.expiresAt).toISOString()
+      });
+      return token.accessToken;
+    })
+    .finally(() => {
+      pendingTokenRequests.delete(cacheKey);
+    });
+
+  pendingTokenRequests.set(cacheKey, tokenRequest);
+  return tokenRequest;
+}
+
+/**
+ * Drops the cached token for the given client credentials
+ */
+export function invalidateClientCredentialsToken(config: ClientCredentialsConfig): void {
+  tokenCache.delete(getCacheKey(config));
+}
+
+/**
+ * Runs an authenticated request with a cached token. If the API rejects the token
+ * with a 401 (e.g. it was revoked early), retries once with a freshly issued token.
+ */
+export async function withClientCredentialsToken<T>(
+  config: ClientCredentialsConfig,
+  request: (accessToken: string) => Promise<T>
+): Promise<T> {
+  const accessToken = await getClientCredentialsToken(config);
+
+  try {
+    return await request(accessToken);
+  } catch (error) {
+    if (!axios.isAxiosError(error) || error.response?.status !== 401) {
+      throw error;
+    }
+
+    logger.warn('Access token rejected with 401, retrying with a fresh token', 'oauth', {
+      tokenUrl: config.tokenUrl
+    });
+    invalidateClientCredentialsToken(config);
+    const freshToken = await getClientCredentialsToken(config, true);
+    return request(freshToken);
+  }
+}
+
+/**
+ * Authenticates every request an axios client sends with a cached token, for API clients
+ * that make many calls (e.g. paging through devices). Like withClientCredentialsToken,
+ * a request rejected with a 401 is retried once with a freshly issued token.
+ */
+export function attachClientCredentialsToken(client: AxiosInstance, config: ClientCredentialsConfig): void {
+  client.interceptors.request.use(async requestConfig => {
+    const accessToken = await getClientCredentialsToken(config);
+    requestConfig.headers.set('Authorization', `Bearer ${accessToken}`);
+    return requestConfig;
+  });
+
+  client.interceptors.response.use(undefined, async error => {
+    const requestConfig = axios.isAxiosError(error)
+      ? error.config as (InternalAxiosRequestConfig & { tokenRetried?: boolean }) | undefined
+      : undefined;
+    if (!requestConfig || requestConfig.tokenRetried || error.response?.status !== 401) {
+      throw error;
+    }
+
+    logger.warn('Access token rejected with 401, retrying with a fresh token', 'oauth', {
+      tokenUrl: config.tokenUrl
+    });
+    invalidateClientCredentialsToken(config);
+    requestConfig.tokenRetried = true;
+    return client.request(requestConfig);
+  });
+}
@@ -0,0 +1,47 @@
+import axios from 'axios';
+import { WarrantyLookupStatus } from '@/types/warranty';
+
+// Classifies warranty lookup failures so they can be stored and filtered by cause
+
+// Matched against error messages, for providers that wrap HTTP errors in their own messages
+const MESSAGE_PATTERNS: [RegExp, WarrantyLookupStatus][] = [
+  [/unsupported manufacturer/i, 'unsupported_manufacturer'],
+  [/authenticat|unauthori[sz]ed|forbidden|status code 40[13]/i, 'auth_error'],
+  [/rate limit|too many requests|status code 429/i, 'rate_limited'],
+  [/invalid (service tag|serial)|status code (400|422)/i, 'invalid_serial'],
+  [/not found|no warranty|no valid warranty|invalid or empty response|status code 404/i, 'not_found']
+];
+
+function getStatusFromHttpCode(httpStatus: number): WarrantyLookupStatus | null {
+  switch (httpStatus) {
+    case 401:
+    case 403:
+      return 'auth_error';
+    case 429:
+      return 'rate_limited';
+    case 400:
+    case 422:
+      return 'invalid_serial';
+    case 404:
+      return 'not_found';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Returns the lookup status for a failed lookup, from the HTTP status code of an
+ * axios error if there is one, otherwise from the error message
+ */
+export function getWarrantyLookupStatus(error: unknown): WarrantyLookupStatus {
+  if (axios.isAxiosError(error) && error.response) {
+    const status = getStatusFromHttpCode(error.response.status);
+    if (status) {
+      return status;
+    }
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const match = MESSAGE_PATTERNS.find(([pattern]) => pattern.test(message));
+  return match ? match[1] : 'error';
+}
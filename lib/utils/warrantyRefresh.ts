@@ -0,0 +1,54 @@
+import { Device } from '@/types/device';
+import { AppConfig } from '@/lib/config';
+
+// Warranty refresh policy: decides which devices are due for another warranty lookup
+
+export type WarrantyRefreshPolicy = AppConfig['warrantyRefresh'];
+
+export type WarrantyRefreshReason = 'never-fetched' | 'last-lookup-failed' | 'stale' | 'expiring';
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+// Devices close to expiry are re-checked at most once a day, so back-to-back runs don't repeat them
+const EXPIRING_RECHECK_INTERVAL_SECONDS = SECONDS_PER_DAY;
+
+/**
+ * Returns why a device is due for a warranty lookup under the given policy, or null if
+ * its stored warranty data is still considered current.
+ */
+export function getWarrantyRefreshReason(
+  device: Pick<Device, 'warrantyFetchedAt' | 'warrantyEndDate' | 'warrantyLookupError'>,
+  policy: WarrantyRefreshPolicy,
+  now: number = Math.floor(Date.now() / 1000)
+): WarrantyRefreshReason | null {
+  if (policy.retryFailed && device.warrantyLookupError) {
+    return 'last-lookup-failed';
+  }
+
+  if (!device.warrantyFetchedAt) {
+    return 'never-fetched';
+  }
+
+  const dataAge = now - device.warrantyFetchedAt;
+  if (policy.maxAgeDays > 0 && dataAge > policy.maxAgeDays * SECONDS_PER_DAY) {
+    return 'stale';
+  }
+
+  if (policy.expiringWithinDays > 0 && device.warrantyEndDate && dataAge > EXPIRING_RECHECK_INTERVAL_SECONDS) {
+    const endDate = Math.floor(new Date(device.warrantyEndDate).getTime() / 1000);
+    const expiresIn = endDate - now;
+    // Already expired devices are covered by maxAgeDays
+    if (expiresIn >= -SECONDS_PER_DAY && expiresIn <= policy.expiringWithinDays * SECONDS_PER_DAY) {
+      return 'expiring';
+    }
+  }
+
+  return null;
+}
+
+export function needsWarrantyLookup(
+  device: Pick<Device, 'warrantyFetchedAt' | 'warrantyEndDate' | 'warrantyLookupError'>,
+  policy: WarrantyRefreshPolicy,
+  now?: number
+): boolean {
+  return getWarrantyRefreshReason(device, policy, now) !== null;
+}
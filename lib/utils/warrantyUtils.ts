@@ -1,3 +1,6 @@
+import { WarrantyEntitlement, WarrantyInfo } from '@/types/warranty';
+import { WarrantyLookupResult } from '@/lib/manufacturers/types';
+
 /**
  * Utility functions for warranty-related operations
  */
@@ -18,4 +21,64 @@ export function inferWarrantyStatus(endDate?: string): 'active' | 'expired' | 'u
   if (isNaN(warrantyEnd.getTime())) return 'unknown';
   
   return today <= warrantyEnd ? 'active' : 'expired';
-} 
\ No newline at end of file
+}
+
+/**
+ * Simple string hash so mock warranty data stays stable for a given serial number
+ */
+export function hashSerialNumber(serialNumber: string): number {
+  let hash = 0;
+  for (let i = 0; i < serialNumber.length; i++) {
+    hash = (hash * 31 + serialNumber.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Runs a single-serial lookup for each serial number in turn, collecting per-serial outcomes.
+ * Used by warranty providers whose APIs have no batch endpoint.
+ */
+export async function lookupWarrantiesSequentially(
+  serialNumbers: string[],
+  lookup: (serialNumber: string) => Promise<WarrantyInfo>
+): Promise<WarrantyLookupResult[]> {
+  const results: WarrantyLookupResult[] = [];
+  for (const serialNumber of serialNumbers) {
+    try {
+      results.push({ serialNumber, warranty: await lookup(serialNumber) });
+    } catch (error) {
+      results.push({
+        serialNumber,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+  return results;
+}
+
+/**
+ * Returns the coverage line items for a looked-up warranty.
+ * Providers that only return a single date range (e.g. HP, Lenovo) get one line item
+ * per coverage detail, spanning the overall warranty dates.
+ */
+export function getWarrantyEntitlements(warranty: WarrantyInfo): WarrantyEntitlement[] {
+  if (warranty.entitlements) {
+    return warranty.entitlements;
+  }
+
+  return (warranty.coverageDetails || []).map(description => ({
+    description,
+    startDate: warranty.startDate || undefined,
+    endDate: warranty.endDate || undefined,
+    provider: warranty.manufacturer
+  }));
+}
+
+/**
+ * Formats an entitlement for compact display, e.g. "Accidental Damage until 2026-01-31"
+ */
+export function formatEntitlement(entitlement: WarrantyEntitlement): string {
+  return entitlement.endDate
+    ? `${entitlement.description} until ${entitlement.endDate}`
+    : entitlement.description;
+}
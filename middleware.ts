@@ -53,7 +53,7 @@ export async function middleware(request: NextRequest) {
     const { data: { user } } = await supabase.auth.getUser();
 
     // Define protected routes (routes that require authentication)
-    const protectedPaths = ['/reports', '/api', '/logs'];
+    const protectedPaths = ['/reports', '/api', '/logs', '/schedules', '/devices', '/trash'];
     const authPaths = ['/login', '/auth/callback'];
     const publicPaths = ['/favicon.ico', '/public', '/api/webhooks/stripe'];
 
@@ -0,0 +1,65 @@
+import { config } from 'dotenv';
+import fs from 'fs';
+
+/**
+ * Backs up and restores the configured database (SQLite in self-hosted mode,
+ * one user's data as JSON in SaaS mode).
+ *
+ *   npm run backup                                  # write a backup to the backups folder
+ *   npm run backup -- create [--out <file>]         # same, or to a given file
+ *   npm run backup -- restore <file>                # replace all data with the backup's
+ *
+ * In SaaS mode add --user <user-id> to choose whose data to back up or restore.
+ * Restoring a SQLite backup while the server is running is best done from the
+ * Configuration page instead, so the server reopens the restored database.
+ */
+
+// Same environment files as Next.js, loaded before the app config is read
+config({ path: '.env.local' });
+config();
+
+function getArgument(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+async function main() {
+  const command = process.argv[2] && !process.argv[2].startsWith('--') ? process.argv[2] : 'create';
+  if (command !== 'create' && command !== 'restore') {
+    console.error(`Unknown command: ${command}. Use "create" or "restore".`);
+    process.exit(1);
+  }
+
+  const { getDatabaseAdapter } = await import('../lib/database/factory');
+  const { writeBackupFile } = await import('../lib/services/backups');
+  const { isSaaSMode } = await import('../lib/config');
+  const userId = getArgument('user');
+  if (isSaaSMode() && !userId) {
+    console.error('--user <user-id> is required in SaaS mode');
+    process.exit(1);
+  }
+
+  const adapter = getDatabaseAdapter();
+  try {
+    if (command === 'create') {
+      const backupPath = await writeBackupFile(getArgument('out'), userId);
+      console.log(`✅ Backup written to ${backupPath}`);
+      return;
+    }
+
+    const backupPath = process.argv[3];
+    if (!backupPath || !fs.existsSync(backupPath)) {
+      console.error('Usage: npm run backup -- restore <file>');
+      process.exit(1);
+    }
+    await adapter.restoreBackup(await fs.promises.readFile(backupPath), userId);
+    console.log(`✅ Restored ${backupPath}`);
+  } finally {
+    await adapter.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Backup command failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
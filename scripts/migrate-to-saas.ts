@@ -0,0 +1,163 @@
+import { config } from 'dotenv';
+import type { Device, DeviceUpsertOutcome } from '../types/device';
+
+/**
+ * Copies a self-hosted device pool (SQLite) into the SaaS database (PostgreSQL)
+ * under one user's account, then checks that every device arrived intact.
+ *
+ *   npm run migrate-to-saas -- --user <user-id> [--sqlite ./data/warranty.db]
+ *
+ * DATABASE_URL must point at the SaaS database. The SQLite file defaults to DB_PATH
+ * (or ./data/warranty.db) and is brought up to the current schema before reading.
+ * Devices the user already has are merged the same way as a platform import, so
+ * running the command again is safe.
+ */
+
+// Same environment files as Next.js, loaded before the app config is read
+config({ path: '.env.local' });
+config();
+
+// Devices per bulk upsert, so progress shows on large pools
+const BATCH_SIZE = 500;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Fields that must match between the two databases after the copy
+const RECONCILED_FIELDS: (keyof Device)[] = [
+  'manufacturer',
+  'warrantyStartDate',
+  'warrantyEndDate',
+  'warrantyFetchedAt',
+  'warrantyWrittenBackAt',
+  'sourcePlatform',
+  'sourceDeviceId'
+];
+
+function getArgument(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function getSourceKeys(device: Device): string[] {
+  return (device.sources || []).map(source => `${source.platform}/${source.sourceDeviceId}`).sort();
+}
+
+// Prints the first few problems of a kind; the rest are only counted
+function printSample(label: string, items: string[], limit = 20) {
+  items.slice(0, limit).forEach(item => console.log(`    ${label}: ${item}`));
+  if (items.length > limit) {
+    console.log(`    ...and ${items.length - limit} more`);
+  }
+}
+
+async function main() {
+  const userId = getArgument('user');
+  const sqlitePath = getArgument('sqlite');
+
+  if (!userId || !UUID_PATTERN.test(userId)) {
+    console.error('Usage: npm run migrate-to-saas -- --user <user-id> [--sqlite <path>]');
+    console.error('The user ID is the Supabase user UUID the devices should belong to.');
+    process.exit(1);
+  }
+  if (!process.env.DATABASE_URL) {
+    console.error('DATABASE_URL is required (the SaaS PostgreSQL database).');
+    process.exit(1);
+  }
+  if (sqlitePath) {
+    process.env.DB_PATH = sqlitePath;
+  }
+
+  const { SQLiteAdapter } = await import('../lib/database/sqlite-adapter');
+  const { PostgreSQLAdapter } = await import('../lib/database/postgresql-adapter');
+  const { appConfig } = await import('../lib/config');
+  const source = new SQLiteAdapter();
+  const target = new PostgreSQLAdapter(process.env.DATABASE_URL);
+
+  try {
+    console.log(`Reading devices from ${appConfig.database.sqlitePath}...`);
+    const devices = await source.getAllDevices();
+    console.log(`Copying ${devices.length} devices to PostgreSQL for user ${userId}...`);
+
+    const outcomes: Record<DeviceUpsertOutcome, number> = { inserted: 0, updated: 0, unchanged: 0, rejected: 0 };
+    for (let i = 0; i < devices.length; i += BATCH_SIZE) {
+      // Device IDs are unique across all tenants in PostgreSQL, so the copies get new ones
+      const batch = devices.slice(i, i + BATCH_SIZE).map(device => ({ ...device, id: undefined }));
+      const results = await target.bulkUpsertDevices(batch, userId);
+      results.forEach(result => {
+        outcomes[result.outcome]++;
+        if (result.outcome === 'rejected') {
+          console.warn(`⚠️  Skipped device ${result.serialNumber || '(no serial number)'}: ${result.error}`);
+        }
+      });
+      // Every platform record, not only the one each device was last imported from
+      await target.importDeviceSources(batch, userId);
+      console.log(`  ${Math.min(i + BATCH_SIZE, devices.length)}/${devices.length}`);
+    }
+
+    let entitlementDevices = 0;
+    for (const device of devices) {
+      const entitlements = await source.getDeviceEntitlements(device.serialNumber);
+      if (entitlements.length > 0) {
+        await target.replaceDeviceEntitlements(device.serialNumber, entitlements, userId);
+        entitlementDevices++;
+      }
+    }
+
+    // Reconcile: every copied device must be in PostgreSQL with the same warranty and source data
+    const copiedBySerial = new Map((await target.getAllDevices(userId)).map(device => [device.serialNumber, device]));
+    const missing: string[] = [];
+    const mismatches: string[] = [];
+    for (const device of devices) {
+      if (!device.serialNumber?.trim() || !device.manufacturer?.trim()) {
+        continue;
+      }
+      const copied = copiedBySerial.get(device.serialNumber);
+      if (!copied) {
+        missing.push(device.serialNumber);
+        continue;
+      }
+      const differences = RECONCILED_FIELDS
+        .filter(field => device[field] !== undefined && device[field] !== copied[field])
+        .map(field => `${field}: ${device[field]} → ${copied[field] ?? '(none)'}`);
+      const copiedSourceKeys = new Set(getSourceKeys(copied));
+      const missingSources = getSourceKeys(device).filter(key => !copiedSourceKeys.has(key));
+      if (missingSources.length > 0) {
+        differences.push(`missing sources: ${missingSources.join(', ')}`);
+      }
+      if (differences.length > 0) {
+        mismatches.push(`${device.serialNumber} (${differences.join('; ')})`);
+      }
+    }
+
+    const sourceCount = devices.reduce((count, device) => count + (device.sources?.length || 0), 0);
+    console.log('\nReconciliation summary:');
+    console.log(`  Devices in SQLite:          ${devices.length}`);
+    console.log(`  Inserted:                   ${outcomes.inserted}`);
+    console.log(`  Updated (already existed):  ${outcomes.updated}`);
+    console.log(`  Unchanged:                  ${outcomes.unchanged}`);
+    console.log(`  Skipped (invalid):          ${outcomes.rejected}`);
+    console.log(`  Source records linked:      ${sourceCount}`);
+    console.log(`  Devices with entitlements:  ${entitlementDevices}`);
+    console.log(`  Devices for the user now:   ${copiedBySerial.size}`);
+    console.log(`  Missing in PostgreSQL:      ${missing.length}`);
+    console.log(`  Field mismatches:           ${mismatches.length}`);
+
+    printSample('missing', missing);
+    printSample('mismatch', mismatches);
+
+    if (missing.length > 0 || mismatches.length > 0) {
+      console.error('\n❌ Some devices did not copy cleanly (see above)');
+      process.exitCode = 1;
+    } else {
+      console.log('\n✅ All devices copied');
+    }
+  } finally {
+    await source.close();
+    await target.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Migration to SaaS failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
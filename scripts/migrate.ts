@@ -0,0 +1,71 @@
+import { config } from 'dotenv';
+
+/**
+ * Lists and applies schema migrations for the configured database
+ * (SQLite in self-hosted mode, PostgreSQL in SaaS mode).
+ *
+ *   npm run migrate            # same as "list"
+ *   npm run migrate -- list    # show applied and pending migrations
+ *   npm run migrate -- up      # apply pending migrations
+ *
+ * The server applies pending migrations on start, so "up" is only needed to
+ * migrate ahead of a deploy or to see a failing migration's error directly.
+ */
+
+// Same environment files as Next.js, loaded before the app config is read
+config({ path: '.env.local' });
+config();
+
+function formatAppliedAt(appliedAt?: number): string {
+  return appliedAt ? new Date(appliedAt * 1000).toISOString() : 'pending';
+}
+
+async function main() {
+  const command = process.argv[2] || 'list';
+  if (command !== 'list' && command !== 'up') {
+    console.error(`Unknown command: ${command}. Use "list" or "up".`);
+    process.exit(1);
+  }
+
+  const { getDatabaseAdapter } = await import('../lib/database/factory');
+  const { MIGRATIONS } = await import('../lib/database/migrations');
+  const { isSaaSMode } = await import('../lib/config');
+  const adapter = getDatabaseAdapter();
+
+  try {
+    if (command === 'up') {
+      const applied = await adapter.applyPendingMigrations();
+      if (applied.length === 0) {
+        console.log('✅ Database schema is up to date');
+      }
+      applied.forEach(migration => {
+        console.log(`✅ Applied ${String(migration.version).padStart(3, '0')} ${migration.name}`);
+      });
+      return;
+    }
+
+    const migrations = await adapter.getSchemaMigrations();
+    const dialect = isSaaSMode() ? 'postgres' : 'sqlite';
+    const knownVersions = new Set(MIGRATIONS[dialect].map(migration => migration.version));
+
+    console.log(`Schema migrations (${isSaaSMode() ? 'PostgreSQL' : 'SQLite'}):`);
+    migrations.forEach(migration => {
+      const note = knownVersions.has(migration.version) ? '' : '  (unknown - applied by a newer release)';
+      console.log(
+        `  ${String(migration.version).padStart(3, '0')}  ${migration.name.padEnd(30)} ${formatAppliedAt(migration.appliedAt)}${note}`
+      );
+    });
+
+    const pendingCount = migrations.filter(migration => !migration.appliedAt).length;
+    console.log(pendingCount > 0
+      ? `\n${pendingCount} pending - run "npm run migrate -- up" to apply`
+      : '\nDatabase schema is up to date');
+  } finally {
+    await adapter.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Migration failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
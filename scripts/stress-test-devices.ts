@@ -1,6 +1,6 @@
 import { Device } from '../types/device';
 import { Manufacturer } from '../types/manufacturer';
-import { insertOrUpdateDevice } from '../lib/database/service';
+import { bulkUpsertDevices } from '../lib/database/service';
 
 // Configuration
 const TOTAL_DEVICES = 5000;
@@ -164,8 +164,11 @@ function generateDevice(index: number): Device {
 }
 
 async function insertDeviceBatch(devices: Device[]): Promise<void> {
-  const promises = devices.map(device => insertOrUpdateDevice(device));
-  await Promise.all(promises);
+  const results = await bulkUpsertDevices(devices);
+  const rejected = results.filter(result => result.outcome === 'rejected');
+  if (rejected.length > 0) {
+    throw new Error(`${rejected.length} devices rejected: ${rejected[0].error}`);
+  }
 }
 
 async function main() {
@@ -16,11 +16,26 @@ export interface LenovoCredentials {
   // Add other Lenovo-specific fields if any
 }
 
+export interface AppleCredentials {
+  apiUrl: string; // Coverage endpoint base URL (e.g. an Apple Business Manager / GSX bridge)
+  apiKey: string;
+}
+
+export interface MicrosoftCredentials {
+  apiUrl: string; // Surface warranty/coverage endpoint
+  tokenUrl: string; // OAuth 2.0 client-credentials token endpoint
+  clientId: string;
+  clientSecret: string;
+  scope?: string;
+}
+
 // Add other manufacturer credential interfaces as needed
 
 export interface ManufacturerCredentials {
   [Manufacturer.DELL]?: DellCredentials;
   [Manufacturer.HP]?: HPCredentials;
   [Manufacturer.LENOVO]?: LenovoCredentials;
+  [Manufacturer.APPLE]?: AppleCredentials;
+  [Manufacturer.MICROSOFT]?: MicrosoftCredentials;
   // Add other manufacturers here
 } 
\ No newline at end of file
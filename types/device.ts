@@ -1,4 +1,5 @@
 import { Manufacturer } from './manufacturer';
+import { WarrantyEntitlement, WarrantyLookupStatus } from './warranty';
 
 export interface NetworkInterface {
   macAddress: string;
@@ -6,6 +7,19 @@ export interface NetworkInterface {
   ipv6?: string;
 }
 
+// A device's record in one source platform. The same physical device can be in
+// several platforms (e.g. Datto RMM and HaloPSA), each with its own ID and client name.
+export interface DeviceSource {
+  platform: string;
+  sourceDeviceId: string; // ID in the source platform
+  clientName?: string; // Client name as the platform reports it
+  firstSeenAt: number; // Unix epoch timestamp of the first import that included this record
+  lastSeenAt: number; // Unix epoch timestamp of the last import that included this record
+  warrantyWrittenBackAt?: number; // Unix epoch timestamp when warranty was last written back to this record
+}
+
+export type DeviceSourceRef = Pick<DeviceSource, 'platform' | 'sourceDeviceId'>;
+
 export interface Device {
   id?: string; // Primary key for database
   serialNumber: string;
@@ -15,20 +29,99 @@ export interface Device {
   clientId?: string;
   clientName?: string;
   deviceClass?: string;
-  sourcePlatform?: string; // Which platform this device came from
-  sourceDeviceId?: string; // ID in the source platform
+  sourcePlatform?: string; // Which platform this device was last imported from
+  sourceDeviceId?: string; // ID in that platform
+  sources?: DeviceSource[]; // Every platform record of this device (stored in device_sources)
   
   // Warranty information (integrated into device record)
   warrantyStartDate?: string; // YYYY-MM-DD
   warrantyEndDate?: string; // YYYY-MM-DD
   warrantyFetchedAt?: number; // Unix epoch timestamp when warranty was last fetched
   warrantyWrittenBackAt?: number; // Unix epoch timestamp when warranty was written back to source
+  warrantyLookupAttemptedAt?: number; // Unix epoch timestamp of the last lookup, successful or not
+  warrantyLookupStatus?: WarrantyLookupStatus; // Outcome of the last lookup
+  warrantyLookupError?: string; // Error message from the last lookup, cleared when a lookup succeeds
+  warrantyLookupAttempts?: number; // Number of lookups attempted, successful or not
+  entitlements?: WarrantyEntitlement[]; // Coverage line items (stored in device_entitlements)
   
   // Computed fields (not stored in DB, calculated at runtime)
-  needsWarrantyLookup?: boolean;
+  needsWarrantyLookup?: boolean; // Due for a lookup under the warranty refresh policy
 
   // System information (optional, from RMM platforms)
-  totalMemory?: number;
+  totalMemory?: number; // Bytes
   totalCpuCores?: number;
   networkInterfaces?: NetworkInterface[];
-} 
\ No newline at end of file
+
+  deletedAt?: number; // Unix epoch timestamp when the device was moved to the trash
+}
+
+// Device fields that can be edited by hand on the device detail page
+export type DeviceDetailsUpdate = Pick<
+  Device,
+  'hostname' | 'model' | 'clientName' | 'deviceClass' | 'warrantyStartDate' | 'warrantyEndDate'
+>; 
+
+export type DeviceWarrantyStatus = 'active' | 'expired' | 'unknown';
+
+// Fields the device inventory can be sorted by
+export type DeviceSortField =
+  | 'hostname'
+  | 'serialNumber'
+  | 'clientName'
+  | 'manufacturer'
+  | 'warrantyStartDate'
+  | 'warrantyEndDate'
+  | 'sourcePlatform'
+  | 'warrantyFetchedAt';
+
+export interface DeviceFilter {
+  search?: string; // Matches hostname, serial number, client name, manufacturer or model
+  status?: DeviceWarrantyStatus;
+  clientName?: string;
+  manufacturer?: Manufacturer;
+  sourcePlatform?: string;
+  expiresWithinDays?: number; // Active warranties ending within this many days
+  lookupStatus?: WarrantyLookupStatus | 'failed' | 'never'; // 'failed' matches any unsuccessful lookup
+}
+
+/**
+ * Devices to move to the trash. Conditions combine (a client's devices in one
+ * platform); an empty filter matches every device.
+ */
+export interface DeviceDeleteFilter {
+  clientName?: string;
+  platform?: string; // Last imported from, or linked to a record in, this platform
+  deviceIds?: string[];
+}
+
+export interface DeviceSort {
+  field: DeviceSortField;
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * One page of the device inventory. Pages are keyset-paginated: pass the
+ * nextCursor of a page as the cursor of the next query, with the same filter and sort.
+ */
+export interface DeviceQuery {
+  filter?: DeviceFilter;
+  sort?: DeviceSort;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface DeviceQueryResult {
+  devices: Device[]; // Including entitlements
+  nextCursor?: string; // Undefined on the last page
+  totalCount: number; // Devices matching the filter, across all pages
+}
+
+// What a bulk import did with one incoming device
+export type DeviceUpsertOutcome = 'inserted' | 'updated' | 'unchanged' | 'rejected';
+
+export interface DeviceUpsertResult {
+  serialNumber: string;
+  outcome: DeviceUpsertOutcome;
+  deviceId?: string; // Unset for rejected devices
+  error?: string; // Why the device was rejected
+}
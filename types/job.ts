@@ -0,0 +1,38 @@
+import { ManufacturerCredentials } from './credentials';
+
+export type JobType = 'warranty-lookup';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'canceled';
+
+export interface WarrantyLookupJobParams {
+  serialNumbers: string[]; // Devices to look up, resolved when the job is enqueued
+  manufacturerCredentials?: ManufacturerCredentials; // Self-hosted only (SaaS uses env); cleared when the job finishes
+}
+
+export interface JobFailure {
+  serialNumber: string;
+  error: string;
+}
+
+export interface Job {
+  id: string;
+  userId?: string; // Owner in SaaS mode, undefined in self-hosted mode
+  type: JobType;
+  status: JobStatus;
+  params: WarrantyLookupJobParams;
+  totalItems: number;
+  processedItems: number; // Also the resume point after a server restart
+  failedItems: number;
+  failures: JobFailure[];
+  error?: string; // Set when the whole job failed
+  createdAt: number; // Unix epoch timestamps
+  startedAt?: number;
+  finishedAt?: number;
+  updatedAt: number;
+}
+
+export interface JobProgress {
+  processedItems: number;
+  failedItems: number;
+  failures: JobFailure[];
+}
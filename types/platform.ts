@@ -2,10 +2,18 @@ export enum Platform {
   DATTO_RMM = 'DattoRMM',
   NCENTRAL = 'N-central',
   HALOPSA = 'HaloPSA',
+  NINJAONE = 'NinjaOne',
+  CONNECTWISE_AUTOMATE = 'ConnectWiseAutomate',
+  CONNECTWISE_MANAGE = 'ConnectWiseManage',
+  AUTOTASK = 'Autotask',
+  INTUNE = 'Intune',
   CSV = 'CSV'
   // Future platforms would be added here
 }
 
+// Platforms with an API to import devices from and write warranties back to
+export type SyncPlatform = Exclude<Platform, Platform.CSV>;
+
 export interface PlatformCredentials {
   [Platform.DATTO_RMM]?: {
     url?: string;
@@ -21,5 +29,34 @@ export interface PlatformCredentials {
     clientId?: string;
     clientSecret?: string;
   };
+  [Platform.NINJAONE]?: {
+    url?: string;
+    clientId?: string;
+    clientSecret?: string;
+    warrantyEndField?: string;
+    warrantyStartField?: string;
+  };
+  [Platform.CONNECTWISE_AUTOMATE]?: {
+    serverUrl?: string;
+    clientId?: string;
+    username?: string;
+    password?: string;
+  };
+  [Platform.CONNECTWISE_MANAGE]?: {
+    url?: string;
+    companyId?: string;
+    publicKey?: string;
+    privateKey?: string;
+    clientId?: string;
+  };
+  [Platform.AUTOTASK]?: {
+    username?: string;
+    secret?: string;
+    integrationCode?: string;
+  };
+  [Platform.INTUNE]?: {
+    tenants?: string;
+    clientSecrets?: string;
+  };
   [Platform.CSV]?: object;
 } 
\ No newline at end of file
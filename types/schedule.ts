@@ -0,0 +1,50 @@
+import { PlatformCredentials, SyncPlatform } from './platform';
+import { ManufacturerCredentials } from './credentials';
+
+export type ScheduleRunStatus = 'running' | 'completed' | 'failed';
+
+export interface SyncScheduleCredentials {
+  platform: PlatformCredentials[SyncPlatform]; // Platform credentials live in the browser, so schedules keep their own copy
+  manufacturer?: ManufacturerCredentials; // Self-hosted only (SaaS uses env)
+}
+
+// Fields a user can set when creating or editing a schedule
+export interface SyncScheduleInput {
+  name: string;
+  platform: SyncPlatform;
+  cronExpression: string; // Standard 5-field cron, evaluated in the server's local time zone
+  enabled: boolean;
+  lookupWarranties: boolean; // Look up devices due under the warranty refresh policy after importing
+  writeBack: boolean; // Write new warranty info back to the platform
+  credentials?: SyncScheduleCredentials;
+}
+
+export interface SyncSchedule extends SyncScheduleInput {
+  id: string;
+  userId?: string; // Owner in SaaS mode, undefined in self-hosted mode
+  nextRunAt?: number; // Unix epoch timestamps
+  lastRunAt?: number;
+  lastRunStatus?: ScheduleRunStatus;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ScheduleRunStats {
+  devicesImported: number;
+  devicesLookedUp: number;
+  lookupsFailed: number;
+  devicesWrittenBack: number;
+  writeBacksFailed: number;
+}
+
+export interface ScheduleRun extends ScheduleRunStats {
+  id: string;
+  scheduleId: string;
+  scheduleName?: string; // Joined from the schedule for the run history view
+  userId?: string;
+  platform: SyncPlatform;
+  status: ScheduleRunStatus;
+  error?: string; // Set when the whole run failed
+  startedAt: number; // Unix epoch timestamps
+  finishedAt?: number;
+}
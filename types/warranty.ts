@@ -1,6 +1,46 @@
 import { Manufacturer } from './manufacturer';
 
+/**
+ * A single coverage line item returned by a warranty provider
+ * (e.g. "Next Business Day Onsite" or "Accidental Damage")
+ */
+export interface WarrantyEntitlement {
+  serviceLevelCode?: string; // Provider-specific code, e.g. Dell's "ND"
+  description: string;
+  startDate?: string;       // YYYY-MM-DD
+  endDate?: string;         // YYYY-MM-DD
+  provider: string;         // Warranty provider that returned this item (e.g. 'dell')
+}
+
+/**
+ * Outcome of the last warranty lookup for a device.
+ * 'error' covers failures that don't fit a more specific status (e.g. network errors).
+ */
+export type WarrantyLookupStatus =
+  | 'success'
+  | 'not_found'
+  | 'invalid_serial'
+  | 'auth_error'
+  | 'rate_limited'
+  | 'unsupported_manufacturer'
+  | 'error';
+
+// Where a device's warranty dates came from
+export type WarrantyHistorySource = 'manufacturer_api' | 'platform_import' | 'csv' | 'manual';
+
+/**
+ * A distinct warranty start/end pair a device has had, e.g. before and after
+ * a ProSupport extension
+ */
+export interface WarrantyHistoryEntry {
+  startDate?: string;       // YYYY-MM-DD
+  endDate?: string;         // YYYY-MM-DD
+  source: WarrantyHistorySource;
+  recordedAt: number;       // Unix epoch timestamp when these dates were first seen
+}
+
 export interface WarrantyInfo {
+  deviceId?: string;        // Database ID of the device, for linking to its detail page
   serialNumber: string;
   hostname?: string;        // Device hostname/name
   clientName?: string;      // Client/customer name
@@ -9,6 +49,7 @@ export interface WarrantyInfo {
   endDate: string;
   productDescription?: string;
   coverageDetails?: string[];
+  entitlements?: WarrantyEntitlement[]; // Individual coverage line items, when the provider returns them
   
   // Additional fields for tracking sync status
   writtenBack?: boolean;    // Whether this info was written back to the source
@@ -16,6 +57,11 @@ export interface WarrantyInfo {
   error?: boolean;          // Whether there was an error processing this device
   fromCache?: boolean;      // Whether this info was retrieved from local database
   lastUpdated?: string;     // ISO datetime when warranty was last fetched from API
-  deviceSource?: string;    // Platform where device originally came from (CSV, Datto RMM, etc.)
+  deviceSource?: string;    // Platforms the device is in, comma-separated (CSV, Datto RMM, etc.)
   errorMessage?: string;    // For displaying specific error messages
+  lookupStatus?: WarrantyLookupStatus; // Outcome of the last lookup, undefined if never looked up
+  lookupMessage?: string;   // Error message of the last lookup, if it failed
+  lookupAttempts?: number;  // Number of lookups attempted for this device
+  totalMemory?: number;     // Bytes, from the source platform
+  totalCpuCores?: number;   // From the source platform
 } 
\ No newline at end of file